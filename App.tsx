@@ -10,6 +10,7 @@ import { PersistGate } from 'redux-persist/integration/react';
 import { store, persistor } from './src/state/store';
 import AppNavigator from './src/navigation/AppNavigator';
 import ErrorBoundary from './src/components/ErrorBoundary';
+import UndoSnackbar from './src/components/UndoSnackbar';
 
 function App() {
   return (
@@ -24,6 +25,7 @@ function App() {
           persistor={persistor}
         >
           <AppNavigator />
+          <UndoSnackbar />
         </PersistGate>
       </Provider>
     </ErrorBoundary>
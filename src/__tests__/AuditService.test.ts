@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { createJob, modifyJob, recordPayment } from '../state/slices/jobsSlice';
+import historyReducer, { undo } from '../state/slices/historySlice';
+import { diffJobs, formatAuditValue, getJobAuditTrail, recordJobAudit } from '../services/AuditService';
+import { auditRepository } from '../services/Repository';
+import { Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('AuditService', () => {
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Fence repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('diffJobs', () => {
+    it('lists each changed field with its old and new value', () => {
+      expect(diffJobs(job(), job({ quote: 250, status: 'Accepted', endDate: '2024-02-01' }))).toEqual([
+        { field: 'quote', from: 100, to: 250 },
+        { field: 'endDate', from: '2024-01-03', to: '2024-02-01' },
+        { field: 'status', from: 'Quoted', to: 'Accepted' },
+      ]);
+    });
+
+    it('summarises lists and treats missing optional fields as empty', () => {
+      const expense = { id: 'e1', description: 'Lumber', amount: 40, isReimbursable: false, date: '2024-01-02' };
+      expect(diffJobs(job({ notes: undefined }), job({ notes: 'Gate', expenses: [expense] }))).toEqual([
+        { field: 'expenses', from: '0 items', to: '1 item' },
+        { field: 'notes', from: null, to: 'Gate' },
+      ]);
+      expect(diffJobs(job(), job({ notes: undefined }))).toEqual([]);
+    });
+  });
+
+  it('formats quotes as currency and blanks as empty', () => {
+    expect(formatAuditValue('quote', 80)).toBe('$80.00');
+    expect(formatAuditValue('notes', null)).toBe('(empty)');
+  });
+
+  it('skips saves that change nothing', async () => {
+    expect(await recordJobAudit(job(), job(), 'JobsScreen')).toBeNull();
+    expect(await auditRepository.getAll()).toEqual([]);
+  });
+
+  describe('through modifyJob', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+    it('appends an entry per save with its source, newest first', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+      await store.dispatch(modifyJob({ job: job({ quote: 150 }), source: 'AddEditJobScreen' }));
+      await store.dispatch(modifyJob({ job: job({ quote: 150, status: 'Accepted' }), source: 'JobsScreen' }));
+
+      const trail = await getJobAuditTrail('j1');
+      expect(trail.map((entry) => [entry.source, entry.changes])).toEqual([
+        [
+          'JobsScreen',
+          [
+            { field: 'status', from: 'Quoted', to: 'Accepted' },
+            { field: 'statusHistory', from: null, to: '1 item' },
+            { field: 'quoteRevisions', from: null, to: '1 item' },
+            { field: 'acceptedRevision', from: null, to: 1 },
+          ],
+        ],
+        ['AddEditJobScreen', [{ field: 'quote', from: 100, to: 150 }]],
+      ]);
+    });
+
+    it('keeps earlier entries when the change is undone', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+      await store.dispatch(modifyJob({ job: job({ quote: 150 }), source: 'AddEditJobScreen' }));
+      await store.dispatch(undo());
+
+      const trail = await getJobAuditTrail('j1');
+      expect(trail).toHaveLength(2);
+      expect(trail.map((entry) => entry.source).sort()).toEqual(['AddEditJobScreen', 'Undo']);
+      expect(trail.find((entry) => entry.source === 'Undo')!.changes).toEqual([
+        { field: 'quote', from: 150, to: 100 },
+      ]);
+    });
+  });
+
+  describe('through recordPayment', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+    const payment = (id: string, amount: number) => ({
+      id,
+      jobId: 'j1',
+      amount,
+      method: 'cash' as const,
+      status: 'completed' as const,
+      paymentDate: '2024-03-05',
+    });
+
+    it('records the status change when a payment in full completes the job', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job({ status: 'In-Progress' })));
+      await store.dispatch(recordPayment(payment('p1', 40)));
+      expect(await getJobAuditTrail('j1')).toEqual([]);
+
+      await store.dispatch(recordPayment(payment('p2', 60)));
+
+      const [entry, ...rest] = await getJobAuditTrail('j1');
+      expect(rest).toEqual([]);
+      expect(entry.source).toBe('Payment');
+      expect(entry.changes).toEqual(
+        expect.arrayContaining([
+          { field: 'status', from: 'In-Progress', to: 'Completed' },
+          { field: 'payments', from: '1 item', to: '2 items' },
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BACKUP_FORMAT,
+  createBackupArchive,
+  importBackup,
+  parseBackupArchive,
+  previewBackup,
+} from '../services/BackupService';
+import {
+  auditRepository,
+  clientsRepository,
+  inventoryRepository,
+  jobsRepository,
+  seriesRepository,
+  templatesRepository,
+} from '../services/Repository';
+import { Client, InventoryItem, Job, JobSeries, JobTemplate } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// In-memory stand-in for the device file system
+const mockFiles = new Map<string, string>();
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+  getInfoAsync: jest.fn(async (uri: string) => ({
+    exists: mockFiles.has(uri) || [...mockFiles.keys()].some((path) => path.startsWith(uri)),
+  })),
+  readAsStringAsync: jest.fn(async (uri: string) => mockFiles.get(uri)),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  }),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+}));
+jest.mock('expo-sharing', () => ({ isAvailableAsync: jest.fn(async () => false) }));
+jest.mock('expo-document-picker', () => ({}));
+
+describe('BackupService', () => {
+  const settings = { userEmail: 'me@example.com', smsOnly: true, trashRetentionDays: 7 };
+
+  const client = (id: string, overrides: Partial<Client> = {}): Client => ({
+    id,
+    fullName: `Client ${id}`,
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: `${id}@example.com`,
+    createdDate: '2024-01-01',
+    ...overrides,
+  });
+
+  const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const withReceipt = (id: string, uri: string): Job =>
+    job(id, {
+      expenses: [
+        {
+          id: 'e1',
+          description: 'Lumber',
+          amount: 40,
+          isReimbursable: false,
+          date: '2024-01-02',
+          receiptImageLocalUri: uri,
+        },
+      ],
+      payments: [
+        {
+          id: 'p1',
+          jobId: id,
+          amount: 50,
+          method: 'cash',
+          status: 'completed',
+          paymentDate: '2024-01-03',
+        },
+      ],
+      toolsAndSupplies: [{ id: 't1', text: 'Saw', completed: false, createdDate: '2024-01-01' }],
+      notes: 'Side gate',
+    });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockFiles.clear();
+  });
+
+  it('bundles clients, jobs, settings, audit trail and receipt images', async () => {
+    const audit = {
+      id: 'a1',
+      jobId: 'j1',
+      timestamp: '2024-01-05T00:00:00.000Z',
+      source: 'JobsScreen',
+      changes: [{ field: 'quote' as const, from: 80, to: 100 }],
+    };
+    mockFiles.set('file:///docs/receipts/r1.jpg', 'aW1hZ2U=');
+    await auditRepository.replaceAll([audit]);
+    await clientsRepository.replaceAll([client('c1')]);
+    await jobsRepository.replaceAll([withReceipt('j1', 'file:///docs/receipts/r1.jpg'), job('j2')]);
+
+    const archive = await createBackupArchive(settings);
+
+    expect(archive.format).toBe(BACKUP_FORMAT);
+    expect(archive.data.clients).toHaveLength(1);
+    expect(archive.data.jobs[0].payments).toHaveLength(1);
+    expect(archive.data.settings).toEqual(settings);
+    expect(archive.data.auditTrail).toEqual([audit]);
+    expect(archive.receipts).toEqual({ 'j1/e1': { fileName: 'r1.jpg', base64: 'aW1hZ2U=' } });
+  });
+
+  it('round-trips through replace mode and restores receipt files', async () => {
+    mockFiles.set('file:///old/r1.jpg', 'aW1hZ2U=');
+    await clientsRepository.replaceAll([client('c1')]);
+    await jobsRepository.replaceAll([withReceipt('j1', 'file:///old/r1.jpg')]);
+    const archive = parseBackupArchive(JSON.stringify(await createBackupArchive(settings)));
+
+    await clientsRepository.replaceAll([client('other')]);
+    await jobsRepository.replaceAll([]);
+    mockFiles.clear();
+
+    const result = await importBackup(archive, { mode: 'replace' });
+
+    expect(result).toEqual(
+      expect.objectContaining({ clients: 1, jobs: 1, receiptsRestored: 1, settings })
+    );
+    expect((await clientsRepository.getAll()).map((c) => c.id)).toEqual(['c1']);
+    const [restored] = await jobsRepository.getAll();
+    expect(restored.expenses[0].receiptImageLocalUri).toBe('file:///docs/receipts/j1_r1.jpg');
+    expect(mockFiles.get('file:///docs/receipts/j1_r1.jpg')).toBe('aW1hZ2U=');
+    expect(restored.toolsAndSupplies).toHaveLength(1);
+    expect(restored.notes).toBe('Side gate');
+
+    // Restoring the restored copy again keeps the same file name
+    const again = parseBackupArchive(JSON.stringify(await createBackupArchive(settings)));
+    await importBackup(again, { mode: 'replace' });
+    expect((await jobsRepository.getAll())[0].expenses[0].receiptImageLocalUri).toBe(
+      'file:///docs/receipts/j1_r1.jpg'
+    );
+  });
+
+  it('round-trips templates, recurring series and inventory through replace mode', async () => {
+    const template: JobTemplate = {
+      id: 't1',
+      name: 'Lawn',
+      createdDate: '2024-01-01',
+      jobName: 'Lawn care',
+      description: 'Mow and edge',
+      quote: 60,
+      toolsAndSupplies: ['Trimmer line'],
+    };
+    const series: JobSeries = {
+      id: 's1',
+      clientId: 'c1',
+      clientName: 'Client c1',
+      templateId: 't1',
+      rule: 'FREQ=WEEKLY',
+      startDate: '2024-01-02',
+      durationDays: 0,
+      details: template,
+      exdates: ['2024-01-09'],
+      generatedThrough: '2024-02-01',
+      createdDate: '2024-01-01',
+    };
+    const line: InventoryItem = {
+      id: 'i1',
+      name: 'Trimmer line',
+      kind: 'consumable',
+      quantityOnHand: 2,
+      unitCost: 8,
+      reorderThreshold: 1,
+      createdDate: '2024-01-01',
+      usage: [{ jobId: 'j1', quantity: 1, date: '2024-01-02T00:00:00.000Z' }],
+    };
+    await clientsRepository.replaceAll([client('c1')]);
+    await jobsRepository.replaceAll([job('j1')]);
+    await templatesRepository.replaceAll([template]);
+    await seriesRepository.replaceAll([series]);
+    await inventoryRepository.replaceAll([line]);
+    const archive = parseBackupArchive(JSON.stringify(await createBackupArchive(settings)));
+
+    await templatesRepository.replaceAll([{ ...template, id: 't2' }]);
+    await seriesRepository.replaceAll([]);
+    await inventoryRepository.replaceAll([{ ...line, id: 'i2', usage: [] }]);
+
+    const result = await importBackup(archive, { mode: 'replace' });
+
+    expect(result).toMatchObject({ templates: 1, series: 1, inventoryItems: 1 });
+    expect(await templatesRepository.getAll()).toEqual([template]);
+    expect(await seriesRepository.getAll()).toEqual([series]);
+    expect(await inventoryRepository.getAll()).toEqual([line]);
+  });
+
+  it('leaves the device data as it was when an import fails part way', async () => {
+    await clientsRepository.replaceAll([client('c1')]);
+    await jobsRepository.replaceAll([job('j1')]);
+    const archive = parseBackupArchive(JSON.stringify(await createBackupArchive(settings)));
+    await clientsRepository.replaceAll([client('other')]);
+    await jobsRepository.replaceAll([job('j2')]);
+    jest.spyOn(auditRepository, 'replaceAll').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(importBackup(archive, { mode: 'replace' })).rejects.toThrow('disk full');
+
+    expect((await clientsRepository.getAll()).map((c) => c.id)).toEqual(['other']);
+    expect((await jobsRepository.getAll()).map((j) => j.id)).toEqual(['j2']);
+  });
+
+  it('keeps same-named receipts from different jobs apart', async () => {
+    mockFiles.set('file:///phone/receipt.jpg', 'cGhvbmU=');
+    mockFiles.set('file:///tablet/receipt.jpg', 'dGFibGV0');
+    await clientsRepository.replaceAll([client('c1')]);
+    await jobsRepository.replaceAll([
+      withReceipt('j1', 'file:///phone/receipt.jpg'),
+      withReceipt('j2', 'file:///tablet/receipt.jpg'),
+    ]);
+    const archive = parseBackupArchive(JSON.stringify(await createBackupArchive(settings)));
+    mockFiles.clear();
+
+    await importBackup(archive, { mode: 'replace' });
+
+    const uris = (await jobsRepository.getAll()).map((j) => j.expenses[0].receiptImageLocalUri!);
+    expect(uris).toEqual(['file:///docs/receipts/j1_receipt.jpg', 'file:///docs/receipts/j2_receipt.jpg']);
+    expect(uris.map((uri) => mockFiles.get(uri))).toEqual(['cGhvbmU=', 'dGFibGV0']);
+  });
+
+  describe('merge mode', () => {
+    const archiveOf = (clients: Client[], jobs: Job[]) =>
+      parseBackupArchive(
+        JSON.stringify({
+          format: BACKUP_FORMAT,
+          formatVersion: 1,
+          schemaVersion: 2,
+          createdAt: '2024-02-01T00:00:00.000Z',
+          data: { clients, jobs, settings },
+          receipts: {},
+        })
+      );
+
+    beforeEach(async () => {
+      await clientsRepository.replaceAll([client('c1')]);
+      await jobsRepository.replaceAll([job('j1', { quote: 300 })]);
+    });
+
+    it('previews new and conflicting records', async () => {
+      const preview = await previewBackup(
+        archiveOf([client('c1'), client('c2')], [job('j1', { quote: 250 }), job('j2')])
+      );
+      expect(preview.clients).toEqual({ inBackup: 2, new: 1, conflicting: 0 });
+      expect(preview.jobs).toEqual({ inBackup: 2, new: 1, conflicting: 1 });
+    });
+
+    it('reads a job saved without an expense list as having none', async () => {
+      // An undefined field is left out of the JSON file
+      const archive = archiveOf([], [job('j2', { expenses: undefined })]);
+
+      expect(archive.data.jobs[0].expenses).toEqual([]);
+      expect((await previewBackup(archive)).expenses).toBe(0);
+    });
+
+    it('keeps device records on conflict by default', async () => {
+      const result = await importBackup(archiveOf([], [job('j1', { quote: 250 }), job('j2')]), {
+        mode: 'merge',
+      });
+      expect(result.conflictsResolved).toBe(1);
+      expect((await jobsRepository.getAll()).map((j) => [j.id, j.quote])).toEqual([
+        ['j1', 300],
+        ['j2', 100],
+      ]);
+      expect(await clientsRepository.getAll()).toHaveLength(1);
+    });
+
+    it('takes backup records on conflict when asked', async () => {
+      await importBackup(archiveOf([], [job('j1', { quote: 250 })]), {
+        mode: 'merge',
+        conflictResolution: 'useBackup',
+      });
+      expect((await jobsRepository.getAll()).map((j) => j.quote)).toEqual([250]);
+    });
+  });
+
+  describe('parseBackupArchive', () => {
+    const valid = {
+      format: BACKUP_FORMAT,
+      formatVersion: 1,
+      schemaVersion: 2,
+      createdAt: '2024-02-01T00:00:00.000Z',
+      data: { clients: [], jobs: [], settings },
+      receipts: {},
+    };
+
+    it.each([
+      ['not json', 'Backup file is not valid JSON'],
+      [JSON.stringify({ ...valid, format: 'other' }), 'File is not an OYHustle backup'],
+      [JSON.stringify({ ...valid, formatVersion: 99 }), 'newer version of the app'],
+      [JSON.stringify({ ...valid, schemaVersion: 99 }), 'newer schema'],
+      [JSON.stringify({ ...valid, data: { clients: [{}], jobs: [] } }), 'missing its client or job list'],
+      [
+        JSON.stringify({ ...valid, data: { clients: [], jobs: [job('j'), job('j')] } }),
+        'duplicate job id "j"',
+      ],
+    ])('rejects %s', (contents, message) => {
+      expect(() => parseBackupArchive(contents)).toThrow(message);
+    });
+
+    it('upgrades records from older schema versions', () => {
+      const archive = parseBackupArchive(
+        JSON.stringify({
+          ...valid,
+          schemaVersion: 0,
+          data: { clients: [{ id: 'c', name: 'Ana' }], jobs: [{ id: 'j', title: 'Fence', pay: '80' }] },
+        })
+      );
+      expect(archive.data.jobs[0]).toEqual(expect.objectContaining({ jobName: 'Fence', quote: 80 }));
+      expect(archive.data.clients[0].fullName).toBe('Ana');
+      expect(archive.data.settings).toEqual({ userEmail: '', smsOnly: false, trashRetentionDays: 30 });
+    });
+  });
+});
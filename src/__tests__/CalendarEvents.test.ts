@@ -0,0 +1,84 @@
+import {
+  buildCalendarEvents,
+  canReschedule,
+  eventsByDate,
+  markedDatesFor,
+  rescheduleEvent,
+} from '../services/CalendarEvents';
+import { JOB_STATUS_COLORS } from '../constants/theme';
+import { Job, Visit } from '../types';
+
+describe('CalendarEvents', () => {
+  const visit = (id: string, overrides: Partial<Visit> = {}): Visit => ({
+    id,
+    date: '2024-03-06',
+    startTime: '08:00',
+    endTime: '12:00',
+    workers: ['Marco'],
+    status: 'Scheduled',
+    ...overrides,
+  });
+
+  const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-03-01',
+    startDate: '2024-03-05',
+    endDate: '2024-03-08',
+    status: 'Accepted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const jobs = [
+    job('j1', {
+      visits: [visit('v1'), visit('v2', { date: '2024-03-07', status: 'Cancelled' })],
+      payments: [
+        { id: 'p1', jobId: 'j1', amount: 50, method: 'cash', status: 'pending', paymentDate: '2024-03-08T09:00:00.000Z' },
+        { id: 'p2', jobId: 'j1', amount: 50, method: 'cash', status: 'completed', paymentDate: '2024-03-05' },
+      ],
+    }),
+    job('j2', { status: 'In-Progress', startDate: '2024-03-06', endDate: '2024-03-06' }),
+  ];
+
+  it('lists start and end dates, live visits and pending payments by day', () => {
+    const events = buildCalendarEvents(jobs);
+
+    expect(events.map((event) => event.key)).toEqual([
+      'j1:start',
+      'j2:start',
+      'j1:visit:v1',
+      'j1:end',
+      'j1:payment:p1',
+    ]);
+    expect(eventsByDate(events)['2024-03-08'].map((event) => event.kind)).toEqual(['end', 'payment']);
+
+    const marked = markedDatesFor(events, '2024-03-07');
+    expect(marked['2024-03-06'].dots).toEqual([
+      { key: 'In-Progress', color: JOB_STATUS_COLORS['In-Progress'] },
+      { key: 'Accepted', color: JOB_STATUS_COLORS.Accepted },
+    ]);
+    expect(marked['2024-03-07']).toMatchObject({ dots: [], selected: true });
+  });
+
+  it('moves a job, its end date or a visit to a new day', () => {
+    const [start, , visitEvent, end, payment] = buildCalendarEvents(jobs);
+
+    expect(rescheduleEvent(jobs[0], start, '2024-03-11')).toMatchObject({ startDate: '2024-03-11', endDate: '2024-03-14' });
+    expect(rescheduleEvent(jobs[0], end, '2024-03-10')).toMatchObject({ startDate: '2024-03-05', endDate: '2024-03-10' });
+    expect(rescheduleEvent(jobs[0], visitEvent, '2024-03-04').visits!.map((v) => [v.id, v.date])).toEqual([
+      ['v1', '2024-03-04'],
+      ['v2', '2024-03-07'],
+    ]);
+    expect(rescheduleEvent(job('j3', { seriesId: 's1' }), { ...start, jobId: 'j3' }, '2024-03-06').seriesOverride).toBe(true);
+
+    expect(() => rescheduleEvent(jobs[0], start, '2024-02-28')).toThrow('before it was quoted');
+    expect(() => rescheduleEvent(jobs[0], end, '2024-03-04')).toThrow('before it starts');
+    expect(canReschedule(payment)).toBe(false);
+    expect(() => rescheduleEvent(jobs[0], payment, '2024-03-09')).toThrow('payment');
+  });
+});
@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  commitCsvImport,
+  dryRunCsvImport,
+  guessColumnMapping,
+  normalizeImportDate,
+  parseCsv,
+} from '../services/CsvImportService';
+import { clientsRepository, jobsRepository } from '../services/Repository';
+import { Client } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('CsvImportService', () => {
+  const existingClient: Client = {
+    id: 'client-1',
+    fullName: 'Ana Cruz',
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: 'ana@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('parseCsv', () => {
+    it('handles quoted commas, escaped quotes, CRLF and blank lines', () => {
+      const rows = parseCsv('\uFEFFName,Notes\r\n"Cruz, Ana","Said ""hi"""\r\n\r\nBo,"two\nlines"\n');
+      expect(rows).toEqual([
+        ['Name', 'Notes'],
+        ['Cruz, Ana', 'Said "hi"'],
+        ['Bo', 'two\nlines'],
+      ]);
+    });
+  });
+
+  it('guesses mappings from common header spellings', () => {
+    expect(guessColumnMapping('clients', ['Customer', 'E-mail', 'Mobile', 'Street'])).toEqual({
+      fullName: 0,
+      emailAddress: 1,
+      phoneNumber: 2,
+      address: 3,
+    });
+    expect(guessColumnMapping('jobs', ['Title', 'Client', 'Price', 'Date', 'Stage'])).toEqual({
+      jobName: 0,
+      clientName: 1,
+      quote: 2,
+      startDate: 3,
+      status: 4,
+    });
+  });
+
+  it('normalizes ISO and US dates and rejects impossible ones', () => {
+    expect(normalizeImportDate('2024-3-5')).toBe('2024-03-05');
+    expect(normalizeImportDate('12/31/2024')).toBe('2024-12-31');
+    expect(normalizeImportDate('2/30/2024')).toBeNull();
+    expect(normalizeImportDate('next week')).toBeNull();
+  });
+
+  describe('dryRunCsvImport', () => {
+    it('reports duplicate clients and bad emails per row', () => {
+      const rows = parseCsv(
+        'Name,Email\nAna Cruz,ana@example.com\nBo Lee,bo@example.com\nbo lee,\nCy,not-an-email'
+      );
+      const report = dryRunCsvImport('clients', rows, { fullName: 0, emailAddress: 1 }, [existingClient]);
+
+      expect(report.totalRows).toBe(4);
+      expect(report.validRows).toBe(1);
+      expect(report.clientsToCreate.map((c) => c.fullName)).toEqual(['Bo Lee']);
+      expect(report.errors).toEqual([
+        { row: 2, field: 'fullName', message: 'Duplicate client "Ana Cruz"' },
+        { row: 4, field: 'fullName', message: 'Duplicate client "bo lee"' },
+        { row: 5, field: 'emailAddress', message: 'Invalid email "not-an-email"' },
+      ]);
+    });
+
+    it('validates job dates, statuses and quotes and resolves clients by name', () => {
+      const rows = parseCsv(
+        [
+          'Job,Client,Quote,Start,Status',
+          'Deck,ana cruz,"$1,200",3/4/2024,in progress',
+          'Fence,New Person,300,2024-05-01,',
+          'Roof,Ana Cruz,abc,2024-13-01,Paused',
+        ].join('\n')
+      );
+      const mapping = guessColumnMapping('jobs', rows[0]);
+      const report = dryRunCsvImport('jobs', rows, mapping, [existingClient]);
+
+      expect(report.validRows).toBe(2);
+      expect(report.errors.map((e) => [e.row, e.field])).toEqual([
+        [4, 'quote'],
+        [4, 'status'],
+        [4, 'startDate'],
+      ]);
+      expect(report.jobsToCreate[0]).toEqual(
+        expect.objectContaining({
+          jobName: 'Deck',
+          clientId: 'client-1',
+          quote: 1200,
+          startDate: '2024-03-04',
+          quoteDate: '2024-03-04',
+          status: 'In-Progress',
+        })
+      );
+      expect(report.jobsToCreate[1].status).toBe('Quoted');
+      expect(report.clientsToCreate.map((c) => c.fullName)).toEqual(['New Person']);
+      expect(report.jobsToCreate[1].clientId).toBe(report.clientsToCreate[0].id);
+      expect(report.warnings).toHaveLength(1);
+    });
+
+    it('fails fast when a required column is not mapped', () => {
+      const report = dryRunCsvImport('jobs', [['Job'], ['Deck']], { jobName: 0 }, []);
+      expect(report.errors).toEqual([
+        { row: 1, field: 'clientName', message: 'Client (by name) column is not mapped' },
+      ]);
+    });
+  });
+
+  describe('commitCsvImport', () => {
+    const jobRows = parseCsv('Job,Client\nDeck,New Person');
+
+    it('appends new clients and jobs to the stored collections', async () => {
+      await clientsRepository.replaceAll([existingClient]);
+      const report = dryRunCsvImport('jobs', jobRows, { jobName: 0, clientName: 1 }, [existingClient]);
+
+      await commitCsvImport(report);
+
+      expect((await clientsRepository.getAll()).map((c) => c.fullName)).toEqual(['Ana Cruz', 'New Person']);
+      expect((await jobsRepository.getAll()).map((j) => j.jobName)).toEqual(['Deck']);
+    });
+
+    it('refuses reports with errors', async () => {
+      const report = dryRunCsvImport('jobs', [['Job'], ['Deck']], { jobName: 0 }, []);
+      await expect(commitCsvImport(report)).rejects.toThrow('Fix the reported CSV errors');
+    });
+
+    it('restores clients when the job write fails', async () => {
+      await clientsRepository.replaceAll([existingClient]);
+      const report = dryRunCsvImport('jobs', jobRows, { jobName: 0, clientName: 1 }, [existingClient]);
+      const setJobs = jest.spyOn(jobsRepository, 'replaceAll').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(commitCsvImport(report)).rejects.toThrow('disk full');
+
+      expect(await clientsRepository.getAll()).toEqual([existingClient]);
+      expect(await jobsRepository.getAll()).toEqual([]);
+      setJobs.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  InMemoryKeyStore,
+  decryptString,
+  encryptString,
+  getActiveKeyId,
+  getKeyStore,
+  initializeEncryption,
+  isEncrypted,
+  setKeyStore,
+} from '../services/EncryptionService';
+import {
+  PERSISTED_STATE_KEY,
+  migrateToEncryptedStorage,
+  rotateEncryptionKey,
+} from '../services/EncryptionMigration';
+import {
+  MIGRATION_BACKUP_KEY,
+  MIGRATION_CONFLICTS_KEY,
+  clientsRepository,
+  jobsRepository,
+  migrateLegacyPersistedCollections,
+} from '../services/Repository';
+import { setSyncTransport, synchronize } from '../services/SyncService';
+import { FakeSyncServer } from '../services/FakeSyncServer';
+import { flushOutbox, resetOutbox, submitWrite } from '../services/OutboxService';
+import { encryptTransform } from '../state/encryptTransform';
+import { Client, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Encryption', () => {
+  const client: Client = {
+    id: 'c1',
+    fullName: 'Ana Reyes',
+    address: '12 Mango St',
+    phoneNumber: '555-0142',
+    emailAddress: 'ana@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  const job: Job = {
+    id: 'j1',
+    jobName: 'Fence repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Ana Reyes',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Completed',
+    expenses: [],
+    payments: [
+      {
+        id: 'p1',
+        jobId: 'j1',
+        amount: 100,
+        method: 'gcash',
+        status: 'completed',
+        transactionId: 'TXN-98765',
+        paymentDate: '2024-01-04',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    setKeyStore(new InMemoryKeyStore());
+    await initializeEncryption();
+  });
+
+  it('round trips values and never reuses an IV', () => {
+    const first = encryptString('555-0142');
+    const second = encryptString('555-0142');
+
+    expect(isEncrypted(first)).toBe(true);
+    expect(first).not.toContain('555-0142');
+    expect(first).not.toBe(second);
+    expect(decryptString(first)).toBe('555-0142');
+  });
+
+  it('rejects tampered ciphertext and passes plaintext through', () => {
+    const parts = encryptString('secret').split(':');
+    parts[4] = parts[4].startsWith('A') ? `B${parts[4].slice(1)}` : `A${parts[4].slice(1)}`;
+
+    expect(() => decryptString(parts.join(':'))).toThrow('integrity check');
+    expect(decryptString('555-0142')).toBe('555-0142');
+  });
+
+  it('keeps the keyring in the key store across launches', async () => {
+    const keyId = getActiveKeyId();
+    const encrypted = encryptString('ana@example.com');
+
+    setKeyStore(getKeyStore());
+    await initializeEncryption();
+
+    expect(getActiveKeyId()).toBe(keyId);
+    expect(decryptString(encrypted)).toBe('ana@example.com');
+  });
+
+  it('stores client contact details and payment references as ciphertext', async () => {
+    await clientsRepository.insert(client);
+    await jobsRepository.insert(job);
+
+    const rawClients = (await AsyncStorage.getItem(clientsRepository.key))!;
+    const rawJobs = (await AsyncStorage.getItem(jobsRepository.key))!;
+    expect(rawClients).toContain('Ana Reyes');
+    expect(rawClients).not.toContain('555-0142');
+    expect(rawClients).not.toContain('ana@example.com');
+    expect(rawClients).not.toContain('12 Mango St');
+    expect(rawJobs).not.toContain('TXN-98765');
+
+    expect(await clientsRepository.getAll()).toEqual([client]);
+    expect((await jobsRepository.getAll())[0].payments![0].transactionId).toBe('TXN-98765');
+  });
+
+  it('encrypts persisted state through the transform', () => {
+    const settings = { userEmail: 'ana@example.com', trashRetentionDays: 30 };
+    const inbound = encryptTransform.in(settings, 'settings', {});
+
+    expect(isEncrypted(inbound)).toBe(true);
+    expect(encryptTransform.out(inbound, 'settings', {})).toEqual(settings);
+    // Slices saved before encryption are still readable
+    expect(encryptTransform.out(settings, 'settings', {})).toEqual(settings);
+  });
+
+  describe('migration', () => {
+    const writePlaintext = async () => {
+      setKeyStore(new InMemoryKeyStore());
+      await clientsRepository.insert(client);
+      await jobsRepository.insert(job);
+      await AsyncStorage.setItem(
+        PERSISTED_STATE_KEY,
+        JSON.stringify({
+          settings: JSON.stringify({ userEmail: 'ana@example.com' }),
+          _persist: JSON.stringify({ version: 3, rehydrated: true }),
+        })
+      );
+      await initializeEncryption();
+    };
+
+    it('encrypts data written before encryption was enabled', async () => {
+      await writePlaintext();
+      expect(await AsyncStorage.getItem(clientsRepository.key)).toContain('555-0142');
+
+      await migrateToEncryptedStorage();
+
+      expect(await AsyncStorage.getItem(clientsRepository.key)).not.toContain('555-0142');
+      expect(await AsyncStorage.getItem(jobsRepository.key)).not.toContain('TXN-98765');
+      const persisted = JSON.parse((await AsyncStorage.getItem(PERSISTED_STATE_KEY))!);
+      expect(persisted._persist).toBe(JSON.stringify({ version: 3, rehydrated: true }));
+      expect(persisted.settings).not.toContain('ana@example.com');
+      expect(encryptTransform.out(JSON.parse(persisted.settings), 'settings', {})).toEqual({
+        userEmail: 'ana@example.com',
+      });
+      expect(await clientsRepository.getAll()).toEqual([client]);
+    });
+
+    it('keeps no plaintext copies of clients merged from the legacy persisted state', async () => {
+      await clientsRepository.insert(client);
+      await migrateLegacyPersistedCollections([], [{ ...client, phoneNumber: '555-0199' }]);
+
+      expect(await AsyncStorage.getItem(MIGRATION_BACKUP_KEY)).toBeNull();
+      const conflicts = (await AsyncStorage.getItem(MIGRATION_CONFLICTS_KEY))!;
+      expect(isEncrypted(conflicts)).toBe(true);
+      expect(JSON.parse(decryptString(conflicts)).clients[0].discarded.phoneNumber).toBe('555-0199');
+
+      // Builds before encryption wrote them as plaintext
+      await AsyncStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify({ clients: [client] }));
+      await AsyncStorage.setItem(MIGRATION_CONFLICTS_KEY, decryptString(conflicts));
+      await migrateToEncryptedStorage();
+
+      expect(await AsyncStorage.getItem(MIGRATION_BACKUP_KEY)).not.toContain('555-0142');
+      expect(await AsyncStorage.getItem(MIGRATION_CONFLICTS_KEY)).not.toContain('555-0199');
+      expect(decryptString((await AsyncStorage.getItem(MIGRATION_CONFLICTS_KEY))!)).toContain('555-0199');
+    });
+
+    it('re-encrypts under a new key and retires the old one', async () => {
+      await writePlaintext();
+      await migrateToEncryptedStorage();
+      const oldKeyId = getActiveKeyId()!;
+
+      await rotateEncryptionKey();
+
+      expect(getActiveKeyId()).not.toBe(oldKeyId);
+      expect(await AsyncStorage.getItem(clientsRepository.key)).not.toContain(`enc:1:${oldKeyId}:`);
+      expect(await clientsRepository.getAll()).toEqual([client]);
+      expect((await jobsRepository.getAll())[0].payments![0].transactionId).toBe('TXN-98765');
+
+      const keyring = JSON.parse((await getKeyStore().getItem('oyhustle_encryption_keyring'))!);
+      expect(Object.keys(keyring.keys)).toEqual([getActiveKeyId()]);
+    });
+
+    it('keeps the sync state and pending writes readable after a rotation', async () => {
+      setSyncTransport(new FakeSyncServer());
+      await clientsRepository.insert(client);
+      await synchronize();
+      // A write that fails now is kept in the outbox for later
+      const insert = jest.spyOn(jobsRepository, 'insert').mockRejectedValueOnce(new Error('disk full'));
+      expect(await submitWrite('jobs', job.id, job)).toEqual({ queued: true });
+      insert.mockRestore();
+
+      await rotateEncryptionKey();
+      // As on the next launch, read both back from storage
+      resetOutbox();
+
+      expect(await flushOutbox({ force: true })).toBe(0);
+      expect(await jobsRepository.getAll()).toEqual([job]);
+      await expect(synchronize()).resolves.toMatchObject({ pushed: 1 });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { changeJobStatus, createJob, removePayment } from '../state/slices/jobsSlice';
+import clientsReducer from '../state/slices/clientsSlice';
+import historyReducer, { redo, undo } from '../state/slices/historySlice';
+import {
+  HISTORY_COALESCE_WINDOW_MS,
+  HistoryEntry,
+  MAX_HISTORY_ENTRIES,
+  compactHistory,
+  recordChange,
+} from '../services/HistoryService';
+import { jobsRepository } from '../services/Repository';
+import { denormalizeJobs } from '../state/jobEntities';
+import { Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('history', () => {
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Fence repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const entry = (id: string, seconds: number, before: Job | null, after: Job | null): HistoryEntry => ({
+    id,
+    label: id,
+    recordedAt: new Date(Date.UTC(2024, 0, 1, 0, 0, seconds)).toISOString(),
+    changes: [recordChange('jobs', before, after)],
+  });
+
+  describe('compactHistory', () => {
+    it('drops entries that change nothing', () => {
+      expect(compactHistory([], entry('a', 0, job(), job()))).toEqual([]);
+    });
+
+    it('folds quick edits to the same record into one step', () => {
+      const first = entry('a', 0, job(), job({ status: 'Accepted' }));
+      const second = entry('b', 1, job({ status: 'Accepted' }), job({ status: 'In-Progress' }));
+
+      const past = compactHistory(compactHistory([], first), second);
+
+      expect(past).toHaveLength(1);
+      expect(past[0].id).toBe('b');
+      expect(past[0].changes[0].before).toEqual(job());
+      expect(past[0].changes[0].after).toEqual(job({ status: 'In-Progress' }));
+    });
+
+    it('removes the step when a quick follow-up reverts it', () => {
+      const older = entry('older', 0, job({ id: 'j2' }), job({ id: 'j2', quote: 5 }));
+      const change = entry('a', 10, job(), job({ status: 'Cancelled' }));
+      const revert = entry('b', 11, job({ status: 'Cancelled' }), job());
+
+      const past = compactHistory(compactHistory([older], change), revert);
+
+      expect(past.map((e) => e.id)).toEqual(['older']);
+    });
+
+    it('keeps edits apart once the coalesce window has passed', () => {
+      const seconds = HISTORY_COALESCE_WINDOW_MS / 1000 + 1;
+      const first = entry('a', 0, job(), job({ quote: 150 }));
+      const second = entry('b', seconds, job({ quote: 150 }), job({ quote: 200 }));
+
+      expect(compactHistory(compactHistory([], first), second)).toHaveLength(2);
+    });
+
+    it('ignores key order when checking for no-op changes', () => {
+      const { id, jobName, ...rest } = job();
+      const reordered = { ...rest, jobName, id } as Job;
+      expect(compactHistory([], entry('a', 0, job(), reordered))).toEqual([]);
+    });
+
+    it('caps the stack by discarding the oldest steps', () => {
+      let past: HistoryEntry[] = [];
+      for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+        past = compactHistory(past, entry(`e${i}`, i * 10, job({ id: `j${i}` }), job({ id: `j${i}`, quote: i })));
+      }
+      expect(past).toHaveLength(MAX_HISTORY_ENTRIES);
+      expect(past[0].id).toBe('e5');
+    });
+  });
+
+  describe('undo and redo', () => {
+    const makeStore = () =>
+      configureStore({
+        reducer: { jobs: jobsReducer, clients: clientsReducer, history: historyReducer },
+      });
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('reverts a status change in state and storage, then reapplies it', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+      await store.dispatch(
+        changeJobStatus({ jobId: 'j1', status: 'Cancelled', reason: 'Client declined', source: 'JobsScreen' })
+      );
+      expect(store.getState().history.undoPrompt?.label).toBe('Status changed to Cancelled');
+
+      await store.dispatch(undo());
+      expect(denormalizeJobs(store.getState().jobs)[0].status).toBe('Quoted');
+      expect((await jobsRepository.getAll())[0].status).toBe('Quoted');
+      expect(store.getState().history.undoPrompt).toBeNull();
+
+      await store.dispatch(redo());
+      expect(denormalizeJobs(store.getState().jobs)[0].status).toBe('Cancelled');
+      expect((await jobsRepository.getAll())[0].status).toBe('Cancelled');
+    });
+
+    it('brings back a removed payment', async () => {
+      const store = makeStore();
+      const payment = { id: 'p1', jobId: 'j1', amount: 40, method: 'cash' as const, status: 'completed' as const, paymentDate: '2024-01-04' };
+      await store.dispatch(createJob(job({ payments: [payment] })));
+
+      await store.dispatch(removePayment({ jobId: 'j1', paymentId: 'p1' }));
+      expect((await jobsRepository.getAll())[0].payments).toEqual([]);
+
+      await store.dispatch(undo());
+      expect((await jobsRepository.getAll())[0].payments).toEqual([payment]);
+    });
+
+    it('undoes a job creation and clears the redo stack on a new change', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+      await store.dispatch(undo());
+      expect(denormalizeJobs(store.getState().jobs)).toEqual([]);
+      expect(await jobsRepository.getAll()).toEqual([]);
+      expect(store.getState().history.future).toHaveLength(1);
+
+      await store.dispatch(createJob(job({ id: 'j2' })));
+      expect(store.getState().history.future).toEqual([]);
+    });
+  });
+});
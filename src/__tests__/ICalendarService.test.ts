@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildICalendar,
+  commitIcsImport,
+  jobEventUid,
+  parseICalendar,
+  planIcsImport,
+} from '../services/ICalendarService';
+import { clientsRepository, jobsRepository } from '../services/Repository';
+import { localDay } from '../services/Recurrence';
+import { Client, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('ICalendarService', () => {
+  const client: Client = {
+    id: 'c1',
+    fullName: 'Ana Cruz',
+    address: '12 Oak St, Springfield',
+    phoneNumber: '555-0001',
+    emailAddress: 'ana@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Ana Cruz',
+    quote: 100,
+    quoteDate: '2024-03-01',
+    startDate: '2024-03-05',
+    endDate: '2024-03-07',
+    status: 'Accepted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const now = new Date('2024-03-01T12:00:00.000Z');
+
+  const jobs = [
+    job('j1', {
+      jobName: 'Deck; stain, seal',
+      description: 'Two coats\nBack gate too — ask for the key from the neighbour across the street before starting',
+      visits: [
+        { id: 'v1', date: '2024-03-05', startTime: '08:00', endTime: '12:30', workers: ['Marco', 'Ana'], status: 'Scheduled', notes: 'Bring ladder' },
+      ],
+    }),
+    job('j2', { startDate: '2024-04-10', endDate: '2024-04-10', status: 'Quoted' }),
+  ];
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('writes folded, escaped events with stable UIDs for a date range', () => {
+    const ics = buildICalendar(jobs, [client], { now });
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(ics).toContain('SUMMARY:Deck\\; stain\\, seal');
+    expect(ics).toContain('LOCATION:12 Oak St\\, Springfield');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240305\r\nDTEND;VALUE=DATE:20240308');
+    expect(ics).toContain('DTSTART:20240305T080000\r\nDTEND:20240305T123000');
+    expect(ics).toContain(`RELATED-TO:${jobEventUid('j1')}`);
+    expect(buildICalendar(jobs, [client], { now: new Date() }).match(/UID:.*/g)).toEqual(ics.match(/UID:.*/g));
+
+    const april = buildICalendar(jobs, [client], { now, from: '2024-04-01', to: '2024-04-30' });
+    expect(april.match(/UID:.*/g)).toEqual([`UID:${jobEventUid('j2')}`]);
+  });
+
+  it('round-trips jobs and their visits through a file as Quoted drafts', async () => {
+    const events = parseICalendar(buildICalendar(jobs, [client], { now }));
+    const plan = planIcsImport(events, [], [], now);
+
+    expect(plan.skipped).toEqual([]);
+    expect(plan.clientsToCreate).toMatchObject([{ fullName: 'Ana Cruz', address: '12 Oak St, Springfield' }]);
+    expect(plan.jobsToCreate).toMatchObject([
+      {
+        id: 'j1',
+        jobName: 'Deck; stain, seal',
+        description: jobs[0].description,
+        clientName: 'Ana Cruz',
+        startDate: '2024-03-05',
+        endDate: '2024-03-07',
+        status: 'Quoted',
+        quote: 0,
+        visits: jobs[0].visits,
+      },
+      { id: 'j2', startDate: '2024-04-10', endDate: '2024-04-10', status: 'Quoted' },
+    ]);
+
+    await commitIcsImport(plan);
+    expect((await jobsRepository.getAll()).map((j) => j.id)).toEqual(['j1', 'j2']);
+
+    // Importing the same file again, or into the device it came from, adds nothing
+    const again = planIcsImport(events, await jobsRepository.getAll(), await clientsRepository.getAll(), now);
+    expect(again.jobsToCreate).toEqual([]);
+    expect(again.skipped.map((skipped) => skipped.reason)).toEqual([
+      'Already in the app',
+      'Already in the app',
+      'Visit on a job that is not being imported',
+    ]);
+  });
+
+  it('imports events from other calendar apps, including repeating ones', () => {
+    const file = [
+      'BEGIN:VCALENDAR',
+      'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+      'BEGIN:VEVENT',
+      'UID:abc123@google.com',
+      'DTSTART:20240306T150000Z',
+      'DTEND:20240306T160000Z',
+      'SUMMARY:Estimate for a new fen',
+      ' ce',
+      'LOCATION:12 Oak St\\, Springfield',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly@example.com',
+      'DTSTART;VALUE=DATE:20240304',
+      'DTEND;VALUE=DATE:20240305',
+      'RRULE:FREQ=WEEKLY;COUNT=4',
+      'EXDATE;VALUE=DATE:20240311',
+      'SUMMARY:Lawn care',
+      'CONTACT:Bo Lee',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly@example.com',
+      'RECURRENCE-ID;VALUE=DATE:20240318',
+      'DTSTART;VALUE=DATE:20240319',
+      'DTEND;VALUE=DATE:20240320',
+      'SUMMARY:Lawn care (moved)',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:gone@example.com',
+      'DTSTART;VALUE=DATE:20240308',
+      'SUMMARY:Called off',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const plan = planIcsImport(parseICalendar(file), [], [client], now);
+    const estimateStart = new Date(Date.UTC(2024, 2, 6, 15));
+
+    expect(plan.jobsToCreate.map((j) => [j.jobName, j.startDate, j.clientName])).toEqual([
+      ['Estimate for a new fence', localDay(estimateStart), 'Ana Cruz'],
+      ['Lawn care', '2024-03-04', 'Bo Lee'],
+      ['Lawn care (moved)', '2024-03-19', 'Bo Lee'],
+      ['Lawn care', '2024-03-25', 'Bo Lee'],
+    ]);
+    expect(plan.jobsToCreate[0].description).toBe('');
+    expect(plan.clientsToCreate.map((c) => c.fullName)).toEqual(['Bo Lee']);
+    expect(plan.skipped).toMatchObject([{ summary: 'Called off', reason: 'Cancelled in the calendar' }]);
+
+    expect(() => parseICalendar('Name,Date\nDeck,2024-03-05')).toThrow('not an iCalendar');
+  });
+});
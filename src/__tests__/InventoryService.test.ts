@@ -0,0 +1,184 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { changeJobStatus, createJob, recordPayment } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import inventoryReducer, { storeInventoryItem } from '../state/slices/inventorySlice';
+import {
+  buildShoppingList,
+  consumeSupplies,
+  linkChecklistToInventory,
+  needsReorder,
+  supplyNeeds,
+} from '../services/InventoryMatching';
+import { saveInventoryItem } from '../services/InventoryService';
+import { inventoryRepository, jobsRepository } from '../services/Repository';
+import { ChecklistItem, InventoryItem, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('InventoryService', () => {
+  const stock = (id: string, overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+    id,
+    name: `Item ${id}`,
+    kind: 'consumable',
+    quantityOnHand: 10,
+    unitCost: 5,
+    reorderThreshold: 0,
+    createdDate: '2024-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const supply = (id: string, inventoryItemId?: string, quantity?: number): ChecklistItem => ({
+    id,
+    text: `Supply ${id}`,
+    completed: false,
+    createdDate: '2024-03-01T00:00:00.000Z',
+    ...(inventoryItemId && { inventoryItemId }),
+    ...(quantity !== undefined && { quantity }),
+  });
+
+  const job = (id: string, toolsAndSupplies: ChecklistItem[], overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-03-01',
+    startDate: '2024-03-05',
+    endDate: '2024-03-07',
+    status: 'Accepted',
+    expenses: [],
+    toolsAndSupplies,
+    ...overrides,
+  });
+
+  const inventory = [
+    stock('cloth', { name: 'Drop cloth', quantityOnHand: 3, reorderThreshold: 2, unit: 'sheets' }),
+    stock('ladder', { name: 'Ladder', kind: 'tool', quantityOnHand: 1, unitCost: 120 }),
+    stock('tape', { name: 'Tape', quantityOnHand: 1, reorderThreshold: 4, unitCost: 3.5 }),
+  ];
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('uses up linked consumables once per job, never below zero', () => {
+    const painting = job('j1', [
+      supply('s1', 'cloth', 2),
+      supply('s2', 'cloth'),
+      supply('s3', 'ladder', 1),
+      supply('s4'),
+      supply('s5', 'deleted-item'),
+    ]);
+    const at = new Date('2024-03-07T17:00:00.000Z');
+
+    expect(supplyNeeds(painting)).toEqual([
+      { itemId: 'cloth', quantity: 3 },
+      { itemId: 'ladder', quantity: 1 },
+      { itemId: 'deleted-item', quantity: 1 },
+    ]);
+    const used = consumeSupplies(painting, inventory, at);
+    // The ladder is a tool and comes back after the job
+    expect(used).toEqual([
+      {
+        ...inventory[0],
+        quantityOnHand: 0,
+        updatedDate: at.toISOString(),
+        usage: [{ jobId: 'j1', quantity: 3, date: at.toISOString() }],
+      },
+    ]);
+    expect(consumeSupplies(painting, used, at)).toEqual([]);
+    expect(consumeSupplies(job('j1', [supply('s1', 'tape', 5)]), inventory, at)[0].quantityOnHand).toBe(0);
+
+    expect(linkChecklistToInventory([{ ...supply('s6'), text: ' drop CLOTH ' }, supply('s7')], inventory)).toEqual([
+      { ...supply('s6', 'cloth', 1), text: ' drop CLOTH ' },
+      supply('s7'),
+    ]);
+  });
+
+  it('lists what upcoming jobs need beyond what is on hand, plus low stock', () => {
+    const jobs = [
+      job('j1', [supply('s1', 'cloth', 2), supply('s2', 'ladder', 1)]),
+      job('j2', [supply('s1', 'cloth', 2), supply('s2', 'ladder', 2)], {
+        startDate: '2024-03-20',
+        endDate: '2024-03-21',
+      }),
+      // Not going ahead, finished, or too far out
+      job('j3', [supply('s1', 'cloth', 50)], { status: 'Quoted' }),
+      job('j4', [supply('s1', 'cloth', 50)], { status: 'Completed' }),
+      job('j5', [supply('s1', 'cloth', 50)], { startDate: '2024-06-01', endDate: '2024-06-02' }),
+    ];
+
+    const list = buildShoppingList(jobs, inventory, { today: '2024-03-04' });
+
+    expect(list.map((entry) => [entry.item.id, entry.needed, entry.toBuy, entry.estimatedCost])).toEqual([
+      // 4 for the two jobs and 2 left over, with 3 on hand
+      ['cloth', 4, 3, 15],
+      // A tool is reused, so the largest single job sets the need
+      ['ladder', 2, 1, 120],
+      ['tape', 0, 3, 10.5],
+    ]);
+    expect(list[0].jobs.map((need) => need.id)).toEqual(['j1', 'j2']);
+    expect(inventory.filter(needsReorder).map((item) => item.id)).toEqual(['tape']);
+  });
+
+  it('takes stock out when a job is completed through the jobs slice', async () => {
+    const store = configureStore({
+      reducer: { jobs: jobsReducer, history: historyReducer, inventory: inventoryReducer },
+    });
+    await store.dispatch(storeInventoryItem(inventory[0]));
+    await store.dispatch(createJob(job('j1', [supply('s1', 'cloth', 2)], { status: 'In-Progress' })));
+
+    await store.dispatch(changeJobStatus({ jobId: 'j1', status: 'Completed', source: 'test' })).unwrap();
+    expect((await inventoryRepository.getById('cloth'))!.quantityOnHand).toBe(1);
+    expect(store.getState().inventory.items[0].quantityOnHand).toBe(1);
+
+    // Reopening and completing again does not use the supplies twice
+    await store.dispatch(changeJobStatus({ jobId: 'j1', status: 'In-Progress', reason: 'Touch-up', source: 'test' }));
+    await store.dispatch(changeJobStatus({ jobId: 'j1', status: 'Completed', source: 'test' })).unwrap();
+    expect((await inventoryRepository.getById('cloth'))!.quantityOnHand).toBe(1);
+
+    await expect(saveInventoryItem(stock('bad', { name: ' ' }))).rejects.toThrow('needs a name');
+    await expect(saveInventoryItem(stock('bad', { unitCost: -1 }))).rejects.toThrow('Unit cost must be zero or more');
+  });
+
+  it('takes stock out when a payment in full completes the job', async () => {
+    const store = configureStore({
+      reducer: { jobs: jobsReducer, history: historyReducer, inventory: inventoryReducer },
+    });
+    await store.dispatch(storeInventoryItem(inventory[0]));
+    await store.dispatch(createJob(job('j1', [supply('s1', 'cloth', 2)], { status: 'In-Progress' })));
+
+    const paid = await store
+      .dispatch(
+        recordPayment({ id: 'p1', jobId: 'j1', amount: 100, method: 'cash', status: 'completed', paymentDate: '2024-03-07' })
+      )
+      .unwrap();
+
+    expect(paid.status).toBe('Completed');
+    expect((await inventoryRepository.getById('cloth'))!.quantityOnHand).toBe(1);
+    expect(store.getState().inventory.items[0].quantityOnHand).toBe(1);
+  });
+
+  it('judges a payment in full by the stored job, not the loaded copy', async () => {
+    const store = configureStore({
+      reducer: { jobs: jobsReducer, history: historyReducer, inventory: inventoryReducer },
+    });
+    await store.dispatch(storeInventoryItem(inventory[0]));
+    await store.dispatch(createJob(job('j1', [supply('s1', 'cloth', 2)], { status: 'Completed' })));
+    // Reopened elsewhere, so the loaded copy is out of date
+    await jobsRepository.replaceAll([job('j1', [supply('s1', 'cloth', 2)], { status: 'In-Progress' })]);
+
+    const paid = await store
+      .dispatch(
+        recordPayment({ id: 'p1', jobId: 'j1', amount: 100, method: 'cash', status: 'completed', paymentDate: '2024-03-07' })
+      )
+      .unwrap();
+
+    expect(paid.status).toBe('Completed');
+    expect((await inventoryRepository.getById('cloth'))!.quantityOnHand).toBe(1);
+  });
+});
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { changeJobStatus, createJob, modifyJob, recordPayment } from '../state/slices/jobsSlice';
+import historyReducer, { undo } from '../state/slices/historySlice';
+import { availableTransitions, checkTransition, transitionJob } from '../services/JobLifecycle';
+import { jobsRepository } from '../services/Repository';
+import { denormalizeJobs } from '../state/jobEntities';
+import { Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('JobLifecycle', () => {
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Deck repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const at = new Date(2024, 2, 5, 9, 30);
+
+  describe('transitions', () => {
+    it('only allows the moves the lifecycle lists', () => {
+      expect(checkTransition(job(), 'Accepted')).toEqual({ allowed: true, requiresReason: false });
+      expect(checkTransition(job(), 'Completed')).toEqual({
+        allowed: false,
+        requiresReason: false,
+        reason: 'A Quoted job cannot be moved to Completed',
+      });
+      expect(checkTransition(job({ status: 'Cancelled' }), 'In-Progress').allowed).toBe(false);
+      expect(
+        availableTransitions(job({ status: 'In-Progress' }))
+          .filter((t) => t.allowed)
+          .map((t) => [t.to, t.requiresReason])
+      ).toEqual([
+        ['On-Hold', true],
+        ['Completed', false],
+        ['Cancelled', true],
+      ]);
+    });
+
+    it('requires a reason to cancel and records it in the status log', () => {
+      expect(() => transitionJob(job(), 'Cancelled', { source: 'Test', reason: '  ' })).toThrow(
+        'A reason is required to move a job to Cancelled'
+      );
+
+      const { job: cancelled } = transitionJob(job(), 'Cancelled', { source: 'Test', reason: 'Client declined', at });
+      expect(cancelled.status).toBe('Cancelled');
+      expect(cancelled.statusHistory).toEqual([
+        { from: 'Quoted', to: 'Cancelled', at: at.toISOString(), source: 'Test', reason: 'Client declined' },
+      ]);
+    });
+
+    it('resumes a held job only to the status it was held from', () => {
+      const { job: started } = transitionJob(job({ status: 'Accepted' }), 'In-Progress', { source: 'Test', at });
+      const { job: held } = transitionJob(started, 'On-Hold', { source: 'Test', reason: 'Waiting on parts' });
+
+      expect(checkTransition(held, 'Accepted')).toMatchObject({
+        allowed: false,
+        reason: 'This job was put on hold while In-Progress; resume it as In-Progress',
+      });
+      const { job: resumed } = transitionJob(held, 'In-Progress', { source: 'Test', at: new Date(2024, 2, 9) });
+      // Resuming keeps the date work first started
+      expect(resumed.actualStartDate).toBe('2024-03-05');
+      expect(resumed.statusHistory!.map((entry) => entry.to)).toEqual(['In-Progress', 'On-Hold', 'In-Progress']);
+    });
+
+    it('stamps the actual dates and asks for a final invoice on completion', () => {
+      const result = transitionJob(job({ status: 'In-Progress', actualStartDate: '2024-03-01' }), 'Completed', {
+        source: 'Test',
+        at,
+      });
+      expect(result.job).toMatchObject({ actualStartDate: '2024-03-01', actualEndDate: '2024-03-05' });
+      expect(result.effects).toEqual(['finalInvoice']);
+
+      const reopened = transitionJob(result.job, 'In-Progress', { source: 'Test', reason: 'Missed a board' });
+      expect(reopened.job).not.toHaveProperty('actualEndDate');
+      expect(reopened.effects).toEqual([]);
+    });
+  });
+
+  describe('through the jobs slice', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('changes status, returns the follow-up effects and can be undone', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job({ status: 'In-Progress' })));
+
+      const { effects } = await store
+        .dispatch(changeJobStatus({ jobId: 'j1', status: 'Completed', source: 'JobsScreen' }))
+        .unwrap();
+
+      expect(effects).toEqual(['finalInvoice']);
+      const stored = (await jobsRepository.getById('j1'))!;
+      expect(stored.status).toBe('Completed');
+      expect(stored.actualEndDate).toBeDefined();
+      expect(denormalizeJobs(store.getState().jobs)[0]).toEqual(stored);
+
+      await store.dispatch(undo());
+      expect((await jobsRepository.getById('j1'))!).toEqual(job({ status: 'In-Progress' }));
+    });
+
+    it('refuses an illegal status change from a form or the picker', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job({ status: 'Cancelled' })));
+
+      const edited = await store.dispatch(modifyJob({ job: job({ status: 'In-Progress' }), source: 'AddEditJobScreen' }));
+      const picked = await store.dispatch(changeJobStatus({ jobId: 'j1', status: 'Quoted', source: 'JobsScreen' }));
+
+      expect(edited.meta.requestStatus).toBe('rejected');
+      expect(picked).toMatchObject({
+        meta: { requestStatus: 'rejected' },
+        error: { message: 'A reason is required to move a job to Quoted' },
+      });
+      expect((await jobsRepository.getById('j1'))!.status).toBe('Cancelled');
+    });
+
+    it('completes a job paid in full only when the lifecycle allows it', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job({ id: 'j1', status: 'In-Progress' })));
+      await store.dispatch(createJob(job({ id: 'j2', status: 'Quoted' })));
+      const payment = (jobId: string) => ({
+        id: `p_${jobId}`,
+        jobId,
+        amount: 100,
+        method: 'cash' as const,
+        status: 'completed' as const,
+        paymentDate: '2024-03-05',
+      });
+
+      const inProgress = await store.dispatch(recordPayment(payment('j1'))).unwrap();
+      const quoted = await store.dispatch(recordPayment(payment('j2'))).unwrap();
+
+      expect(inProgress.status).toBe('Completed');
+      expect(inProgress.statusHistory).toEqual([
+        expect.objectContaining({ from: 'In-Progress', to: 'Completed', source: 'Payment', reason: 'Paid in full' }),
+      ]);
+      expect(quoted.status).toBe('Quoted');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createSeries, endSeries, extendAllSeries, occurrenceJobId, reviseSeries } from '../services/JobSeriesService';
+import { jobsRepository, seriesRepository } from '../services/Repository';
+import { Client, Job, JobTemplateDetails } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('JobSeriesService', () => {
+  const client: Client = {
+    id: 'c1',
+    fullName: 'Dana Reyes',
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: 'dana@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  const details: JobTemplateDetails = {
+    jobName: 'Lawn care',
+    description: 'Mow and edge',
+    quote: 60,
+    toolsAndSupplies: ['Mower', 'Trimmer line'],
+    notesTemplate: 'Visit for {client} on {date}',
+  };
+
+  // Local times, since occurrence dates follow the device's calendar day; 2024-01-01 is a Monday
+  const monday = (day: number) => new Date(2024, 0, day, 9);
+
+  const jobFor = async (date: string): Promise<Job | null> => {
+    const [series] = await seriesRepository.getAll();
+    return jobsRepository.getById(occurrenceJobId(series.id, date));
+  };
+
+  const start = () =>
+    createSeries(
+      { client, rule: 'FREQ=WEEKLY;BYDAY=MO', startDate: '2024-01-01', durationDays: 0, details, templateId: 't1' },
+      monday(1)
+    );
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('books accepted occurrences for the next eight weeks from the template details', async () => {
+    const plan = await start();
+
+    const jobs = await jobsRepository.getAll();
+    expect(jobs.map((job) => job.occurrenceDate)).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+      '2024-01-22',
+      '2024-01-29',
+      '2024-02-05',
+      '2024-02-12',
+      '2024-02-19',
+      '2024-02-26',
+    ]);
+    expect(plan.series).toMatchObject({ templateId: 't1', generatedThrough: '2024-02-26', clientName: 'Dana Reyes' });
+
+    const second = (await jobFor('2024-01-08'))!;
+    expect(second).toMatchObject({
+      seriesId: plan.series.id,
+      jobName: 'Lawn care',
+      clientId: 'c1',
+      status: 'Accepted',
+      startDate: '2024-01-08',
+      endDate: '2024-01-08',
+      notes: 'Visit for Dana Reyes on 2024-01-08',
+    });
+    expect(second.statusHistory?.[0]).toMatchObject({ from: 'Quoted', to: 'Accepted', source: 'RecurringSeries' });
+    expect(second.toolsAndSupplies?.map((item) => [item.text, item.completed])).toEqual([
+      ['Mower', false],
+      ['Trimmer line', false],
+    ]);
+  });
+
+  it('tops series up to the horizon without bringing back deleted occurrences', async () => {
+    await start();
+    await jobsRepository.remove((await jobFor('2024-01-15'))!.id);
+
+    const created = await extendAllSeries(monday(8));
+
+    expect(created.map((job) => job.occurrenceDate)).toEqual(['2024-03-04']);
+    expect(await jobFor('2024-01-15')).toBeNull();
+    expect(await extendAllSeries(monday(8))).toEqual([]);
+  });
+
+  it('revises upcoming occurrences that follow the series and leaves the rest alone', async () => {
+    await start();
+    const started = (await jobFor('2024-01-08'))!;
+    await jobsRepository.insert({ ...started, status: 'In-Progress' });
+    const edited = (await jobFor('2024-01-15'))!;
+    await jobsRepository.insert({ ...edited, jobName: 'Lawn care + hedges', seriesOverride: true });
+    await jobsRepository.remove((await jobFor('2024-01-22'))!.id);
+    const withExpense = (await jobFor('2024-01-29'))!;
+    const expense = { id: 'e1', description: 'Fuel', amount: 8, isReimbursable: false, date: '2024-01-05' };
+    await jobsRepository.insert({ ...withExpense, expenses: [expense] });
+
+    const plan = await reviseSeries(
+      (await seriesRepository.getAll())[0].id,
+      { rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', details: { ...details, jobName: 'Lawn care (biweekly)' } },
+      'test',
+      monday(8)
+    );
+
+    expect(plan.series.exdates).toEqual(['2024-01-22']);
+    expect(plan.remove.map((id) => id.slice(-8))).toEqual(['20240205', '20240219']);
+    expect(plan.update.map((job) => job.occurrenceDate).sort()).toEqual(['2024-01-29', '2024-02-12', '2024-02-26']);
+    expect(plan.create).toEqual([]);
+
+    expect((await jobFor('2024-01-01'))!.jobName).toBe('Lawn care');
+    expect((await jobFor('2024-01-08'))!.status).toBe('In-Progress');
+    expect((await jobFor('2024-01-15'))!.jobName).toBe('Lawn care + hedges');
+    expect(await jobFor('2024-02-05')).toBeNull();
+    expect(await jobFor('2024-01-29')).toMatchObject({ jobName: 'Lawn care (biweekly)', expenses: [expense] });
+  });
+
+  it('ends a series after today', async () => {
+    const { series } = await start();
+
+    const plan = await endSeries(series, 'test', monday(15));
+
+    expect(plan.series.rule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20240115');
+    expect((await jobsRepository.getAll()).map((job) => job.occurrenceDate)).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+    ]);
+    expect(await extendAllSeries(monday(22))).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  completionBlocker,
+  deleteTask,
+  isTaskOverdue,
+  putTask,
+  taskProgress,
+  toggleTask,
+} from '../services/JobTasks';
+import { checkTransition, transitionJob } from '../services/JobLifecycle';
+import { jobFieldsFromTemplate, templateDetailsFromJob } from '../services/JobTemplates';
+import { Job, JobTask } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('JobTasks', () => {
+  const task = (id: string, overrides: Partial<JobTask> = {}): JobTask => ({
+    id,
+    text: `Task ${id}`,
+    completed: false,
+    required: false,
+    createdDate: '2024-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const job = (tasks: JobTask[], overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Deck repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-03-01',
+    startDate: '2024-03-05',
+    endDate: '2024-03-19',
+    status: 'In-Progress',
+    expenses: [],
+    tasks,
+    ...overrides,
+  });
+
+  it('adds, edits, checks off and removes tasks in the order they were added', () => {
+    const listed = putTask(
+      putTask(job([]), task('t1', { text: '  Remove old boards ', assignee: ' Marco ', dueDate: '2024-03-06' })),
+      task('t2', { assignee: '  ' })
+    );
+
+    expect(listed.tasks).toEqual([
+      task('t1', { text: 'Remove old boards', assignee: 'Marco', dueDate: '2024-03-06' }),
+      task('t2'),
+    ]);
+    expect(taskProgress(listed)).toEqual({ completed: 0, total: 2, percent: 0 });
+
+    const checked = toggleTask(putTask(listed, task('t1', { text: 'Remove boards' })), 't1');
+    expect(checked.tasks!.map((t) => [t.text, t.completed])).toEqual([
+      ['Remove boards', true],
+      ['Task t2', false],
+    ]);
+    expect(taskProgress(checked)).toEqual({ completed: 1, total: 2, percent: 50 });
+    expect(taskProgress(deleteTask(checked, 't2'))).toEqual({ completed: 1, total: 1, percent: 100 });
+    expect(taskProgress(job([]))).toBeNull();
+
+    expect(isTaskOverdue(listed.tasks![0], '2024-03-07')).toBe(true);
+    expect(isTaskOverdue(checked.tasks![0], '2024-03-07')).toBe(false);
+
+    expect(() => putTask(listed, task('t3', { text: ' ' }))).toThrow('needs a description');
+    expect(() => putTask(listed, task('t3', { dueDate: '3/6/2024' }))).toThrow('YYYY-MM-DD');
+    expect(() => toggleTask(listed, 'missing')).toThrow('not found');
+  });
+
+  it('keeps a job from being Completed until its required tasks are checked off', () => {
+    const inProgress = job([task('t1', { text: 'Final walkthrough', required: true }), task('t2')]);
+    const at = new Date('2024-03-19T17:00:00.000Z');
+
+    expect(completionBlocker(inProgress)).toBe('Check off the required task "Final walkthrough" before completing this job');
+    expect(checkTransition(inProgress, 'Completed')).toMatchObject({ allowed: false });
+    expect(() => transitionJob(inProgress, 'Completed', { source: 'test', at })).toThrow('Final walkthrough');
+    // Other moves are not held up by tasks
+    expect(checkTransition(inProgress, 'On-Hold')).toMatchObject({ allowed: true });
+
+    const walkedThrough = toggleTask(inProgress, 't1');
+    expect(completionBlocker(walkedThrough)).toBeNull();
+    expect(transitionJob(walkedThrough, 'Completed', { source: 'test', at }).job.status).toBe('Completed');
+  });
+
+  it('carries task text and required flags through templates as fresh unchecked tasks', () => {
+    const source = job([
+      task('t1', { text: 'Photo the finished deck', required: true, completed: true, assignee: 'Marco' }),
+      task('t2', { text: 'Sweep up', dueDate: '2024-03-10' }),
+    ]);
+    const details = templateDetailsFromJob(source);
+    const at = new Date('2024-04-01T09:00:00.000Z');
+
+    expect(details.tasks).toEqual([
+      { text: 'Photo the finished deck', required: true },
+      { text: 'Sweep up', required: false },
+    ]);
+    expect(jobFieldsFromTemplate(details, { clientName: 'Ana', date: '2024-04-01', at }).tasks).toEqual([
+      { id: `task_${at.getTime()}_0`, text: 'Photo the finished deck', required: true, completed: false, createdDate: at.toISOString() },
+      { id: `task_${at.getTime()}_1`, text: 'Sweep up', required: false, completed: false, createdDate: at.toISOString() },
+    ]);
+    expect(templateDetailsFromJob(job([])).tasks).toBeUndefined();
+  });
+});
@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { createJob, fetchJobs, modifyJob } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import outboxReducer, { pendingWritesChanged } from '../state/slices/outboxSlice';
+import {
+  OUTBOX_RETRY_MAX_MS,
+  flushOutbox,
+  getPendingWrites,
+  outboxBackoffMs,
+  resetOutbox,
+  submitWrite,
+  subscribeToOutbox,
+} from '../services/OutboxService';
+import { getJobs, recordPayment } from '../services/StorageService';
+import { JOBS_KEY, jobsRepository } from '../services/Repository';
+import { denormalizeJobs } from '../state/jobEntities';
+import { Job, Payment } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('OutboxService', () => {
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Fence repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const { getItem, setItem } = AsyncStorage;
+
+  const restoreStorage = () => Object.assign(AsyncStorage, { getItem, setItem });
+
+  // Fails every write to the jobs collection; other keys (the outbox itself) still work
+  const failJobWrites = () => {
+    AsyncStorage.setItem = (key: string, value: string) =>
+      key === JOBS_KEY ? Promise.reject(new Error('Disk full')) : setItem(key, value);
+  };
+
+  const makeStore = () => {
+    const store = configureStore({
+      reducer: { jobs: jobsReducer, history: historyReducer, outbox: outboxReducer },
+    });
+    subscribeToOutbox((pending) => store.dispatch(pendingWritesChanged(pending)));
+    return store;
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    restoreStorage();
+    jest.useRealTimers();
+    resetOutbox();
+  });
+
+  it('doubles the retry delay up to a cap', () => {
+    expect([1, 2, 3].map(outboxBackoffMs)).toEqual([2000, 4000, 8000]);
+    expect(outboxBackoffMs(20)).toBe(OUTBOX_RETRY_MAX_MS);
+  });
+
+  it('reports a read failure as a load error and keeps the loaded jobs', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job()));
+    AsyncStorage.getItem = () => Promise.reject(new Error('I/O error'));
+
+    await expect(getJobs()).rejects.toThrow('I/O error');
+    await store.dispatch(fetchJobs());
+
+    expect(denormalizeJobs(store.getState().jobs)).toEqual([job()]);
+    expect(store.getState().jobs.loadError).toMatchObject({ collection: 'jobs', message: 'I/O error' });
+  });
+
+  it('queues a failed save, shows it as pending and retries it with backoff', async () => {
+    jest.useFakeTimers();
+    const store = makeStore();
+    await store.dispatch(createJob(job()));
+    failJobWrites();
+
+    const result = await store.dispatch(modifyJob({ job: job({ quote: 200 }), source: 'JobsScreen' }));
+    expect(result.meta.requestStatus).toBe('fulfilled');
+    expect(denormalizeJobs(store.getState().jobs)[0].quote).toBe(200);
+    expect(store.getState().outbox).toMatchObject({ pending: 1, lastError: 'Disk full' });
+    // Reads show the pending change even though storage still has the old copy
+    expect((await getJobs())[0].quote).toBe(200);
+    expect((await jobsRepository.getById('j1'))!.quote).toBe(100);
+
+    restoreStorage();
+    expect(await flushOutbox()).toBe(1);
+
+    jest.advanceTimersByTime(2000);
+    expect(await flushOutbox()).toBe(0);
+    expect((await jobsRepository.getById('j1'))!.quote).toBe(200);
+    expect(store.getState().outbox.pending).toBe(0);
+  });
+
+  it('keeps later writes behind a failed one and only the latest write per record', async () => {
+    failJobWrites();
+    expect(await submitWrite('jobs', 'j1', job())).toEqual({ queued: true });
+    expect(await submitWrite('jobs', 'j2', job({ id: 'j2' }))).toEqual({ queued: true });
+    await submitWrite('jobs', 'j1', job({ notes: 'Latest' }));
+
+    expect((await getPendingWrites()).map((entry) => entry.recordId)).toEqual(['j2', 'j1']);
+
+    restoreStorage();
+    expect(await flushOutbox({ force: true })).toBe(0);
+    expect(await jobsRepository.getAll()).toEqual([job({ id: 'j2' }), job({ notes: 'Latest' })]);
+  });
+
+  it('keeps pending writes across a restart', async () => {
+    failJobWrites();
+    await submitWrite('jobs', 'j1', job());
+
+    resetOutbox();
+    expect((await getPendingWrites()).map((entry) => [entry.recordId, entry.attempts])).toEqual([['j1', 1]]);
+  });
+
+  describe('with transactional writes', () => {
+    const payment: Payment = {
+      id: 'p1',
+      jobId: 'j1',
+      amount: 40,
+      method: 'cash',
+      status: 'completed',
+      paymentDate: '2024-01-04',
+    };
+
+    it('saves queued writes before a transaction reads them, so a later flush cannot undo it', async () => {
+      await jobsRepository.insert(job());
+      failJobWrites();
+      await submitWrite('jobs', 'j1', job({ quote: 200 }));
+      restoreStorage();
+
+      const paid = await recordPayment(payment);
+
+      expect(paid).toMatchObject({ quote: 200, payments: [payment] });
+      expect(await getPendingWrites()).toEqual([]);
+      await flushOutbox({ force: true });
+      expect(await jobsRepository.getById('j1')).toEqual(job({ quote: 200, payments: [payment] }));
+    });
+
+    it('refuses a transaction while queued writes to its records cannot be saved', async () => {
+      await jobsRepository.insert(job());
+      failJobWrites();
+      await submitWrite('jobs', 'j1', job({ quote: 200 }));
+
+      await expect(recordPayment(payment)).rejects.toThrow('still waiting to be saved');
+      expect((await getPendingWrites()).map((entry) => entry.recordId)).toEqual(['j1']);
+    });
+  });
+
+  it('rejects edits to a job that no longer exists instead of recreating it', async () => {
+    const store = makeStore();
+
+    const result = await store.dispatch(modifyJob({ job: job(), source: 'JobsScreen' }));
+
+    expect(result.meta.requestStatus).toBe('rejected');
+    expect(store.getState().jobs.error).toBe('Job with ID j1 not found');
+    expect(await jobsRepository.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import * as Print from 'expo-print';
+import jobsReducer, { acceptQuote, createJob, modifyJob } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import { buildSignedQuoteHtml } from '../services/QuoteAcceptanceService';
+import { jobsRepository } from '../services/Repository';
+import { Job, QuoteLineItem, Signature } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// In-memory stand-in for the device file system: uri -> contents
+const mockFiles = new Map<string, string>();
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn(async (uri: string) => ({
+    exists: mockFiles.has(uri) || [...mockFiles.keys()].some((path) => path.startsWith(uri)),
+  })),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  }),
+}));
+jest.mock('expo-print', () => ({
+  printToFileAsync: jest.fn(async ({ html }: { html: string }) => {
+    mockFiles.set('file:///cache/print.pdf', html);
+    return { uri: 'file:///cache/print.pdf', numberOfPages: 1 };
+  }),
+}));
+jest.mock('expo-sharing', () => ({ isAvailableAsync: jest.fn(async () => false) }));
+
+describe('QuoteAcceptance', () => {
+  const item = (id: string, overrides: Partial<QuoteLineItem> = {}): QuoteLineItem => ({
+    id,
+    description: `Item ${id}`,
+    quantity: 1,
+    unit: 'each',
+    unitPrice: 100,
+    taxable: false,
+    category: 'Labor',
+    ...overrides,
+  });
+
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Patio',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 200,
+    lineItems: [item('a'), item('b')],
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const signature: Signature = { width: 300, height: 180, paths: ['M 10 10 L 50 60', 'M 60 20 L 90 30'] };
+
+  const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockFiles.clear();
+    jest.clearAllMocks();
+  });
+
+  it('renders the revision, signer and signature into the document', () => {
+    const html = buildSignedQuoteHtml(
+      job({ jobName: 'Fence <repair>', lineItems: [item('a', { description: 'Posts & rails', quantity: 3 })] }),
+      { number: 2, createdAt: '2024-02-01T10:00:00.000Z', quote: 300, lineItems: [item('a', { description: 'Posts & rails', quantity: 3 })] },
+      { revision: 2, signerName: 'Dana "D" Smith', signedAt: '2024-02-02T15:30:00.000Z', signature }
+    );
+
+    expect(html).toContain('Quote for Fence &lt;repair&gt;');
+    expect(html).toContain('Posts &amp; rails');
+    expect(html).toContain('Revision 2');
+    expect(html).toContain('$300.00');
+    expect(html).toContain('Accepted by Dana &quot;D&quot; Smith');
+    expect(html).toContain('viewBox="0 0 300 180"');
+    expect(html).toContain('<path d="M 10 10 L 50 60"');
+  });
+
+  it('accepts the signed revision and keeps the PDF with the job', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job()));
+
+    const { job: accepted } = await store
+      .dispatch(acceptQuote({ jobId: 'j1', signerName: ' Dana Smith ', signature, source: 'QuoteAcceptanceScreen' }))
+      .unwrap();
+
+    expect(accepted.status).toBe('Accepted');
+    expect(accepted.acceptedRevision).toBe(1);
+    expect(accepted.statusHistory![0]).toMatchObject({ from: 'Quoted', to: 'Accepted', reason: 'Signed by Dana Smith' });
+    expect(accepted.quoteAcceptance).toMatchObject({ revision: 1, signerName: 'Dana Smith', signature });
+    expect(accepted.quoteAcceptance!.signedAt).toBe(accepted.statusHistory![0].at);
+    expect(accepted.quoteAcceptance!.pdfUri).toMatch(/^file:\/\/\/docs\/signed-quotes\/j1_rev1_\d+\.pdf$/);
+    expect(mockFiles.get(accepted.quoteAcceptance!.pdfUri!)).toContain('Accepted by Dana Smith');
+    expect(await jobsRepository.getById('j1')).toEqual(accepted);
+
+    // A later form edit keeps the signature
+    await store.dispatch(modifyJob({ job: { ...job(), status: 'Accepted', notes: 'Gate code 1234' }, source: 'AddEditJobScreen' }));
+    expect((await jobsRepository.getById('j1'))!.quoteAcceptance).toEqual(accepted.quoteAcceptance);
+  });
+
+  it('refuses to accept without a name, a signature or an allowed transition', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job()));
+    await store.dispatch(createJob(job({ id: 'j2', status: 'Completed' })));
+
+    const attempts = [
+      acceptQuote({ jobId: 'j1', signerName: '  ', signature, source: 'QuoteAcceptanceScreen' }),
+      acceptQuote({ jobId: 'j1', signerName: 'Dana', signature: { ...signature, paths: [] }, source: 'QuoteAcceptanceScreen' }),
+      acceptQuote({ jobId: 'j2', signerName: 'Dana', signature, source: 'QuoteAcceptanceScreen' }),
+    ];
+    for (const attempt of attempts) {
+      expect((await store.dispatch(attempt)).meta.requestStatus).toBe('rejected');
+    }
+
+    expect(Print.printToFileAsync).not.toHaveBeenCalled();
+    expect(await jobsRepository.getById('j1')).not.toHaveProperty('quoteAcceptance');
+    expect((await jobsRepository.getById('j2'))!.status).toBe('Completed');
+  });
+});
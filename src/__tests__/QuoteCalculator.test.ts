@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { createJob, modifyJob } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import { calculateQuote, quoteBreakdownText, quoteRevenue, quoteTotal } from '../services/QuoteCalculator';
+import { getAmountOwed } from '../services/StorageService';
+import { jobsRepository } from '../services/Repository';
+import { Job, QuoteLineItem } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('QuoteCalculator', () => {
+  const labor: QuoteLineItem = {
+    id: 'l1',
+    description: 'Install fence',
+    quantity: 8,
+    unit: 'hr',
+    unitPrice: 45,
+    taxable: false,
+    category: 'Labor',
+  };
+  const posts: QuoteLineItem = {
+    id: 'l2',
+    description: 'Cedar posts',
+    quantity: 12,
+    unit: 'each',
+    unitPrice: 15,
+    taxable: true,
+    category: 'Materials',
+  };
+
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Fence',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  it('totals line items by category and taxes only the taxable ones', () => {
+    expect(calculateQuote({ lineItems: [labor, posts], taxRate: 8.25 })).toEqual({
+      subtotal: 540,
+      byCategory: { Labor: 360, Materials: 180, Equipment: 0, Other: 0 },
+      discount: 0,
+      taxableAmount: 180,
+      tax: 14.85,
+      total: 554.85,
+    });
+  });
+
+  it('shares a discount across taxable and non-taxable items before tax', () => {
+    const percent = calculateQuote({ lineItems: [labor, posts], discount: { type: 'percent', value: 10 }, taxRate: 10 });
+    expect(percent).toMatchObject({ discount: 54, taxableAmount: 162, tax: 16.2, total: 502.2 });
+
+    // A fixed discount larger than the subtotal stops at zero
+    const amount = calculateQuote({ lineItems: [posts], discount: { type: 'amount', value: 500 }, taxRate: 10 });
+    expect(amount).toMatchObject({ discount: 180, taxableAmount: 0, tax: 0, total: 0 });
+  });
+
+  it('derives quote, amount owed and revenue from the line items', () => {
+    const itemized = job({ quote: 0, lineItems: [labor, posts], taxRate: 10 });
+    const flat = job({ quote: 250 });
+
+    expect(quoteTotal(itemized)).toBe(558);
+    expect(quoteRevenue(itemized)).toBe(540);
+    expect(quoteTotal(flat)).toBe(250);
+    expect(
+      getAmountOwed({
+        ...itemized,
+        payments: [{ id: 'p1', jobId: 'j1', amount: 58, method: 'cash', status: 'completed', paymentDate: '2024-01-05' }],
+      })
+    ).toBe(500);
+  });
+
+  it('itemizes the quote text by category', () => {
+    const text = quoteBreakdownText(
+      job({ lineItems: [posts, labor], discount: { type: 'percent', value: 10 }, taxRate: 10 }),
+      (amount) => `$${amount.toFixed(2)}`
+    );
+
+    expect(text).toBe(
+      'Labor:\n- Install fence: 8 hr @ $45.00 = $360.00\n\n' +
+        'Materials:\n- Cedar posts: 12 each @ $15.00 = $180.00 (taxable)\n\n' +
+        'Subtotal: $540.00\nDiscount (10%): -$54.00\nTax (10% on taxable items): $16.20\n'
+    );
+    expect(quoteBreakdownText(job(), String)).toBe('');
+  });
+
+  describe('through the jobs slice', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('stores the line-item total as the quote on create and edit', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job({ quote: 0, lineItems: [labor] })));
+      expect((await jobsRepository.getById('j1'))!.quote).toBe(360);
+
+      await store.dispatch(modifyJob({ job: job({ quote: 360, lineItems: [labor, posts] }), source: 'AddEditJobScreen' }));
+      expect((await jobsRepository.getById('j1'))!.quote).toBe(540);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { changeJobStatus, createJob, modifyJob, saveQuoteRevision } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import { compareRevisions, snapshotQuote } from '../services/QuoteRevisions';
+import { jobsRepository } from '../services/Repository';
+import { Job, QuoteLineItem } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('QuoteRevisions', () => {
+  const item = (id: string, overrides: Partial<QuoteLineItem> = {}): QuoteLineItem => ({
+    id,
+    description: `Item ${id}`,
+    quantity: 1,
+    unit: 'each',
+    unitPrice: 100,
+    taxable: false,
+    category: 'Labor',
+    ...overrides,
+  });
+
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Patio',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 200,
+    lineItems: [item('a'), item('b')],
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const at = new Date('2024-02-01T10:00:00Z');
+
+  it('numbers each changed quote as a new revision and reuses an unchanged one', () => {
+    const first = snapshotQuote(job(), at, 'email');
+    expect(first.revision).toEqual({
+      number: 1,
+      createdAt: at.toISOString(),
+      sentVia: 'email',
+      quote: 200,
+      lineItems: [item('a'), item('b')],
+    });
+
+    const resent = snapshotQuote(first.job, new Date(), 'sms');
+    expect(resent.created).toBe(false);
+    expect(resent.job.quoteRevisions).toHaveLength(1);
+
+    const haggled = snapshotQuote({ ...first.job, quote: 180, discount: { type: 'amount', value: 20 } }, at);
+    expect(haggled.revision.number).toBe(2);
+    expect(haggled.job.quoteRevisions![0]).toBe(first.revision);
+  });
+
+  it('compares line items and totals between revisions', () => {
+    const before = snapshotQuote(job(), at).revision;
+    const after = snapshotQuote(
+      job({ lineItems: [item('b', { unitPrice: 80 }), item('c', { category: 'Materials' })], taxRate: 10 }),
+      at
+    ).revision;
+
+    const comparison = compareRevisions(before, after);
+
+    expect(comparison.lineItems.map((row) => [row.id, row.change])).toEqual([
+      ['b', 'changed'],
+      ['c', 'added'],
+      ['a', 'removed'],
+    ]);
+    expect(comparison.before.total).toBe(200);
+    expect(comparison.after).toMatchObject({ subtotal: 180, tax: 0, total: 180 });
+  });
+
+  describe('through the jobs slice', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('snapshots the quote as it is sent', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+
+      const sent = await store
+        .dispatch(saveQuoteRevision({ jobId: 'j1', sentVia: 'email', source: 'JobDetailScreen' }))
+        .unwrap();
+      const resent = await store
+        .dispatch(saveQuoteRevision({ jobId: 'j1', sentVia: 'sms', source: 'JobDetailScreen' }))
+        .unwrap();
+
+      expect(sent.created).toBe(true);
+      expect(resent.created).toBe(false);
+      expect((await jobsRepository.getById('j1'))!.quoteRevisions).toEqual([sent.revision]);
+    });
+
+    it('locks the accepted revision until the job returns to Quoted', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+      await store.dispatch(saveQuoteRevision({ jobId: 'j1', sentVia: 'email', source: 'JobDetailScreen' }));
+      // Agreed over the phone after the first quote went out
+      await store.dispatch(modifyJob({ job: job({ lineItems: [item('a', { unitPrice: 90 })] }), source: 'AddEditJobScreen' }));
+
+      const { job: accepted } = await store
+        .dispatch(changeJobStatus({ jobId: 'j1', status: 'Accepted', source: 'JobsScreen' }))
+        .unwrap();
+      expect(accepted.acceptedRevision).toBe(2);
+      expect(accepted.quoteRevisions!.map((revision) => revision.quote)).toEqual([200, 90]);
+
+      const edit = await store.dispatch(
+        modifyJob({ job: { ...accepted, lineItems: [item('a', { unitPrice: 120 })] }, source: 'AddEditJobScreen' })
+      );
+      expect(edit).toMatchObject({
+        meta: { requestStatus: 'rejected' },
+        error: { message: expect.stringContaining('locked to accepted revision 2') },
+      });
+
+      const { job: requoted } = await store
+        .dispatch(changeJobStatus({ jobId: 'j1', status: 'Quoted', reason: 'Client added a deck', source: 'JobsScreen' }))
+        .unwrap();
+      expect(requoted).not.toHaveProperty('acceptedRevision');
+      const revised = await store.dispatch(
+        modifyJob({ job: { ...requoted, lineItems: [item('a', { unitPrice: 120 })] }, source: 'AddEditJobScreen' })
+      );
+      expect(revised.meta.requestStatus).toBe('fulfilled');
+    });
+  });
+});
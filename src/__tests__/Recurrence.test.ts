@@ -0,0 +1,92 @@
+import { describeRule, expandRule, formatRRule, parseRRule, presetRule } from '../services/Recurrence';
+
+describe('Recurrence', () => {
+  // 2024-01-01 is a Monday
+  const expand = (rule: string, startDate: string, through: string, from?: string) =>
+    expandRule(parseRRule(rule), startDate, through, from);
+
+  it('parses and formats rules back to the same text', () => {
+    [
+      'FREQ=WEEKLY;BYDAY=MO',
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;WKST=SU',
+      'FREQ=MONTHLY;BYDAY=2TU;COUNT=6',
+      'FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20241231',
+      'FREQ=DAILY;INTERVAL=3',
+    ].forEach((rule) => expect(formatRRule(parseRRule(rule))).toBe(rule));
+
+    expect(parseRRule('RRULE:freq=weekly;until=20240301T235959Z')).toEqual({
+      freq: 'WEEKLY',
+      interval: 1,
+      until: '2024-03-01',
+    });
+  });
+
+  it('rejects rules it would not expand the way a calendar does', () => {
+    expect(() => parseRRule('INTERVAL=2')).toThrow('FREQ');
+    expect(() => parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported recurrence rule parts: BYSETPOS');
+    expect(() => parseRRule('FREQ=WEEKLY;COUNT=3;UNTIL=20240301')).toThrow('both COUNT and UNTIL');
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow('only supported for monthly');
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid weekday');
+  });
+
+  it('expands the weekly, biweekly and monthly presets from the start date', () => {
+    expect(presetRule('weekly', '2024-01-01')).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(expand(presetRule('weekly', '2024-01-01'), '2024-01-01', '2024-01-22')).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+      '2024-01-22',
+    ]);
+    expect(expand(presetRule('biweekly', '2024-01-01'), '2024-01-01', '2024-02-01')).toEqual([
+      '2024-01-01',
+      '2024-01-15',
+      '2024-01-29',
+    ]);
+    expect(expand(presetRule('monthly', '2024-01-15'), '2024-01-15', '2024-03-31')).toEqual([
+      '2024-01-15',
+      '2024-02-15',
+      '2024-03-15',
+    ]);
+  });
+
+  it('expands numbered weekdays and month days, skipping days a month lacks', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01', '2024-03-31')).toEqual([
+      '2024-01-09',
+      '2024-02-13',
+      '2024-03-12',
+    ]);
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1', '2024-01-01', '2024-04-30')).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+    expect(expand('FREQ=MONTHLY', '2024-01-31', '2024-05-31')).toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+  });
+
+  it('stops at COUNT, counted from the start date, and at UNTIL', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=3', '2024-01-01', '2024-12-31')).toEqual([
+      '2024-01-01',
+      '2024-01-04',
+      '2024-01-08',
+    ]);
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=3', '2024-01-01', '2024-12-31', '2024-01-05')).toEqual([
+      '2024-01-08',
+    ]);
+    expect(expand('FREQ=WEEKLY;UNTIL=20240115', '2024-01-01', '2024-12-31')).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+    ]);
+  });
+
+  it('describes rules in words', () => {
+    expect(describeRule(parseRRule('FREQ=WEEKLY;INTERVAL=2'), '2024-01-01')).toBe('Every 2 weeks on Monday');
+    expect(describeRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU;COUNT=6'), '2024-01-01')).toBe(
+      'Monthly on the 2nd Tuesday, 6 times'
+    );
+    expect(describeRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20240301'), '2024-01-01')).toBe(
+      'Weekly on Monday and Thursday, until 2024-03-01'
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  mergeById,
+  migrateLegacyPersistedCollections,
+  retryLegacyMigration,
+  jobsRepository,
+  clientsRepository,
+} from '../services/Repository';
+import { Client, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Repository', () => {
+  const makeJob = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'client-1',
+    clientName: 'Client One',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const client: Client = {
+    id: 'client-1',
+    fullName: 'Client One',
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: 'one@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('mergeById', () => {
+    it('keeps records that exist in only one copy', () => {
+      const result = mergeById([makeJob('a')], [makeJob('b')]);
+      expect(result.merged.map((j) => j.id)).toEqual(['a', 'b']);
+      expect(result.addedFromSecondary).toBe(1);
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('prefers the primary copy and reports differing records as conflicts', () => {
+      const primary = makeJob('a', { quote: 200 });
+      const secondary = makeJob('a', { quote: 150 });
+      const result = mergeById([primary], [secondary]);
+      expect(result.merged).toEqual([primary]);
+      expect(result.conflicts).toEqual([{ id: 'a', kept: primary, discarded: secondary }]);
+    });
+
+    it('does not report identical records as conflicts', () => {
+      const result = mergeById([makeJob('a')], [makeJob('a')]);
+      expect(result.merged).toHaveLength(1);
+      expect(result.conflicts).toHaveLength(0);
+    });
+  });
+
+  describe('CollectionRepository', () => {
+    it('replaces an existing record on insert instead of duplicating it', async () => {
+      await jobsRepository.insert(makeJob('a'));
+      await jobsRepository.insert(makeJob('a', { jobName: 'Renamed' }));
+      const jobs = await jobsRepository.getAll();
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].jobName).toBe('Renamed');
+    });
+
+    it('throws when updating or removing a missing record', async () => {
+      await expect(jobsRepository.update(makeJob('missing'))).rejects.toThrow(
+        'Job with ID missing not found'
+      );
+      await expect(clientsRepository.remove('missing')).rejects.toThrow(
+        'Client with ID missing not found'
+      );
+    });
+  });
+
+  describe('migrateLegacyPersistedCollections', () => {
+    it('merges legacy copies into the repository once', async () => {
+      await jobsRepository.replaceAll([makeJob('a', { quote: 300 })]);
+
+      const report = await migrateLegacyPersistedCollections(
+        [makeJob('a', { quote: 250 }), makeJob('b')],
+        [client]
+      );
+
+      expect(report.migrated).toBe(true);
+      expect(report.jobsAdded).toBe(1);
+      expect(report.clientsAdded).toBe(1);
+      expect(report.jobConflicts.map((c) => c.id)).toEqual(['a']);
+
+      const jobs = await jobsRepository.getAll();
+      expect(jobs.map((j) => [j.id, j.quote])).toEqual([
+        ['a', 300],
+        ['b', 100],
+      ]);
+      expect(await clientsRepository.getAll()).toEqual([client]);
+      expect(await AsyncStorage.getItem('repository_migration_conflicts')).not.toBeNull();
+
+      const second = await migrateLegacyPersistedCollections([makeJob('c')], []);
+      expect(second.migrated).toBe(false);
+      expect(await jobsRepository.getAll()).toHaveLength(2);
+    });
+
+    it('retries a failed merge from the backup on a later launch', async () => {
+      const write = jest.spyOn(jobsRepository, 'replaceAll').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(migrateLegacyPersistedCollections([makeJob('a')], [client])).rejects.toThrow('disk full');
+      write.mockRestore();
+      expect(await jobsRepository.getAll()).toEqual([]);
+
+      const report = await retryLegacyMigration();
+      expect(report).toMatchObject({ migrated: true, jobsAdded: 1, clientsAdded: 1 });
+      expect((await jobsRepository.getAll()).map((j) => j.id)).toEqual(['a']);
+      expect(await retryLegacyMigration()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PersistedState } from 'redux-persist';
+import {
+  CURRENT_SCHEMA_VERSION,
+  schemaMigrations,
+  migrateRecords,
+  persistMigrations,
+} from '../services/SchemaMigrations';
+import { jobsRepository } from '../services/Repository';
+
+// The root blob as a build before v2 saved it, with amounts stored as text
+type LegacyRootState = NonNullable<PersistedState> & {
+  budget: { expenses: { id: string; amount: string | number; description: string }[] };
+};
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('SchemaMigrations', () => {
+  const step = (version: number) => schemaMigrations.find((s) => s.version === version)!;
+
+  it('registers one step per version up to the current version', () => {
+    const versions = schemaMigrations.map((s) => s.version);
+    expect(versions).toEqual(Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i + 1));
+  });
+
+  describe('v1: legacy field names', () => {
+    it('maps title/pay/date onto jobName/quote/startDate', () => {
+      const job = step(1).collections!.jobs({
+        id: 'job-1',
+        title: 'Deck repair',
+        pay: 450,
+        date: '2024-03-02',
+        clientId: 'c1',
+        clientName: 'Ana',
+      });
+
+      expect(job).toEqual(
+        expect.objectContaining({
+          jobName: 'Deck repair',
+          quote: 450,
+          startDate: '2024-03-02',
+          quoteDate: '2024-03-02',
+          endDate: '2024-03-02',
+          status: 'Quoted',
+          expenses: [],
+        })
+      );
+      expect(job).not.toHaveProperty('title');
+      expect(job).not.toHaveProperty('pay');
+      expect(job).not.toHaveProperty('date');
+    });
+
+    it('keeps current field values when both shapes are present', () => {
+      const job = step(1).collections!.jobs({ id: 'job-1', jobName: 'New', title: 'Old', quote: 10, pay: 5 });
+      expect(job.jobName).toBe('New');
+      expect(job.quote).toBe(10);
+    });
+
+    it('maps legacy client contact fields', () => {
+      const client = step(1).collections!.clients({
+        id: 'c1',
+        name: 'Ana Cruz',
+        email: 'ana@example.com',
+        phone: '555-0100',
+      });
+      expect(client).toEqual({
+        id: 'c1',
+        fullName: 'Ana Cruz',
+        emailAddress: 'ana@example.com',
+        phoneNumber: '555-0100',
+        address: '',
+      });
+    });
+  });
+
+  describe('v2: numeric amounts and defaults', () => {
+    it('coerces quote, expense and payment amounts to numbers', () => {
+      const job = step(2).collections!.jobs({
+        id: 'job-1',
+        quote: '120.50',
+        expenses: [{ description: 'Paint', amount: '30' }],
+        payments: [{ id: 'p1', amount: '60' }],
+      });
+
+      expect(job.quote).toBe(120.5);
+      expect(job.expenses).toEqual([
+        expect.objectContaining({ id: 'expense_legacy_0', amount: 30, isReimbursable: false }),
+      ]);
+      expect(job.payments).toEqual([{ id: 'p1', jobId: 'job-1', amount: 60 }]);
+    });
+
+    it('normalizes persisted budget expenses', () => {
+      const legacy: LegacyRootState = {
+        budget: { expenses: [{ id: 'e1', amount: '12', description: 'Gas' }] },
+        _persist: { version: 1, rehydrated: false },
+      };
+      const state = persistMigrations[2](legacy) as LegacyRootState;
+      expect(state.budget.expenses[0].amount).toBe(12);
+    });
+  });
+
+  it('runs only the steps newer than the stored version', () => {
+    const [job] = migrateRecords<{ id: string; title: string; quote: number }>(
+      'jobs',
+      [{ id: 'j', title: 'Kept', quote: '7' }],
+      1
+    );
+    expect(job.title).toBe('Kept');
+    expect(job.quote).toBe(7);
+  });
+
+  it('upgrades bare-array blobs written before versioning on read', async () => {
+    await AsyncStorage.setItem('jobs', JSON.stringify([{ id: 'j1', title: 'Fence', pay: '80' }]));
+
+    const jobs = await jobsRepository.getAll();
+    expect(jobs[0].jobName).toBe('Fence');
+    expect(jobs[0].quote).toBe(80);
+
+    const stored = JSON.parse((await AsyncStorage.getItem('jobs'))!);
+    expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(stored.items).toHaveLength(1);
+  });
+});
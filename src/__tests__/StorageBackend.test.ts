@@ -0,0 +1,199 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import initSqlJs, { Database } from 'sql.js';
+import { SQLiteExecutor, SQLiteStorageBackend } from '../services/SQLiteStorageBackend';
+import { StorageBackend, asyncStorageBackend, setStorageBackend } from '../services/StorageBackend';
+import { CURRENT_SCHEMA_VERSION } from '../services/SchemaMigrations';
+import { jobsRepository } from '../services/Repository';
+import { buildFullWorkflowData } from '../services/SeedService';
+import { Job, Payment } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-sqlite', () => ({}));
+// The wasm build cannot instantiate inside jest's sandbox; the asm.js build is equivalent
+jest.mock('sql.js', () => jest.requireActual('sql.js/dist/sql-asm.js'));
+
+// sql.js stands in for expo-sqlite's async API under jest
+const sqlJsExecutor = (db: Database): SQLiteExecutor => ({
+  execAsync: async (source) => {
+    db.exec(source);
+  },
+  runAsync: async (source, params) => {
+    db.run(source, params);
+  },
+  getAllAsync: async <T,>(source: string, params: (string | number | null)[]) => {
+    const statement = db.prepare(source, params);
+    const rows: T[] = [];
+    while (statement.step()) rows.push(statement.getAsObject() as T);
+    statement.free();
+    return rows;
+  },
+  withTransactionAsync: async (task) => {
+    db.exec('BEGIN');
+    try {
+      await task();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  },
+});
+
+const SCALED_JOB_COUNT = 500;
+
+const makePayment = (id: string, jobId: string, amount: number): Payment => ({
+  id,
+  jobId,
+  amount,
+  method: 'cash',
+  status: 'completed',
+  paymentDate: '2024-01-06',
+});
+
+// seedFullWorkflow's 50-job dataset scaled up, with payments on every other job
+const scaledJobs = (): Job[] =>
+  buildFullWorkflowData(SCALED_JOB_COUNT).jobs.map((job, i) =>
+    i % 2 === 0
+      ? {
+          ...job,
+          payments: [
+            makePayment(`p_${job.id}_1`, job.id, 100),
+            makePayment(`p_${job.id}_2`, job.id, 50),
+          ],
+        }
+      : job
+  );
+
+describe('StorageBackend', () => {
+  let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  const createSQLiteBackend = async () => {
+    const backend = new SQLiteStorageBackend(sqlJsExecutor(new SQL.Database()));
+    await backend.initialize();
+    return backend;
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    setStorageBackend(asyncStorageBackend);
+  });
+
+  describe('SQLiteStorageBackend', () => {
+    it('round-trips jobs with expenses, payments and checklist items', async () => {
+      const backend = await createSQLiteBackend();
+      const jobs = scaledJobs().slice(0, 10);
+      await backend.replaceAll('jobs', jobs);
+
+      const stored = await backend.read<Job>('jobs');
+      expect(stored).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, items: jobs });
+    });
+
+    it('keeps absent optional lists absent', async () => {
+      const backend = await createSQLiteBackend();
+      const { toolsAndSupplies, payments, ...bare } = scaledJobs()[1];
+      await backend.put('jobs', bare);
+
+      const [job] = (await backend.read<Job>('jobs'))!.items;
+      expect(job).not.toHaveProperty('toolsAndSupplies');
+      expect(job).not.toHaveProperty('payments');
+    });
+
+    it('updates and removes a single job and its child rows', async () => {
+      const backend = await createSQLiteBackend();
+      const [first, second] = scaledJobs();
+      await backend.replaceAll('jobs', [first, second]);
+
+      const edited = { ...first, jobName: 'Edited', expenses: [] };
+      expect(await backend.update('jobs', edited)).toBe(true);
+      expect(await backend.update('jobs', { ...first, id: 'missing' })).toBe(false);
+      expect((await backend.read<Job>('jobs'))!.items).toEqual([edited, second]);
+
+      expect(await backend.remove('jobs', second.id)).toEqual(second);
+      expect(await backend.remove('jobs', second.id)).toBeNull();
+      expect((await backend.read<Job>('jobs'))!.items).toEqual([edited]);
+    });
+
+    it('stores other collections as keyed documents', async () => {
+      const backend = await createSQLiteBackend();
+      const clients = buildFullWorkflowData(1).clients;
+      await backend.put('clients', clients[0]);
+
+      expect(await backend.read('clients')).toEqual({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        items: clients,
+      });
+      expect(await backend.read('unknown')).toBeNull();
+
+      await backend.clear();
+      expect(await backend.read('clients')).toBeNull();
+    });
+
+    it('serves the repositories once active', async () => {
+      setStorageBackend(await createSQLiteBackend());
+      const [job] = scaledJobs();
+
+      await jobsRepository.insert(job);
+      await jobsRepository.update({ ...job, quote: 999 });
+      expect(await jobsRepository.getAll()).toEqual([{ ...job, quote: 999 }]);
+      expect(await AsyncStorage.getItem('jobs')).toBeNull();
+    });
+  });
+
+  describe(`benchmark (${SCALED_JOB_COUNT} jobs)`, () => {
+    const run = async (backend: StorageBackend, jobs: Job[]) => {
+      const timings: Record<string, number> = {};
+      const time = async (label: string, task: () => Promise<unknown>) => {
+        const started = Date.now();
+        await task();
+        timings[label] = Date.now() - started;
+      };
+
+      await time('replaceAll', () => backend.replaceAll('jobs', jobs));
+      await time('read', () => backend.read('jobs'));
+      await time('update x50', async () => {
+        for (const job of jobs.slice(0, 50)) {
+          await backend.update('jobs', { ...job, notes: 'updated' });
+        }
+      });
+      await time('put x50', async () => {
+        for (let i = 0; i < 50; i++) {
+          await backend.put('jobs', { ...jobs[i], id: `bench_${i}` });
+        }
+      });
+      await time('remove x50', async () => {
+        for (let i = 0; i < 50; i++) {
+          await backend.remove('jobs', `bench_${i}`);
+        }
+      });
+
+      const stored = (await backend.read<Job>('jobs'))!.items;
+      return { timings, stored };
+    };
+
+    it('produces the same data on both engines, with single-record writes that keep up', async () => {
+      const jobs = scaledJobs();
+      const asyncResult = await run(asyncStorageBackend, jobs);
+      const sqliteResult = await run(await createSQLiteBackend(), jobs);
+
+      const expected = jobs.map((job, i) => (i < 50 ? { ...job, notes: 'updated' } : job));
+      expect(asyncResult.stored).toEqual(expected);
+      expect(sqliteResult.stored).toEqual(expected);
+
+      // Row-per-entity writes should keep up with rewriting the whole array. Timings
+      // vary by machine, so the bound is loose enough to only catch a regression
+      // such as single-record writes rewriting every table.
+      const singleWrites = (timings: Record<string, number>) =>
+        timings['update x50'] + timings['put x50'] + timings['remove x50'];
+      expect(singleWrites(sqliteResult.timings)).toBeLessThan(4 * singleWrites(asyncResult.timings) + 100);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ASYNC_STORAGE_ENTRY_LIMIT_BYTES,
+  ASYNC_STORAGE_LIMIT_BYTES,
+  FREE_DISK_CRITICAL_BYTES,
+  ORPHAN_MIN_AGE_MS,
+  cleanUpOrphanedReceipts,
+  compressReceipts,
+  inspectStorage,
+  storageWarnings,
+  utf8ByteLength,
+} from '../services/StorageInspector';
+import { clientsRepository, jobsRepository, trashRepository } from '../services/Repository';
+import { Client, Expense, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// In-memory stand-in for the device file system: uri -> size and mtime (seconds)
+const mockFiles = new Map<string, { size: number; modificationTime: number }>();
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn(async (uri: string) => {
+    const file = mockFiles.get(uri);
+    if (file) return { exists: true, isDirectory: false, uri, ...file };
+    const isDirectory = [...mockFiles.keys()].some((path) => path.startsWith(uri));
+    return isDirectory ? { exists: true, isDirectory: true, uri, size: 0, modificationTime: 0 } : { exists: false };
+  }),
+  readDirectoryAsync: jest.fn(async (dir: string) =>
+    [...mockFiles.keys()].filter((path) => path.startsWith(dir)).map((path) => path.slice(dir.length))
+  ),
+  deleteAsync: jest.fn(async (uri: string) => {
+    mockFiles.delete(uri);
+  }),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  }),
+  getFreeDiskStorageAsync: jest.fn(async () => 10 * 1024 * 1024 * 1024),
+}));
+// Re-encoding halves a file; the first pass reports a 4000px wide photo
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: { JPEG: 'jpeg' },
+  manipulateAsync: jest.fn(async (uri: string, actions: unknown[]) => {
+    const output = `file:///cache/out_${actions.length}.jpg`;
+    mockFiles.set(output, { size: Math.floor(mockFiles.get(uri)!.size / 2), modificationTime: 0 });
+    return { uri: output, width: actions.length > 0 ? 1600 : 4000, height: 3000 };
+  }),
+}));
+
+describe('StorageInspector', () => {
+  const now = new Date('2024-06-10T12:00:00Z');
+  const dayOld = (now.getTime() - ORPHAN_MIN_AGE_MS) / 1000;
+  const receipt = (name: string) => `file:///docs/receipts/${name}.jpg`;
+
+  const addFile = (uri: string, size: number, modificationTime = dayOld) => mockFiles.set(uri, { size, modificationTime });
+
+  const expense = (id: string, receiptImageLocalUri?: string): Expense => ({
+    id,
+    description: `Expense ${id}`,
+    amount: 10,
+    isReimbursable: false,
+    date: '2024-01-02',
+    receiptImageLocalUri,
+  });
+
+  const job = (id: string, expenses: Expense[] = []): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses,
+  });
+
+  const client: Client = {
+    id: 'c1',
+    fullName: 'Client c1',
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: 'c1@example.com',
+    createdDate: '2024-01-01',
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockFiles.clear();
+  });
+
+  it('measures the stored collections and referenced receipts', async () => {
+    addFile(receipt('live'), 1000);
+    await jobsRepository.replaceAll([job('j1', [expense('e1', receipt('live')), expense('e2', receipt('gone'))])]);
+    await clientsRepository.replaceAll([client]);
+
+    const report = await inspectStorage(now);
+
+    const jobs = report.collections.find((c) => c.key === 'jobs')!;
+    expect(jobs).toEqual({ key: 'jobs', bytes: utf8ByteLength((await AsyncStorage.getItem('jobs'))!), records: 1 });
+    expect(report.collections.find((c) => c.key === 'clients')!.records).toBe(1);
+    expect(report.asyncStorageBytes).toBeGreaterThan(jobs.bytes);
+    expect(report.receipts).toEqual({ count: 1, bytes: 1000, missing: 1 });
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('only treats old receipt files with no live or trashed expense as orphaned', async () => {
+    addFile(receipt('live'), 100);
+    addFile(receipt('trashed-job'), 200);
+    addFile(receipt('trashed-expense'), 300);
+    addFile(receipt('just-captured'), 400, now.getTime() / 1000);
+    addFile(receipt('orphan'), 500);
+    await jobsRepository.replaceAll([job('j1', [expense('e1', receipt('live'))])]);
+    await trashRepository.replaceAll([
+      {
+        id: 'job:j2',
+        type: 'job',
+        recordId: 'j2',
+        label: 'Job j2',
+        deletedAt: now.toISOString(),
+        record: job('j2', [expense('e2', receipt('trashed-job'))]),
+      },
+      {
+        id: 'expense:e3',
+        type: 'expense',
+        recordId: 'e3',
+        label: 'Expense e3',
+        deletedAt: now.toISOString(),
+        record: expense('e3', receipt('trashed-expense')),
+        jobId: 'j1',
+      },
+    ]);
+
+    expect((await inspectStorage(now)).orphanedReceipts).toEqual([{ uri: receipt('orphan'), bytes: 500 }]);
+    expect(await cleanUpOrphanedReceipts(now)).toEqual({ deleted: 1, bytesFreed: 500 });
+    expect([...mockFiles.keys()].sort()).toEqual(
+      ['just-captured', 'live', 'trashed-expense', 'trashed-job'].map(receipt)
+    );
+  });
+
+  it('deletes nothing when the jobs cannot be read', async () => {
+    addFile(receipt('live'), 100);
+    await jobsRepository.replaceAll([job('j1', [expense('e1', receipt('live'))])]);
+    const { getItem } = AsyncStorage;
+    AsyncStorage.getItem = () => Promise.reject(new Error('I/O error'));
+
+    try {
+      await expect(cleanUpOrphanedReceipts(now)).rejects.toThrow('I/O error');
+    } finally {
+      Object.assign(AsyncStorage, { getItem });
+    }
+    expect(mockFiles.has(receipt('live'))).toBe(true);
+  });
+
+  it('warns before the AsyncStorage and disk limits are reached', () => {
+    const collections = [{ key: 'jobs', bytes: ASYNC_STORAGE_ENTRY_LIMIT_BYTES * 0.85, records: 900 }];
+    const base = { backend: 'asyncstorage', collections, freeDiskBytes: null };
+
+    expect(storageWarnings({ ...base, asyncStorageBytes: ASYNC_STORAGE_LIMIT_BYTES * 0.5 })).toEqual([
+      { level: 'warning', message: expect.stringContaining('The jobs list is using 1.7 MB of 2.0 MB') },
+    ]);
+    expect(
+      storageWarnings({ ...base, asyncStorageBytes: ASYNC_STORAGE_LIMIT_BYTES * 0.96 }).map((w) => w.level)
+    ).toEqual(['critical', 'warning']);
+    // SQLite has no per-value limit; only the disk check applies
+    expect(
+      storageWarnings({ ...base, backend: 'sqlite', asyncStorageBytes: 0, freeDiskBytes: FREE_DISK_CRITICAL_BYTES - 1 })
+    ).toEqual([{ level: 'critical', message: expect.stringContaining('Receipt photos may fail to save') }]);
+  });
+
+  it('compresses large receipts in place and leaves small ones alone', async () => {
+    addFile(receipt('large'), 4 * 1024 * 1024);
+    addFile(receipt('small'), 100 * 1024);
+    await jobsRepository.replaceAll([job('j1', [expense('e1', receipt('large')), expense('e2', receipt('small'))])]);
+
+    expect(await compressReceipts()).toEqual({ compressed: 1, bytesSaved: 2 * 1024 * 1024 });
+    expect([...mockFiles.entries()].map(([uri, file]) => [uri, file.size]).sort()).toEqual([
+      [receipt('large'), 2 * 1024 * 1024],
+      [receipt('small'), 100 * 1024],
+    ]);
+    expect((await jobsRepository.getById('j1'))!.expenses[0].receiptImageLocalUri).toBe(receipt('large'));
+  });
+});
@@ -0,0 +1,206 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FakeSyncServer } from '../services/FakeSyncServer';
+import { getSyncStatus, mergeRecords, resolveJobConflict, setSyncTransport, synchronize } from '../services/SyncService';
+import { HttpSyncTransport, SyncCollection, SyncRecordData } from '../services/SyncTransport';
+import { clientsRepository, jobsRepository } from '../services/Repository';
+import { getJobAuditTrail } from '../services/AuditService';
+import { Client, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('SyncService', () => {
+  let server: FakeSyncServer;
+
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Fence repair',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const client = (overrides: Partial<Client> = {}): Client => ({
+    id: 'c1',
+    fullName: 'Ana Reyes',
+    address: '12 Mango St',
+    phoneNumber: '555-0142',
+    emailAddress: 'ana@example.com',
+    createdDate: '2024-01-01',
+    ...overrides,
+  });
+
+  // Writes through the server as a second phone would
+  const writeFromOtherDevice = async (collection: SyncCollection, id: string, record: SyncRecordData | null) => {
+    const { records } = await server.pull(0);
+    const current = records.find((candidate) => candidate.collection === collection && candidate.id === id);
+    const { accepted } = await server.push({
+      deviceId: 'phone-b',
+      changes: [{ collection, id, baseVersion: current?.version ?? 0, record, updatedAt: '2024-03-01T00:00:00.000Z' }],
+    });
+    expect(accepted).toHaveLength(1);
+  };
+
+  const serverCopy = async (collection: SyncCollection, id: string) =>
+    (await server.pull(0)).records.find((record) => record.collection === collection && record.id === id)?.record;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    server = new FakeSyncServer();
+    setSyncTransport(server);
+  });
+
+  it('stays off rather than faking a server when none is configured', async () => {
+    setSyncTransport(null);
+    await jobsRepository.insert(job());
+
+    await expect(synchronize()).rejects.toThrow('Sync is not configured');
+    expect(await getSyncStatus()).toEqual({ configured: false, lastSyncedAt: null, conflicts: [] });
+  });
+
+  it('pushes local records once and then has nothing to send', async () => {
+    await jobsRepository.insert(job());
+    await clientsRepository.insert(client());
+
+    expect(await synchronize()).toMatchObject({ pushed: 2, pulled: 0, conflicts: [] });
+    expect(await serverCopy('jobs', 'j1')).toEqual(job());
+    expect(await synchronize()).toMatchObject({ pushed: 0, pulled: 0 });
+    expect((await getSyncStatus()).lastSyncedAt).not.toBeNull();
+  });
+
+  it('pulls records created and deleted on another device', async () => {
+    await jobsRepository.insert(job());
+    await synchronize();
+
+    await writeFromOtherDevice('clients', 'c2', client({ id: 'c2', fullName: 'Ben Cruz' }));
+    await writeFromOtherDevice('jobs', 'j1', null);
+
+    expect(await synchronize()).toMatchObject({ pulled: 2, pushed: 0 });
+    expect(await jobsRepository.getAll()).toEqual([]);
+    expect((await clientsRepository.getAll()).map((c) => c.fullName)).toEqual(['Ben Cruz']);
+  });
+
+  it('merges edits to different fields of the same job', async () => {
+    await jobsRepository.insert(job());
+    await synchronize();
+
+    await writeFromOtherDevice('jobs', 'j1', job({ status: 'Accepted' }));
+    await jobsRepository.update(job({ quote: 175 }));
+
+    expect(await synchronize()).toMatchObject({ pulled: 1, pushed: 1, conflicts: [] });
+    expect(await jobsRepository.getById('j1')).toEqual(job({ status: 'Accepted', quote: 175 }));
+    expect(await serverCopy('jobs', 'j1')).toEqual(job({ status: 'Accepted', quote: 175 }));
+    expect((await getJobAuditTrail('j1'))[0]).toMatchObject({
+      source: 'Sync',
+      changes: [{ field: 'status', from: 'Quoted', to: 'Accepted' }],
+    });
+  });
+
+  it('holds conflicting job edits for a manual merge', async () => {
+    await jobsRepository.insert(job());
+    await synchronize();
+
+    await writeFromOtherDevice('jobs', 'j1', job({ quote: 300, notes: 'Gate too' }));
+    await jobsRepository.update(job({ quote: 250, status: 'Accepted' }));
+
+    const result = await synchronize();
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        jobId: 'j1',
+        remoteDeviceId: 'phone-b',
+        fields: [{ field: 'quote', local: 250, remote: 300 }],
+      }),
+    ]);
+    // Non-conflicting fields merge; the local value is kept and not pushed until resolved
+    expect(await jobsRepository.getById('j1')).toEqual(job({ quote: 250, status: 'Accepted', notes: 'Gate too' }));
+    expect(await serverCopy('jobs', 'j1')).toEqual(job({ quote: 300, notes: 'Gate too' }));
+
+    await resolveJobConflict('j1', { quote: 'remote' });
+    expect((await getSyncStatus()).conflicts).toEqual([]);
+    expect(await synchronize()).toMatchObject({ pushed: 1, conflicts: [] });
+    expect(await serverCopy('jobs', 'j1')).toEqual(job({ quote: 300, status: 'Accepted', notes: 'Gate too' }));
+    expect((await getJobAuditTrail('j1'))[0]).toMatchObject({ source: 'SyncConflict' });
+  });
+
+  it('resolves client conflicts in favour of the server copy', async () => {
+    await clientsRepository.insert(client());
+    await synchronize();
+
+    await writeFromOtherDevice('clients', 'c1', client({ phoneNumber: '555-0001' }));
+    await clientsRepository.update(client({ phoneNumber: '555-0002', address: '9 Palm Ave' }));
+
+    expect(await synchronize()).toMatchObject({ conflicts: [] });
+    const merged = client({ phoneNumber: '555-0001', address: '9 Palm Ave' });
+    expect(await clientsRepository.getById('c1')).toEqual(merged);
+    expect(await serverCopy('clients', 'c1')).toEqual(merged);
+  });
+
+  it('keeps an edit over a delete made on the other side', async () => {
+    await jobsRepository.insert(job());
+    await synchronize();
+
+    await writeFromOtherDevice('jobs', 'j1', null);
+    await jobsRepository.update(job({ notes: 'Still needed' }));
+
+    await synchronize();
+    expect(await serverCopy('jobs', 'j1')).toEqual(job({ notes: 'Still needed' }));
+
+    await writeFromOtherDevice('jobs', 'j1', job({ status: 'Completed' }));
+    await jobsRepository.remove('j1');
+    await synchronize();
+    expect(await jobsRepository.getById('j1')).toEqual(job({ status: 'Completed' }));
+  });
+
+  describe('over HTTP', () => {
+    it('syncs against the fake server and leaves data untouched when offline', async () => {
+      setSyncTransport(new HttpSyncTransport('https://sync.example.com/', server.fetch));
+      await jobsRepository.insert(job());
+
+      expect(await synchronize()).toMatchObject({ pushed: 1 });
+      await writeFromOtherDevice('jobs', 'j1', job({ status: 'Accepted' }));
+
+      server.offline = true;
+      await jobsRepository.update(job({ quote: 120 }));
+      await expect(synchronize()).rejects.toThrow('status 503');
+      expect(await jobsRepository.getById('j1')).toEqual(job({ quote: 120 }));
+
+      server.offline = false;
+      await synchronize();
+      expect(await serverCopy('jobs', 'j1')).toEqual(job({ quote: 120, status: 'Accepted' }));
+    });
+
+    it('rejects a response that is not in the sync protocol', async () => {
+      setSyncTransport(
+        new HttpSyncTransport('https://sync.example.com', async () => ({
+          ok: true,
+          status: 200,
+          json: async () => ({ records: [{ id: 'j1' }], cursor: 1 }),
+        }))
+      );
+      await jobsRepository.insert(job());
+
+      await expect(synchronize()).rejects.toThrow('unexpected response to /sync/pull');
+      expect(await jobsRepository.getById('j1')).toEqual(job());
+    });
+  });
+
+  it('merges deterministically whichever side is preferred', () => {
+    const base = client();
+    const local = client({ phoneNumber: '1', address: 'A' });
+    const remote = client({ phoneNumber: '2', fullName: 'Ana R.' });
+
+    expect(mergeRecords(base, local, remote, 'remote')).toEqual({
+      merged: client({ phoneNumber: '2', address: 'A', fullName: 'Ana R.' }),
+      conflicts: ['phoneNumber'],
+    });
+    expect(mergeRecords(base, local, remote, 'local').merged.phoneNumber).toBe('1');
+  });
+});
@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, { clockIn, clockOut, createJob, saveTimeEntry } from '../state/slices/jobsSlice';
+import historyReducer from '../state/slices/historySlice';
+import { denormalizeJob } from '../state/jobEntities';
+import { budgetAnalytics } from '../services/BudgetAnalytics';
+import { jobsRepository } from '../services/Repository';
+import {
+  deleteTimeEntry,
+  effectiveHourlyRate,
+  formatDuration,
+  putTimeEntry,
+  runningEntry,
+  startTimer,
+  stopTimer,
+  trackedHours,
+} from '../services/TimeTracking';
+import { Job, TimeEntry } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('TimeTracking', () => {
+  const job = (overrides: Partial<Job> = {}): Job => ({
+    id: 'j1',
+    jobName: 'Deck stain',
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 500,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'In-Progress',
+    expenses: [
+      { id: 'e1', description: 'Stain', amount: 80, isReimbursable: false, date: '2024-01-02' },
+      { id: 'e2', description: 'Permit fee', amount: 40, isReimbursable: true, date: '2024-01-02' },
+    ],
+    ...overrides,
+  });
+
+  const entry = (id: string, start: string, end?: string, billable = true): TimeEntry => ({
+    id,
+    start: `2024-01-02T${start}:00.000Z`,
+    ...(end && { end: `2024-01-02T${end}:00.000Z` }),
+    billable,
+  });
+
+  const at = (time: string) => new Date(`2024-01-02T${time}:00.000Z`);
+
+  it('clocks in and out one session at a time', () => {
+    const started = startTimer(job(), at('08:00'), { notes: 'Prep' });
+    expect(runningEntry(started)).toMatchObject({ start: at('08:00').toISOString(), notes: 'Prep', billable: true });
+    expect(() => startTimer(started, at('08:30'))).toThrow('already running');
+
+    const stopped = stopTimer(started, at('10:15'));
+    expect(runningEntry(stopped)).toBeNull();
+    expect(stopped.timeEntries![0].end).toBe(at('10:15').toISOString());
+    expect(() => stopTimer(stopped, at('10:20'))).toThrow('No timer is running');
+  });
+
+  it('validates manual entries and keeps them in start order', () => {
+    const withEntries = putTimeEntry(putTimeEntry(job(), entry('t2', '13:00', '15:00')), entry('t1', '08:00', '12:00'));
+    expect(withEntries.timeEntries!.map((e) => e.id)).toEqual(['t1', 't2']);
+
+    expect(() => putTimeEntry(withEntries, entry('t3', '16:00', '15:00'))).toThrow('must end after it starts');
+    expect(() => putTimeEntry(withEntries, { ...entry('t3', '16:00'), start: 'yesterday' })).toThrow('valid start');
+
+    const edited = putTimeEntry(withEntries, entry('t2', '13:00', '14:00', false));
+    expect(edited.timeEntries).toHaveLength(2);
+    expect(deleteTimeEntry(edited, 't1').timeEntries!.map((e) => e.id)).toEqual(['t2']);
+    expect(() => deleteTimeEntry(edited, 'missing')).toThrow('not found');
+  });
+
+  it('works out hours and the effective hourly rate', () => {
+    const timed = job({
+      timeEntries: [entry('t1', '08:00', '12:00'), entry('t2', '13:00', '14:00', false), entry('t3', '15:00')],
+    });
+    const now = at('15:30');
+
+    expect(trackedHours(timed, { now })).toBe(5.5);
+    expect(trackedHours(timed, { now, billableOnly: true })).toBe(4.5);
+    // $500 quote less the $80 the client does not pay back, over 5.5 hours
+    expect(effectiveHourlyRate(timed, now)).toBeCloseTo(420 / 5.5);
+    expect(effectiveHourlyRate(job(), now)).toBeNull();
+    expect(formatDuration(65 * 60000)).toBe('1h 05m');
+
+    const summary = budgetAnalytics.calculateBudgetSummary([timed, job({ id: 'j2', quote: 10000 })], now);
+    expect(summary).toMatchObject({ hoursWorked: 5.5, billableHours: 4.5 });
+    expect(summary.effectiveHourlyRate).toBeCloseTo(420 / 5.5);
+  });
+
+  describe('via the jobs slice', () => {
+    const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('stores the running timer so it survives a restart', async () => {
+      const store = makeStore();
+      await store.dispatch(createJob(job()));
+
+      const clockedIn = await store.dispatch(clockIn({ jobId: 'j1', source: 'JobDetailScreen' })).unwrap();
+      expect(runningEntry((await jobsRepository.getById('j1'))!)).toEqual(runningEntry(clockedIn));
+      // Thunks reject with the serialized error
+      await expect(store.dispatch(clockIn({ jobId: 'j1', source: 'JobDetailScreen' })).unwrap()).rejects.toMatchObject({
+        message: 'A timer is already running on this job',
+      });
+
+      const clockedOut = await store.dispatch(clockOut({ jobId: 'j1', source: 'JobDetailScreen' })).unwrap();
+      await store.dispatch(saveTimeEntry({ jobId: 'j1', entry: entry('manual', '06:00', '07:00'), source: 'JobDetailScreen' }));
+
+      const stored = (await jobsRepository.getById('j1'))!;
+      expect(stored.timeEntries).toEqual([entry('manual', '06:00', '07:00'), ...clockedOut.timeEntries!]);
+      expect(denormalizeJob(store.getState().jobs, 'j1')!.timeEntries).toEqual(stored.timeEntries);
+    });
+  });
+});
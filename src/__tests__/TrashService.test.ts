@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import {
+  emptyTrash,
+  getTrash,
+  purgeExpiredTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  trashClient,
+  trashExpense,
+  trashJob,
+} from '../services/TrashService';
+import { clientsRepository, jobsRepository, trashRepository } from '../services/Repository';
+import { Client, Job } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => ({
+  deleteAsync: jest.fn(async () => undefined),
+}));
+
+describe('TrashService', () => {
+  const client = (id: string): Client => ({
+    id,
+    fullName: `Client ${id}`,
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: `${id}@example.com`,
+    createdDate: '2024-01-01',
+  });
+
+  const job = (id: string, clientId: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId,
+    clientName: `Client ${clientId}`,
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'In-Progress',
+    expenses: [
+      {
+        id: `${id}-e1`,
+        description: 'Lumber',
+        amount: 40,
+        isReimbursable: false,
+        date: '2024-01-02',
+        receiptImageLocalUri: `file:///docs/receipts/${id}.jpg`,
+      },
+    ],
+    ...overrides,
+  });
+
+  const jobIds = async () => (await jobsRepository.getAll()).map((j) => j.id);
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    await clientsRepository.replaceAll([client('c1'), client('c2')]);
+    await jobsRepository.replaceAll([job('j1', 'c1'), job('j2', 'c1'), job('j3', 'c2')]);
+  });
+
+  it('moves a job to the trash and restores it', async () => {
+    const entry = await trashJob('j1');
+
+    expect(entry).toEqual(expect.objectContaining({ id: 'job:j1', type: 'job', label: 'Job j1' }));
+    expect(await jobIds()).toEqual(['j2', 'j3']);
+
+    await restoreFromTrash('job:j1');
+    expect(await jobIds()).toEqual(['j2', 'j3', 'j1']);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('trashes cascaded jobs with their client and restores them together', async () => {
+    const entry = await trashClient('c1', { mode: 'cascade' });
+
+    expect(entry.cascadedJobIds).toEqual(['j1', 'j2']);
+    expect((await getTrash()).map((e) => e.id).sort()).toEqual(['client:c1', 'job:j1', 'job:j2']);
+    expect(await jobIds()).toEqual(['j3']);
+
+    await restoreFromTrash('client:c1');
+    expect((await clientsRepository.getAll()).map((c) => c.id)).toEqual(['c2', 'c1']);
+    expect((await jobIds()).sort()).toEqual(['j1', 'j2', 'j3']);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('brings back the client when one of its cascaded jobs is restored', async () => {
+    await trashClient('c1', { mode: 'cascade' });
+    await restoreFromTrash('job:j2');
+
+    expect((await clientsRepository.getAll()).map((c) => c.id)).toContain('c1');
+    expect((await getTrash()).map((e) => e.id)).toEqual(['job:j1']);
+  });
+
+  it('restores an expense onto its job', async () => {
+    await trashExpense('j1', 'j1-e1');
+    expect((await jobsRepository.getAll())[0].expenses).toEqual([]);
+
+    await restoreFromTrash('expense:j1:j1-e1');
+    expect((await jobsRepository.getAll())[0].expenses.map((e) => e.id)).toEqual(['j1-e1']);
+  });
+
+  it('keeps expenses with the same id on different jobs apart', async () => {
+    const lumber = job('j1', 'c1').expenses[0];
+    await jobsRepository.replaceAll([
+      job('j1', 'c1', { expenses: [{ ...lumber, id: 'e1' }] }),
+      job('j2', 'c1', { expenses: [{ ...lumber, id: 'e1', amount: 15 }] }),
+    ]);
+
+    await trashExpense('j1', 'e1');
+    await trashExpense('j2', 'e1');
+    expect((await getTrash()).map((e) => e.id)).toEqual(['expense:j1:e1', 'expense:j2:e1']);
+
+    await restoreFromTrash('expense:j1:e1');
+    await restoreFromTrash('expense:j2:e1');
+    expect((await jobsRepository.getAll()).map((j) => j.expenses.map((e) => e.amount))).toEqual([[40], [15]]);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('refuses to restore an expense while its job is in the trash', async () => {
+    await trashExpense('j1', 'j1-e1');
+    await trashJob('j1');
+
+    await expect(restoreFromTrash('expense:j1:j1-e1')).rejects.toThrow(
+      'Restore the job this expense belongs to first'
+    );
+    expect((await getTrash()).map((e) => e.id)).toEqual(['expense:j1:j1-e1', 'job:j1']);
+  });
+
+  it('deletes receipt files when entries are purged', async () => {
+    await trashJob('j1');
+    await trashJob('j2');
+
+    await purgeFromTrash('job:j1');
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///docs/receipts/j1.jpg', { idempotent: true });
+    expect((await getTrash()).map((e) => e.id)).toEqual(['job:j2']);
+
+    expect(await emptyTrash()).toBe(1);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('purges only entries older than the retention period', async () => {
+    await trashJob('j1');
+    await trashJob('j2');
+    const [old, recent] = await trashRepository.getAll();
+    await trashRepository.replaceAll([
+      { ...old, deletedAt: '2024-01-01T00:00:00.000Z' },
+      { ...recent, deletedAt: '2024-01-25T00:00:00.000Z' },
+    ]);
+
+    const purged = await purgeExpiredTrash(30, new Date('2024-02-10T00:00:00.000Z'));
+
+    expect(purged).toBe(1);
+    expect((await getTrash()).map((e) => e.id)).toEqual(['job:j2']);
+  });
+});
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { runInTransaction } from '../services/UnitOfWork';
+import { clientsRepository, jobsRepository } from '../services/Repository';
+import { deleteClient } from '../services/ClientService';
+import { recordPayment } from '../services/StorageService';
+import { Client, Job, Payment } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('UnitOfWork', () => {
+  const client = (id: string): Client => ({
+    id,
+    fullName: `Client ${id}`,
+    address: '1 Main St',
+    phoneNumber: '555-0001',
+    emailAddress: `${id}@example.com`,
+    createdDate: '2024-01-01',
+  });
+
+  const job = (id: string, clientId: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId,
+    clientName: `Client ${clientId}`,
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'In-Progress',
+    expenses: [],
+    ...overrides,
+  });
+
+  const payment = (id: string, jobId: string, amount: number): Payment => ({
+    id,
+    jobId,
+    amount,
+    method: 'cash',
+    status: 'completed',
+    paymentDate: '2024-01-04',
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await clientsRepository.replaceAll([client('c1'), client('c2')]);
+    await jobsRepository.replaceAll([job('j1', 'c1'), job('j2', 'c1'), job('j3', 'c2')]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('runInTransaction', () => {
+    it('shows staged changes to reads and writes them on commit', async () => {
+      await runInTransaction('test', async (uow) => {
+        await uow.removeJob('j1');
+        await uow.putClient(client('c3'));
+        expect((await uow.getJobs()).map((j) => j.id)).toEqual(['j2', 'j3']);
+        expect(await jobsRepository.getAll()).toHaveLength(3);
+      });
+
+      expect((await jobsRepository.getAll()).map((j) => j.id)).toEqual(['j2', 'j3']);
+      expect((await clientsRepository.getAll()).map((c) => c.id)).toEqual(['c1', 'c2', 'c3']);
+    });
+
+    it('writes nothing when the work throws', async () => {
+      await expect(
+        runInTransaction('test', async (uow) => {
+          await uow.removeJob('j1');
+          throw new Error('changed my mind');
+        })
+      ).rejects.toThrow('changed my mind');
+
+      expect(await jobsRepository.getAll()).toHaveLength(3);
+    });
+
+    it('restores every touched collection when a write fails midway', async () => {
+      const clientsBefore = await clientsRepository.getAll();
+      const jobsBefore = await jobsRepository.getAll();
+      jest.spyOn(jobsRepository, 'update').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(
+        runInTransaction('test', async (uow) => {
+          await uow.removeClient('c2');
+          await uow.removeJob('j1');
+          await uow.updateJob(job('j2', 'c1', { quote: 999 }));
+        })
+      ).rejects.toThrow('disk full');
+
+      expect(await clientsRepository.getAll()).toEqual(clientsBefore);
+      expect(await jobsRepository.getAll()).toEqual(jobsBefore);
+    });
+
+    it('runs transactions one after another', async () => {
+      const order: string[] = [];
+      await Promise.all([
+        runInTransaction('first', async (uow) => {
+          order.push('first:start');
+          await uow.removeJob('j1');
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          order.push('first:end');
+        }),
+        runInTransaction('second', async (uow) => {
+          order.push('second:start');
+          expect(await uow.getJob('j1')).toBeNull();
+        }),
+      ]);
+      expect(order).toEqual(['first:start', 'first:end', 'second:start']);
+    });
+  });
+
+  describe('deleteClient policies', () => {
+    it('blocks deleting a client that still has jobs', async () => {
+      await expect(deleteClient('c1')).rejects.toThrow('Client c1 still has 2 job(s)');
+      expect(await clientsRepository.getAll()).toHaveLength(2);
+    });
+
+    it('cascades to the client jobs', async () => {
+      const result = await deleteClient('c1', { mode: 'cascade' });
+      expect(result.removedJobIds).toEqual(['j1', 'j2']);
+      expect((await jobsRepository.getAll()).map((j) => j.id)).toEqual(['j3']);
+      expect((await clientsRepository.getAll()).map((c) => c.id)).toEqual(['c2']);
+    });
+
+    it('reassigns jobs to another client', async () => {
+      const result = await deleteClient('c1', { mode: 'reassign', toClientId: 'c2' });
+      expect(result.reassignedJobs.map((j) => j.id)).toEqual(['j1', 'j2']);
+      const jobs = await jobsRepository.getAll();
+      expect(jobs.every((j) => j.clientId === 'c2' && j.clientName === 'Client c2')).toBe(true);
+    });
+
+    it('refuses to reassign to a missing client', async () => {
+      await expect(deleteClient('c1', { mode: 'reassign', toClientId: 'nope' })).rejects.toThrow(
+        'Cannot reassign jobs to client nope'
+      );
+      expect((await jobsRepository.getAll()).filter((j) => j.clientId === 'c1')).toHaveLength(2);
+    });
+  });
+
+  describe('recordPayment', () => {
+    it('adds the payment and completes the job once paid in full', async () => {
+      const partial = await recordPayment(payment('p1', 'j1', 40));
+      expect(partial.status).toBe('In-Progress');
+
+      const paid = await recordPayment(payment('p2', 'j1', 60));
+      expect(paid.status).toBe('Completed');
+
+      const stored = (await jobsRepository.getAll()).find((j) => j.id === 'j1')!;
+      expect(stored.payments!.map((p) => p.id)).toEqual(['p1', 'p2']);
+      expect(stored.status).toBe('Completed');
+    });
+
+    it('ignores a payment that was already recorded', async () => {
+      await recordPayment(payment('p1', 'j1', 40));
+      await recordPayment(payment('p1', 'j1', 40));
+      const stored = (await jobsRepository.getAll()).find((j) => j.id === 'j1')!;
+      expect(stored.payments).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  deleteVisit,
+  findCrewConflicts,
+  knownWorkers,
+  putVisit,
+  visitConflicts,
+} from '../services/VisitScheduling';
+import { Job, Visit } from '../types';
+
+describe('VisitScheduling', () => {
+  const visit = (id: string, overrides: Partial<Visit> = {}): Visit => ({
+    id,
+    date: '2024-03-05',
+    startTime: '08:00',
+    endTime: '12:00',
+    workers: ['Marco'],
+    status: 'Scheduled',
+    ...overrides,
+  });
+
+  const job = (id: string, visits: Visit[], overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-03-01',
+    startDate: '2024-03-05',
+    endDate: '2024-03-19',
+    status: 'Accepted',
+    expenses: [],
+    visits,
+    ...overrides,
+  });
+
+  it('keeps visits in date order with a tidy crew list', () => {
+    const scheduled = putVisit(
+      putVisit(job('j1', []), visit('v2', { date: '2024-03-12' })),
+      visit('v1', { workers: [' Marco ', 'ana', 'marco', ''] })
+    );
+
+    expect(scheduled.visits!.map((v) => v.id)).toEqual(['v1', 'v2']);
+    expect(scheduled.visits![0].workers).toEqual(['Marco', 'ana']);
+    expect(putVisit(scheduled, visit('v2', { date: '2024-03-01' })).visits!.map((v) => v.id)).toEqual(['v2', 'v1']);
+    expect(deleteVisit(scheduled, 'v1').visits!.map((v) => v.id)).toEqual(['v2']);
+
+    expect(() => putVisit(scheduled, visit('v3', { date: '3/5/2024' }))).toThrow('YYYY-MM-DD');
+    expect(() => putVisit(scheduled, visit('v3', { endTime: '07:00' }))).toThrow('end after it starts');
+    expect(() => deleteVisit(scheduled, 'missing')).toThrow('not found');
+  });
+
+  it('finds workers booked on overlapping visits across jobs', () => {
+    const jobs = [
+      job('j1', [visit('v1'), visit('v2', { date: '2024-03-12' })]),
+      job('j2', [
+        visit('v1', { startTime: '11:00', endTime: '15:00', workers: ['MARCO', 'Ana'] }),
+        // Back to back is not a double booking
+        visit('v2', { date: '2024-03-12', startTime: '12:00', endTime: '14:00' }),
+      ]),
+      job('j3', [visit('v1', { status: 'Cancelled' })]),
+      job('j4', [visit('v1')], { status: 'Cancelled' }),
+    ];
+
+    const conflicts = findCrewConflicts(jobs);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      worker: 'Marco',
+      date: '2024-03-05',
+      first: { jobId: 'j1', visit: { id: 'v1' } },
+      second: { jobId: 'j2', visit: { id: 'v1' } },
+    });
+  });
+
+  it('checks a visit being edited against everything but itself', () => {
+    const jobs = [job('j1', [visit('v1')]), job('j2', [visit('v1', { startTime: '09:00', workers: ['Ana', 'Marco'] })])];
+
+    expect(visitConflicts(jobs, 'j1', visit('v1', { workers: ['Ana'] })).map((c) => [c.worker, c.second.jobId])).toEqual([
+      ['Ana', 'j2'],
+    ]);
+    expect(visitConflicts(jobs, 'j1', visit('v1', { date: '2024-03-06' }))).toEqual([]);
+    expect(visitConflicts(jobs, 'j2', visit('v2', { startTime: '10:00', workers: ['Marco'] })).map((c) => c.second.jobId)).toEqual([
+      'j1',
+      'j2',
+    ]);
+    expect(knownWorkers(jobs)).toEqual(['Ana', 'Marco']);
+  });
+});
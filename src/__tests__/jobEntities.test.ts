@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import jobsReducer, {
+  addExpense,
+  createJob,
+  recordPayment,
+  setJobs,
+  updateExpense,
+  updatePayment,
+} from '../state/slices/jobsSlice';
+import historyReducer, { undo } from '../state/slices/historySlice';
+import { createJobDenormalizer, denormalizeJobs, normalizeJob } from '../state/jobEntities';
+import { jobsRepository } from '../services/Repository';
+import { Expense, Job, Payment } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('normalized job state', () => {
+  const expense = (id: string, overrides: Partial<Expense> = {}): Expense => ({
+    id,
+    description: `Expense ${id}`,
+    amount: 25,
+    isReimbursable: false,
+    date: '2024-01-02',
+    ...overrides,
+  });
+
+  const payment = (overrides: Partial<Payment> = {}): Payment => ({
+    id: 'p1',
+    jobId: 'j1',
+    amount: 40,
+    method: 'paypal',
+    status: 'pending',
+    paymentDate: '2024-01-04',
+    ...overrides,
+  });
+
+  const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    jobName: `Job ${id}`,
+    description: 'desc',
+    clientId: 'c1',
+    clientName: 'Client c1',
+    quote: 100,
+    quoteDate: '2024-01-01',
+    startDate: '2024-01-02',
+    endDate: '2024-01-03',
+    status: 'Quoted',
+    expenses: [],
+    ...overrides,
+  });
+
+  const tool = { id: 'tool_0', text: 'Ladder', completed: false, createdDate: '2024-01-01' };
+
+  const makeStore = () => configureStore({ reducer: { jobs: jobsReducer, history: historyReducer } });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('round-trips jobs whose expense and checklist ids repeat across jobs', () => {
+    const jobs = [
+      job('j1', { expenses: [expense('e1'), expense('e2')], toolsAndSupplies: [tool], payments: [payment()] }),
+      job('j2', { expenses: [expense('e1', { amount: 99 })], toolsAndSupplies: [{ ...tool, completed: true }] }),
+    ];
+
+    const state = jobsReducer(undefined, setJobs(jobs));
+
+    expect(state.expenses.ids).toEqual(['j1/e1', 'j1/e2', 'j2/e1']);
+    expect(state.checklistItems.entities['j2/tool_0']).toMatchObject({ jobId: 'j2', completed: true });
+    expect(normalizeJob(jobs[1]).job).not.toHaveProperty('paymentIds');
+    expect(denormalizeJobs(state)).toEqual(jobs);
+  });
+
+  it('keeps unchanged jobs as the same objects after an expense edit', () => {
+    const denormalize = createJobDenormalizer();
+    const before = jobsReducer(undefined, setJobs([job('j1', { expenses: [expense('e1')] }), job('j2')]));
+    const after = jobsReducer(before, {
+      type: updateExpense.fulfilled.type,
+      payload: { jobId: 'j1', expense: expense('e1', { amount: 30 }) },
+    });
+
+    const [j1Before, j2Before] = denormalize(before);
+    const [j1After, j2After] = denormalize(after);
+
+    expect(after.jobs).toBe(before.jobs);
+    expect(j2After).toBe(j2Before);
+    expect(j1After).not.toBe(j1Before);
+    expect(j1After.expenses[0].amount).toBe(30);
+  });
+
+  it('adds and edits an expense on the stored job and can undo it', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job('j1')));
+
+    await store.dispatch(addExpense({ jobId: 'j1', expense: expense('e1'), source: 'AddExpenseScreen' }));
+    await store.dispatch(
+      updateExpense({ jobId: 'j1', expense: expense('e1', { amount: 60 }), source: 'AddExpenseScreen' })
+    );
+
+    expect(denormalizeJobs(store.getState().jobs)[0].expenses).toEqual([expense('e1', { amount: 60 })]);
+    expect((await jobsRepository.getById('j1'))!.expenses).toEqual([expense('e1', { amount: 60 })]);
+
+    await store.dispatch(undo());
+    expect(denormalizeJobs(store.getState().jobs)[0].expenses).toEqual([]);
+    expect((await jobsRepository.getById('j1'))!.expenses).toEqual([]);
+  });
+
+  it('rejects an edit to an expense the job does not have', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job('j1')));
+
+    const result = await store.dispatch(
+      updateExpense({ jobId: 'j1', expense: expense('missing'), source: 'AddExpenseScreen' })
+    );
+
+    expect(result.meta.requestStatus).toBe('rejected');
+    expect(store.getState().jobs.error).toBe('Expense with ID missing not found on job j1');
+  });
+
+  it('marks a pending payment as received', async () => {
+    const store = makeStore();
+    await store.dispatch(createJob(job('j1', { quote: 500 })));
+    await store.dispatch(recordPayment(payment()));
+
+    await store.dispatch(updatePayment(payment({ status: 'completed' })));
+
+    expect(store.getState().jobs.payments.entities['j1/p1'].status).toBe('completed');
+    expect((await jobsRepository.getById('j1'))!.payments).toEqual([payment({ status: 'completed' })]);
+  });
+});
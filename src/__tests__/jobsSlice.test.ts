@@ -7,15 +7,18 @@ import jobsReducer, {
   createJob,
   modifyJob,
   removeJob,
+  setJobs,
 } from '../state/slices/jobsSlice';
+import { denormalizeJobs, initialJobTables } from '../state/jobEntities';
 import { Job } from '../types';
 import { configureStore } from '@reduxjs/toolkit';
 
 describe('jobsSlice', () => {
   const initialState = {
-    jobs: [],
+    ...initialJobTables,
     loading: false,
     error: null,
+    loadError: null,
     filter: 'all' as const,
   };
 
@@ -41,15 +44,12 @@ describe('jobsSlice', () => {
 
   it('should handle addJob', () => {
     const actual = jobsReducer(initialState, addJob(mockJob));
-    expect(actual.jobs).toHaveLength(1);
-    expect(actual.jobs[0]).toEqual(mockJob);
+    expect(denormalizeJobs(actual)).toHaveLength(1);
+    expect(denormalizeJobs(actual)[0]).toEqual(mockJob);
   });
 
   it('should handle updateJob', () => {
-    const stateWithJob = {
-      ...initialState,
-      jobs: [mockJob],
-    };
+    const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
 
     const updatedJob = {
       ...mockJob,
@@ -58,18 +58,15 @@ describe('jobsSlice', () => {
     };
 
     const actual = jobsReducer(stateWithJob, updateJob(updatedJob));
-    expect(actual.jobs[0].jobName).toBe('Updated Job Name');
-    expect(actual.jobs[0].status).toBe('In-Progress');
+    expect(denormalizeJobs(actual)[0].jobName).toBe('Updated Job Name');
+    expect(denormalizeJobs(actual)[0].status).toBe('In-Progress');
   });
 
   it('should handle deleteJob', () => {
-    const stateWithJob = {
-      ...initialState,
-      jobs: [mockJob],
-    };
+    const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
 
     const actual = jobsReducer(stateWithJob, deleteJob(mockJob.id));
-    expect(actual.jobs).toHaveLength(0);
+    expect(denormalizeJobs(actual)).toHaveLength(0);
   });
 
   it('should handle setFilter', () => {
@@ -78,10 +75,7 @@ describe('jobsSlice', () => {
   });
 
   it('should not update job if id does not exist', () => {
-    const stateWithJob = {
-      ...initialState,
-      jobs: [mockJob],
-    };
+    const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
 
     const nonExistentJob = {
       ...mockJob,
@@ -90,8 +84,8 @@ describe('jobsSlice', () => {
     };
 
     const actual = jobsReducer(stateWithJob, updateJob(nonExistentJob));
-    expect(actual.jobs).toHaveLength(1);
-    expect(actual.jobs[0].jobName).toBe('Test Job');
+    expect(denormalizeJobs(actual)).toHaveLength(1);
+    expect(denormalizeJobs(actual)[0].jobName).toBe('Test Job');
   });
 
   describe('async thunks', () => {
@@ -123,7 +117,7 @@ describe('jobsSlice', () => {
       };
       const actual = jobsReducer(initialState, action);
       expect(actual.loading).toBe(false);
-      expect(actual.jobs).toEqual([mockJob]);
+      expect(denormalizeJobs(actual)).toEqual([mockJob]);
       expect(actual.error).toBe(null);
     });
 
@@ -132,9 +126,12 @@ describe('jobsSlice', () => {
         type: fetchJobs.rejected.type,
         error: { message: 'Failed to fetch jobs' }
       };
-      const actual = jobsReducer(initialState, action);
+      const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
+      const actual = jobsReducer(stateWithJob, action);
       expect(actual.loading).toBe(false);
       expect(actual.error).toBe('Failed to fetch jobs');
+      expect(denormalizeJobs(actual)).toEqual([mockJob]);
+      expect(actual.loadError).toMatchObject({ collection: 'jobs', message: 'Failed to fetch jobs' });
     });
 
     it('should handle createJob.fulfilled', () => {
@@ -144,15 +141,12 @@ describe('jobsSlice', () => {
       };
       const actual = jobsReducer(initialState, action);
       expect(actual.loading).toBe(false);
-      expect(actual.jobs).toEqual([mockJob]);
+      expect(denormalizeJobs(actual)).toEqual([mockJob]);
       expect(actual.error).toBe(null);
     });
 
     it('should handle modifyJob.fulfilled', () => {
-      const stateWithJob = {
-        ...initialState,
-        jobs: [mockJob],
-      };
+      const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
 
       const updatedJob = {
         ...mockJob,
@@ -165,15 +159,12 @@ describe('jobsSlice', () => {
       };
       const actual = jobsReducer(stateWithJob, action);
       expect(actual.loading).toBe(false);
-      expect(actual.jobs[0].jobName).toBe('Updated Job Name');
+      expect(denormalizeJobs(actual)[0].jobName).toBe('Updated Job Name');
       expect(actual.error).toBe(null);
     });
 
     it('should handle removeJob.fulfilled', () => {
-      const stateWithJob = {
-        ...initialState,
-        jobs: [mockJob],
-      };
+      const stateWithJob = jobsReducer(initialState, setJobs([mockJob]));
 
       const action = { 
         type: removeJob.fulfilled.type, 
@@ -181,7 +172,7 @@ describe('jobsSlice', () => {
       };
       const actual = jobsReducer(stateWithJob, action);
       expect(actual.loading).toBe(false);
-      expect(actual.jobs).toHaveLength(0);
+      expect(denormalizeJobs(actual)).toHaveLength(0);
       expect(actual.error).toBe(null);
     });
   });
@@ -7,8 +7,11 @@ import {
   FlatList,
   StyleSheet,
   Alert,
+  Modal,
+  TouchableWithoutFeedback,
 } from 'react-native';
-import { ChecklistItem } from '../types';
+import { ChecklistItem, InventoryItem } from '../types';
+import { matchInventoryItem } from '../services/InventoryMatching';
 
 interface ChecklistProps {
   items: ChecklistItem[];
@@ -16,6 +19,14 @@ interface ChecklistProps {
   title?: string;
   placeholder?: string;
   editable?: boolean;
+  // When given, items can be linked to inventory stock and show how many are on hand
+  inventory?: InventoryItem[];
+}
+
+interface LinkDraft {
+  itemId: string;
+  inventoryItemId?: string;
+  quantity: string;
 }
 
 const Checklist: React.FC<ChecklistProps> = React.memo(({
@@ -24,8 +35,10 @@ const Checklist: React.FC<ChecklistProps> = React.memo(({
   title = 'Checklist',
   placeholder = 'Add new item...',
   editable = true,
+  inventory,
 }) => {
   const [newItemText, setNewItemText] = useState('');
+  const [linkDraft, setLinkDraft] = useState<LinkDraft | null>(null);
 
   const addItem = useCallback(() => {
     if (!newItemText.trim()) {
@@ -39,10 +52,15 @@ const Checklist: React.FC<ChecklistProps> = React.memo(({
       completed: false,
       createdDate: new Date().toISOString(),
     };
+    const match = inventory && matchInventoryItem(newItem.text, inventory);
+    if (match) {
+      newItem.inventoryItemId = match.id;
+      newItem.quantity = 1;
+    }
 
     onItemsChange([...items, newItem]);
     setNewItemText('');
-  }, [newItemText, items, onItemsChange]);
+  }, [newItemText, items, onItemsChange, inventory]);
 
   const toggleItem = useCallback((itemId: string) => {
     const updatedItems = items.map(item =>
@@ -81,6 +99,26 @@ const Checklist: React.FC<ChecklistProps> = React.memo(({
     onItemsChange(updatedItems);
   };
 
+  const openLink = (item: ChecklistItem) =>
+    setLinkDraft({ itemId: item.id, inventoryItemId: item.inventoryItemId, quantity: String(item.quantity ?? 1) });
+
+  const linkQuantity = linkDraft ? parseFloat(linkDraft.quantity) : NaN;
+  const linkError = linkDraft?.inventoryItemId && !(linkQuantity > 0) ? 'Enter how many the job needs' : '';
+
+  const saveLink = () => {
+    if (!linkDraft || linkError) return;
+    onItemsChange(
+      items.map((item) => {
+        if (item.id !== linkDraft.itemId) return item;
+        const { inventoryItemId, quantity, ...rest } = item;
+        return linkDraft.inventoryItemId
+          ? { ...rest, inventoryItemId: linkDraft.inventoryItemId, quantity: linkQuantity }
+          : rest;
+      })
+    );
+    setLinkDraft(null);
+  };
+
   const renderItem = ({ item }: { item: ChecklistItem }) => (
     <ChecklistItemComponent
       item={item}
@@ -88,6 +126,8 @@ const Checklist: React.FC<ChecklistProps> = React.memo(({
       onDelete={deleteItem}
       onEdit={editItem}
       editable={editable}
+      stock={inventory?.find((stocked) => stocked.id === item.inventoryItemId)}
+      onLink={inventory && editable ? openLink : undefined}
     />
   );
 
@@ -139,6 +179,60 @@ const Checklist: React.FC<ChecklistProps> = React.memo(({
           </Text>
         </View>
       )}
+
+      <Modal visible={linkDraft !== null} transparent animationType="fade" onRequestClose={() => setLinkDraft(null)}>
+        <TouchableWithoutFeedback onPress={() => setLinkDraft(null)}>
+          <View style={styles.modalBackdrop}>
+            <TouchableWithoutFeedback>
+              <View style={styles.modalContent}>
+                {linkDraft && (
+                  <>
+                    <Text style={styles.modalTitle}>Link to Inventory</Text>
+                    {inventory && inventory.length > 0 ? (
+                      <View style={styles.chipRow}>
+                        {inventory.map((stocked) => {
+                          const selected = linkDraft.inventoryItemId === stocked.id;
+                          return (
+                            <TouchableOpacity
+                              key={stocked.id}
+                              style={[styles.chip, selected && styles.chipActive]}
+                              onPress={() =>
+                                setLinkDraft({ ...linkDraft, inventoryItemId: selected ? undefined : stocked.id })
+                              }
+                            >
+                              <Text style={[styles.chipText, selected && styles.chipTextActive]}>{stocked.name}</Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    ) : (
+                      <Text style={styles.emptyStateSubtext}>Add items in Settings &gt; Inventory first</Text>
+                    )}
+                    {!!linkDraft.inventoryItemId && (
+                      <TextInput
+                        style={styles.modalInput}
+                        value={linkDraft.quantity}
+                        onChangeText={(quantity) => setLinkDraft({ ...linkDraft, quantity })}
+                        placeholder="Quantity needed"
+                        keyboardType="decimal-pad"
+                      />
+                    )}
+                    {!!linkError && <Text style={styles.errorText}>{linkError}</Text>}
+                    <View style={styles.modalActions}>
+                      <TouchableOpacity style={styles.modalButton} onPress={() => setLinkDraft(null)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.modalButton} onPress={saveLink} disabled={!!linkError}>
+                        <Text style={[styles.saveText, !!linkError && styles.disabledText]}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
     </View>
   );
 });
@@ -149,6 +243,9 @@ interface ChecklistItemComponentProps {
   onDelete: (itemId: string) => void;
   onEdit: (itemId: string, newText: string) => void;
   editable: boolean;
+  // The inventory item this entry is linked to, if any
+  stock?: InventoryItem;
+  onLink?: (item: ChecklistItem) => void;
 }
 
 const ChecklistItemComponent: React.FC<ChecklistItemComponentProps> = React.memo(({
@@ -157,6 +254,8 @@ const ChecklistItemComponent: React.FC<ChecklistItemComponentProps> = React.memo
   onDelete,
   onEdit,
   editable,
+  stock,
+  onLink,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(item.text);
@@ -171,6 +270,13 @@ const ChecklistItemComponent: React.FC<ChecklistItemComponentProps> = React.memo
     setIsEditing(false);
   };
 
+  const needed = item.quantity ?? 1;
+  const stockLabel = stock
+    ? `📦 ${needed} ${stock.unit || '×'} ${stock.name} · ${stock.quantityOnHand} on hand`
+    : onLink
+      ? 'Link to inventory'
+      : '';
+
   return (
     <View style={styles.itemContainer}>
       <TouchableOpacity
@@ -200,20 +306,25 @@ const ChecklistItemComponent: React.FC<ChecklistItemComponentProps> = React.memo
         </View>
       ) : (
         <View style={styles.textContainer}>
-          <TouchableOpacity
-            style={styles.textTouchable}
-            onPress={() => editable && setIsEditing(true)}
-            disabled={!editable}
-          >
-            <Text
-              style={[
-                styles.itemText,
-                item.completed && styles.completedText
-              ]}
-            >
-              {item.text}
-            </Text>
-          </TouchableOpacity>
+          <View style={styles.textTouchable}>
+            <TouchableOpacity onPress={() => editable && setIsEditing(true)} disabled={!editable}>
+              <Text
+                style={[
+                  styles.itemText,
+                  item.completed && styles.completedText
+                ]}
+              >
+                {item.text}
+              </Text>
+            </TouchableOpacity>
+            {!!stockLabel && (
+              <TouchableOpacity onPress={() => onLink?.(item)} disabled={!onLink}>
+                <Text style={[styles.stockText, !!stock && stock.quantityOnHand < needed && styles.shortText]}>
+                  {stockLabel}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
 
           {editable && (
             <TouchableOpacity
@@ -351,6 +462,87 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  stockText: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginTop: 2,
+  },
+  shortText: {
+    color: '#d32f2f',
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+  disabledText: {
+    color: '#aaa',
+  },
 });
 
 export default Checklist;
\ No newline at end of file
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { Job } from '../types';
+import { availableTransitions } from '../services/JobLifecycle';
+
+interface JobStatusPickerProps {
+  // The picker is shown while a job is set
+  job: Job | null;
+  getStatusColor: (status: string) => string;
+  onSelect: (status: Job['status'], reason?: string) => void;
+  onClose: () => void;
+}
+
+// Offers only the statuses the job lifecycle allows, and asks for a reason where one is required
+const JobStatusPicker: React.FC<JobStatusPickerProps> = ({ job, getStatusColor, onSelect, onClose }) => {
+  const [pendingStatus, setPendingStatus] = useState<Job['status'] | null>(null);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setPendingStatus(null);
+    setReason('');
+  }, [job]);
+
+  const transitions = job ? availableTransitions(job) : [];
+
+  const choose = (status: Job['status'], requiresReason: boolean) => {
+    if (requiresReason) {
+      setPendingStatus(status);
+    } else {
+      onSelect(status);
+    }
+  };
+
+  return (
+    <Modal visible={job !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalBackdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.statusModalContent}>
+              {job && pendingStatus ? (
+                <View style={styles.reasonContainer}>
+                  <Text style={styles.reasonTitle}>
+                    Move "{job.jobName}" to {pendingStatus}
+                  </Text>
+                  <TextInput
+                    style={styles.reasonInput}
+                    value={reason}
+                    onChangeText={setReason}
+                    placeholder="Reason (required)"
+                    autoFocus
+                    multiline
+                  />
+                  <View style={styles.reasonActions}>
+                    <TouchableOpacity style={styles.reasonButton} onPress={() => setPendingStatus(null)}>
+                      <Text style={styles.reasonCancelText}>Back</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.reasonButton}
+                      onPress={() => onSelect(pendingStatus, reason.trim())}
+                      disabled={!reason.trim()}
+                    >
+                      <Text style={[styles.reasonConfirmText, !reason.trim() && styles.disabledText]}>Confirm</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                job && (
+                  <>
+                    <View style={styles.statusOption}>
+                      <View style={[styles.statusDot, { backgroundColor: getStatusColor(job.status) }]} />
+                      <Text style={[styles.statusOptionText, styles.statusOptionTextActive]}>{job.status} (current)</Text>
+                    </View>
+                    {transitions.map((transition) => (
+                      <TouchableOpacity
+                        key={transition.to}
+                        style={styles.statusOption}
+                        onPress={() => choose(transition.to, transition.requiresReason)}
+                        disabled={!transition.allowed}
+                        accessibilityState={{ disabled: !transition.allowed }}
+                      >
+                        <View
+                          style={[
+                            styles.statusDot,
+                            { backgroundColor: transition.allowed ? getStatusColor(transition.to) : '#ccc' },
+                          ]}
+                        />
+                        <View style={styles.statusTextColumn}>
+                          <Text style={[styles.statusOptionText, !transition.allowed && styles.disabledText]}>
+                            {transition.to}
+                          </Text>
+                          {!transition.allowed && <Text style={styles.blockedReason}>{transition.reason}</Text>}
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                  </>
+                )
+              )}
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  statusModalContent: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  statusOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  statusTextColumn: {
+    flex: 1,
+  },
+  statusOptionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  statusOptionTextActive: {
+    fontWeight: '700',
+  },
+  disabledText: {
+    color: '#aaa',
+  },
+  blockedReason: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  reasonContainer: {
+    paddingVertical: 8,
+  },
+  reasonTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  reasonActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  reasonButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  reasonCancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  reasonConfirmText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+});
+
+export default JobStatusPicker;
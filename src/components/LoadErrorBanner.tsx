@@ -0,0 +1,54 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { LoadError } from '../types';
+
+interface LoadErrorBannerProps {
+  error: LoadError;
+  onRetry: () => void;
+}
+
+// Explains that a failed read did not delete anything, and offers a retry
+const LoadErrorBanner: React.FC<LoadErrorBannerProps> = ({ error, onRetry }) => (
+  <View style={styles.banner}>
+    <View style={styles.textColumn}>
+      <Text style={styles.title}>Couldn't load {error.collection} from storage</Text>
+      <Text style={styles.message}>Your data has not been deleted. {error.message}</Text>
+    </View>
+    <TouchableOpacity onPress={onRetry} accessibilityRole="button">
+      <Text style={styles.action}>RETRY</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF3E0',
+    borderBottomWidth: 1,
+    borderBottomColor: '#FFB74D',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  textColumn: {
+    flex: 1,
+    marginRight: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#E65100',
+  },
+  message: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  action: {
+    color: '#E65100',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
+
+export default LoadErrorBanner;
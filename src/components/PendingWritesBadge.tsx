@@ -0,0 +1,53 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import { retryPendingWrites } from '../state/slices/outboxSlice';
+
+// Shown while changes are waiting in the outbox; tapping retries them now
+const PendingWritesBadge: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { pending, lastError } = useSelector((state: RootState) => state.outbox);
+
+  if (pending === 0) return null;
+
+  const handlePress = () => {
+    Alert.alert(
+      'Changes Not Saved Yet',
+      `${pending} change(s) could not be written to storage and will be retried automatically.` +
+        (lastError ? `\n\nLast error: ${lastError}` : ''),
+      [
+        { text: 'OK', style: 'cancel' },
+        { text: 'Retry Now', onPress: () => dispatch(retryPendingWrites()) },
+      ]
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.badge}
+      onPress={handlePress}
+      accessibilityRole="button"
+      accessibilityLabel={`${pending} pending changes`}
+    >
+      <Text style={styles.badgeText}>{pending} pending</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    backgroundColor: '#FF9800',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
+export default PendingWritesBadge;
@@ -0,0 +1,461 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Switch, StyleSheet, Alert } from 'react-native';
+import { QuoteDiscount, QuoteLineItem, QuoteLineItemCategory } from '../types';
+import { QUOTE_CATEGORIES, calculateQuote, lineItemTotal } from '../services/QuoteCalculator';
+
+interface QuoteLineItemsEditorProps {
+  items: QuoteLineItem[];
+  onItemsChange: (items: QuoteLineItem[]) => void;
+  discount?: QuoteDiscount;
+  onDiscountChange: (discount: QuoteDiscount | undefined) => void;
+  taxRate?: number;
+  onTaxRateChange: (taxRate: number | undefined) => void;
+  editable?: boolean;
+}
+
+interface LineItemForm {
+  description: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string;
+  taxable: boolean;
+  category: QuoteLineItemCategory;
+}
+
+const emptyForm: LineItemForm = {
+  description: '',
+  quantity: '1',
+  unit: 'each',
+  unitPrice: '',
+  taxable: false,
+  category: 'Labor',
+};
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+// Empty or unparseable input clears the value
+const parseAmount = (text: string) => {
+  const value = parseFloat(text);
+  return text.trim() === '' || isNaN(value) ? undefined : value;
+};
+
+// Edits a job's quote line by line; totals are recalculated as items change
+const QuoteLineItemsEditor: React.FC<QuoteLineItemsEditorProps> = ({
+  items,
+  onItemsChange,
+  discount,
+  onDiscountChange,
+  taxRate,
+  onTaxRateChange,
+  editable = true,
+}) => {
+  const [form, setForm] = useState<LineItemForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [discountText, setDiscountText] = useState(discount ? String(discount.value) : '');
+  const [discountType, setDiscountType] = useState<QuoteDiscount['type']>(discount?.type || 'percent');
+  const [taxRateText, setTaxRateText] = useState(taxRate !== undefined ? String(taxRate) : '');
+
+  const totals = useMemo(() => calculateQuote({ lineItems: items, discount, taxRate }), [items, discount, taxRate]);
+
+  const update = (changes: Partial<LineItemForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const saveItem = () => {
+    const quantity = parseFloat(form.quantity);
+    const unitPrice = parseFloat(form.unitPrice);
+    if (!form.description.trim()) {
+      Alert.alert('Error', 'Please enter a description');
+      return;
+    }
+    if (isNaN(quantity) || quantity <= 0) {
+      Alert.alert('Error', 'Please enter a quantity greater than zero');
+      return;
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      Alert.alert('Error', 'Please enter a valid unit price');
+      return;
+    }
+
+    const item: QuoteLineItem = {
+      id: editingId || `line_${Date.now()}`,
+      description: form.description.trim(),
+      quantity,
+      unit: form.unit.trim() || 'each',
+      unitPrice,
+      taxable: form.taxable,
+      category: form.category,
+    };
+    onItemsChange(editingId ? items.map((existing) => (existing.id === editingId ? item : existing)) : [...items, item]);
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const editItem = (item: QuoteLineItem) => {
+    setEditingId(item.id);
+    setForm({
+      description: item.description,
+      quantity: String(item.quantity),
+      unit: item.unit,
+      unitPrice: String(item.unitPrice),
+      taxable: item.taxable,
+      category: item.category,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const deleteItem = (item: QuoteLineItem) => {
+    Alert.alert('Delete Line Item', `Remove "${item.description}" from the quote?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          if (editingId === item.id) cancelEdit();
+          onItemsChange(items.filter((existing) => existing.id !== item.id));
+        },
+      },
+    ]);
+  };
+
+  const changeDiscount = (text: string, type: QuoteDiscount['type']) => {
+    setDiscountText(text);
+    setDiscountType(type);
+    const value = parseAmount(text);
+    onDiscountChange(value !== undefined && value > 0 ? { type, value } : undefined);
+  };
+
+  const changeTaxRate = (text: string) => {
+    setTaxRateText(text);
+    const value = parseAmount(text);
+    onTaxRateChange(value !== undefined && value > 0 ? value : undefined);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Quote Line Items</Text>
+
+      {items.map((item) => (
+        <View key={item.id} style={[styles.itemRow, editingId === item.id && styles.itemRowEditing]}>
+          <TouchableOpacity
+            style={styles.itemInfo}
+            onPress={() => editItem(item)}
+            disabled={!editable}
+            accessibilityRole="button"
+            accessibilityHint="Edit this line item"
+          >
+            <Text style={styles.itemDescription}>{item.description}</Text>
+            <Text style={styles.itemMeta}>
+              {item.category} · {item.quantity} {item.unit} × {formatCurrency(item.unitPrice)}
+              {item.taxable ? ' · taxable' : ''}
+            </Text>
+          </TouchableOpacity>
+          <Text style={styles.itemAmount}>{formatCurrency(lineItemTotal(item))}</Text>
+          {editable && (
+            <TouchableOpacity style={styles.deleteButton} onPress={() => deleteItem(item)}>
+              <Text style={styles.deleteButtonText}>🗑️</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {/* Add / edit form */}
+      {editable && (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            value={form.description}
+            onChangeText={(description) => update({ description })}
+            placeholder="Description (e.g. Install fence posts)"
+          />
+          <View style={styles.formRow}>
+            <TextInput
+              style={[styles.input, styles.quantityInput]}
+              value={form.quantity}
+              onChangeText={(quantity) => update({ quantity })}
+              placeholder="Qty"
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              value={form.unit}
+              onChangeText={(unit) => update({ unit })}
+              placeholder="Unit"
+            />
+            <TextInput
+              style={[styles.input, styles.priceInput]}
+              value={form.unitPrice}
+              onChangeText={(unitPrice) => update({ unitPrice })}
+              placeholder="Unit price"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.chipRow}>
+            {QUOTE_CATEGORIES.map((category) => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.chip, form.category === category && styles.chipActive]}
+                onPress={() => update({ category })}
+              >
+                <Text style={[styles.chipText, form.category === category && styles.chipTextActive]}>{category}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Taxable</Text>
+            <Switch value={form.taxable} onValueChange={(taxable) => update({ taxable })} />
+          </View>
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={cancelEdit}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.addButton} onPress={saveItem}>
+              <Text style={styles.addButtonText}>{editingId ? 'Update Item' : 'Add Item'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {items.length > 0 && (
+        <View style={styles.totals}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Subtotal</Text>
+            <Text style={styles.totalValue}>{formatCurrency(totals.subtotal)}</Text>
+          </View>
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Discount</Text>
+            <View style={styles.adjustment}>
+              {(['percent', 'amount'] as const).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, discountType === type && styles.chipActive]}
+                  onPress={() => changeDiscount(discountText, type)}
+                  disabled={!editable}
+                >
+                  <Text style={[styles.chipText, discountType === type && styles.chipTextActive]}>
+                    {type === 'percent' ? '%' : '$'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TextInput
+                style={[styles.input, styles.adjustmentInput]}
+                value={discountText}
+                onChangeText={(text) => changeDiscount(text, discountType)}
+                editable={editable}
+                placeholder="0"
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+          {totals.discount > 0 && (
+            <Text style={styles.adjustmentNote}>-{formatCurrency(totals.discount)}</Text>
+          )}
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Tax rate (%)</Text>
+            <TextInput
+              style={[styles.input, styles.adjustmentInput]}
+              value={taxRateText}
+              onChangeText={changeTaxRate}
+              editable={editable}
+              placeholder="0"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          {totals.tax > 0 && <Text style={styles.adjustmentNote}>+{formatCurrency(totals.tax)}</Text>}
+
+          <View style={[styles.totalRow, styles.grandTotalRow]}>
+            <Text style={styles.grandTotalLabel}>Quote Total</Text>
+            <Text style={styles.grandTotalValue}>{formatCurrency(totals.total)}</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginVertical: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemRowEditing: {
+    backgroundColor: '#E3F2FD',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemDescription: {
+    fontSize: 16,
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  itemAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+  },
+  form: {
+    marginTop: 12,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    backgroundColor: '#fff',
+    marginBottom: 8,
+  },
+  quantityInput: {
+    flex: 1,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  priceInput: {
+    flex: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  addButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontWeight: '600',
+  },
+  totals: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  totalLabel: {
+    fontSize: 15,
+    color: '#666',
+  },
+  totalValue: {
+    fontSize: 15,
+    color: '#333',
+  },
+  adjustment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  adjustmentInput: {
+    width: 80,
+    marginBottom: 0,
+    textAlign: 'right',
+  },
+  adjustmentNote: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+    marginBottom: 4,
+  },
+  grandTotalRow: {
+    marginTop: 8,
+  },
+  grandTotalLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  grandTotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2196F3',
+  },
+});
+
+export default QuoteLineItemsEditor;
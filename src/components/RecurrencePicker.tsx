@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import {
+  RecurrencePreset,
+  addDays,
+  describeRule,
+  expandRule,
+  formatRRule,
+  parseRRule,
+  presetRule,
+} from '../services/Recurrence';
+
+interface RecurrencePickerProps {
+  // RRULE of the series, or null for a one-off job
+  rule: string | null;
+  onRuleChange: (rule: string | null) => void;
+  startDate: string;
+  // Occurrences after the first one (a new series) or after today (an existing one)
+  previewFrom?: string;
+}
+
+type Mode = 'none' | RecurrencePreset | 'custom';
+
+const MODES: { mode: Mode; label: string }[] = [
+  { mode: 'none', label: 'Once' },
+  { mode: 'weekly', label: 'Weekly' },
+  { mode: 'biweekly', label: 'Every 2 weeks' },
+  { mode: 'monthly', label: 'Monthly' },
+  { mode: 'custom', label: 'Custom' },
+];
+
+const PRESETS: RecurrencePreset[] = ['weekly', 'biweekly', 'monthly'];
+
+// Which option an existing rule matches, and its COUNT for the presets
+const initialState = (rule: string | null, startDate: string): { mode: Mode; count: string } => {
+  if (!rule) return { mode: 'none', count: '' };
+  try {
+    const { count, ...parsed } = parseRRule(rule);
+    const preset = PRESETS.find((candidate) => presetRule(candidate, startDate) === formatRRule(parsed));
+    if (preset) return { mode: preset, count: count ? String(count) : '' };
+  } catch {
+    // An invalid rule is shown as typed
+  }
+  return { mode: 'custom', count: '' };
+};
+
+const safeParse = (rule: string) => {
+  try {
+    return { parsed: parseRRule(rule), error: null };
+  } catch (error) {
+    return { parsed: null, error: (error as Error).message };
+  }
+};
+
+// Chooses how a job repeats: a preset based on its start date or any RRULE
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ rule, onRuleChange, startDate, previewFrom }) => {
+  const [initial] = useState(() => initialState(rule, startDate));
+  const [mode, setMode] = useState<Mode>(initial.mode);
+  const [count, setCount] = useState(initial.count);
+  const [customRule, setCustomRule] = useState(initial.mode === 'custom' && rule ? rule : 'FREQ=WEEKLY;BYDAY=MO,TH');
+
+  // Presets follow the start date, so moving it keeps e.g. "every Monday" in step
+  const nextRule = useMemo(() => {
+    if (mode === 'none') return null;
+    if (mode === 'custom') return customRule.trim();
+    const visits = parseInt(count, 10);
+    return visits > 0 ? `${presetRule(mode, startDate)};COUNT=${visits}` : presetRule(mode, startDate);
+  }, [mode, customRule, count, startDate]);
+
+  useEffect(() => {
+    if (nextRule !== rule) onRuleChange(nextRule);
+  }, [nextRule, rule, onRuleChange]);
+
+  const { parsed, error } = nextRule ? safeParse(nextRule) : { parsed: null, error: null };
+  const upcoming = useMemo(() => {
+    if (!parsed || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return [];
+    const from = previewFrom && previewFrom > startDate ? previewFrom : startDate;
+    return expandRule(parsed, startDate, addDays(from, 400), from).slice(0, 4);
+  }, [parsed, startDate, previewFrom]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Repeat</Text>
+      <View style={styles.chipRow}>
+        {MODES.map((option) => (
+          <TouchableOpacity
+            key={option.mode}
+            style={[styles.chip, mode === option.mode && styles.chipActive]}
+            onPress={() => setMode(option.mode)}
+            accessibilityState={{ selected: mode === option.mode }}
+          >
+            <Text style={[styles.chipText, mode === option.mode && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'custom' && (
+        <TextInput
+          style={styles.input}
+          value={customRule}
+          onChangeText={setCustomRule}
+          placeholder="FREQ=MONTHLY;BYDAY=1MO"
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+      )}
+      {mode !== 'none' && mode !== 'custom' && (
+        <TextInput
+          style={styles.input}
+          value={count}
+          onChangeText={setCount}
+          placeholder="Number of visits (leave blank to repeat until stopped)"
+          keyboardType="number-pad"
+        />
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {parsed && (
+        <>
+          <Text style={styles.summary}>{describeRule(parsed, startDate)}</Text>
+          {upcoming.length > 0 && <Text style={styles.hint}>Next: {upcoming.join(', ')}</Text>}
+          <Text style={styles.hint}>Jobs are created for the next few weeks and topped up automatically.</Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginVertical: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    backgroundColor: '#fff',
+    marginBottom: 8,
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+});
+
+export default RecurrencePicker;
@@ -0,0 +1,140 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { Signature } from '../types';
+
+interface SignaturePadProps {
+  // Called with the signature after each stroke, or null once it is cleared
+  onChange: (signature: Signature | null) => void;
+  height?: number;
+  label?: string;
+}
+
+const point = (x: number, y: number) => `${Math.round(x)} ${Math.round(y)}`;
+
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 180, label = 'Sign here' }) => {
+  const [paths, setPaths] = useState<string[]>([]);
+  const [current, setCurrent] = useState('');
+  const [width, setWidth] = useState(0);
+  // The responder is created once, so it reads the latest values through refs
+  const stroke = useRef('');
+  const strokes = useRef<string[]>([]);
+  const size = useRef({ width: 0, height });
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        // Keep a surrounding ScrollView from taking over mid-signature
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (event) => {
+          const { locationX, locationY } = event.nativeEvent;
+          stroke.current = `M ${point(locationX, locationY)}`;
+          setCurrent(stroke.current);
+        },
+        onPanResponderMove: (event) => {
+          const { locationX, locationY } = event.nativeEvent;
+          stroke.current = `${stroke.current} L ${point(locationX, locationY)}`;
+          setCurrent(stroke.current);
+        },
+        onPanResponderRelease: () => {
+          if (!stroke.current) return;
+          // A tap without movement still leaves a visible dot
+          const finished = stroke.current.includes('L') ? stroke.current : `${stroke.current} l 1 1`;
+          strokes.current = [...strokes.current, finished];
+          stroke.current = '';
+          setCurrent('');
+          setPaths(strokes.current);
+          onChange({ ...size.current, paths: strokes.current });
+        },
+      }),
+    [onChange]
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const measured = Math.round(event.nativeEvent.layout.width);
+    size.current = { width: measured, height };
+    setWidth(measured);
+  };
+
+  const clear = () => {
+    strokes.current = [];
+    stroke.current = '';
+    setPaths([]);
+    setCurrent('');
+    onChange(null);
+  };
+
+  const empty = paths.length === 0 && !current;
+
+  return (
+    <View>
+      <View style={[styles.pad, { height }]} onLayout={handleLayout} {...panResponder.panHandlers}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {[...paths, current].filter(Boolean).map((d, index) => (
+              <Path
+                key={index}
+                d={d}
+                stroke="#333"
+                strokeWidth={2}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            ))}
+          </Svg>
+        )}
+        {empty && (
+          <Text style={styles.placeholder} pointerEvents="none">
+            {label}
+          </Text>
+        )}
+        <View style={styles.baseline} pointerEvents="none" />
+      </View>
+      <TouchableOpacity style={styles.clearButton} onPress={clear} disabled={empty}>
+        <Text style={[styles.clearText, empty && styles.clearTextDisabled]}>Clear</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pad: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  placeholder: {
+    position: 'absolute',
+    alignSelf: 'center',
+    top: '40%',
+    color: '#bbb',
+    fontSize: 16,
+  },
+  baseline: {
+    position: 'absolute',
+    left: 24,
+    right: 24,
+    bottom: 32,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ccc',
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  clearText: {
+    color: '#f44336',
+    fontWeight: '600',
+  },
+  clearTextDisabled: {
+    color: '#ccc',
+  },
+});
+
+export default SignaturePad;
@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { JobTask } from '../types';
+import { isTaskOverdue, taskProgress } from '../services/JobTasks';
+import { localDay } from '../services/Recurrence';
+
+interface TaskChecklistProps {
+  tasks: JobTask[];
+  // Names offered as assignees, such as the crew on the job's visits
+  crew: string[];
+  onSaveTask: (task: JobTask) => void;
+  onToggleTask: (task: JobTask) => void;
+  onDeleteTask: (task: JobTask) => void;
+}
+
+const formatDue = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// The job's task list: progress, required items, who does each and by when
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ tasks, crew, onSaveTask, onToggleTask, onDeleteTask }) => {
+  const [editing, setEditing] = useState<JobTask | null>(null);
+  const progress = taskProgress({ tasks });
+  const today = localDay(new Date());
+
+  const openEditor = (task: JobTask | null) =>
+    setEditing(
+      task ?? { id: '', text: '', completed: false, required: false, createdDate: new Date().toISOString() }
+    );
+
+  const formError = !editing
+    ? ''
+    : !editing.text.trim()
+      ? 'Describe the task'
+      : editing.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(editing.dueDate)
+        ? 'Use YYYY-MM-DD for the due date'
+        : '';
+
+  const save = () => {
+    if (!editing || formError) return;
+    onSaveTask({ ...editing, id: editing.id || `task_${Date.now()}` });
+    setEditing(null);
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Tasks</Text>
+        <TouchableOpacity onPress={() => openEditor(null)} accessibilityRole="button">
+          <Text style={styles.linkText}>+ Add Task</Text>
+        </TouchableOpacity>
+      </View>
+
+      {progress ? (
+        <View style={styles.progressRow}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress.percent}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {progress.completed} of {progress.total} done · {progress.percent}%
+          </Text>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>No tasks yet; required tasks must be checked off before the job is Completed</Text>
+      )}
+
+      {tasks.map((task) => (
+        <View key={task.id} style={styles.taskRow}>
+          <TouchableOpacity
+            style={styles.checkbox}
+            onPress={() => onToggleTask(task)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: task.completed }}
+          >
+            <Text style={styles.checkboxText}>{task.completed ? '✅' : '⬜'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.taskText} onPress={() => openEditor(task)}>
+            <Text style={[styles.taskTitle, task.completed && styles.completedText]}>
+              {task.text}
+              {task.required && <Text style={styles.requiredText}> · Required</Text>}
+            </Text>
+            {!!(task.assignee || task.dueDate) && (
+              <Text style={[styles.taskMeta, isTaskOverdue(task, today) && styles.overdueText]}>
+                {[task.assignee && `👤 ${task.assignee}`, task.dueDate && `📅 ${formatDue(task.dueDate)}`]
+                  .filter(Boolean)
+                  .join('  ')}
+                {isTaskOverdue(task, today) ? ' · Overdue' : ''}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Modal visible={editing !== null} transparent animationType="fade" onRequestClose={() => setEditing(null)}>
+        <TouchableWithoutFeedback onPress={() => setEditing(null)}>
+          <View style={styles.modalBackdrop}>
+            <TouchableWithoutFeedback>
+              <View style={styles.modalContent}>
+                {editing && (
+                  <>
+                    <Text style={styles.modalTitle}>{editing.id ? 'Edit Task' : 'Add Task'}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={editing.text}
+                      onChangeText={(text) => setEditing({ ...editing, text })}
+                      placeholder="What needs doing"
+                      autoFocus={!editing.id}
+                    />
+                    <TouchableOpacity
+                      style={[styles.chip, styles.requiredChip, editing.required && styles.chipActive]}
+                      onPress={() => setEditing({ ...editing, required: !editing.required })}
+                    >
+                      <Text style={[styles.chipText, editing.required && styles.chipTextActive]}>
+                        {editing.required ? '✓ Required to complete the job' : 'Optional'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TextInput
+                      style={styles.input}
+                      value={editing.assignee ?? ''}
+                      onChangeText={(assignee) => setEditing({ ...editing, assignee })}
+                      placeholder="Assignee (optional)"
+                    />
+                    {crew.length > 0 && (
+                      <View style={styles.chipRow}>
+                        {crew.map((name) => {
+                          const assigned = editing.assignee?.trim().toLowerCase() === name.toLowerCase();
+                          return (
+                            <TouchableOpacity
+                              key={name}
+                              style={[styles.chip, assigned && styles.chipActive]}
+                              onPress={() => setEditing({ ...editing, assignee: assigned ? '' : name })}
+                            >
+                              <Text style={[styles.chipText, assigned && styles.chipTextActive]}>{name}</Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    )}
+                    <TextInput
+                      style={styles.input}
+                      value={editing.dueDate ?? ''}
+                      onChangeText={(dueDate) => setEditing({ ...editing, dueDate: dueDate || undefined })}
+                      placeholder="Due date YYYY-MM-DD (optional)"
+                    />
+                    {!!formError && <Text style={styles.errorText}>{formError}</Text>}
+                    <View style={styles.modalActions}>
+                      {!!editing.id && (
+                        <TouchableOpacity
+                          style={styles.modalButton}
+                          onPress={() => {
+                            onDeleteTask(editing);
+                            setEditing(null);
+                          }}
+                        >
+                          <Text style={styles.deleteText}>Delete</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.modalButton} onPress={() => setEditing(null)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.modalButton} onPress={save} disabled={!!formError}>
+                        <Text style={[styles.saveText, !!formError && styles.disabledText]}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+    marginRight: 10,
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#4CAF50',
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  checkboxText: {
+    fontSize: 18,
+  },
+  taskText: {
+    flex: 1,
+  },
+  taskTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+    color: '#999',
+  },
+  requiredText: {
+    fontSize: 13,
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  taskMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  overdueText: {
+    color: '#d32f2f',
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  requiredChip: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  deleteText: {
+    fontSize: 16,
+    color: '#f44336',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+  disabledText: {
+    color: '#aaa',
+  },
+});
+
+export default TaskChecklist;
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  Switch,
+  StyleSheet,
+} from 'react-native';
+import { Job, TimeEntry } from '../types';
+import {
+  effectiveHourlyRate,
+  entryDurationMs,
+  formatDuration,
+  runningEntry,
+  trackedHours,
+} from '../services/TimeTracking';
+
+interface TimeTrackerProps {
+  job: Job;
+  onClockIn: () => void;
+  onClockOut: () => void;
+  // Manual adds and edits; the caller validates and saves
+  onSaveEntry: (entry: TimeEntry) => void;
+  onDeleteEntry: (entry: TimeEntry) => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Entries are edited as device-local "YYYY-MM-DD HH:MM"
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+};
+
+const fromLocalInput = (text: string): string | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Clock in/out against a job, with a list of sessions that can be added or corrected by hand
+const TimeTracker: React.FC<TimeTrackerProps> = ({ job, onClockIn, onClockOut, onSaveEntry, onDeleteEntry }) => {
+  const running = runningEntry(job);
+  const [now, setNow] = useState(new Date());
+  // The entry being edited; a new one has no id yet
+  const [editing, setEditing] = useState<TimeEntry | null>(null);
+  const [startText, setStartText] = useState('');
+  const [endText, setEndText] = useState('');
+  const [notes, setNotes] = useState('');
+  const [billable, setBillable] = useState(true);
+
+  // The elapsed time is worked out from the stored start, so it carries on across restarts
+  useEffect(() => {
+    if (!running) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const openEditor = (entry: TimeEntry | null) => {
+    const start = entry?.start ?? new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    setEditing(entry ?? { id: '', start, end: new Date().toISOString(), billable: true });
+    setStartText(toLocalInput(start));
+    setEndText(entry && !entry.end ? '' : toLocalInput(entry?.end ?? new Date().toISOString()));
+    setNotes(entry?.notes ?? '');
+    setBillable(entry?.billable ?? true);
+  };
+
+  const start = fromLocalInput(startText);
+  const end = endText.trim() ? fromLocalInput(endText) : undefined;
+  const formError =
+    !start || end === null
+      ? 'Use YYYY-MM-DD HH:MM'
+      : end !== undefined && end <= start
+        ? 'End must be after start'
+        : end === undefined && running && running.id !== editing?.id
+          ? 'Another session is still running; add an end time'
+          : '';
+
+  const save = () => {
+    if (!editing || formError || !start) return;
+    const entry: TimeEntry = { id: editing.id || `time_${Date.now()}`, start, billable };
+    if (end) entry.end = end;
+    if (notes.trim()) entry.notes = notes.trim();
+    onSaveEntry(entry);
+    setEditing(null);
+  };
+
+  const entries = [...(job.timeEntries || [])].reverse();
+  const rate = effectiveHourlyRate(job, now);
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Time Tracking</Text>
+        <TouchableOpacity onPress={() => openEditor(null)} accessibilityRole="button">
+          <Text style={styles.linkText}>+ Add Time</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.summary}>
+        {trackedHours(job, { now }).toFixed(1)} h logged · {trackedHours(job, { now, billableOnly: true }).toFixed(1)} h
+        billable
+        {rate !== null ? ` · $${rate.toFixed(2)}/hr effective` : ''}
+      </Text>
+
+      {running ? (
+        <TouchableOpacity style={[styles.clockButton, styles.clockOutButton]} onPress={onClockOut}>
+          <Text style={styles.clockButtonText}>
+            ⏹ Clock Out · {formatDuration(entryDurationMs(running, now))} since {formatTime(running.start)}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.clockButton} onPress={onClockIn}>
+          <Text style={styles.clockButtonText}>▶️ Clock In</Text>
+        </TouchableOpacity>
+      )}
+
+      {entries.map((entry) => (
+        <TouchableOpacity key={entry.id} style={styles.entryRow} onPress={() => openEditor(entry)}>
+          <View style={styles.entryText}>
+            <Text style={styles.entryTitle}>
+              {new Date(entry.start).toLocaleDateString('en-US')} · {formatTime(entry.start)} –{' '}
+              {entry.end ? formatTime(entry.end) : 'running'}
+            </Text>
+            {!!entry.notes && <Text style={styles.entryNotes}>{entry.notes}</Text>}
+          </View>
+          <View style={styles.entryMeta}>
+            <Text style={styles.entryDuration}>{formatDuration(entryDurationMs(entry, now))}</Text>
+            {!entry.billable && <Text style={styles.nonBillable}>non-billable</Text>}
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <Modal visible={editing !== null} transparent animationType="fade" onRequestClose={() => setEditing(null)}>
+        <TouchableWithoutFeedback onPress={() => setEditing(null)}>
+          <View style={styles.modalBackdrop}>
+            <TouchableWithoutFeedback>
+              <View style={styles.modalContent}>
+                <Text style={styles.modalTitle}>{editing?.id ? 'Edit Time' : 'Add Time'}</Text>
+                <Text style={styles.label}>Start</Text>
+                <TextInput style={styles.input} value={startText} onChangeText={setStartText} placeholder="YYYY-MM-DD HH:MM" />
+                <Text style={styles.label}>End</Text>
+                <TextInput
+                  style={styles.input}
+                  value={endText}
+                  onChangeText={setEndText}
+                  placeholder="YYYY-MM-DD HH:MM (blank while running)"
+                />
+                <TextInput
+                  style={styles.input}
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="Notes (optional)"
+                  multiline
+                />
+                <View style={styles.switchRow}>
+                  <Text style={styles.label}>Billable</Text>
+                  <Switch value={billable} onValueChange={setBillable} />
+                </View>
+                {!!formError && <Text style={styles.errorText}>{formError}</Text>}
+                <View style={styles.modalActions}>
+                  {!!editing?.id && (
+                    <TouchableOpacity
+                      style={styles.modalButton}
+                      onPress={() => {
+                        onDeleteEntry(editing);
+                        setEditing(null);
+                      }}
+                    >
+                      <Text style={styles.deleteText}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.modalButton} onPress={() => setEditing(null)}>
+                    <Text style={styles.cancelText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.modalButton} onPress={save} disabled={!!formError}>
+                    <Text style={[styles.saveText, !!formError && styles.disabledText]}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  clockButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  clockOutButton: {
+    backgroundColor: '#FF5722',
+  },
+  clockButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  entryText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  entryTitle: {
+    fontSize: 14,
+    color: '#333',
+  },
+  entryNotes: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  entryMeta: {
+    alignItems: 'flex-end',
+  },
+  entryDuration: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  nonBillable: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  deleteText: {
+    fontSize: 16,
+    color: '#f44336',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+  disabledText: {
+    color: '#aaa',
+  },
+});
+
+export default TimeTracker;
@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import { dismissUndoPrompt, undo } from '../state/slices/historySlice';
+
+interface UndoSnackbarProps {
+  duration?: number;
+}
+
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ duration = 5000 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const prompt = useSelector((state: RootState) => state.history.undoPrompt);
+
+  useEffect(() => {
+    if (!prompt) return;
+    const timeout = setTimeout(() => dispatch(dismissUndoPrompt()), duration);
+    return () => clearTimeout(timeout);
+  }, [prompt, duration, dispatch]);
+
+  if (!prompt) return null;
+
+  const handleUndo = () => {
+    dispatch(undo())
+      .unwrap()
+      .catch(() => Alert.alert('Error', 'Failed to undo the last change'));
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.snackbar}>
+        <Text style={styles.message} numberOfLines={1}>
+          {prompt.label}
+        </Text>
+        <TouchableOpacity onPress={handleUndo} accessibilityRole="button">
+          <Text style={styles.action}>UNDO</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 96,
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#323232',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    marginRight: 16,
+  },
+  action: {
+    color: '#90CAF9',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
+
+export default UndoSnackbar;
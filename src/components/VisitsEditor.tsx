@@ -0,0 +1,396 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Visit } from '../types';
+import {
+  ScheduledJob,
+  VISIT_STATUSES,
+  describeConflict,
+  knownWorkers,
+  normalizeWorkers,
+  visitConflicts,
+} from '../services/VisitScheduling';
+
+interface VisitsEditorProps {
+  jobId: string;
+  visits: Visit[];
+  // Every job, with this one's current visits, to check the crew against
+  schedule: ScheduledJob[];
+  defaultDate: string;
+  onSaveVisit: (visit: Visit) => void;
+  onDeleteVisit: (visit: Visit) => void;
+}
+
+const STATUS_COLORS: Record<Visit['status'], string> = {
+  Scheduled: '#2196F3',
+  Completed: '#4CAF50',
+  Cancelled: '#9E9E9E',
+};
+
+const formatVisitDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Lists a job's visits and edits one at a time, warning when a worker is double-booked
+const VisitsEditor: React.FC<VisitsEditorProps> = ({
+  jobId,
+  visits,
+  schedule,
+  defaultDate,
+  onSaveVisit,
+  onDeleteVisit,
+}) => {
+  const [editing, setEditing] = useState<Visit | null>(null);
+  const [workersText, setWorkersText] = useState('');
+  const crew = useMemo(() => knownWorkers(schedule), [schedule]);
+
+  const openEditor = (visit: Visit | null) => {
+    const previous = visits[visits.length - 1];
+    const draft = visit ?? {
+      id: '',
+      date: defaultDate,
+      startTime: previous?.startTime ?? '08:00',
+      endTime: previous?.endTime ?? '16:00',
+      workers: previous?.workers ?? [],
+      status: 'Scheduled' as const,
+    };
+    setEditing(draft);
+    setWorkersText(draft.workers.join(', '));
+  };
+
+  const draft: Visit | null = editing && { ...editing, workers: normalizeWorkers(workersText.split(',')) };
+  const conflicts = draft ? visitConflicts(schedule, jobId, draft) : [];
+
+  const toggleWorker = (name: string) => {
+    if (!draft) return;
+    const assigned = draft.workers.some((worker) => worker.toLowerCase() === name.toLowerCase());
+    const workers = assigned
+      ? draft.workers.filter((worker) => worker.toLowerCase() !== name.toLowerCase())
+      : [...draft.workers, name];
+    setWorkersText(workers.join(', '));
+  };
+
+  const formError = !draft
+    ? ''
+    : !/^\d{4}-\d{2}-\d{2}$/.test(draft.date)
+      ? 'Use YYYY-MM-DD for the date'
+      : !/^\d{2}:\d{2}$/.test(draft.startTime) || !/^\d{2}:\d{2}$/.test(draft.endTime)
+        ? 'Use HH:MM (24-hour) for times'
+        : draft.endTime <= draft.startTime
+          ? 'End time must be after start time'
+          : '';
+
+  const save = () => {
+    if (!draft || formError) return;
+    const { notes, ...fields } = draft;
+    const visit: Visit = { ...fields, id: draft.id || `visit_${Date.now()}` };
+    if (notes?.trim()) visit.notes = notes.trim();
+    const commit = () => {
+      onSaveVisit(visit);
+      setEditing(null);
+    };
+    if (conflicts.length === 0) {
+      commit();
+      return;
+    }
+    Alert.alert('Crew Double-Booked', conflicts.map(describeConflict).join('\n'), [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Save Anyway', onPress: commit },
+    ]);
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Visits ({visits.length})</Text>
+        <TouchableOpacity onPress={() => openEditor(null)} accessibilityRole="button">
+          <Text style={styles.linkText}>+ Add Visit</Text>
+        </TouchableOpacity>
+      </View>
+
+      {visits.length === 0 && <Text style={styles.emptyText}>No visits scheduled; the job runs from its start to end date</Text>}
+
+      {visits.map((visit) => {
+        const warnings = visitConflicts(schedule, jobId, visit);
+        return (
+          <TouchableOpacity key={visit.id} style={styles.visitRow} onPress={() => openEditor(visit)}>
+            <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[visit.status] }]} />
+            <View style={styles.visitText}>
+              <Text style={[styles.visitTitle, visit.status === 'Cancelled' && styles.cancelledText]}>
+                {formatVisitDate(visit.date)} · {visit.startTime}–{visit.endTime}
+              </Text>
+              <Text style={styles.visitMeta}>
+                {visit.workers.length > 0 ? `👷 ${visit.workers.join(', ')}` : 'No crew assigned'}
+                {visit.status !== 'Scheduled' ? ` · ${visit.status}` : ''}
+              </Text>
+              {!!visit.notes && <Text style={styles.visitMeta}>{visit.notes}</Text>}
+              {warnings.map((conflict) => (
+                <Text key={`${conflict.worker}-${conflict.second.jobId}-${conflict.second.visit.id}`} style={styles.warningText}>
+                  ⚠️ {describeConflict(conflict)}
+                </Text>
+              ))}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <Modal visible={editing !== null} transparent animationType="fade" onRequestClose={() => setEditing(null)}>
+        <TouchableWithoutFeedback onPress={() => setEditing(null)}>
+          <View style={styles.modalBackdrop}>
+            <TouchableWithoutFeedback>
+              <View style={styles.modalContent}>
+                {editing && draft && (
+                  <>
+                    <Text style={styles.modalTitle}>{editing.id ? 'Edit Visit' : 'Add Visit'}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={editing.date}
+                      onChangeText={(date) => setEditing({ ...editing, date })}
+                      placeholder="YYYY-MM-DD"
+                    />
+                    <View style={styles.timeRow}>
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={editing.startTime}
+                        onChangeText={(startTime) => setEditing({ ...editing, startTime })}
+                        placeholder="Start HH:MM"
+                      />
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={editing.endTime}
+                        onChangeText={(endTime) => setEditing({ ...editing, endTime })}
+                        placeholder="End HH:MM"
+                      />
+                    </View>
+                    <TextInput
+                      style={styles.input}
+                      value={workersText}
+                      onChangeText={setWorkersText}
+                      placeholder="Crew, separated by commas"
+                    />
+                    {crew.length > 0 && (
+                      <View style={styles.chipRow}>
+                        {crew.map((name) => {
+                          const assigned = draft.workers.some((worker) => worker.toLowerCase() === name.toLowerCase());
+                          return (
+                            <TouchableOpacity
+                              key={name}
+                              style={[styles.chip, assigned && styles.chipActive]}
+                              onPress={() => toggleWorker(name)}
+                            >
+                              <Text style={[styles.chipText, assigned && styles.chipTextActive]}>{name}</Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    )}
+                    <View style={styles.chipRow}>
+                      {VISIT_STATUSES.map((status) => (
+                        <TouchableOpacity
+                          key={status}
+                          style={[styles.chip, editing.status === status && { backgroundColor: STATUS_COLORS[status] }]}
+                          onPress={() => setEditing({ ...editing, status })}
+                        >
+                          <Text style={[styles.chipText, editing.status === status && styles.chipTextActive]}>
+                            {status}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <TextInput
+                      style={styles.input}
+                      value={editing.notes ?? ''}
+                      onChangeText={(notes) => setEditing({ ...editing, notes })}
+                      placeholder="Visit notes (optional)"
+                      multiline
+                    />
+                    {!!formError && <Text style={styles.errorText}>{formError}</Text>}
+                    {!formError &&
+                      conflicts.map((conflict) => (
+                        <Text
+                          key={`${conflict.worker}-${conflict.second.jobId}-${conflict.second.visit.id}`}
+                          style={styles.warningText}
+                        >
+                          ⚠️ {describeConflict(conflict)}
+                        </Text>
+                      ))}
+                    <View style={styles.modalActions}>
+                      {!!editing.id && (
+                        <TouchableOpacity
+                          style={styles.modalButton}
+                          onPress={() => {
+                            onDeleteVisit(editing);
+                            setEditing(null);
+                          }}
+                        >
+                          <Text style={styles.deleteText}>Delete</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.modalButton} onPress={() => setEditing(null)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.modalButton} onPress={save} disabled={!!formError}>
+                        <Text style={[styles.saveText, !!formError && styles.disabledText]}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  visitRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+    marginRight: 10,
+  },
+  visitText: {
+    flex: 1,
+  },
+  visitTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelledText: {
+    textDecorationLine: 'line-through',
+    color: '#999',
+  },
+  visitMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#E65100',
+    marginTop: 2,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  deleteText: {
+    fontSize: 16,
+    color: '#f44336',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+  disabledText: {
+    color: '#aaa',
+  },
+});
+
+export default VisitsEditor;
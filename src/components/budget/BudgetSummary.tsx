@@ -56,6 +56,21 @@ const BudgetSummary: React.FC<Props> = ({ summary }) => {
             {formatCurrency(summary.taxDeductibleExpenses)}
           </Text>
         </View>
+        <View style={styles.metricRow}>
+          <Text style={styles.metricLabel}>Hours Logged:</Text>
+          <Text style={styles.metricValue}>
+            {summary.hoursWorked.toFixed(1)} ({summary.billableHours.toFixed(1)}{' '}
+            billable)
+          </Text>
+        </View>
+        <View style={styles.metricRow}>
+          <Text style={styles.metricLabel}>Effective Hourly Rate:</Text>
+          <Text style={styles.metricValue}>
+            {summary.effectiveHourlyRate === null
+              ? 'No time logged'
+              : `${formatCurrency(summary.effectiveHourlyRate)}/hr`}
+          </Text>
+        </View>
       </View>
     </View>
   );
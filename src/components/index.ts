@@ -2,3 +2,13 @@
 export { default as ErrorBoundary } from './ErrorBoundary';
 export { default as Checklist } from './Checklist';
 export { default as NotesEditor } from './NotesEditor';
+export { default as UndoSnackbar } from './UndoSnackbar';
+export { default as PendingWritesBadge } from './PendingWritesBadge';
+export { default as LoadErrorBanner } from './LoadErrorBanner';
+export { default as JobStatusPicker } from './JobStatusPicker';
+export { default as QuoteLineItemsEditor } from './QuoteLineItemsEditor';
+export { default as SignaturePad } from './SignaturePad';
+export { default as RecurrencePicker } from './RecurrencePicker';
+export { default as TimeTracker } from './TimeTracker';
+export { default as VisitsEditor } from './VisitsEditor';
+export { default as TaskChecklist } from './TaskChecklist';
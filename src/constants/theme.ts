@@ -1,3 +1,5 @@
+import { Job } from '../types';
+
 export const colors = {
   primary: '#1E90FF',
   secondary: '#FFD700',
@@ -8,3 +10,15 @@ export const fonts = {
   regular: 'System',
   bold: 'System-Bold',
 };
+
+// Job status palette shared by the job lists, job details and the calendar
+export const JOB_STATUS_COLORS: Record<Job['status'], string> = {
+  Completed: '#4CAF50',
+  'In-Progress': '#2196F3',
+  Accepted: '#FF9800',
+  Quoted: '#9C27B0',
+  'On-Hold': '#607D8B',
+  Cancelled: '#f44336',
+};
+
+export const getStatusColor = (status: string) => JOB_STATUS_COLORS[status as Job['status']] ?? '#666';
@@ -4,8 +4,11 @@ import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { useSelector } from 'react-redux';
+import { RootState } from '../state/store';
 // Lazy load screens for better performance
 const JobsScreen = lazy(() => import('../screens/JobsScreen'));
+const CalendarScreen = lazy(() => import('../screens/CalendarScreen'));
 const JobDetailScreen = lazy(() => import('../screens/JobDetailScreen'));
 const AddExpenseScreen = lazy(() => import('../screens/AddExpenseScreen'));
 const EditJobScreen = lazy(() => import('../screens/EditJobScreen'));
@@ -17,23 +20,38 @@ const ClientDetailScreen = lazy(() => import('../screens/ClientDetailScreen'));
 const AddEditClientScreen = lazy(() => import('../screens/AddEditClientScreen'));
 const PaymentScreen = lazy(() => import('../screens/PaymentScreen'));
 const SettingsScreen = lazy(() => import('../screens/SettingsScreen'));
-import { Client, Job, Expense } from '../types';
+const CsvImportScreen = lazy(() => import('../screens/CsvImportScreen'));
+const TrashScreen = lazy(() => import('../screens/TrashScreen'));
+const JobTemplatesScreen = lazy(() => import('../screens/JobTemplatesScreen'));
+const InventoryScreen = lazy(() => import('../screens/InventoryScreen'));
+const SyncConflictsScreen = lazy(() => import('../screens/SyncConflictsScreen'));
+const QuoteRevisionsScreen = lazy(() => import('../screens/QuoteRevisionsScreen'));
+const QuoteAcceptanceScreen = lazy(() => import('../screens/QuoteAcceptanceScreen'));
+import { Client, Job, Expense, JobTemplate } from '../types';
 
 export type RootStackParamList = {
   MainTabs: undefined;
   JobDetail: { job: Job };
   AddExpense: { job: Job; expense?: Expense };
   EditJob: { job: Job };
-  AddJob: { client?: Client };
+  AddJob: { client?: Client; template?: JobTemplate };
   ClientDetail: { client: Client };
   AddClient: undefined;
   EditClient: { client: Client };
   ReceiptPhotoCapture: { onPhotoTaken: (photoPath: string) => void };
   Payment: { job: Job };
+  QuoteRevisions: { job: Job };
+  QuoteAcceptance: { job: Job };
+  CsvImport: undefined;
+  Trash: undefined;
+  JobTemplates: undefined;
+  Inventory: undefined;
+  SyncConflicts: undefined;
 };
 
 export type TabParamList = {
   Jobs: undefined;
+  Calendar: undefined;
   Clients: undefined;
   Budget: undefined;
   Settings: undefined;
@@ -50,6 +68,9 @@ const LoadingScreen = () => (
 );
 
 const TabNavigator = () => {
+  // Flags the Settings tab while storage is nearing a limit
+  const storageWarnings = useSelector((state: RootState) => state.storage.report?.warnings.length ?? 0);
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -72,6 +93,20 @@ const TabNavigator = () => {
           ),
         }}
       />
+      <Tab.Screen
+        name="Calendar"
+        component={() => (
+          <Suspense fallback={<LoadingScreen />}>
+            <CalendarScreen />
+          </Suspense>
+        )}
+        options={{
+          tabBarLabel: 'Calendar',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="calendar" size={size} color={color} />
+          ),
+        }}
+      />
       <Tab.Screen
         name="Clients"
         component={() => (
@@ -109,6 +144,7 @@ const TabNavigator = () => {
         )}
         options={{
           tabBarLabel: 'Settings',
+          tabBarBadge: storageWarnings > 0 ? '!' : undefined,
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="settings" size={size} color={color} />
           ),
@@ -193,6 +229,55 @@ const AppNavigator = () => {
             </Suspense>
           )}
         </Stack.Screen>
+        <Stack.Screen name="QuoteRevisions" options={{ title: 'Quote Revisions' }}>
+          {(props) => (
+            <Suspense fallback={<LoadingScreen />}>
+              <QuoteRevisionsScreen {...props} />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="QuoteAcceptance" options={{ title: 'Accept Quote' }}>
+          {(props) => (
+            <Suspense fallback={<LoadingScreen />}>
+              <QuoteAcceptanceScreen {...props} />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="CsvImport" options={{ title: 'Import from CSV' }}>
+          {() => (
+            <Suspense fallback={<LoadingScreen />}>
+              <CsvImportScreen />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="Trash" options={{ title: 'Trash' }}>
+          {() => (
+            <Suspense fallback={<LoadingScreen />}>
+              <TrashScreen />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="JobTemplates" options={{ title: 'Job Templates' }}>
+          {() => (
+            <Suspense fallback={<LoadingScreen />}>
+              <JobTemplatesScreen />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="Inventory" options={{ title: 'Inventory' }}>
+          {() => (
+            <Suspense fallback={<LoadingScreen />}>
+              <InventoryScreen />
+            </Suspense>
+          )}
+        </Stack.Screen>
+        <Stack.Screen name="SyncConflicts" options={{ title: 'Sync Conflicts' }}>
+          {() => (
+            <Suspense fallback={<LoadingScreen />}>
+              <SyncConflictsScreen />
+            </Suspense>
+          )}
+        </Stack.Screen>
       </Stack.Navigator>
     </NavigationContainer>
   );
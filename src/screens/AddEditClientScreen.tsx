@@ -12,8 +12,8 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useDispatch } from 'react-redux';
 import { Client } from '../types';
-import { addClient, updateClient } from '../state/slices/clientsSlice';
-import { saveClient } from '../services/ClientService';
+import { AppDispatch } from '../state/store';
+import { createClient, modifyClient } from '../state/slices/clientsSlice';
 import { logService } from '../services/LoggingService';
 
 type RootStackParamList = {
@@ -31,7 +31,7 @@ type Props = {
 };
 
 const AddEditClientScreen = ({ navigation, route }: Props) => {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const isEditing = route.params && 'client' in route.params;
   const existingClient = isEditing ? (route.params as { client: Client }).client : null;
   
@@ -106,12 +106,10 @@ const AddEditClientScreen = ({ navigation, route }: Props) => {
       };
 
       if (isEditing) {
-        await saveClient(clientData);
-        dispatch(updateClient(clientData));
+        await dispatch(modifyClient(clientData)).unwrap();
         logService.logUserAction('Updated client', { clientId: clientData.id, clientName: clientData.fullName });
       } else {
-        await saveClient(clientData);
-        dispatch(addClient(clientData));
+        await dispatch(createClient(clientData)).unwrap();
         logService.logUserAction('Created new client', { clientId: clientData.id, clientName: clientData.fullName });
       }
 
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -14,16 +14,28 @@ import { Picker } from '@react-native-picker/picker';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useSelector, useDispatch } from 'react-redux';
-import { Client, Job, ChecklistItem } from '../types';
+import { Client, Job, ChecklistItem, JobTask, JobTemplate, QuoteDiscount, QuoteLineItem, Visit } from '../types';
 import { RootState, AppDispatch } from '../state/store';
-import { createJob, modifyJob, removeJob } from '../state/slices/jobsSlice';
-import { addClient } from '../state/slices/clientsSlice';
-import { saveClient } from '../services/ClientService';
+import { selectJobs } from '../state/selectors/jobsSelectors';
+import { createJob, modifyJob } from '../state/slices/jobsSlice';
+import { moveJobToTrash } from '../state/slices/trashSlice';
+import { createClient } from '../state/slices/clientsSlice';
+import { storeTemplate } from '../state/slices/templatesSlice';
+import { startSeries, stopSeries, updateSeries } from '../state/slices/seriesSlice';
 import { logService } from '../services/LoggingService';
-import { Checklist, NotesEditor } from '../components';
+import { JOB_STATUSES, availableTransitions } from '../services/JobLifecycle';
+import { calculateQuote } from '../services/QuoteCalculator';
+import { isQuoteLocked, latestRevision } from '../services/QuoteRevisions';
+import { jobFieldsFromTemplate, templateDetailsFromJob } from '../services/JobTemplates';
+import { followsSeries } from '../services/JobSeriesService';
+import { localDay, parseRRule } from '../services/Recurrence';
+import { knownWorkers, sortVisits } from '../services/VisitScheduling';
+import { deleteTask, putTask, toggleTask } from '../services/JobTasks';
+import { linkChecklistToInventory } from '../services/InventoryMatching';
+import { Checklist, NotesEditor, QuoteLineItemsEditor, RecurrencePicker, TaskChecklist, VisitsEditor } from '../components';
 
 type RootStackParamList = {
-  AddJob: { client?: Client };
+  AddJob: { client?: Client; template?: JobTemplate };
   EditJob: { job: Job };
   Jobs: undefined;
   ClientDetail: { client: Client };
@@ -40,18 +52,44 @@ type Props = {
 const AddEditJobScreen = ({ navigation, route }: Props) => {
   const dispatch = useDispatch<AppDispatch>();
   const clients = useSelector((state: RootState) => state.clients.clients);
+  const templates = useSelector((state: RootState) => state.templates.templates);
+  const inventory = useSelector((state: RootState) => state.inventory.items);
+  const allSeries = useSelector((state: RootState) => state.series.series);
+  const activeJobs = useSelector(selectJobs);
   
   const isEditing = route.params && 'job' in route.params;
   const existingJob = isEditing ? (route.params as { job: Job }).job : null;
   const preselectedClient = !isEditing && route.params && 'client' in route.params 
     ? (route.params as { client: Client }).client 
     : null;
-  const [jobName, setJobName] = useState(existingJob?.jobName || '');
-  const [description, setDescription] = useState(existingJob?.description || '');
+  const initialTemplate = !isEditing ? (route.params as { template?: JobTemplate } | undefined)?.template : undefined;
+  // A new job started from a template is filled in from it, as if typed
+  const [templateFields] = useState(() =>
+    initialTemplate
+      ? jobFieldsFromTemplate(initialTemplate, {
+          clientName: preselectedClient?.fullName || '',
+          date: localDay(new Date()),
+          at: new Date(),
+        })
+      : null
+  );
+  const source = existingJob || templateFields;
+  const [templateId, setTemplateId] = useState(initialTemplate?.id);
+  const [jobName, setJobName] = useState(source?.jobName || '');
+  const [description, setDescription] = useState(source?.description || '');
   const [selectedClientId, setSelectedClientId] = useState(
     existingJob?.clientId || preselectedClient?.id || ''
   );
-  const [quote, setQuote] = useState(existingJob?.quote?.toString() || '');
+  const [quote, setQuote] = useState(source?.quote?.toString() || '');
+  // With line items the quote is their total; a flat quote is kept for jobs that are not itemized
+  const [lineItems, setLineItems] = useState<QuoteLineItem[]>(source?.lineItems || []);
+  const [discount, setDiscount] = useState<QuoteDiscount | undefined>(source?.discount);
+  const [taxRate, setTaxRate] = useState<number | undefined>(source?.taxRate);
+  const itemized = lineItems.length > 0;
+  // Quotes accepted by the client cannot be changed until the job goes back to Quoted
+  const quoteLocked = !!existingJob && isQuoteLocked(existingJob);
+  const lastRevision = existingJob ? latestRevision(existingJob) : null;
+  const quoteTotals = useMemo(() => calculateQuote({ lineItems, discount, taxRate }), [lineItems, discount, taxRate]);
   const today = new Date();
   const yyyy = today.getFullYear();
   const mm = String(today.getMonth() + 1).padStart(2, '0');
@@ -62,9 +100,34 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
   const [startDate, setStartDate] = useState(existingJob?.startDate || todayStr);
   const [endDate, setEndDate] = useState(existingJob?.endDate || todayStr);
   const [status, setStatus] = useState<Job['status']>(existingJob?.status || 'Quoted');
-  const [toolsAndSupplies, setToolsAndSupplies] = useState<ChecklistItem[]>(existingJob?.toolsAndSupplies || []);
-  const [notes, setNotes] = useState(existingJob?.notes || '');
+  const [tasks, setTasks] = useState<JobTask[]>(source?.tasks || []);
+  // An existing job can only take the lifecycle's direct transitions here; ones that
+  // need a reason go through the status picker on the job screens. Tasks checked
+  // off on the form count towards completing it.
+  const statusOptions = useMemo<Job['status'][]>(
+    () =>
+      existingJob
+        ? [
+            existingJob.status,
+            ...availableTransitions({ ...existingJob, tasks })
+              .filter((transition) => transition.allowed && !transition.requiresReason)
+              .map((transition) => transition.to),
+          ]
+        : JOB_STATUSES,
+    [existingJob, tasks]
+  );
+  const [toolsAndSupplies, setToolsAndSupplies] = useState<ChecklistItem[]>(source?.toolsAndSupplies || []);
+  const [notes, setNotes] = useState(source?.notes || '');
+  const [visits, setVisits] = useState<Visit[]>(existingJob?.visits || []);
   const [loading, setLoading] = useState(false);
+  // Remounts the editors that keep their own copy of the text when a template is applied
+  const [templateKey, setTemplateKey] = useState(0);
+
+  // A new job can repeat; a series job shows its series' rule, which applies when editing all upcoming jobs
+  const series = existingJob?.seriesId ? allSeries.find((candidate) => candidate.id === existingJob.seriesId) : undefined;
+  const [repeatRule, setRepeatRule] = useState<string | null>(series?.rule ?? null);
+  const showRepeat = !isEditing || !!series;
+  const handleRepeatRuleChange = useCallback((rule: string | null) => setRepeatRule(rule), []);
 
   // Inline validation state
   const [touched, setTouched] = useState({
@@ -84,11 +147,19 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
       jobName: jobName.trim() ? '' : 'Job name is required',
       description: description.trim() ? '' : 'Job description is required',
       selectedClientId: selectedClientId ? '' : 'Client is required',
-      quote: quote.trim() && !isNaN(parseFloat(quote)) ? '' : 'Enter a valid quote amount',
+      quote: itemized || (quote.trim() && !isNaN(parseFloat(quote))) ? '' : 'Enter a valid quote amount or add line items',
       quoteDate: quoteDate.trim() && dateRegex.test(quoteDate) ? '' : 'Use YYYY-MM-DD',
       startDate: startDate.trim() && dateRegex.test(startDate) ? '' : 'Use YYYY-MM-DD',
       endDate: endDate.trim() && dateRegex.test(endDate) ? '' : 'Use YYYY-MM-DD',
+      repeatRule: '',
     };
+    if (repeatRule) {
+      try {
+        parseRRule(repeatRule);
+      } catch (error) {
+        basic.repeatRule = (error as Error).message;
+      }
+    }
 
     // Cross-field date validations
     if (!basic.quoteDate && !basic.startDate) {
@@ -102,7 +173,7 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
       if (e < s) basic.endDate = 'End date cannot be before start date';
     }
     return basic;
-  }, [jobName, description, selectedClientId, quote, quoteDate, startDate, endDate]);
+  }, [jobName, description, selectedClientId, quote, itemized, quoteDate, startDate, endDate, repeatRule]);
 
   const isValid = useMemo(() => Object.values(errors).every((e) => e === ''), [errors]);
 
@@ -117,7 +188,13 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
     endDate: existingJob?.endDate || '',
     status: existingJob?.status || 'Quoted',
     toolsAndSupplies: existingJob?.toolsAndSupplies || [],
+    tasks: existingJob?.tasks || [],
     notes: existingJob?.notes || '',
+    visits: existingJob?.visits || [],
+    lineItems: existingJob?.lineItems || [],
+    discount: existingJob?.discount,
+    taxRate: existingJob?.taxRate,
+    repeatRule: series?.rule ?? null,
   });
 
   const isDirty = useMemo(() => {
@@ -132,9 +209,32 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
       s.endDate !== endDate ||
       s.status !== status ||
       s.notes !== notes ||
-      JSON.stringify(s.toolsAndSupplies) !== JSON.stringify(toolsAndSupplies)
+      JSON.stringify(s.visits) !== JSON.stringify(visits) ||
+      JSON.stringify(s.toolsAndSupplies) !== JSON.stringify(toolsAndSupplies) ||
+      JSON.stringify(s.tasks) !== JSON.stringify(tasks) ||
+      JSON.stringify(s.lineItems) !== JSON.stringify(lineItems) ||
+      JSON.stringify(s.discount) !== JSON.stringify(discount) ||
+      s.taxRate !== taxRate ||
+      s.repeatRule !== repeatRule
     );
-  }, [jobName, description, selectedClientId, quote, quoteDate, startDate, endDate, status, notes, toolsAndSupplies]);
+  }, [
+    jobName,
+    description,
+    selectedClientId,
+    quote,
+    quoteDate,
+    startDate,
+    endDate,
+    status,
+    notes,
+    visits,
+    toolsAndSupplies,
+    tasks,
+    lineItems,
+    discount,
+    taxRate,
+    repeatRule,
+  ]);
 
   // Client creation modal states
   const [showClientModal, setShowClientModal] = useState(false);
@@ -152,59 +252,193 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
 
   const validateForm = (): boolean => isValid;
 
-  const handleSave = async () => {
-    if (!validateForm()) return;
+  const finishSave = (message: string) => {
+    Alert.alert('Success', message, [
+      {
+        text: 'OK',
+        onPress: () => {
+          if (preselectedClient) {
+            navigation.navigate('ClientDetail', { client: preselectedClient });
+          } else {
+            navigation.goBack();
+          }
+        },
+      },
+    ]);
+  };
 
+  const runSave = async (save: () => Promise<string>) => {
     try {
       setLoading(true);
-      
-      const selectedClient = clients.find(c => c.id === selectedClientId);
-      if (!selectedClient) {
-        Alert.alert('Error', 'Selected client not found');
-        return;
-      }
+      finishSave(await save());
+    } catch (error) {
+      logService.logError('ADD_EDIT_JOB', error as Error);
+      Alert.alert('Error', `Failed to ${isEditing ? 'update' : 'create'} job`);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const jobData: Job = {
-        id: existingJob?.id || `job_${Date.now()}`,
-        jobName: jobName.trim(),
-        description: description.trim(),
-        clientId: selectedClientId,
-        clientName: selectedClient.fullName,
-        quote: parseFloat(quote),
-        quoteDate,
-        startDate,
-        endDate,
-        status,
-        expenses: existingJob?.expenses || [],
-        toolsAndSupplies,
-        notes: notes.trim(),
-      };
+  // Whole days from start to end, so every occurrence spans the same length
+  const durationDays = () => Math.max(0, Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86400000));
 
+  const saveSingleJob = (jobData: Job) =>
+    runSave(async () => {
       if (isEditing) {
-        await dispatch(modifyJob(jobData)).unwrap();
+        await dispatch(modifyJob({ job: jobData, source: 'AddEditJobScreen' })).unwrap();
       } else {
         await dispatch(createJob(jobData)).unwrap();
       }
+      return `Job ${isEditing ? 'updated' : 'created'} successfully`;
+    });
 
-      Alert.alert(
-        'Success',
-        `Job ${isEditing ? 'updated' : 'created'} successfully`,
-        [{ 
-          text: 'OK', 
-          onPress: () => {
-            if (preselectedClient) {
-              navigation.navigate('ClientDetail', { client: preselectedClient });
-            } else {
-              navigation.goBack();
-            }
-          }
-        }]
-      );
+  const startRecurringSeries = (jobData: Job, client: Client, rule: string) =>
+    runSave(async () => {
+      const plan = await dispatch(
+        startSeries({
+          client,
+          rule,
+          startDate,
+          durationDays: durationDays(),
+          details: templateDetailsFromJob(jobData),
+          templateId,
+        })
+      ).unwrap();
+      return `Recurring job created with ${plan.create.length} upcoming visit(s) scheduled`;
+    });
+
+  // Applies the form to every upcoming occurrence that still follows the series
+  const saveUpcomingJobs = (jobData: Job, seriesId: string) =>
+    runSave(async () => {
+      const plan = repeatRule
+        ? await dispatch(
+            updateSeries({
+              seriesId,
+              changes: { details: templateDetailsFromJob(jobData), durationDays: durationDays(), rule: repeatRule },
+              source: 'AddEditJobScreen',
+            })
+          ).unwrap()
+        : await dispatch(stopSeries({ series: series!, source: 'AddEditJobScreen' })).unwrap();
+      // Past or already started jobs are not rebuilt by the series, so this one is saved as edited
+      if (existingJob && !followsSeries(existingJob, localDay(new Date()))) {
+        await dispatch(modifyJob({ job: jobData, source: 'AddEditJobScreen' })).unwrap();
+      }
+      return repeatRule
+        ? `Updated ${plan.update.length} upcoming job(s) in the series`
+        : `Stopped repeating; ${plan.remove.length} upcoming job(s) removed`;
+    });
+
+  const handleSave = async () => {
+    if (!validateForm()) return;
+
+    const selectedClient = clients.find(c => c.id === selectedClientId);
+    if (!selectedClient) {
+      Alert.alert('Error', 'Selected client not found');
+      return;
+    }
+
+    const jobData: Job = {
+      id: existingJob?.id || `job_${Date.now()}`,
+      jobName: jobName.trim(),
+      description: description.trim(),
+      clientId: selectedClientId,
+      clientName: selectedClient.fullName,
+      quote: itemized ? quoteTotals.total : parseFloat(quote),
+      ...(itemized && { lineItems, discount, taxRate }),
+      quoteDate,
+      startDate,
+      endDate,
+      status,
+      // Kept as recorded; the lifecycle updates them when the status changes
+      ...(existingJob && {
+        actualStartDate: existingJob.actualStartDate,
+        actualEndDate: existingJob.actualEndDate,
+        statusHistory: existingJob.statusHistory,
+        timeEntries: existingJob.timeEntries,
+      }),
+      ...(visits.length > 0 && { visits }),
+      ...(existingJob?.seriesId && {
+        seriesId: existingJob.seriesId,
+        occurrenceDate: existingJob.occurrenceDate,
+        seriesOverride: existingJob.seriesOverride,
+      }),
+      expenses: existingJob?.expenses || [],
+      toolsAndSupplies,
+      ...(tasks.length > 0 && { tasks }),
+      notes: notes.trim(),
+    };
+
+    if (!isEditing && repeatRule) {
+      await startRecurringSeries(jobData, selectedClient, repeatRule);
+    } else if (existingJob?.seriesId && series && !existingJob.seriesOverride) {
+      Alert.alert('Recurring Job', 'Apply these changes to this job only, or to all upcoming jobs in the series?', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'This Job Only', onPress: () => saveSingleJob({ ...jobData, seriesOverride: true }) },
+        { text: 'All Upcoming Jobs', onPress: () => saveUpcomingJobs(jobData, series.id) },
+      ]);
+    } else {
+      await saveSingleJob(jobData);
+    }
+  };
+
+  const applyTemplate = (template: JobTemplate) => {
+    const client = clients.find((c) => c.id === selectedClientId);
+    const fields = jobFieldsFromTemplate(template, {
+      clientName: client?.fullName || '',
+      date: startDate,
+      at: new Date(),
+    });
+    setJobName(fields.jobName);
+    setDescription(fields.description);
+    setQuote(fields.quote.toString());
+    setLineItems(fields.lineItems || []);
+    setDiscount(fields.discount);
+    setTaxRate(fields.taxRate);
+    setToolsAndSupplies(linkChecklistToInventory(fields.toolsAndSupplies || [], inventory));
+    setTasks(fields.tasks || []);
+    setNotes(fields.notes || '');
+    setTemplateId(template.id);
+    setTemplateKey((key) => key + 1);
+  };
+
+  // Saves the form as a template named after the job, replacing a template of the same name
+  const handleSaveAsTemplate = async () => {
+    const name = jobName.trim();
+    if (!name || !description.trim()) {
+      Alert.alert('Save as Template', 'Enter a job name and description first');
+      return;
+    }
+    const existing = templates.find((template) => template.name === name);
+    const details = templateDetailsFromJob({
+      id: '',
+      jobName: name,
+      description: description.trim(),
+      clientId: '',
+      clientName: '',
+      quote: itemized ? quoteTotals.total : parseFloat(quote) || 0,
+      ...(itemized && { lineItems, discount, taxRate }),
+      quoteDate,
+      startDate,
+      endDate,
+      status,
+      expenses: [],
+      toolsAndSupplies,
+      tasks,
+      notes: notes.trim(),
+    });
+    try {
+      const template: JobTemplate = {
+        ...details,
+        id: existing?.id || `template_${Date.now()}`,
+        name,
+        createdDate: existing?.createdDate || new Date().toISOString(),
+      };
+      await dispatch(storeTemplate(template)).unwrap();
+      setTemplateId(template.id);
+      Alert.alert('Template Saved', `"${name}" ${existing ? 'was updated' : 'is ready to reuse from Settings > Job Templates'}`);
     } catch (error) {
-      logService.logError('ADD_EDIT_JOB', error as Error);
-      Alert.alert('Error', `Failed to ${isEditing ? 'update' : 'create'} job`);
-    } finally {
-      setLoading(false);
+      logService.logError('ADD_EDIT_JOB', error as Error, { operation: 'saveAsTemplate' });
+      Alert.alert('Error', 'Failed to save template');
     }
   };
 
@@ -213,7 +447,7 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
     
     Alert.alert(
       'Delete Job',
-      `Are you sure you want to delete "${existingJob.jobName}"? This action cannot be undone.`,
+      `Move "${existingJob.jobName}" to the trash? You can restore it from Settings > Trash.`,
       [
         {
           text: 'Cancel',
@@ -225,11 +459,11 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
           onPress: async () => {
             try {
               setLoading(true);
-              await dispatch(removeJob(existingJob.id)).unwrap();
+              await dispatch(moveJobToTrash(existingJob.id)).unwrap();
               
               Alert.alert(
                 'Success',
-                'Job deleted successfully',
+                'Job moved to trash',
                 [{ 
                   text: 'OK', 
                   onPress: () => navigation.navigate('Jobs')
@@ -313,10 +547,7 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
         createdDate: new Date().toISOString(),
       };
 
-      // Persist to clients storage for Clients tab visibility
-      await saveClient(newClient);
-      // Update Redux slice for immediate in-memory availability
-      dispatch(addClient(newClient));
+      await dispatch(createClient(newClient)).unwrap();
       setSelectedClientId(newClient.id);
       
       // Clear modal form and close
@@ -351,6 +582,25 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
   return (
     <ScrollView style={styles.container}>
       <View style={styles.form}>
+        {!isEditing && templates.length > 0 && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Start from Template</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {templates.map((template) => (
+                <TouchableOpacity
+                  key={template.id}
+                  style={[styles.templateChip, templateId === template.id && styles.templateChipActive]}
+                  onPress={() => applyTemplate(template)}
+                >
+                  <Text style={[styles.templateChipText, templateId === template.id && styles.templateChipTextActive]}>
+                    {template.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Job Name *</Text>
           <TextInput
@@ -421,14 +671,22 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
 
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Quote Amount ($) *</Text>
-          <TextInput
-            style={styles.input}
-            value={quote}
-            onChangeText={setQuote}
-            onBlur={() => setTouched((t) => ({ ...t, quote: true }))}
-            placeholder="0.00"
-            keyboardType="decimal-pad"
-          />
+          {itemized || quoteLocked ? (
+            <View style={styles.input}>
+              <Text style={styles.inputValueText}>
+                {itemized ? `${quoteTotals.total.toFixed(2)} (from line items)` : quote}
+              </Text>
+            </View>
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={quote}
+              onChangeText={setQuote}
+              onBlur={() => setTouched((t) => ({ ...t, quote: true }))}
+              placeholder="0.00 or itemize below"
+              keyboardType="decimal-pad"
+            />
+          )}
           {!!touched.quote && !!errors.quote && (
             <Text style={styles.errorText}>{errors.quote}</Text>
           )}
@@ -464,37 +722,108 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
           )}
         </View>
 
-        <View style={styles.inputGroup}>
-          <Text style={styles.label}>Status</Text>
-          <View style={styles.pickerContainer}>
-            <Picker
-              selectedValue={status}
-              onValueChange={(value) => setStatus(value as Job['status'])}
-              style={styles.picker}
-            >
-              <Picker.Item label="Quoted" value="Quoted" />
-              <Picker.Item label="Accepted" value="Accepted" />
-              <Picker.Item label="In-Progress" value="In-Progress" />
-              <Picker.Item label="Completed" value="Completed" />
-              <Picker.Item label="Cancelled" value="Cancelled" />
-            </Picker>
+        {showRepeat && (
+          <>
+            <RecurrencePicker
+              rule={repeatRule}
+              onRuleChange={handleRepeatRuleChange}
+              startDate={series?.startDate ?? startDate}
+              previewFrom={isEditing ? localDay(new Date()) : undefined}
+            />
+            {!!errors.repeatRule && <Text style={styles.errorText}>{errors.repeatRule}</Text>}
+          </>
+        )}
+
+        {/* Upcoming visits of a new series are booked as Accepted */}
+        {(isEditing || !repeatRule) && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Status</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={status}
+                onValueChange={(value) => setStatus(value as Job['status'])}
+                style={styles.picker}
+              >
+                {statusOptions.map((option) => (
+                  <Picker.Item key={option} label={option} value={option} />
+                ))}
+              </Picker>
+            </View>
           </View>
+        )}
+
+        {/* Quote Line Items Section */}
+        <View style={styles.sectionContainer}>
+          {quoteLocked ? (
+            <Text style={styles.quoteNote}>
+              🔒 The quote is locked to accepted revision {existingJob?.acceptedRevision}. Move the job back to Quoted
+              to revise it.
+            </Text>
+          ) : (
+            lastRevision && (
+              <Text style={styles.quoteNote}>
+                Revision {lastRevision.number} was the last one saved; changes here become revision{' '}
+                {lastRevision.number + 1} when the quote is next sent.
+              </Text>
+            )
+          )}
+          <QuoteLineItemsEditor
+            key={`line-items-${templateKey}`}
+            editable={!quoteLocked}
+            items={lineItems}
+            onItemsChange={setLineItems}
+            discount={discount}
+            onDiscountChange={setDiscount}
+            taxRate={taxRate}
+            onTaxRateChange={setTaxRate}
+          />
+        </View>
+
+        {/* Tasks Section */}
+        <View style={styles.sectionContainer}>
+          <TaskChecklist
+            tasks={tasks}
+            crew={knownWorkers([...activeJobs, { id: 'new_job', jobName, status, visits }])}
+            onSaveTask={(task) => setTasks((current) => putTask({ id: 'new_job', tasks: current }, task).tasks || [])}
+            onToggleTask={(task) => setTasks((current) => toggleTask({ id: 'new_job', tasks: current }, task.id).tasks || [])}
+            onDeleteTask={(task) => setTasks((current) => deleteTask({ id: 'new_job', tasks: current }, task.id).tasks || [])}
+          />
+        </View>
+
+        {/* Visits Section */}
+        <View style={styles.sectionContainer}>
+          <VisitsEditor
+            jobId={existingJob?.id ?? 'new_job'}
+            visits={visits}
+            schedule={[
+              ...activeJobs.filter((job) => job.id !== existingJob?.id),
+              { id: existingJob?.id ?? 'new_job', jobName: jobName.trim() || 'This job', status, visits },
+            ]}
+            defaultDate={startDate}
+            onSaveVisit={(visit) =>
+              setVisits((current) => sortVisits([...current.filter((other) => other.id !== visit.id), visit]))
+            }
+            onDeleteVisit={(visit) => setVisits((current) => current.filter((other) => other.id !== visit.id))}
+          />
         </View>
 
         {/* Tools & Supplies Section */}
         <View style={styles.sectionContainer}>
           <Checklist
+            key={`tools-${templateKey}`}
             items={toolsAndSupplies}
             onItemsChange={setToolsAndSupplies}
             title="Tools & Supplies"
             placeholder="Add tool or supply..."
             editable={true}
+            inventory={inventory}
           />
         </View>
 
         {/* Notes Section */}
         <View style={styles.sectionContainer}>
           <NotesEditor
+            key={`notes-${templateKey}`}
             notes={notes}
             onNotesChange={setNotes}
             title="Job Notes"
@@ -514,6 +843,10 @@ const AddEditJobScreen = ({ navigation, route }: Props) => {
           </Text>
         </TouchableOpacity>
 
+        <TouchableOpacity style={styles.templateButton} onPress={handleSaveAsTemplate} disabled={loading}>
+          <Text style={styles.templateButtonText}>Save as Template</Text>
+        </TouchableOpacity>
+
         {isEditing && (
           <TouchableOpacity
             style={[styles.deleteButton, loading && styles.disabledButton]}
@@ -834,6 +1167,41 @@ const styles = StyleSheet.create({
   sectionContainer: {
     marginBottom: 20,
   },
+  quoteNote: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  templateChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+    marginRight: 8,
+  },
+  templateChipActive: {
+    backgroundColor: '#2196F3',
+  },
+  templateChipText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  templateChipTextActive: {
+    color: '#fff',
+  },
+  templateButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  templateButtonText: {
+    color: '#2196F3',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
 
 export default AddEditJobScreen;
\ No newline at end of file
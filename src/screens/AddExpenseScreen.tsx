@@ -17,7 +17,8 @@ import { RouteProp } from '@react-navigation/native';
 import { useSelector, useDispatch } from 'react-redux';
 import { Expense, Job } from '../types';
 import { AppDispatch, RootState } from '../state/store';
-import { modifyJob } from '../state/slices/jobsSlice';
+import { addExpense, updateExpense } from '../state/slices/jobsSlice';
+import { moveExpenseToTrash } from '../state/slices/trashSlice';
 import { cloudStorageService } from '../services/CloudStorageService';
 import { logService } from '../services/LoggingService';
 
@@ -102,17 +103,12 @@ const AddExpenseScreen = ({ navigation, route }: Props) => {
         receiptImageLocalUri: receiptImageUri || undefined,
       };
 
-      const updatedJob: Job = isEditing
-        ? {
-            ...job,
-            expenses: job.expenses.map((exp) => (exp.id === expenseId ? newExpense : exp)),
-          }
-        : {
-            ...job,
-            expenses: [...job.expenses, newExpense],
-          };
-      
-      await dispatch(modifyJob(updatedJob)).unwrap();
+      const change = { jobId: job.id, expense: newExpense, source: 'AddExpenseScreen' };
+      if (isEditing) {
+        await dispatch(updateExpense(change)).unwrap();
+      } else {
+        await dispatch(addExpense(change)).unwrap();
+      }
       
       logService.logUserAction(isEditing ? 'Edited expense' : 'Added expense', {
         jobId: job.id,
@@ -162,7 +158,7 @@ const AddExpenseScreen = ({ navigation, route }: Props) => {
 
     Alert.alert(
       'Delete Expense',
-      'Are you sure you want to delete this expense?',
+      'Move this expense to the trash?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -171,19 +167,14 @@ const AddExpenseScreen = ({ navigation, route }: Props) => {
           onPress: async () => {
             try {
               setLoading(true);
-              const updatedJob: Job = {
-                ...job,
-                expenses: job.expenses.filter((exp) => exp.id !== expenseToEdit.id),
-              };
-
-              await dispatch(modifyJob(updatedJob)).unwrap();
+              await dispatch(moveExpenseToTrash({ jobId: job.id, expenseId: expenseToEdit.id })).unwrap();
 
               logService.logUserAction('Deleted expense', {
                 jobId: job.id,
                 expenseId: expenseToEdit.id,
               });
 
-              Alert.alert('Deleted', 'Expense deleted successfully', [
+              Alert.alert('Deleted', 'Expense moved to trash', [
                 { text: 'OK', onPress: () => navigation.goBack() },
               ]);
             } catch (error) {
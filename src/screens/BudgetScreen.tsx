@@ -75,7 +75,7 @@ const BudgetScreen = ({ navigation: _ }: Props) => {
         break;
     }
 
-    return allJobs.filter((job) => new Date(job.date) >= cutoffDate);
+    return allJobs.filter((job) => new Date(job.startDate) >= cutoffDate);
   };
 
   if (loading) {
@@ -0,0 +1,372 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Animated,
+  PanResponder,
+  Dimensions,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSelector, useDispatch } from 'react-redux';
+import { Calendar, CalendarProvider, WeekCalendar, AgendaList, DateData } from 'react-native-calendars';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { Job } from '../types';
+import { fetchJobs, modifyJob } from '../state/slices/jobsSlice';
+import { selectJobs } from '../state/selectors/jobsSelectors';
+import { AppDispatch } from '../state/store';
+import {
+  CalendarEvent,
+  buildCalendarEvents,
+  canReschedule,
+  eventsByDate,
+  markedDatesFor,
+  rescheduleEvent,
+} from '../services/CalendarEvents';
+import { describeConflict, visitConflicts } from '../services/VisitScheduling';
+import { addDays, localDay } from '../services/Recurrence';
+import { logService } from '../services/LoggingService';
+import { getStatusColor } from '../constants/theme';
+
+type CalendarScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+
+type CalendarMode = 'Month' | 'Week' | 'Agenda';
+
+const MODES: CalendarMode[] = ['Month', 'Week', 'Agenda'];
+
+const KIND_ICONS: Record<CalendarEvent['kind'], string> = {
+  start: '▶️',
+  end: '🏁',
+  visit: '👷',
+  payment: '💵',
+};
+
+// How far ahead the agenda lists, from the selected day
+const AGENDA_DAYS = 60;
+
+// Dragging a row one calendar column moves it one day
+const DAY_WIDTH = Dimensions.get('window').width / 7;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+interface EventRowProps {
+  event: CalendarEvent;
+  onPress: (event: CalendarEvent) => void;
+  onDrop: (event: CalendarEvent, date: string) => void;
+}
+
+// An event that opens its job on tap and can be dragged sideways to another day
+const EventRow = ({ event, onPress, onDrop }: EventRowProps) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const [dragDays, setDragDays] = useState(0);
+  const draggable = canReschedule(event);
+
+  const responder = useMemo(() => {
+    const reset = () => {
+      setDragDays(0);
+      Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+    };
+    return PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        draggable && Math.abs(gesture.dx) > 12 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        translateX.setValue(gesture.dx);
+        setDragDays(Math.round(gesture.dx / DAY_WIDTH));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const days = Math.round(gesture.dx / DAY_WIDTH);
+        reset();
+        if (days !== 0) onDrop(event, addDays(event.date, days));
+      },
+      onPanResponderTerminate: reset,
+    });
+  }, [event, draggable, onDrop, translateX]);
+
+  return (
+    <Animated.View style={{ transform: [{ translateX }] }} {...responder.panHandlers}>
+      <TouchableOpacity style={styles.eventRow} onPress={() => onPress(event)}>
+        <View style={[styles.statusBar, { backgroundColor: getStatusColor(event.status) }]} />
+        <View style={styles.eventText}>
+          <Text style={styles.eventTitle}>
+            {KIND_ICONS[event.kind]} {event.title}
+          </Text>
+          <Text style={styles.eventMeta}>
+            {event.status}
+            {event.detail ? ` · ${event.detail}` : ''}
+          </Text>
+          {dragDays !== 0 && <Text style={styles.dragHint}>Move to {formatDay(addDays(event.date, dragDays))}</Text>}
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const CalendarScreen = () => {
+  const navigation = useNavigation<CalendarScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const jobs = useSelector(selectJobs);
+  const [mode, setMode] = useState<CalendarMode>('Month');
+  const [selectedDate, setSelectedDate] = useState(() => localDay(new Date()));
+
+  useFocusEffect(
+    React.useCallback(() => {
+      logService.logNavigation('Calendar');
+      dispatch(fetchJobs());
+    }, [dispatch])
+  );
+
+  const events = useMemo(() => buildCalendarEvents(jobs), [jobs]);
+  const byDate = useMemo(() => eventsByDate(events), [events]);
+  const markedDates = useMemo(() => markedDatesFor(events, selectedDate), [events, selectedDate]);
+  const dayEvents = byDate[selectedDate] || [];
+
+  const agendaSections = useMemo(() => {
+    const last = addDays(selectedDate, AGENDA_DAYS);
+    return Object.keys(byDate)
+      .filter((date) => date >= selectedDate && date <= last)
+      .sort()
+      .map((date) => ({ title: date, data: byDate[date] }));
+  }, [byDate, selectedDate]);
+
+  const openJob = (event: CalendarEvent) => {
+    const job = jobs.find((candidate) => candidate.id === event.jobId);
+    if (job) navigation.navigate('JobDetail', { job });
+  };
+
+  const moveEvent = React.useCallback(
+    (event: CalendarEvent, date: string) => {
+      const job = jobs.find((candidate) => candidate.id === event.jobId);
+      if (!job) return;
+      let moved: Job;
+      try {
+        moved = rescheduleEvent(job, event, date);
+      } catch (error) {
+        Alert.alert('Cannot Move', (error as Error).message);
+        return;
+      }
+      const visit = event.kind === 'visit' ? moved.visits?.find((candidate) => candidate.id === event.visitId) : undefined;
+      const warnings = visit ? visitConflicts(jobs, job.id, visit).map((conflict) => `⚠️ ${describeConflict(conflict)}`) : [];
+      const save = async () => {
+        try {
+          await dispatch(modifyJob({ job: moved, source: 'CalendarScreen' })).unwrap();
+          logService.logUserAction('Rescheduled from calendar', { jobId: job.id, kind: event.kind, from: event.date, to: date });
+          setSelectedDate(date);
+        } catch (error) {
+          logService.logError('RESCHEDULE_JOB', error as Error, { jobId: job.id, kind: event.kind });
+          Alert.alert('Error', 'Failed to reschedule the job');
+        }
+      };
+      Alert.alert(
+        'Reschedule',
+        [`Move "${event.title}" from ${formatDay(event.date)} to ${formatDay(date)}?`, ...warnings].join('\n'),
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Move', onPress: save },
+        ]
+      );
+    },
+    [jobs, dispatch]
+  );
+
+  const renderEvent = (event: CalendarEvent) => (
+    <EventRow key={event.key} event={event} onPress={openJob} onDrop={moveEvent} />
+  );
+
+  const dayList = (
+    <ScrollView style={styles.list}>
+      <Text style={styles.dayTitle}>{formatDay(selectedDate)}</Text>
+      {dayEvents.length === 0 ? (
+        <Text style={styles.emptyText}>Nothing scheduled</Text>
+      ) : (
+        <>
+          {dayEvents.map(renderEvent)}
+          <Text style={styles.hintText}>Drag an item left or right to move it to another day</Text>
+        </>
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Calendar</Text>
+        <TouchableOpacity onPress={() => setSelectedDate(localDay(new Date()))}>
+          <Text style={styles.todayText}>Today</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.modeRow}>
+        {MODES.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.modeChip, mode === option && styles.modeChipActive]}
+            onPress={() => setMode(option)}
+          >
+            <Text style={[styles.modeChipText, mode === option && styles.modeChipTextActive]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'Month' && (
+        <>
+          <Calendar
+            key={selectedDate.slice(0, 7)}
+            current={selectedDate}
+            markingType="multi-dot"
+            markedDates={markedDates}
+            onDayPress={(day: DateData) => setSelectedDate(day.dateString)}
+            enableSwipeMonths
+          />
+          {dayList}
+        </>
+      )}
+
+      {mode === 'Week' && (
+        <CalendarProvider date={selectedDate} onDateChanged={(date) => setSelectedDate(date)} style={styles.provider}>
+          <WeekCalendar markingType="multi-dot" markedDates={markedDates} firstDay={0} />
+          {dayList}
+        </CalendarProvider>
+      )}
+
+      {mode === 'Agenda' && (
+        <CalendarProvider date={selectedDate} style={styles.provider}>
+          {agendaSections.length === 0 ? (
+            <Text style={[styles.emptyText, styles.agendaEmpty]}>
+              Nothing scheduled in the next {AGENDA_DAYS} days
+            </Text>
+          ) : (
+            <AgendaList
+              sections={agendaSections}
+              renderItem={({ item }: { item: CalendarEvent }) => renderEvent(item)}
+              keyExtractor={(item: CalendarEvent) => item.key}
+              dayFormatter={formatDay}
+              avoidDateUpdates
+              sectionStyle={styles.agendaSection}
+            />
+          )}
+        </CalendarProvider>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  todayText: {
+    color: '#2196F3',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+    backgroundColor: '#fff',
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  modeChipActive: {
+    backgroundColor: '#2196F3',
+  },
+  modeChipText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  modeChipTextActive: {
+    color: '#fff',
+  },
+  provider: {
+    flex: 1,
+  },
+  list: {
+    flex: 1,
+    padding: 16,
+  },
+  dayTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  agendaEmpty: {
+    padding: 16,
+  },
+  agendaSection: {
+    backgroundColor: '#f5f5f5',
+    color: '#666',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    marginBottom: 8,
+    overflow: 'hidden',
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  statusBar: {
+    width: 6,
+  },
+  eventText: {
+    flex: 1,
+    padding: 12,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  eventMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  dragHint: {
+    fontSize: 13,
+    color: '#2196F3',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+});
+
+export default CalendarScreen;
@@ -11,9 +11,10 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useSelector } from 'react-redux';
 import { Client, Job } from '../types';
-import { RootState } from '../state/store';
+import { selectAllJobs } from '../state/selectors/jobsSelectors';
 import { logService } from '../services/LoggingService';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { getStatusColor } from '../constants/theme';
 
 type RootStackParamList = {
   ClientDetail: { client: Client };
@@ -32,7 +33,7 @@ type Props = {
 
 const ClientDetailScreen = ({ navigation, route }: Props) => {
   const { client } = route.params;
-  const jobs = useSelector((state: RootState) => state.jobs.jobs);
+  const jobs = useSelector(selectAllJobs);
   const [clientJobs, setClientJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<'All' | Job['status']>('All');
@@ -65,17 +66,6 @@ const ClientDetailScreen = ({ navigation, route }: Props) => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Completed': return '#4CAF50';
-      case 'In-Progress': return '#2196F3';
-      case 'Accepted': return '#FF9800';
-      case 'Quoted': return '#9C27B0';
-      case 'Cancelled': return '#f44336';
-      default: return '#666';
-    }
-  };
-
   const formatCurrency = (amount: number) => {
     return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
   };
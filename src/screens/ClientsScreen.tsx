@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,12 +6,19 @@ import {
   FlatList,
   TouchableOpacity,
   Alert,
+  Modal,
 } from 'react-native';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { useDispatch, useSelector } from 'react-redux';
 import { Client } from '../types';
-import { getClients, deleteClient } from '../services/ClientService';
+import { AppDispatch, RootState } from '../state/store';
+import { selectAllJobs } from '../state/selectors/jobsSelectors';
+import { LoadErrorBanner, PendingWritesBadge } from '../components';
+import { fetchClients } from '../state/slices/clientsSlice';
+import { moveClientToTrash } from '../state/slices/trashSlice';
 import { logService } from '../services/LoggingService';
+import { ClientDeletionPolicy } from '../services/ClientService';
 
 type RootStackParamList = {
   Clients: undefined;
@@ -24,8 +31,13 @@ type ClientsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Clie
 
 const ClientsScreen = () => {
   const navigation = useNavigation<ClientsScreenNavigationProp>();
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
+  const dispatch = useDispatch<AppDispatch>();
+  const clients = useSelector((state: RootState) => state.clients.clients);
+  const loading = useSelector((state: RootState) => state.clients.loading);
+  const loadError = useSelector((state: RootState) => state.clients.loadError);
+  const jobs = useSelector(selectAllJobs);
+  // The client whose jobs are being moved before it is deleted
+  const [reassigning, setReassigning] = useState<Client | null>(null);
 
   useEffect(() => {
     loadClients();
@@ -40,41 +52,69 @@ const ClientsScreen = () => {
 
   const loadClients = async () => {
     try {
-      setLoading(true);
-      const clientList = await getClients();
-      setClients(clientList);
+      const clientList = await dispatch(fetchClients()).unwrap();
       logService.logUserAction('Viewed clients list', { clientCount: clientList.length });
     } catch (error) {
       logService.logError('CLIENTS_SCREEN', error as Error);
       Alert.alert('Error', 'Failed to load clients');
-    } finally {
-      setLoading(false);
+    }
+  };
+
+  const deleteClientWith = async (client: Client, policy: ClientDeletionPolicy) => {
+    try {
+      await dispatch(moveClientToTrash({ id: client.id, policy })).unwrap();
+      logService.logUserAction('Deleted client', {
+        clientId: client.id,
+        clientName: client.fullName,
+        policy: policy.mode,
+      });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to delete client');
     }
   };
 
   const handleDeleteClient = (client: Client) => {
+    const jobCount = jobs.filter((job) => job.clientId === client.id).length;
+    if (jobCount > 0) {
+      Alert.alert(
+        'Client Has Jobs',
+        `${client.fullName} has ${jobCount} job${jobCount === 1 ? '' : 's'}. Move ${jobCount === 1 ? 'it' : 'them'} to another client, or delete ${jobCount === 1 ? 'it' : 'them'} along with the client?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...(clients.some((other) => other.id !== client.id)
+            ? [{ text: 'Move Jobs to Another Client', onPress: () => setReassigning(client) }]
+            : []),
+          {
+            text: 'Delete Client & Jobs',
+            style: 'destructive',
+            onPress: () => deleteClientWith(client, { mode: 'cascade' }),
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Delete Client',
-      `Are you sure you want to delete ${client.fullName}?`,
+      `Move ${client.fullName} to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteClient(client.id);
-              await loadClients();
-              logService.logUserAction('Deleted client', { clientId: client.id, clientName: client.fullName });
-            } catch (error) {
-              Alert.alert('Error', 'Failed to delete client');
-            }
-          },
+          onPress: () => deleteClientWith(client, { mode: 'block' }),
         },
       ]
     );
   };
 
+  const reassignTo = (target: Client) => {
+    if (!reassigning) return;
+    const client = reassigning;
+    setReassigning(null);
+    deleteClientWith(client, { mode: 'reassign', toClientId: target.id });
+  };
+
   const renderClientItem = ({ item }: { item: Client }) => (
     <TouchableOpacity
       style={styles.clientCard}
@@ -115,15 +155,20 @@ const ClientsScreen = () => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Clients</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => navigation.navigate('AddClient')}
-        >
-          <Text style={styles.addButtonText}>+ Add Client</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <PendingWritesBadge />
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => navigation.navigate('AddClient')}
+          >
+            <Text style={styles.addButtonText}>+ Add Client</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {clients.length === 0 ? (
+      {loadError && <LoadErrorBanner error={loadError} onRetry={() => dispatch(fetchClients())} />}
+
+      {clients.length === 0 && loadError ? null : clients.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyStateTitle}>No Clients Yet</Text>
           <Text style={styles.emptyStateMessage}>
@@ -145,6 +190,32 @@ const ClientsScreen = () => {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <Modal
+        visible={reassigning !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setReassigning(null)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Move {reassigning?.fullName}'s jobs to</Text>
+            <FlatList
+              data={clients.filter((client) => client.id !== reassigning?.id)}
+              keyExtractor={(item) => item.id}
+              style={styles.modalList}
+              renderItem={({ item }) => (
+                <TouchableOpacity style={styles.modalOption} onPress={() => reassignTo(item)}>
+                  <Text style={styles.modalOptionText}>{item.fullName}</Text>
+                </TouchableOpacity>
+              )}
+            />
+            <TouchableOpacity style={styles.modalCloseButton} onPress={() => setReassigning(null)}>
+              <Text style={styles.modalCloseText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -167,6 +238,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -275,6 +350,47 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    maxHeight: '70%',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  modalList: {
+    flexGrow: 0,
+  },
+  modalOption: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  modalOptionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  modalCloseButton: {
+    marginTop: 12,
+    alignItems: 'center',
+    paddingVertical: 12,
+    backgroundColor: '#eee',
+    borderRadius: 8,
+  },
+  modalCloseText: {
+    color: '#333',
+    fontWeight: '600',
+  },
 });
 
 export default ClientsScreen;
\ No newline at end of file
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { useNavigation } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { AppDispatch, RootState } from '../state/store';
+import { fetchClients } from '../state/slices/clientsSlice';
+import { fetchJobs } from '../state/slices/jobsSlice';
+import { logService } from '../services/LoggingService';
+import {
+  ColumnMapping,
+  CsvImportReport,
+  CsvImportTarget,
+  IMPORT_FIELD_LABELS,
+  ImportField,
+  REQUIRED_IMPORT_FIELDS,
+  commitCsvImport,
+  dryRunCsvImport,
+  fieldsFor,
+  guessColumnMapping,
+  parseCsv,
+} from '../services/CsvImportService';
+
+const NOT_MAPPED = -1;
+
+const CsvImportScreen = () => {
+  const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
+  const clients = useSelector((state: RootState) => state.clients.clients);
+  const [target, setTarget] = useState<CsvImportTarget>('clients');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const headers = rows[0] || [];
+
+  const changeTarget = (next: CsvImportTarget) => {
+    setTarget(next);
+    setMapping(guessColumnMapping(next, headers));
+    setReport(null);
+  };
+
+  const updateMapping = (field: ImportField, column: number) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+    setReport(null);
+  };
+
+  const pickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const asset = result.assets[0];
+      const parsed = parseCsv(await FileSystem.readAsStringAsync(asset.uri));
+      if (parsed.length < 2) {
+        Alert.alert('Empty File', 'The CSV needs a header row and at least one data row.');
+        return;
+      }
+      setFileName(asset.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(target, parsed[0]));
+      setReport(null);
+      logService.logUserAction('csv_file_selected', { rows: parsed.length - 1 });
+    } catch (error) {
+      logService.logError('CSV_IMPORT', error as Error, { operation: 'pickFile' });
+      Alert.alert('Error', 'Failed to read the CSV file');
+    }
+  };
+
+  const runDryRun = () => {
+    setReport(dryRunCsvImport(target, rows, mapping, clients));
+  };
+
+  const commit = async () => {
+    if (!report) return;
+    setLoading(true);
+    try {
+      await commitCsvImport(report);
+      dispatch(fetchClients());
+      dispatch(fetchJobs());
+      Alert.alert(
+        'Import Complete',
+        `Added ${report.clientsToCreate.length} clients and ${report.jobsToCreate.length} jobs.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      logService.logError('CSV_IMPORT', error as Error, { operation: 'commit' });
+      Alert.alert('Error', 'Import failed. No changes were saved.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderMappingRow = (field: ImportField) => {
+    const required = REQUIRED_IMPORT_FIELDS[target].includes(field);
+    return (
+      <View key={field} style={styles.inputGroup}>
+        <Text style={styles.label}>
+          {IMPORT_FIELD_LABELS[field]}
+          {required ? ' *' : ''}
+        </Text>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={mapping[field] ?? NOT_MAPPED}
+            onValueChange={(value) => updateMapping(field, Number(value))}
+          >
+            <Picker.Item label="— Not mapped —" value={NOT_MAPPED} />
+            {headers.map((header, index) => (
+              <Picker.Item key={index} label={header || `Column ${index + 1}`} value={index} />
+            ))}
+          </Picker>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.form}>
+        <View style={styles.segment}>
+          {(['clients', 'jobs'] as CsvImportTarget[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segmentButton, target === option && styles.segmentButtonActive]}
+              onPress={() => changeTarget(option)}
+            >
+              <Text style={[styles.segmentText, target === option && styles.segmentTextActive]}>
+                {option === 'clients' ? 'Clients' : 'Jobs'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.cancelButton} onPress={pickFile}>
+          <Text style={styles.cancelButtonText}>
+            {fileName ? `${fileName} (${rows.length - 1} rows)` : 'Choose CSV File'}
+          </Text>
+        </TouchableOpacity>
+
+        {headers.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Column Mapping</Text>
+            {fieldsFor(target).map(renderMappingRow)}
+
+            <TouchableOpacity style={styles.saveButton} onPress={runDryRun}>
+              <Text style={styles.saveButtonText}>Dry Run</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {report && (
+          <View style={styles.report}>
+            <Text style={styles.sectionTitle}>Dry Run Report</Text>
+            <Text style={styles.reportSummary}>
+              {report.validRows} of {report.totalRows} rows ready · {report.errors.length} errors
+            </Text>
+            {report.errors.map((error, index) => (
+              <Text key={`e${index}`} style={styles.errorText}>
+                Row {error.row}
+                {error.field ? ` · ${IMPORT_FIELD_LABELS[error.field]}` : ''}: {error.message}
+              </Text>
+            ))}
+            {report.warnings.map((warning, index) => (
+              <Text key={`w${index}`} style={styles.warningText}>
+                Row {warning.row}: {warning.message}
+              </Text>
+            ))}
+
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                (loading || report.errors.length > 0 || report.validRows === 0) && styles.disabledButton,
+              ]}
+              onPress={commit}
+              disabled={loading || report.errors.length > 0 || report.validRows === 0}
+            >
+              <Text style={styles.saveButtonText}>
+                {loading ? 'Importing...' : `Import ${report.validRows} Rows`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  form: {
+    padding: 20,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  segmentButtonActive: {
+    backgroundColor: '#2196F3',
+  },
+  segmentText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+  },
+  report: {
+    marginTop: 8,
+  },
+  reportSummary: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 8,
+  },
+  saveButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  warningText: {
+    color: '#F57C00',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+});
+
+export default CsvImportScreen;
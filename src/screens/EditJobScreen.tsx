@@ -6,6 +6,7 @@ import {
   Button,
   StyleSheet,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { RouteProp } from '@react-navigation/native';
 // Navigation hooks available if needed:
@@ -33,9 +34,13 @@ const EditJobScreen = ({ route, navigation }: Props) => {
 
   useEffect(() => {
     const fetchJob = async () => {
-      const fetchedJob = await getJobById(jobId);
-      setJob(fetchedJob);
-      setLoading(false);
+      try {
+        setJob(await getJobById(jobId));
+      } catch {
+        Alert.alert('Error', 'Failed to load job from storage');
+      } finally {
+        setLoading(false);
+      }
     };
 
     fetchJob();
@@ -58,11 +63,11 @@ const EditJobScreen = ({ route, navigation }: Props) => {
 
   return (
     <View style={styles.container}>
-      <Text>Title</Text>
+      <Text>Job Name</Text>
       <TextInput
         style={styles.input}
-        value={job.title}
-        onChangeText={(text) => setJob({ ...job, title: text })}
+        value={job.jobName}
+        onChangeText={(text) => setJob({ ...job, jobName: text })}
       />
       <Text>Client Name</Text>
       <TextInput
@@ -70,11 +75,11 @@ const EditJobScreen = ({ route, navigation }: Props) => {
         value={job.clientName}
         onChangeText={(text) => setJob({ ...job, clientName: text })}
       />
-      <Text>Pay</Text>
+      <Text>Quote</Text>
       <TextInput
         style={styles.input}
-        value={job.pay.toString()}
-        onChangeText={(text) => setJob({ ...job, pay: Number(text) })}
+        value={job.quote.toString()}
+        onChangeText={(text) => setJob({ ...job, quote: Number(text) })}
         keyboardType="numeric"
       />
       <Button title="Update Job" onPress={handleUpdate} />
@@ -0,0 +1,566 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  Alert,
+  Share,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import { fetchInventory, removeInventoryItem, storeInventoryItem } from '../state/slices/inventorySlice';
+import { selectJobs } from '../state/selectors/jobsSelectors';
+import {
+  SHOPPING_LIST_HORIZON_DAYS,
+  ShoppingListEntry,
+  buildShoppingList,
+  needsReorder,
+  shoppingListText,
+} from '../services/InventoryMatching';
+import { localDay } from '../services/Recurrence';
+import { logService } from '../services/LoggingService';
+import { InventoryItem } from '../types';
+
+type InventoryView = 'stock' | 'shopping';
+
+// Form values are kept as typed until saved
+interface ItemDraft {
+  id: string;
+  name: string;
+  kind: InventoryItem['kind'];
+  quantityOnHand: string;
+  unit: string;
+  unitCost: string;
+  location: string;
+  reorderThreshold: string;
+}
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const draftFrom = (item?: InventoryItem): ItemDraft => ({
+  id: item?.id ?? '',
+  name: item?.name ?? '',
+  kind: item?.kind ?? 'consumable',
+  quantityOnHand: String(item?.quantityOnHand ?? 0),
+  unit: item?.unit ?? '',
+  unitCost: String(item?.unitCost ?? 0),
+  location: item?.location ?? '',
+  reorderThreshold: String(item?.reorderThreshold ?? 0),
+});
+
+const InventoryScreen = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const items = useSelector((state: RootState) => state.inventory.items);
+  const loading = useSelector((state: RootState) => state.inventory.loading);
+  const jobs = useSelector(selectJobs);
+  const [view, setView] = useState<InventoryView>('stock');
+  const [draft, setDraft] = useState<ItemDraft | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchInventory());
+    logService.logNavigation('Inventory');
+  }, [dispatch]);
+
+  const shoppingList = useMemo(
+    () => buildShoppingList(jobs, items, { today: localDay(new Date()) }),
+    [jobs, items]
+  );
+  const shoppingTotal = shoppingList.reduce((sum, entry) => sum + entry.estimatedCost, 0);
+
+  const saveItem = async (item: InventoryItem) => {
+    try {
+      await dispatch(storeInventoryItem(item)).unwrap();
+      return true;
+    } catch (error) {
+      Alert.alert('Error', (error as Error).message || 'Failed to save inventory item');
+      return false;
+    }
+  };
+
+  const adjustStock = (item: InventoryItem, change: number) =>
+    saveItem({
+      ...item,
+      quantityOnHand: Math.max(item.quantityOnHand + change, 0),
+      updatedDate: new Date().toISOString(),
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const existing = items.find((item) => item.id === draft.id);
+    const now = new Date().toISOString();
+    const item: InventoryItem = {
+      ...existing,
+      id: draft.id || `inventory_${Date.now()}`,
+      name: draft.name,
+      kind: draft.kind,
+      quantityOnHand: parseFloat(draft.quantityOnHand),
+      unitCost: parseFloat(draft.unitCost),
+      reorderThreshold: parseFloat(draft.reorderThreshold),
+      createdDate: existing?.createdDate ?? now,
+      updatedDate: now,
+    };
+    // Cleared text fields are dropped rather than stored empty
+    delete item.unit;
+    delete item.location;
+    if (draft.unit.trim()) item.unit = draft.unit.trim();
+    if (draft.location.trim()) item.location = draft.location.trim();
+    if (await saveItem(item)) setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item) return;
+    Alert.alert(
+      'Delete Item',
+      `Delete "${item.name}" from the inventory? Jobs that list it keep it on their Tools & Supplies.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(removeInventoryItem(id))
+              .unwrap()
+              .then(() => setDraft(null))
+              .catch(() => Alert.alert('Error', 'Failed to delete inventory item'));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: shoppingListText(shoppingList, formatCurrency) });
+    } catch (error) {
+      logService.logError('INVENTORY', error as Error, { operation: 'shareShoppingList' });
+    }
+  };
+
+  const renderItem = ({ item }: { item: InventoryItem }) => {
+    const low = needsReorder(item);
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => setDraft(draftFrom(item))}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.name}>{item.name}</Text>
+          <Text style={styles.kindBadge}>{item.kind === 'tool' ? 'Tool' : 'Consumable'}</Text>
+        </View>
+        <Text style={styles.meta}>
+          {formatCurrency(item.unitCost)} each
+          {item.location ? ` · ${item.location}` : ''}
+        </Text>
+        <View style={styles.stockRow}>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => adjustStock(item, -1)}
+            accessibilityLabel={`One fewer ${item.name}`}
+          >
+            <Text style={styles.stepText}>−</Text>
+          </TouchableOpacity>
+          <Text style={[styles.onHand, low && styles.lowText]}>
+            {item.quantityOnHand} {item.unit || ''} on hand
+          </Text>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => adjustStock(item, 1)}
+            accessibilityLabel={`One more ${item.name}`}
+          >
+            <Text style={styles.stepText}>+</Text>
+          </TouchableOpacity>
+          {low && <Text style={styles.lowBadge}>Low · keep {item.reorderThreshold}</Text>}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderShoppingEntry = ({ item: entry }: { item: ShoppingListEntry }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.name}>
+          {entry.toBuy} {entry.item.unit || '×'} {entry.item.name}
+        </Text>
+        <Text style={styles.cost}>{formatCurrency(entry.estimatedCost)}</Text>
+      </View>
+      <Text style={styles.meta}>
+        {entry.item.quantityOnHand} on hand · {entry.needed} needed · keep {entry.item.reorderThreshold}
+      </Text>
+      {entry.jobs.map((job) => (
+        <Text key={job.id} style={styles.meta}>
+          • {job.quantity} for {job.jobName}
+          {job.startDate ? ` (${job.startDate})` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.segments}>
+          {(['stock', 'shopping'] as InventoryView[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, view === option && styles.segmentActive]}
+              onPress={() => setView(option)}
+            >
+              <Text style={[styles.segmentText, view === option && styles.segmentTextActive]}>
+                {option === 'stock' ? `Stock (${items.length})` : `Shopping List (${shoppingList.length})`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {view === 'stock' ? (
+          <TouchableOpacity onPress={() => setDraft(draftFrom())} accessibilityRole="button">
+            <Text style={styles.linkText}>+ Add Item</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.headerText}>
+            For Accepted and In-Progress jobs in the next {SHOPPING_LIST_HORIZON_DAYS} days, plus anything below its
+            reorder level. Estimated total {formatCurrency(shoppingTotal)}.
+          </Text>
+        )}
+      </View>
+
+      {view === 'stock' ? (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          refreshing={loading}
+          onRefresh={() => dispatch(fetchInventory())}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>No inventory yet</Text>
+              <Text style={styles.meta}>Add tools and supplies, then link them from a job's Tools & Supplies</Text>
+            </View>
+          }
+        />
+      ) : (
+        <FlatList
+          data={shoppingList}
+          keyExtractor={(entry) => entry.item.id}
+          renderItem={renderShoppingEntry}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>Nothing to buy</Text>
+            </View>
+          }
+          ListFooterComponent={
+            shoppingList.length > 0 ? (
+              <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+                <Text style={styles.shareButtonText}>Share Shopping List</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+
+      <Modal visible={draft !== null} transparent animationType="fade" onRequestClose={() => setDraft(null)}>
+        <TouchableWithoutFeedback onPress={() => setDraft(null)}>
+          <View style={styles.modalBackdrop}>
+            <TouchableWithoutFeedback>
+              <View style={styles.modalContent}>
+                {draft && (
+                  <>
+                    <Text style={styles.modalTitle}>{draft.id ? 'Edit Item' : 'Add Item'}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={draft.name}
+                      onChangeText={(name) => setDraft({ ...draft, name })}
+                      placeholder="Name, e.g. Drop cloth"
+                      autoFocus={!draft.id}
+                    />
+                    <View style={styles.chipRow}>
+                      {(['consumable', 'tool'] as InventoryItem['kind'][]).map((kind) => (
+                        <TouchableOpacity
+                          key={kind}
+                          style={[styles.chip, draft.kind === kind && styles.chipActive]}
+                          onPress={() => setDraft({ ...draft, kind })}
+                        >
+                          <Text style={[styles.chipText, draft.kind === kind && styles.chipTextActive]}>
+                            {kind === 'tool' ? 'Tool (reused)' : 'Consumable (used up)'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <View style={styles.inputRow}>
+                      <TextInput
+                        style={[styles.input, styles.inputHalf]}
+                        value={draft.quantityOnHand}
+                        onChangeText={(quantityOnHand) => setDraft({ ...draft, quantityOnHand })}
+                        placeholder="On hand"
+                        keyboardType="decimal-pad"
+                      />
+                      <TextInput
+                        style={[styles.input, styles.inputHalf]}
+                        value={draft.unit}
+                        onChangeText={(unit) => setDraft({ ...draft, unit })}
+                        placeholder="Unit (optional)"
+                      />
+                    </View>
+                    <View style={styles.inputRow}>
+                      <TextInput
+                        style={[styles.input, styles.inputHalf]}
+                        value={draft.unitCost}
+                        onChangeText={(unitCost) => setDraft({ ...draft, unitCost })}
+                        placeholder="Unit cost"
+                        keyboardType="decimal-pad"
+                      />
+                      <TextInput
+                        style={[styles.input, styles.inputHalf]}
+                        value={draft.reorderThreshold}
+                        onChangeText={(reorderThreshold) => setDraft({ ...draft, reorderThreshold })}
+                        placeholder="Keep at least"
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <TextInput
+                      style={styles.input}
+                      value={draft.location}
+                      onChangeText={(location) => setDraft({ ...draft, location })}
+                      placeholder="Location, e.g. Van shelf 2 (optional)"
+                    />
+                    <View style={styles.modalActions}>
+                      {!!draft.id && (
+                        <TouchableOpacity style={styles.modalButton} onPress={() => handleDelete(draft.id)}>
+                          <Text style={styles.deleteText}>Delete</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.modalButton} onPress={() => setDraft(null)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.modalButton} onPress={handleSave}>
+                        <Text style={styles.saveText}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  segments: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  segmentActive: {
+    backgroundColor: '#2196F3',
+  },
+  segmentText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  kindBadge: {
+    fontSize: 12,
+    color: '#666',
+    backgroundColor: '#eee',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  cost: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  stockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    fontSize: 18,
+    color: '#2196F3',
+  },
+  onHand: {
+    fontSize: 15,
+    color: '#333',
+    marginHorizontal: 12,
+  },
+  lowText: {
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  lowBadge: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  shareButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  shareButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    color: '#333',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  deleteText: {
+    fontSize: 16,
+    color: '#f44336',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2196F3',
+  },
+});
+
+export default InventoryScreen;
@@ -6,19 +6,50 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
-  Modal,
-  TouchableWithoutFeedback,
   Linking,
   Platform,
 } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { useSelector, useDispatch } from 'react-redux';
-import { Job, Client } from '../types';
+import { Job, Client, Payment, AuditEntry, QuoteRevision, TimeEntry, Visit, JobTask } from '../types';
 import { AppDispatch, RootState } from '../state/store';
-import { deleteJob, modifyJob } from '../state/slices/jobsSlice';
+import { selectAllJobs, selectJobs } from '../state/selectors/jobsSelectors';
+import {
+  changeJobStatus,
+  checkTask,
+  clockIn,
+  clockOut,
+  removePayment,
+  removeTask,
+  removeTimeEntry,
+  removeVisit,
+  saveQuoteRevision,
+  saveTask,
+  saveTimeEntry,
+  saveVisit,
+  updatePayment,
+} from '../state/slices/jobsSlice';
+import { moveJobToTrash } from '../state/slices/trashSlice';
+import { stopSeries } from '../state/slices/seriesSlice';
 import { logService } from '../services/LoggingService';
-import { Checklist, NotesEditor } from '../components';
+import { AUDIT_FIELD_LABELS, formatAuditValue, getJobAuditTrail } from '../services/AuditService';
+import {
+  QUOTE_CATEGORIES,
+  calculateQuote,
+  hasLineItems,
+  lineItemTotal,
+  quoteBreakdownText,
+  quoteRevenue,
+  quoteTotal,
+} from '../services/QuoteCalculator';
+import { checkTransition } from '../services/JobLifecycle';
+import { shareSignedQuote } from '../services/QuoteAcceptanceService';
+import { describeRule, parseRRule } from '../services/Recurrence';
+import { exportICalendar } from '../services/ICalendarService';
+import { Checklist, JobStatusPicker, NotesEditor, TaskChecklist, TimeTracker, VisitsEditor } from '../components';
+import { knownWorkers } from '../services/VisitScheduling';
+import { getStatusColor } from '../constants/theme';
 
 type RootStackParamList = {
   JobDetail: { job: Job };
@@ -26,6 +57,8 @@ type RootStackParamList = {
   ClientDetail: { client: Client };
   AddExpense: { job: Job };
   Payment: { job: Job };
+  QuoteRevisions: { job: Job };
+  QuoteAcceptance: { job: Job };
 };
 
 type JobDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'JobDetail'>;
@@ -38,13 +71,16 @@ type Props = {
 
 const JobDetailScreen = ({ navigation, route }: Props) => {
   const dispatch = useDispatch<AppDispatch>();
-  const jobs = useSelector((state: RootState) => state.jobs.jobs);
+  const jobs = useSelector(selectAllJobs);
   const clients = useSelector((state: RootState) => state.clients.clients);
+  const allSeries = useSelector((state: RootState) => state.series.series);
+  const activeJobs = useSelector(selectJobs);
   
   const [job, setJob] = useState<Job>(route.params.job);
   const [client, setClient] = useState<Client | null>(null);
   const [loading, setLoading] = useState(true);
   const [statusPickerVisible, setStatusPickerVisible] = useState(false);
+  const [auditTrail, setAuditTrail] = useState<AuditEntry[]>([]);
 
   useEffect(() => {
     navigation.setOptions({
@@ -72,6 +108,8 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
       // Load client details from Redux
       const clientData = clients.find(c => c.id === job.clientId);
       setClient(clientData || null);
+
+      setAuditTrail(await getJobAuditTrail(job.id));
       
       logService.logUserAction('Viewed job detail', { 
         jobId: job.id, 
@@ -86,10 +124,45 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
     }
   };
 
+  const handleRemovePayment = (payment: Payment) => {
+    const pending = payment.status === 'pending';
+    Alert.alert(
+      pending ? 'Pending Payment' : 'Remove Payment',
+      pending
+        ? `The ${formatCurrency(payment.amount)} ${payment.method} payment has not cleared yet.`
+        : `Remove the ${formatCurrency(payment.amount)} ${payment.method} payment from this job?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        // Pending payments (e.g. PayPal) can be marked received once they clear
+        ...(pending
+          ? [
+              {
+                text: 'Mark Received',
+                onPress: () => {
+                  dispatch(updatePayment({ ...payment, status: 'completed' }))
+                    .unwrap()
+                    .catch(() => Alert.alert('Error', 'Failed to update payment'));
+                },
+              },
+            ]
+          : []),
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(removePayment({ jobId: job.id, paymentId: payment.id }))
+              .unwrap()
+              .catch(() => Alert.alert('Error', 'Failed to remove payment'));
+          },
+        },
+      ]
+    );
+  };
+
   const handleDeleteJob = () => {
     Alert.alert(
       'Delete Job',
-      `Are you sure you want to delete "${job.jobName}"?`,
+      `Move "${job.jobName}" to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -97,7 +170,7 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              dispatch(deleteJob(job.id));
+              await dispatch(moveJobToTrash(job.id)).unwrap();
               logService.logUserAction('Deleted job', { 
                 jobId: job.id, 
                 jobName: job.jobName 
@@ -113,35 +186,81 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
     );
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Completed': return '#4CAF50';
-      case 'In-Progress': return '#2196F3';
-      case 'Accepted': return '#FF9800';
-      case 'Quoted': return '#9C27B0';
-      case 'Cancelled': return '#f44336';
-      default: return '#666';
-    }
-  };
-
-  const setJobStatus = async (newStatus: Job['status']) => {
+  const setJobStatus = async (newStatus: Job['status'], reason?: string) => {
+    setStatusPickerVisible(false);
     try {
-      if (job.status === newStatus) {
-        setStatusPickerVisible(false);
-        return;
-      }
-      const updatedJob: Job = { ...job, status: newStatus };
-      await dispatch(modifyJob(updatedJob)).unwrap();
+      const { job: updatedJob, effects } = await dispatch(
+        changeJobStatus({ jobId: job.id, status: newStatus, reason, source: 'JobDetailScreen' })
+      ).unwrap();
       setJob(updatedJob);
       logService.logUserAction('Changed job status', { jobId: job.id, from: job.status, to: newStatus });
+      if (effects.includes('finalInvoice')) promptFinalInvoice(updatedJob);
     } catch (error) {
       logService.logError('CHANGE_JOB_STATUS', error as Error);
-      Alert.alert('Error', 'Failed to change status');
-    } finally {
-      setStatusPickerVisible(false);
+      Alert.alert('Cannot Change Status', (error as Error).message || 'Failed to change status');
+    }
+  };
+
+  // Time tracking, visit and task thunks resolve the updated job
+  const updateJobPart = async (action: () => Promise<Job>) => {
+    try {
+      setJob(await action());
+    } catch (error) {
+      logService.logError('UPDATE_JOB_DETAILS', error as Error, { jobId: job.id });
+      Alert.alert('Error', (error as Error).message || 'Failed to update the job');
     }
   };
 
+  const handleSaveTimeEntry = (entry: TimeEntry) =>
+    updateJobPart(() => dispatch(saveTimeEntry({ jobId: job.id, entry, source: 'JobDetailScreen' })).unwrap());
+
+  const handleDeleteTimeEntry = (entry: TimeEntry) => {
+    Alert.alert('Delete Time Entry', 'Remove this session from the job?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          updateJobPart(() =>
+            dispatch(removeTimeEntry({ jobId: job.id, entryId: entry.id, source: 'JobDetailScreen' })).unwrap()
+          ),
+      },
+    ]);
+  };
+
+  const handleSaveVisit = (visit: Visit) =>
+    updateJobPart(() => dispatch(saveVisit({ jobId: job.id, visit, source: 'JobDetailScreen' })).unwrap());
+
+  const handleDeleteVisit = (visit: Visit) => {
+    Alert.alert('Delete Visit', `Remove the ${visit.date} visit from this job?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          updateJobPart(() => dispatch(removeVisit({ jobId: job.id, visitId: visit.id, source: 'JobDetailScreen' })).unwrap()),
+      },
+    ]);
+  };
+
+  const handleSaveTask = (task: JobTask) =>
+    updateJobPart(() => dispatch(saveTask({ jobId: job.id, task, source: 'JobDetailScreen' })).unwrap());
+
+  const handleToggleTask = (task: JobTask) =>
+    updateJobPart(() => dispatch(checkTask({ jobId: job.id, taskId: task.id, source: 'JobDetailScreen' })).unwrap());
+
+  const handleDeleteTask = (task: JobTask) => {
+    Alert.alert('Delete Task', `Remove "${task.text}" from this job?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          updateJobPart(() => dispatch(removeTask({ jobId: job.id, taskId: task.id, source: 'JobDetailScreen' })).unwrap()),
+      },
+    ]);
+  };
+
   const formatCurrency = (amount: number) => {
     return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
   };
@@ -163,7 +282,7 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
     const unreimbursedExpenses = job.expenses.reduce((sum, expense) => {
       return sum + (expense.isReimbursable ? 0 : expense.amount);
     }, 0);
-    return job.quote - unreimbursedExpenses;
+    return quoteRevenue(job) - unreimbursedExpenses;
   };
 
   const calculateReimbursableTotal = () => {
@@ -180,23 +299,24 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
   };
 
   const calculateAmountOwed = () => {
-    const totalDue = job.quote + calculateReimbursableTotal();
+    const totalDue = quoteTotal(job) + calculateReimbursableTotal();
     const totalPaid = calculateTotalPaid();
     return Math.max(totalDue - totalPaid, 0);
   };
 
-  const buildQuoteText = () => {
+  const buildQuoteText = (revision: QuoteRevision) => {
     const reimbTotal = calculateReimbursableTotal();
-    const totalDue = job.quote + reimbTotal;
+    const totalDue = quoteTotal(job) + reimbTotal;
     const tools = (job.toolsAndSupplies || [])
       .map((t) => `- ${t.text}`)
       .join('\n');
     const notes = job.notes?.trim() ? job.notes.trim() : 'None';
     const clientName = client?.fullName || job.clientName;
     return (
-      `Quote for ${job.jobName}\n` +
+      `Quote for ${job.jobName} (revision ${revision.number}, ${formatDate(revision.createdAt)})\n` +
       `Client: ${clientName}\n` +
-      `Quote Amount: ${formatCurrency(job.quote)}\n` +
+      (hasLineItems(job) ? `\n${quoteBreakdownText(job, formatCurrency)}` : '') +
+      `Quote Amount: ${formatCurrency(quoteTotal(job))}\n` +
       `Reimbursable Expenses: ${formatCurrency(reimbTotal)}\n` +
       `Total Due: ${formatCurrency(totalDue)}\n` +
       `\nTools & Supplies:\n${tools || 'None'}\n` +
@@ -205,15 +325,14 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
   };
 
   const smsOnly = useSelector((state: RootState) => state.settings.smsOnly);
+  const inventory = useSelector((state: RootState) => state.inventory.items);
 
-  const sendEmailQuote = async () => {
+  const sendEmail = async (subject: string, body: string) => {
     const email = client?.emailAddress;
     if (!email) {
       Alert.alert('No Email', 'This client does not have an email address on file.');
       return;
     }
-    const subject = `Quote for ${job.jobName} - ${client?.fullName || job.clientName}`;
-    const body = buildQuoteText();
     const url = `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
     try {
       const supported = await Linking.canOpenURL(url);
@@ -224,13 +343,12 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
     }
   };
 
-  const sendSmsQuote = async () => {
+  const sendSms = async (body: string) => {
     const phone = client?.phoneNumber;
     if (!phone) {
       Alert.alert('No Phone', 'This client does not have a phone number on file.');
       return;
     }
-    const body = buildQuoteText();
     const sep = Platform.OS === 'ios' ? '&' : '?';
     const url = `sms:${encodeURIComponent(phone)}${sep}body=${encodeURIComponent(body)}`;
     try {
@@ -242,6 +360,122 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
     }
   };
 
+  // Every quote that goes out is kept as a numbered revision first
+  const snapshotSentQuote = async (sentVia: QuoteRevision['sentVia']) => {
+    try {
+      const result = await dispatch(saveQuoteRevision({ jobId: job.id, sentVia, source: 'JobDetailScreen' })).unwrap();
+      setJob(result.job);
+      return result.revision;
+    } catch (error) {
+      logService.logError('SAVE_QUOTE_REVISION', error as Error, { jobId: job.id });
+      Alert.alert('Error', 'Could not save this quote revision, so it was not sent. Please try again.');
+      return null;
+    }
+  };
+
+  const sendEmailQuote = async () => {
+    if (!client?.emailAddress) {
+      Alert.alert('No Email', 'This client does not have an email address on file.');
+      return;
+    }
+    const revision = await snapshotSentQuote('email');
+    if (!revision) return;
+    await sendEmail(
+      `Quote #${revision.number} for ${job.jobName} - ${client?.fullName || job.clientName}`,
+      buildQuoteText(revision)
+    );
+  };
+
+  const sendSmsQuote = async () => {
+    if (!client?.phoneNumber) {
+      Alert.alert('No Phone', 'This client does not have a phone number on file.');
+      return;
+    }
+    const revision = await snapshotSentQuote('sms');
+    if (!revision) return;
+    await sendSms(buildQuoteText(revision));
+  };
+
+  const series = job.seriesId ? allSeries.find((candidate) => candidate.id === job.seriesId) : undefined;
+  const seriesSummary = (() => {
+    if (!series) return null;
+    try {
+      return describeRule(parseRRule(series.rule), series.startDate);
+    } catch {
+      return series.rule;
+    }
+  })();
+
+  const handleAddToCalendar = () => {
+    exportICalendar([job], client ? [client] : [], job.jobName).catch(() =>
+      Alert.alert('Error', 'Failed to export the job to a calendar file')
+    );
+  };
+
+  const handleStopRepeating = () => {
+    if (!series) return;
+    Alert.alert(
+      'Stop Repeating',
+      'No more visits will be scheduled after today. Upcoming visits that have not been edited or started are removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(stopSeries({ series, source: 'JobDetailScreen' }))
+              .unwrap()
+              .catch(() => Alert.alert('Error', 'Failed to stop the recurring series'));
+          },
+        },
+      ]
+    );
+  };
+
+  const openSignedQuote = async () => {
+    try {
+      if (!job.quoteAcceptance || !(await shareSignedQuote(job.quoteAcceptance))) {
+        Alert.alert('Unavailable', 'The signed quote cannot be shared from this device.');
+      }
+    } catch (error) {
+      logService.logError('SHARE_SIGNED_QUOTE', error as Error, { jobId: job.id });
+      Alert.alert('Error', 'Failed to open the signed quote');
+    }
+  };
+
+  // The completed job is passed in because state has not re-rendered yet
+  const buildInvoiceText = (completed: Job) => {
+    const payments = (completed.payments || []).filter((p) => p.status !== 'failed' && p.status !== 'cancelled');
+    const reimbTotal = completed.expenses.filter((e) => e.isReimbursable).reduce((sum, e) => sum + e.amount, 0);
+    const totalDue = quoteTotal(completed) + reimbTotal;
+    const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+    return (
+      `Invoice for ${completed.jobName}\n` +
+      `Client: ${client?.fullName || completed.clientName}\n` +
+      `Completed: ${completed.actualEndDate ? formatDate(completed.actualEndDate) : 'N/A'}\n` +
+      (hasLineItems(completed) ? `\n${quoteBreakdownText(completed, formatCurrency)}` : '') +
+      `Quote Amount: ${formatCurrency(quoteTotal(completed))}\n` +
+      `Reimbursable Expenses: ${formatCurrency(reimbTotal)}\n` +
+      `Total Due: ${formatCurrency(totalDue)}\n` +
+      `Paid: ${formatCurrency(totalPaid)}\n` +
+      `Balance: ${formatCurrency(Math.max(totalDue - totalPaid, 0))}`
+    );
+  };
+
+  const promptFinalInvoice = (completed: Job) => {
+    const subject = `Invoice for ${completed.jobName} - ${client?.fullName || completed.clientName}`;
+    const actions = smsOnly
+      ? [{ text: 'Send SMS', onPress: () => sendSms(buildInvoiceText(completed)) }]
+      : [
+          { text: 'Email', onPress: () => sendEmail(subject, buildInvoiceText(completed)) },
+          { text: 'SMS', onPress: () => sendSms(buildInvoiceText(completed)) },
+        ];
+    Alert.alert('Job Completed', 'Send the final invoice to the client?', [
+      { text: 'Later', style: 'cancel' },
+      ...actions,
+    ]);
+  };
+
   if (loading) {
     return (
       <View style={[styles.container, styles.centered]}>
@@ -298,11 +532,22 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Job Details</Text>
         <Text style={styles.description}>{job.description}</Text>
+        {series && (
+          <View style={styles.seriesNote}>
+            <Text style={styles.seriesText}>
+              🔁 {seriesSummary}
+              {job.seriesOverride ? ' · edited separately from the series' : ''}
+            </Text>
+            <TouchableOpacity onPress={handleStopRepeating} accessibilityRole="button">
+              <Text style={styles.revisionsLinkText}>Stop Repeating</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         
         <View style={styles.detailGrid}>
           <View style={styles.detailItem}>
             <Text style={styles.detailLabel}>Quote Amount</Text>
-            <Text style={styles.detailValue}>{formatCurrency(job.quote)}</Text>
+            <Text style={styles.detailValue}>{formatCurrency(quoteTotal(job))}</Text>
           </View>
           <View style={styles.detailItem}>
             <Text style={styles.detailLabel}>Quote Date</Text>
@@ -316,9 +561,102 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
             <Text style={styles.detailLabel}>End Date</Text>
             <Text style={styles.detailValue}>{formatDate(job.endDate)}</Text>
           </View>
+          {job.actualStartDate && (
+            <View style={styles.detailItem}>
+              <Text style={styles.detailLabel}>Actual Start</Text>
+              <Text style={styles.detailValue}>{formatDate(job.actualStartDate)}</Text>
+            </View>
+          )}
+          {job.actualEndDate && (
+            <View style={styles.detailItem}>
+              <Text style={styles.detailLabel}>Actual End</Text>
+              <Text style={styles.detailValue}>{formatDate(job.actualEndDate)}</Text>
+            </View>
+          )}
         </View>
+        <TouchableOpacity style={styles.revisionsLink} onPress={handleAddToCalendar} accessibilityRole="button">
+          <Text style={styles.revisionsLinkText}>📅 Add to Calendar (.ics)</Text>
+        </TouchableOpacity>
       </View>
 
+      {/* Tasks */}
+      <View style={styles.section}>
+        <TaskChecklist
+          tasks={job.tasks || []}
+          crew={knownWorkers(activeJobs)}
+          onSaveTask={handleSaveTask}
+          onToggleTask={handleToggleTask}
+          onDeleteTask={handleDeleteTask}
+        />
+      </View>
+
+      {/* Visits */}
+      <View style={styles.section}>
+        <VisitsEditor
+          jobId={job.id}
+          visits={job.visits || []}
+          schedule={[...activeJobs.filter((other) => other.id !== job.id), job]}
+          defaultDate={job.startDate}
+          onSaveVisit={handleSaveVisit}
+          onDeleteVisit={handleDeleteVisit}
+        />
+      </View>
+
+      {/* Itemized Quote */}
+      {hasLineItems(job) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Quote</Text>
+          {QUOTE_CATEGORIES.map((category) => {
+            const items = job.lineItems!.filter((item) => item.category === category);
+            if (items.length === 0) return null;
+            return (
+              <View key={category} style={styles.lineItemGroup}>
+                <Text style={styles.lineItemCategory}>{category}</Text>
+                {items.map((item) => (
+                  <View key={item.id} style={styles.lineItemRow}>
+                    <View style={styles.lineItemInfo}>
+                      <Text style={styles.lineItemDescription}>{item.description}</Text>
+                      <Text style={styles.lineItemMeta}>
+                        {item.quantity} {item.unit} × {formatCurrency(item.unitPrice)}
+                        {item.taxable ? ' · taxable' : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.lineItemAmount}>{formatCurrency(lineItemTotal(item))}</Text>
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+          {(() => {
+            const totals = calculateQuote(job);
+            return (
+              <View style={styles.quoteTotals}>
+                <View style={styles.lineItemRow}>
+                  <Text style={styles.lineItemMeta}>Subtotal</Text>
+                  <Text style={styles.lineItemMeta}>{formatCurrency(totals.subtotal)}</Text>
+                </View>
+                {totals.discount > 0 && (
+                  <View style={styles.lineItemRow}>
+                    <Text style={styles.lineItemMeta}>Discount</Text>
+                    <Text style={styles.lineItemMeta}>-{formatCurrency(totals.discount)}</Text>
+                  </View>
+                )}
+                {totals.tax > 0 && (
+                  <View style={styles.lineItemRow}>
+                    <Text style={styles.lineItemMeta}>Tax ({job.taxRate}%)</Text>
+                    <Text style={styles.lineItemMeta}>{formatCurrency(totals.tax)}</Text>
+                  </View>
+                )}
+                <View style={styles.lineItemRow}>
+                  <Text style={styles.lineItemDescription}>Total</Text>
+                  <Text style={styles.lineItemAmount}>{formatCurrency(totals.total)}</Text>
+                </View>
+              </View>
+            );
+          })()}
+        </View>
+      )}
+
       {/* Client Information */}
       {client && (
         <View style={styles.section}>
@@ -348,6 +686,42 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
             <Text style={styles.shareButtonText}>📱 Text Quote</Text>
           </TouchableOpacity>
         </View>
+        {job.quoteRevisions && job.quoteRevisions.length > 0 && (
+          <TouchableOpacity
+            style={styles.revisionsLink}
+            onPress={() => navigation.navigate('QuoteRevisions', { job })}
+            accessibilityRole="button"
+          >
+            <Text style={styles.revisionsLinkText}>
+              {job.acceptedRevision !== undefined
+                ? `🔒 Accepted revision ${job.acceptedRevision}`
+                : `Latest sent: revision ${job.quoteRevisions[job.quoteRevisions.length - 1].number}`}
+              {' · '}
+              {job.quoteRevisions.length} revision{job.quoteRevisions.length === 1 ? '' : 's'} ›
+            </Text>
+          </TouchableOpacity>
+        )}
+        {checkTransition(job, 'Accepted').allowed && (
+          <TouchableOpacity
+            style={styles.signButton}
+            onPress={() => navigation.navigate('QuoteAcceptance', { job })}
+          >
+            <Text style={styles.shareButtonText}>✍️ Sign & Accept</Text>
+          </TouchableOpacity>
+        )}
+        {job.quoteAcceptance && (
+          <View style={styles.acceptanceNote}>
+            <Text style={styles.acceptanceText}>
+              Signed by {job.quoteAcceptance.signerName} on {new Date(job.quoteAcceptance.signedAt).toLocaleString('en-US')} (revision{' '}
+              {job.quoteAcceptance.revision})
+            </Text>
+            {job.quoteAcceptance.pdfUri && (
+              <TouchableOpacity onPress={openSignedQuote} accessibilityRole="button">
+                <Text style={styles.revisionsLinkText}>View signed PDF ›</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
       {/* Financial Summary */}
@@ -357,7 +731,7 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
           <View style={styles.financialItem}>
             <Text style={styles.financialLabel}>Quote</Text>
             <Text style={[styles.financialValue, { color: '#2196F3' }]}>
-              {formatCurrency(job.quote)}
+              {formatCurrency(quoteTotal(job))}
             </Text>
           </View>
           <View style={styles.financialItem}>
@@ -396,17 +770,33 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
             .slice()
             .sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime())
             .map((p) => (
-              <View key={p.id} style={styles.paymentRow}>
+              <TouchableOpacity
+                key={p.id}
+                style={styles.paymentRow}
+                onLongPress={() => handleRemovePayment(p)}
+                accessibilityHint="Long press to update or remove this payment"
+              >
                 <Text style={styles.paymentText}>
                   {new Date(p.paymentDate).toLocaleDateString('en-US')} - {p.method.toUpperCase()}
                   {p.status && p.status !== 'completed' ? ` (${p.status})` : ''}
                 </Text>
                 <Text style={styles.paymentAmount}>{formatCurrency(p.amount)}</Text>
-              </View>
+              </TouchableOpacity>
             ))}
         </View>
       )}
 
+      {/* Time Tracking */}
+      <View style={styles.section}>
+        <TimeTracker
+          job={job}
+          onClockIn={() => updateJobPart(() => dispatch(clockIn({ jobId: job.id, source: 'JobDetailScreen' })).unwrap())}
+          onClockOut={() => updateJobPart(() => dispatch(clockOut({ jobId: job.id, source: 'JobDetailScreen' })).unwrap())}
+          onSaveEntry={handleSaveTimeEntry}
+          onDeleteEntry={handleDeleteTimeEntry}
+        />
+      </View>
+
       {/* Expenses */}
       <View style={styles.section}>
         <View style={styles.expensesHeader}>
@@ -454,6 +844,7 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
             onItemsChange={() => {}} // Read-only in detail view
             title="Tools & Supplies"
             editable={false}
+            inventory={inventory}
           />
         </View>
       )}
@@ -469,32 +860,52 @@ const JobDetailScreen = ({ navigation, route }: Props) => {
           />
         </View>
       )}
-    </ScrollView>
-    
-    {/* Status Picker Modal */}
-    <Modal
-      visible={statusPickerVisible}
-      transparent
-      animationType="fade"
-      onRequestClose={() => setStatusPickerVisible(false)}
-    >
-      <TouchableWithoutFeedback onPress={() => setStatusPickerVisible(false)}>
-        <View style={styles.modalBackdrop}>
-          <TouchableWithoutFeedback>
-            <View style={styles.statusModalContent}>
-              {(['Quoted','Accepted','In-Progress','Completed','Cancelled'] as Job['status'][]).map((s) => (
-                <TouchableOpacity key={s} style={styles.statusOption} onPress={() => setJobStatus(s)}>
-                  <View style={[styles.statusDot, { backgroundColor: getStatusColor(s) }]} />
-                  <Text style={[styles.statusOptionText, s === job.status && styles.statusOptionTextActive]}>
-                    {s}
-                  </Text>
-                </TouchableOpacity>
+
+      {/* Status Log */}
+      {job.statusHistory && job.statusHistory.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Status Log</Text>
+          {[...job.statusHistory].reverse().map((entry, index) => (
+            <View key={`${entry.at}-${index}`} style={styles.auditEntry}>
+              <Text style={styles.auditMeta}>
+                {new Date(entry.at).toLocaleString('en-US')} · {entry.source}
+              </Text>
+              <Text style={styles.auditChange}>
+                {entry.from} → {entry.to}
+                {entry.reason ? ` (${entry.reason})` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* History */}
+      {auditTrail.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          {auditTrail.map((entry) => (
+            <View key={entry.id} style={styles.auditEntry}>
+              <Text style={styles.auditMeta}>
+                {new Date(entry.timestamp).toLocaleString('en-US')} · {entry.source}
+              </Text>
+              {entry.changes.map((change) => (
+                <Text key={change.field} style={styles.auditChange}>
+                  {AUDIT_FIELD_LABELS[change.field] || change.field}: {formatAuditValue(change.field, change.from)} →{' '}
+                  {formatAuditValue(change.field, change.to)}
+                </Text>
               ))}
             </View>
-          </TouchableWithoutFeedback>
+          ))}
         </View>
-      </TouchableWithoutFeedback>
-    </Modal>
+      )}
+    </ScrollView>
+    
+    <JobStatusPicker
+      job={statusPickerVisible ? job : null}
+      getStatusColor={getStatusColor}
+      onSelect={setJobStatus}
+      onClose={() => setStatusPickerVisible(false)}
+    />
     </>
   );
 };
@@ -744,35 +1155,96 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
-  modalBackdrop: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.35)',
-    justifyContent: 'flex-end',
-  },
-  statusModalContent: {
-    backgroundColor: '#fff',
+  auditEntry: {
     paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderTopLeftRadius: 12,
-    borderTopRightRadius: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  auditMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  auditChange: {
+    color: '#333',
+    fontSize: 14,
+  },
+  lineItemGroup: {
+    marginBottom: 12,
   },
-  statusOption: {
+  lineItemCategory: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  lineItemRow: {
     flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    paddingVertical: 12,
+    paddingVertical: 4,
   },
-  statusDot: {
-    width: 10,
-    height: 10,
-    borderRadius: 5,
-    marginRight: 10,
+  lineItemInfo: {
+    flex: 1,
+    marginRight: 12,
   },
-  statusOptionText: {
-    fontSize: 16,
+  lineItemDescription: {
+    fontSize: 15,
     color: '#333',
+    fontWeight: '500',
   },
-  statusOptionTextActive: {
-    fontWeight: '700',
+  lineItemMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  lineItemAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  quoteTotals: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 8,
+  },
+  revisionsLink: {
+    marginTop: 12,
+    paddingVertical: 6,
+  },
+  revisionsLinkText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  signButton: {
+    marginTop: 12,
+    backgroundColor: '#673AB7',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptanceNote: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#E8F5E9',
+  },
+  seriesNote: {
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#E3F2FD',
+  },
+  seriesText: {
+    fontSize: 14,
+    color: '#1565C0',
+    marginBottom: 4,
+  },
+  acceptanceText: {
+    fontSize: 14,
+    color: '#2E7D32',
+    marginBottom: 4,
   },
   shareRow: {
     flexDirection: 'row',
@@ -0,0 +1,176 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useNavigation } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import { fetchTemplates, removeTemplate } from '../state/slices/templatesSlice';
+import { logService } from '../services/LoggingService';
+import { JobTemplate } from '../types';
+
+type RootStackParamList = {
+  JobTemplates: undefined;
+  AddJob: { template?: JobTemplate };
+};
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const JobTemplatesScreen = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'JobTemplates'>>();
+  const dispatch = useDispatch<AppDispatch>();
+  const templates = useSelector((state: RootState) => state.templates.templates);
+  const loading = useSelector((state: RootState) => state.templates.loading);
+  const seriesCount = useSelector((state: RootState) => state.series.series.length);
+
+  useEffect(() => {
+    dispatch(fetchTemplates());
+    logService.logNavigation('JobTemplates');
+  }, [dispatch]);
+
+  const handleDelete = (template: JobTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete the "${template.name}" template? Jobs and recurring series already created from it are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(removeTemplate(template.id))
+              .unwrap()
+              .catch(() => Alert.alert('Error', 'Failed to delete template'));
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTemplate = ({ item }: { item: JobTemplate }) => (
+    <View style={styles.card}>
+      <Text style={styles.name}>{item.name}</Text>
+      <Text style={styles.meta}>
+        {item.jobName} · {formatCurrency(item.quote)}
+        {item.lineItems?.length ? ` · ${item.lineItems.length} line items` : ''}
+      </Text>
+      <Text style={styles.meta} numberOfLines={2}>
+        {item.description}
+      </Text>
+      {item.toolsAndSupplies.length > 0 && (
+        <Text style={styles.meta} numberOfLines={1}>
+          🧰 {item.toolsAndSupplies.join(', ')}
+        </Text>
+      )}
+      <View style={styles.actionRow}>
+        <TouchableOpacity
+          style={styles.useButton}
+          onPress={() => navigation.navigate('AddJob', { template: item })}
+        >
+          <Text style={styles.useButtonText}>New Job</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+          <Text style={styles.deleteButtonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerText}>
+          Save a job as a template from the job form, then start new jobs or recurring series from it.
+          {seriesCount > 0 ? ` ${seriesCount} recurring series active.` : ''}
+        </Text>
+      </View>
+      <FlatList
+        data={[...templates].sort((a, b) => a.name.localeCompare(b.name))}
+        keyExtractor={(item) => item.id}
+        renderItem={renderTemplate}
+        contentContainerStyle={styles.listContent}
+        refreshing={loading}
+        onRefresh={() => dispatch(fetchTemplates())}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyStateText}>No templates yet</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  useButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  useButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: '#FF5722',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  deleteButtonText: {
+    color: '#FF5722',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
+
+export default JobTemplatesScreen;
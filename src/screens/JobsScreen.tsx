@@ -6,17 +6,19 @@ import {
   FlatList,
   TouchableOpacity,
   Alert,
-  Modal,
-  TouchableWithoutFeedback,
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { Job } from '../types';
-import { fetchJobs, modifyJob } from '../state/slices/jobsSlice';
+import { changeJobStatus, fetchJobs } from '../state/slices/jobsSlice';
+import { redo, undo } from '../state/slices/historySlice';
 import { selectFilteredJobs, selectJobsLoading, selectJobsError } from '../state/selectors/jobsSelectors';
-import { AppDispatch } from '../state/store';
+import { AppDispatch, RootState } from '../state/store';
+import { JobStatusPicker, LoadErrorBanner, PendingWritesBadge } from '../components';
+import { getStatusColor } from '../constants/theme';
+import { taskProgress } from '../services/JobTasks';
 
 type JobsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -28,6 +30,9 @@ const JobsScreen = () => {
   const jobs = useSelector(selectFilteredJobs);
   const loading = useSelector(selectJobsLoading);
   const error = useSelector(selectJobsError);
+  const loadError = useSelector((state: RootState) => state.jobs.loadError);
+  const canUndo = useSelector((state: RootState) => state.history.past.length > 0);
+  const canRedo = useSelector((state: RootState) => state.history.future.length > 0);
   const [statusFilter, setStatusFilter] = useState<'All' | Job['status']>('All');
   const [showAllJobs, setShowAllJobs] = useState(false);
 
@@ -54,29 +59,20 @@ const JobsScreen = () => {
     }, [])
   );
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Completed': return '#4CAF50';
-      case 'In-Progress': return '#2196F3';
-      case 'Accepted': return '#FF9800';
-      case 'Quoted': return '#9C27B0';
-      case 'Cancelled': return '#f44336';
-      default: return '#666';
-    }
-  };
-
-  const setJobStatus = async (job: Job, newStatus: Job['status']) => {
+  const setJobStatus = async (job: Job, newStatus: Job['status'], reason?: string) => {
+    setStatusPickerJob(null);
     try {
-      if (job.status === newStatus) {
-        setStatusPickerJob(null);
-        return;
+      const { job: updated, effects } = await dispatch(
+        changeJobStatus({ jobId: job.id, status: newStatus, reason, source: 'JobsScreen' })
+      ).unwrap();
+      if (effects.includes('finalInvoice')) {
+        Alert.alert('Job Completed', `Send the final invoice for "${updated.jobName}"?`, [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Open Job', onPress: () => navigation.navigate('JobDetail', { job: updated }) },
+        ]);
       }
-      const updated: Job = { ...job, status: newStatus };
-      await dispatch(modifyJob(updated)).unwrap();
     } catch (error) {
-      Alert.alert('Error', 'Failed to change status');
-    } finally {
-      setStatusPickerJob(null);
+      Alert.alert('Cannot Change Status', (error as Error).message || 'Failed to change status');
     }
   };
 
@@ -97,6 +93,7 @@ const JobsScreen = () => {
     'Quoted',
     'Accepted',
     'In-Progress',
+    'On-Hold',
     'Completed',
     'Cancelled',
   ];
@@ -107,31 +104,45 @@ const JobsScreen = () => {
     .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
   const displayedJobs = showAllJobs ? filteredJobs : filteredJobs.slice(0, 5);
 
-  const renderJobItem = ({ item }: { item: Job }) => (
-    <TouchableOpacity
-      style={styles.jobCard}
-      onPress={() => navigation.navigate('JobDetail', { job: item })}
-    >
-      <View style={styles.jobHeader}>
-        <Text style={styles.jobName}>{item.jobName}</Text>
-        <TouchableOpacity onPress={() => setStatusPickerJob(item)} accessibilityRole="button" accessibilityLabel="Change job status">
-          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
-            <Text style={styles.statusText}>{item.status}</Text>
+  const renderJobItem = ({ item }: { item: Job }) => {
+    const progress = taskProgress(item);
+    return (
+      <TouchableOpacity
+        style={styles.jobCard}
+        onPress={() => navigation.navigate('JobDetail', { job: item })}
+      >
+        <View style={styles.jobHeader}>
+          <Text style={styles.jobName}>{item.jobName}</Text>
+          <TouchableOpacity onPress={() => setStatusPickerJob(item)} accessibilityRole="button" accessibilityLabel="Change job status">
+            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
+              <Text style={styles.statusText}>{item.status}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.clientName}>Client: {item.clientName}</Text>
+        <Text style={styles.jobDescription} numberOfLines={2}>
+          {item.description}
+        </Text>
+
+        {progress && (
+          <View style={styles.taskProgress}>
+            <View style={styles.taskProgressTrack}>
+              <View style={[styles.taskProgressFill, { width: `${progress.percent}%` }]} />
+            </View>
+            <Text style={styles.taskProgressText}>
+              {progress.completed}/{progress.total} tasks · {progress.percent}%
+            </Text>
           </View>
-        </TouchableOpacity>
-      </View>
-      
-      <Text style={styles.clientName}>Client: {item.clientName}</Text>
-      <Text style={styles.jobDescription} numberOfLines={2}>
-        {item.description}
-      </Text>
-      
-      <View style={styles.jobFooter}>
-        <Text style={styles.jobQuote}>{formatCurrency(item.quote)}</Text>
-        <Text style={styles.jobDate}>Start: {formatDate(item.startDate)}</Text>
-      </View>
-    </TouchableOpacity>
-  );
+        )}
+
+        <View style={styles.jobFooter}>
+          <Text style={styles.jobQuote}>{formatCurrency(item.quote)}</Text>
+          <Text style={styles.jobDate}>Start: {formatDate(item.startDate)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -146,15 +157,36 @@ const JobsScreen = () => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Jobs</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => navigation.navigate('AddJob', {})}
-        >
-          <Text style={styles.addButtonText}>+ Add Job</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <PendingWritesBadge />
+          <TouchableOpacity
+            style={styles.historyButton}
+            disabled={!canUndo}
+            onPress={() => dispatch(undo())}
+            accessibilityLabel="Undo last change"
+          >
+            <Text style={[styles.historyButtonText, !canUndo && styles.historyButtonTextDisabled]}>Undo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.historyButton}
+            disabled={!canRedo}
+            onPress={() => dispatch(redo())}
+            accessibilityLabel="Redo last undone change"
+          >
+            <Text style={[styles.historyButtonText, !canRedo && styles.historyButtonTextDisabled]}>Redo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => navigation.navigate('AddJob', {})}
+          >
+            <Text style={styles.addButtonText}>+ Add Job</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {jobs.length === 0 ? (
+      {loadError && <LoadErrorBanner error={loadError} onRetry={() => dispatch(fetchJobs())} />}
+
+      {jobs.length === 0 && loadError ? null : jobs.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyStateTitle}>No Jobs Yet</Text>
           <Text style={styles.emptyStateMessage}>
@@ -207,30 +239,12 @@ const JobsScreen = () => {
       )}
     </View>
 
-    {/* Status Picker Modal */}
-    <Modal
-      visible={statusPickerJob !== null}
-      transparent
-      animationType="fade"
-      onRequestClose={() => setStatusPickerJob(null)}
-    >
-      <TouchableWithoutFeedback onPress={() => setStatusPickerJob(null)}>
-        <View style={styles.modalBackdrop}>
-          <TouchableWithoutFeedback>
-            <View style={styles.statusModalContent}>
-              {(['Quoted','Accepted','In-Progress','Completed','Cancelled'] as Job['status'][]).map((s) => (
-                <TouchableOpacity key={s} style={styles.statusOption} onPress={() => statusPickerJob && setJobStatus(statusPickerJob, s)}>
-                  <View style={[styles.statusDot, { backgroundColor: getStatusColor(s) }]} />
-                  <Text style={[styles.statusOptionText, statusPickerJob?.status === s && styles.statusOptionTextActive]}>
-                    {s}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </TouchableWithoutFeedback>
-        </View>
-      </TouchableWithoutFeedback>
-    </Modal>
+    <JobStatusPicker
+      job={statusPickerJob}
+      getStatusColor={getStatusColor}
+      onSelect={(status, reason) => statusPickerJob && setJobStatus(statusPickerJob, status, reason)}
+      onClose={() => setStatusPickerJob(null)}
+    />
     </>
   );
 };
@@ -258,6 +272,22 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    marginRight: 4,
+  },
+  historyButtonText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  historyButtonTextDisabled: {
+    color: '#ccc',
+  },
   addButton: {
     backgroundColor: '#2196F3',
     paddingHorizontal: 16,
@@ -318,6 +348,27 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     lineHeight: 20,
   },
+  taskProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  taskProgressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+    marginRight: 10,
+  },
+  taskProgressFill: {
+    height: 6,
+    backgroundColor: '#4CAF50',
+  },
+  taskProgressText: {
+    fontSize: 12,
+    color: '#666',
+  },
   jobFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -395,36 +446,6 @@ const styles = StyleSheet.create({
   filterChipTextActive: {
     color: '#fff',
   },
-  modalBackdrop: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.35)',
-    justifyContent: 'flex-end',
-  },
-  statusModalContent: {
-    backgroundColor: '#fff',
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderTopLeftRadius: 12,
-    borderTopRightRadius: 12,
-  },
-  statusOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 12,
-  },
-  statusDot: {
-    width: 10,
-    height: 10,
-    borderRadius: 5,
-    marginRight: 10,
-  },
-  statusOptionText: {
-    fontSize: 16,
-    color: '#333',
-  },
-  statusOptionTextActive: {
-    fontWeight: '700',
-  },
 });
 
 export default JobsScreen;
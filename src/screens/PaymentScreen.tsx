@@ -17,7 +17,9 @@ import { RouteProp } from '@react-navigation/native';
 import { useSelector, useDispatch } from 'react-redux';
 import { Job, PaymentRequest } from '../types';
 import { AppDispatch, RootState } from '../state/store';
-import { modifyJob } from '../state/slices/jobsSlice';
+import { recordPayment } from '../state/slices/jobsSlice';
+import { getAmountOwed } from '../services/StorageService';
+import { hasLineItems, quoteBreakdownText, quoteTotal } from '../services/QuoteCalculator';
 import { paymentService } from '../services/PaymentService';
 import { logService } from '../services/LoggingService';
 import { Calendar, DateObject } from 'react-native-calendars';
@@ -44,7 +46,7 @@ const PaymentScreen = ({ navigation, route }: Props) => {
   const reimbursableTotal = job.expenses
     .filter((e) => e.isReimbursable)
     .reduce((sum, e) => sum + e.amount, 0);
-  const totalDue = job.quote + reimbursableTotal;
+  const totalDue = quoteTotal(job) + reimbursableTotal;
   const totalPaid = (job.payments || []).reduce((sum, p) => sum + p.amount, 0);
   const amountOwed = Math.max(totalDue - totalPaid, 0);
   const [customAmount, setCustomAmount] = useState(amountOwed.toString());
@@ -109,19 +111,22 @@ const PaymentScreen = ({ navigation, route }: Props) => {
 
       if (result.success && result.payment) {
         const paidAmount = parseFloat(customAmount);
-        const newPayments = [...(job.payments || []), result.payment];
-        const totalPaid = newPayments.reduce((sum, p) => sum + p.amount, 0);
-        const reimbursableTotal = job.expenses.filter(e => e.isReimbursable).reduce((s, e) => s + e.amount, 0);
-        const totalDue = job.quote + reimbursableTotal;
-        const amountOwed = Math.max(totalDue - totalPaid, 0);
-
-        const updatedJob: Job = {
-          ...job,
-          payments: newPayments,
-          status: amountOwed <= 0 ? 'Completed' : job.status,
-        };
-
-        await dispatch(modifyJob(updatedJob)).unwrap();
+        let updatedJob: Job;
+        try {
+          updatedJob = await dispatch(recordPayment(result.payment)).unwrap();
+        } catch (error) {
+          // The processor has already taken the money; surface the reference so it can be re-entered
+          logService.logError('PAYMENT_SCREEN', error as Error, { paymentId: result.payment.id });
+          Alert.alert(
+            'Payment Not Saved',
+            `The payment went through (ref ${result.payment.transactionId || result.payment.id}) but could not be saved to this job. Nothing was changed; please record it again.`
+          );
+          return;
+        }
+        const totalPaid = (updatedJob.payments || []).reduce((sum, p) => sum + p.amount, 0);
+        const reimbursableTotal = updatedJob.expenses.filter(e => e.isReimbursable).reduce((s, e) => s + e.amount, 0);
+        const totalDue = quoteTotal(updatedJob) + reimbursableTotal;
+        const amountOwed = getAmountOwed(updatedJob);
 
         const buildInvoiceText = () => {
           const reimbursableItems = updatedJob.expenses
@@ -136,7 +141,8 @@ const PaymentScreen = ({ navigation, route }: Props) => {
           return (
             `Invoice for ${updatedJob.jobName}\n` +
             `Client: ${clientName}\n` +
-            `Quote Amount: $${updatedJob.quote.toFixed(2)}\n` +
+            (hasLineItems(updatedJob) ? `\n${quoteBreakdownText(updatedJob, (amount) => `$${amount.toFixed(2)}`)}` : '') +
+            `Quote Amount: $${quoteTotal(updatedJob).toFixed(2)}\n` +
             `Reimbursable Expenses Total: $${reimbursableTotal.toFixed(2)}\n` +
             `${reimbursableItems ? `\nReimbursable Items:\n${reimbursableItems}\n` : ''}` +
             `Total Due: $${totalDue.toFixed(2)}\n` +
@@ -190,6 +196,8 @@ const PaymentScreen = ({ navigation, route }: Props) => {
         Alert.alert(
           'Payment Successful!',
           `Payment of $${paidAmount.toFixed(2)} processed successfully.\nRemaining balance: $${amountOwed.toFixed(2)}.${
+            updatedJob.status === 'Completed' && job.status !== 'Completed' ? '\nThe job has been marked Completed.' : ''
+          }${
             result.payment.transactionId ? `\n\nTransaction ID: ${result.payment.transactionId}` : ''
           }`,
           [
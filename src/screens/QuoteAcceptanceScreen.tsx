@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import { Job, Signature } from '../types';
+import { AppDispatch } from '../state/store';
+import { selectAllJobs } from '../state/selectors/jobsSelectors';
+import { acceptQuote } from '../state/slices/jobsSlice';
+import { calculateQuote, hasLineItems, lineItemTotal, quoteTotal } from '../services/QuoteCalculator';
+import { hasUnrevisedChanges, latestRevision } from '../services/QuoteRevisions';
+import { shareSignedQuote } from '../services/QuoteAcceptanceService';
+import { logService } from '../services/LoggingService';
+import { SignaturePad } from '../components';
+
+type RootStackParamList = {
+  QuoteAcceptance: { job: Job };
+};
+
+type Props = {
+  navigation: StackNavigationProp<RootStackParamList, 'QuoteAcceptance'>;
+  route: RouteProp<RootStackParamList, 'QuoteAcceptance'>;
+};
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const QuoteAcceptanceScreen = ({ navigation, route }: Props) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const jobs = useSelector(selectAllJobs);
+  const job = jobs.find((candidate) => candidate.id === route.params.job.id) ?? route.params.job;
+  const [signerName, setSignerName] = useState(job.clientName);
+  const [signature, setSignature] = useState<Signature | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    logService.logNavigation('QuoteAcceptance', { jobId: job.id });
+  }, [job.id]);
+
+  const latest = latestRevision(job);
+  // The number the signed revision will have once the working quote is kept
+  const revisionNumber =
+    job.acceptedRevision ?? (latest && !hasUnrevisedChanges(job) ? latest.number : (latest?.number ?? 0) + 1);
+  const totals = hasLineItems(job) ? calculateQuote(job) : null;
+
+  const handleSignatureChange = useCallback((next: Signature | null) => setSignature(next), []);
+
+  const accept = async () => {
+    if (!signerName.trim()) {
+      Alert.alert('Name Required', 'Enter the name of the person signing.');
+      return;
+    }
+    if (!signature) {
+      Alert.alert('Signature Required', 'Ask the client to sign in the box above.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const { job: accepted } = await dispatch(
+        acceptQuote({ jobId: job.id, signerName, signature, source: 'QuoteAcceptanceScreen' })
+      ).unwrap();
+      Alert.alert('Quote Accepted', `Revision ${accepted.quoteAcceptance!.revision} was signed and the job is now Accepted.`, [
+        {
+          text: 'Share PDF',
+          onPress: async () => {
+            await shareSignedQuote(accepted.quoteAcceptance!).catch((error) =>
+              logService.logError('SHARE_SIGNED_QUOTE', error as Error, { jobId: job.id })
+            );
+            navigation.goBack();
+          },
+        },
+        { text: 'Done', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      logService.logError('ACCEPT_QUOTE', error as Error, { jobId: job.id });
+      Alert.alert('Error', (error as Error).message || 'Failed to accept the quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.title}>{job.jobName}</Text>
+        <Text style={styles.hint}>
+          {job.clientName} · Revision {revisionNumber}
+        </Text>
+        {(job.lineItems || []).map((item) => (
+          <View key={item.id} style={styles.row}>
+            <Text style={styles.rowLabel}>
+              {item.description} ({item.quantity} {item.unit})
+            </Text>
+            <Text style={styles.rowValue}>{formatCurrency(lineItemTotal(item))}</Text>
+          </View>
+        ))}
+        {totals && totals.discount > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Discount</Text>
+            <Text style={styles.rowValue}>-{formatCurrency(totals.discount)}</Text>
+          </View>
+        )}
+        {totals && totals.tax > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Tax ({job.taxRate}%)</Text>
+            <Text style={styles.rowValue}>{formatCurrency(totals.tax)}</Text>
+          </View>
+        )}
+        <View style={[styles.row, styles.totalRow]}>
+          <Text style={[styles.rowLabel, styles.totalText]}>Total</Text>
+          <Text style={[styles.rowValue, styles.totalText]}>{formatCurrency(quoteTotal(job))}</Text>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Client Signature</Text>
+        <Text style={styles.hint}>
+          By signing, the client accepts this quote. A PDF of the signed quote is saved with the job.
+        </Text>
+        <Text style={styles.label}>Signed by</Text>
+        <TextInput
+          style={styles.input}
+          value={signerName}
+          onChangeText={setSignerName}
+          placeholder="Full name"
+          autoCapitalize="words"
+        />
+        <SignaturePad onChange={handleSignatureChange} />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.acceptButton, (saving || !signature) && styles.acceptButtonDisabled]}
+        onPress={accept}
+        disabled={saving}
+      >
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.acceptButtonText}>Accept Quote</Text>}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    paddingRight: 8,
+  },
+  rowValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    marginTop: 4,
+  },
+  totalText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  acceptButton: {
+    backgroundColor: '#4CAF50',
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptButtonDisabled: {
+    opacity: 0.6,
+  },
+  acceptButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default QuoteAcceptanceScreen;
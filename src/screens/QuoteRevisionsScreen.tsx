@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import { Job, QuoteLineItem } from '../types';
+import { AppDispatch } from '../state/store';
+import { selectAllJobs } from '../state/selectors/jobsSelectors';
+import { saveQuoteRevision } from '../state/slices/jobsSlice';
+import { lineItemTotal } from '../services/QuoteCalculator';
+import { LineItemChange, compareRevisions, hasUnrevisedChanges, isQuoteLocked } from '../services/QuoteRevisions';
+import { logService } from '../services/LoggingService';
+
+type RootStackParamList = {
+  QuoteRevisions: { job: Job };
+  EditJob: { job: Job };
+};
+
+type Props = {
+  navigation: StackNavigationProp<RootStackParamList, 'QuoteRevisions'>;
+  route: RouteProp<RootStackParamList, 'QuoteRevisions'>;
+};
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const CHANGE_COLORS: Record<LineItemChange, string> = {
+  added: '#4CAF50',
+  removed: '#f44336',
+  changed: '#FF9800',
+  unchanged: '#333',
+};
+
+const QuoteRevisionsScreen = ({ navigation, route }: Props) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const jobs = useSelector(selectAllJobs);
+  const job = jobs.find((candidate) => candidate.id === route.params.job.id) ?? route.params.job;
+  const revisions = job.quoteRevisions || [];
+  const locked = isQuoteLocked(job);
+
+  // Revision numbers to compare, older first; defaults to the latest two
+  const [selected, setSelected] = useState<number[]>(() => revisions.slice(-2).map((revision) => revision.number));
+
+  useEffect(() => {
+    logService.logNavigation('QuoteRevisions', { jobId: job.id });
+  }, [job.id]);
+
+  const toggle = (number: number) => {
+    setSelected((current) => {
+      if (current.includes(number)) return current.filter((n) => n !== number);
+      return [...current, number].slice(-2).sort((a, b) => a - b);
+    });
+  };
+
+  const comparison = useMemo(() => {
+    if (selected.length !== 2) return null;
+    const [before, after] = selected.map((number) => revisions.find((revision) => revision.number === number));
+    return before && after ? { before, after, result: compareRevisions(before, after) } : null;
+  }, [selected, revisions]);
+
+  const saveRevision = async () => {
+    try {
+      const { revision, created } = await dispatch(
+        saveQuoteRevision({ jobId: job.id, source: 'QuoteRevisionsScreen' })
+      ).unwrap();
+      if (created) {
+        setSelected((current) => [...current, revision.number].slice(-2));
+      } else {
+        Alert.alert('No Changes', `The quote has not changed since revision ${revision.number}.`);
+      }
+    } catch (error) {
+      logService.logError('SAVE_QUOTE_REVISION', error as Error, { jobId: job.id });
+      Alert.alert('Error', 'Failed to save the quote revision');
+    }
+  };
+
+  const itemCell = (item?: QuoteLineItem) =>
+    item ? `${item.quantity} ${item.unit} × ${formatCurrency(item.unitPrice)}\n${formatCurrency(lineItemTotal(item))}` : '—';
+
+  const totalRow = (label: string, before: number, after: number) => (
+    <View key={label} style={styles.compareRow}>
+      <Text style={[styles.compareLabel, styles.totalLabel]}>{label}</Text>
+      <Text style={styles.compareCell}>{formatCurrency(before)}</Text>
+      <Text style={[styles.compareCell, before !== after && { color: CHANGE_COLORS.changed }]}>
+        {formatCurrency(after)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        <Text style={styles.title}>{job.jobName}</Text>
+        {locked ? (
+          <Text style={styles.lockNote}>
+            🔒 Locked to accepted revision {job.acceptedRevision}. Move the job back to Quoted to revise it.
+          </Text>
+        ) : (
+          <Text style={styles.hint}>
+            Each quote you send is saved here. Edit the job's line items to start the next revision.
+          </Text>
+        )}
+        <View style={styles.actions}>
+          {!locked && (hasUnrevisedChanges(job) || revisions.length === 0) && (
+            <TouchableOpacity style={styles.primaryButton} onPress={saveRevision}>
+              <Text style={styles.primaryButtonText}>Save Current Quote as Revision</Text>
+            </TouchableOpacity>
+          )}
+          {!locked && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('EditJob', { job })}>
+              <Text style={styles.secondaryButtonText}>Revise Quote</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Revisions</Text>
+        <Text style={styles.hint}>Select two revisions to compare them.</Text>
+        {[...revisions].reverse().map((revision) => {
+          const isSelected = selected.includes(revision.number);
+          return (
+            <TouchableOpacity
+              key={revision.number}
+              style={[styles.revisionRow, isSelected && styles.revisionRowSelected]}
+              onPress={() => toggle(revision.number)}
+              accessibilityState={{ selected: isSelected }}
+            >
+              <View style={styles.revisionInfo}>
+                <Text style={styles.revisionTitle}>
+                  Revision {revision.number}
+                  {revision.number === job.acceptedRevision ? ' · Accepted' : ''}
+                </Text>
+                <Text style={styles.revisionMeta}>
+                  {new Date(revision.createdAt).toLocaleString('en-US')}
+                  {revision.sentVia ? ` · sent by ${revision.sentVia === 'email' ? 'email' : 'SMS'}` : ''}
+                </Text>
+              </View>
+              <Text style={styles.revisionTotal}>{formatCurrency(revision.quote)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {revisions.length === 0 && <Text style={styles.hint}>No revisions yet.</Text>}
+      </View>
+
+      {comparison && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Revision {comparison.before.number} vs {comparison.after.number}
+          </Text>
+          <View style={[styles.compareRow, styles.compareHeader]}>
+            <Text style={styles.compareLabel}>Item</Text>
+            <Text style={styles.compareCell}>Rev {comparison.before.number}</Text>
+            <Text style={styles.compareCell}>Rev {comparison.after.number}</Text>
+          </View>
+          {comparison.result.lineItems.map((row) => (
+            <View key={row.id} style={styles.compareRow}>
+              <Text
+                style={[
+                  styles.compareLabel,
+                  { color: CHANGE_COLORS[row.change] },
+                  row.change === 'removed' && styles.removedText,
+                ]}
+              >
+                {(row.after ?? row.before)!.description}
+                {row.change !== 'unchanged' ? ` (${row.change})` : ''}
+              </Text>
+              <Text style={styles.compareCell}>{itemCell(row.before)}</Text>
+              <Text style={[styles.compareCell, row.change !== 'unchanged' && { color: CHANGE_COLORS[row.change] }]}>
+                {itemCell(row.after)}
+              </Text>
+            </View>
+          ))}
+          {totalRow('Subtotal', comparison.result.before.subtotal, comparison.result.after.subtotal)}
+          {totalRow('Discount', comparison.result.before.discount, comparison.result.after.discount)}
+          {totalRow('Tax', comparison.result.before.tax, comparison.result.after.tax)}
+          {totalRow('Total', comparison.result.before.total, comparison.result.after.total)}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  lockNote: {
+    fontSize: 14,
+    color: '#FF9800',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    marginBottom: 8,
+  },
+  revisionRowSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#E3F2FD',
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  revisionTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  compareHeader: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  compareRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  compareLabel: {
+    flex: 2,
+    fontSize: 14,
+    color: '#333',
+    paddingRight: 8,
+  },
+  compareCell: {
+    flex: 2,
+    fontSize: 13,
+    color: '#333',
+    textAlign: 'right',
+  },
+  totalLabel: {
+    fontWeight: '600',
+  },
+  removedText: {
+    textDecorationLine: 'line-through',
+  },
+});
+
+export default QuoteRevisionsScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,22 +10,78 @@ import {
   Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { logService } from '../services/LoggingService';
 import { useDispatch, useSelector } from 'react-redux';
-import { RootState } from '../state/store';
-import { setSmsOnly, setUserEmail } from '../state/slices/settingsSlice';
+import { AppDispatch, RootState, persistor } from '../state/store';
+import {
+  TRASH_RETENTION_OPTIONS,
+  restoreSettings,
+  setSmsOnly,
+  setTrashRetentionDays,
+  setUserEmail,
+} from '../state/slices/settingsSlice';
+import { fetchJobs } from '../state/slices/jobsSlice';
+import { fetchClients } from '../state/slices/clientsSlice';
+import { fetchTemplates } from '../state/slices/templatesSlice';
+import { fetchSeries } from '../state/slices/seriesSlice';
+import { fetchInventory } from '../state/slices/inventorySlice';
+import { syncNow } from '../state/slices/syncSlice';
+import {
+  compressReceiptImages,
+  deleteOrphanedReceipts,
+  inspectStorageUsage,
+} from '../state/slices/storageSlice';
 import { seedMinimal, seedFullWorkflow, seedEdgeCases } from '../services/SeedService';
 import { clearAllPersistedData } from '../services/StorageService';
+import { rotateEncryptionKey } from '../services/EncryptionMigration';
+import { formatBytes } from '../services/StorageInspector';
+import {
+  BackupArchive,
+  ImportOptions,
+  exportBackup,
+  importBackup,
+  pickBackupArchive,
+  previewBackup,
+} from '../services/BackupService';
+import { commitIcsImport, exportICalendar, pickICalendar, planIcsImport } from '../services/ICalendarService';
+import { addDays, localDay } from '../services/Recurrence';
+import { needsReorder } from '../services/InventoryMatching';
+import { selectJobs } from '../state/selectors/jobsSelectors';
+
+type RootStackParamList = {
+  Settings: undefined;
+  CsvImport: undefined;
+  Trash: undefined;
+  SyncConflicts: undefined;
+  JobTemplates: undefined;
+  Inventory: undefined;
+};
+
+type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Settings'>;
 
 const SettingsScreen: React.FC = () => {
-  const dispatch = useDispatch();
+  const navigation = useNavigation<SettingsScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
   const settings = useSelector((state: RootState) => state.settings);
+  const sync = useSelector((state: RootState) => state.sync);
+  const storage = useSelector((state: RootState) => state.storage);
+  const templateCount = useSelector((state: RootState) => state.templates.templates.length);
+  const inventory = useSelector((state: RootState) => state.inventory.items);
+  const lowStockCount = inventory.filter(needsReorder).length;
+  const jobs = useSelector(selectJobs);
+  const clients = useSelector((state: RootState) => state.clients.clients);
   const [pushNotifications, setPushNotifications] = useState(true);
   const [emailNotifications, setEmailNotifications] = useState(false);
   const [userEmailLocal, setUserEmailLocal] = useState(settings.userEmail);
   const [darkMode, setDarkMode] = useState(false);
   const [biometricAuth, setBiometricAuth] = useState(false);
 
+  useEffect(() => {
+    dispatch(inspectStorageUsage());
+  }, [dispatch]);
+
   const handleLogout = () => {
     Alert.alert('Logout', 'Are you sure you want to logout?', [
       { text: 'Cancel', style: 'cancel' },
@@ -60,6 +116,254 @@ const SettingsScreen: React.FC = () => {
     );
   };
 
+  const handleExport = () => {
+    exportBackup(settings).catch(() => Alert.alert('Error', 'Failed to export data'));
+  };
+
+  const runImport = (archive: BackupArchive, options: ImportOptions) => {
+    importBackup(archive, options)
+      .then((result) => {
+        dispatch(restoreSettings(result.settings));
+        dispatch(fetchJobs());
+        dispatch(fetchClients());
+        dispatch(fetchTemplates());
+        dispatch(fetchSeries());
+        dispatch(fetchInventory());
+        setUserEmailLocal(result.settings.userEmail);
+        Alert.alert(
+          'Import Complete',
+          `${result.jobs} jobs and ${result.clients} clients on this device. ${result.receiptsRestored} receipt images restored.`
+        );
+      })
+      .catch(() => Alert.alert('Error', 'Failed to import data'));
+  };
+
+  const handleImport = async () => {
+    try {
+      const archive = await pickBackupArchive();
+      if (!archive) return;
+      const preview = await previewBackup(archive);
+      const conflicts = preview.clients.conflicting + preview.jobs.conflicting;
+
+      const summary = [
+        `Created: ${new Date(preview.createdAt).toLocaleString()}`,
+        `Clients: ${preview.clients.inBackup} (${preview.clients.new} new, ${preview.clients.conflicting} conflicting)`,
+        `Jobs: ${preview.jobs.inBackup} (${preview.jobs.new} new, ${preview.jobs.conflicting} conflicting)`,
+        `Expenses: ${preview.expenses}, payments: ${preview.payments}, receipts: ${preview.receipts}`,
+      ].join('\n');
+
+      const handleMerge = () => {
+        if (conflicts === 0) {
+          runImport(archive, { mode: 'merge' });
+          return;
+        }
+        Alert.alert(
+          'Resolve Conflicts',
+          `${conflicts} records exist on this device and in the backup with different data. Which copy should be kept?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Keep This Device',
+              onPress: () => runImport(archive, { mode: 'merge', conflictResolution: 'keepExisting' }),
+            },
+            {
+              text: 'Use Backup',
+              onPress: () => runImport(archive, { mode: 'merge', conflictResolution: 'useBackup' }),
+            },
+          ]
+        );
+      };
+
+      Alert.alert('Import Backup', summary, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => runImport(archive, { mode: 'replace' }),
+        },
+        { text: 'Merge', onPress: handleMerge },
+      ]);
+    } catch (error) {
+      Alert.alert('Invalid Backup', (error as Error).message);
+    }
+  };
+
+  const exportCalendar = (days?: number) => {
+    const today = localDay(new Date());
+    const range = days ? { from: today, to: addDays(today, days) } : {};
+    exportICalendar(jobs, clients, days ? `oyhustle-jobs-${today}-next-${days}-days` : 'oyhustle-jobs', range).catch(
+      () => Alert.alert('Error', 'Failed to export the calendar')
+    );
+  };
+
+  const handleCalendarExport = () => {
+    Alert.alert('Export Calendar', 'Which jobs should go in the .ics file?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Next 30 Days', onPress: () => exportCalendar(30) },
+      { text: 'Next 90 Days', onPress: () => exportCalendar(90) },
+      { text: 'All Jobs', onPress: () => exportCalendar() },
+    ]);
+  };
+
+  const handleCalendarImport = async () => {
+    try {
+      const events = await pickICalendar();
+      if (!events) return;
+      const plan = planIcsImport(events, jobs, clients);
+      if (plan.jobsToCreate.length === 0) {
+        Alert.alert('Nothing to Import', `None of the ${plan.totalEvents} events are new.`);
+        return;
+      }
+      const summary = [
+        `${plan.jobsToCreate.length} draft Quoted jobs from ${plan.totalEvents} events`,
+        ...plan.warnings,
+        ...(plan.skipped.length > 0 ? [`${plan.skipped.length} events skipped (already imported or cancelled)`] : []),
+      ].join('\n');
+      Alert.alert('Import Calendar', summary, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: () =>
+            commitIcsImport(plan)
+              .then(() => {
+                dispatch(fetchJobs());
+                dispatch(fetchClients());
+              })
+              .catch(() => Alert.alert('Error', 'Failed to import the calendar')),
+        },
+      ]);
+    } catch (error) {
+      Alert.alert('Invalid Calendar', (error as Error).message);
+    }
+  };
+
+  const handleTrashRetention = () => {
+    Alert.alert(
+      'Keep Deleted Items',
+      'Items in the trash are permanently deleted after this many days.',
+      [
+        ...TRASH_RETENTION_OPTIONS.map((days) => ({
+          text: `${days} days`,
+          onPress: () => dispatch(setTrashRetentionDays(days)),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleSync = () => {
+    dispatch(syncNow())
+      .unwrap()
+      .then((result) =>
+        result.conflicts.length > 0
+          ? Alert.alert(
+              'Sync Conflicts',
+              `${result.conflicts.length} job(s) were changed on another device too. Review them now?`,
+              [
+                { text: 'Later', style: 'cancel' },
+                { text: 'Review', onPress: () => navigation.navigate('SyncConflicts') },
+              ]
+            )
+          : Alert.alert('Sync Complete', `Sent ${result.pushed} and received ${result.pulled} change(s).`)
+      )
+      .catch(() => Alert.alert('Sync Failed', 'Could not reach the sync server. Your changes are kept on this device.'));
+  };
+
+  const handleRotateKey = () => {
+    Alert.alert(
+      'Rotate Encryption Key',
+      'Client contact details and payment references will be re-encrypted with a new key.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rotate',
+          onPress: () => {
+            persistor
+              .flush()
+              .then(() => rotateEncryptionKey())
+              .then(() => Alert.alert('Success', 'Your data is now encrypted with a new key.'))
+              .catch(() => Alert.alert('Error', 'Failed to rotate the encryption key'));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleStorageUsage = () => {
+    const report = storage.report;
+    if (!report) {
+      dispatch(inspectStorageUsage());
+      return;
+    }
+    const lines = [
+      ...report.collections.map(
+        (collection) => `${collection.key}: ${formatBytes(collection.bytes)} (${collection.records} records)`
+      ),
+      `Receipts: ${formatBytes(report.receipts.bytes)} in ${report.receipts.count} image(s)`,
+      report.freeDiskBytes != null ? `Free on device: ${formatBytes(report.freeDiskBytes)}` : null,
+      ...report.warnings.map((warning) => `\n${warning.message}`),
+    ];
+    Alert.alert('Storage Usage', lines.filter(Boolean).join('\n'), [
+      { text: 'OK', style: 'cancel' },
+      { text: 'Refresh', onPress: () => dispatch(inspectStorageUsage()) },
+    ]);
+  };
+
+  const handleDeleteOrphans = () => {
+    const orphans = storage.report?.orphanedReceipts ?? [];
+    if (orphans.length === 0) {
+      Alert.alert('Unused Receipts', 'Every receipt image on this device belongs to an expense.');
+      return;
+    }
+    const bytes = orphans.reduce((sum, orphan) => sum + orphan.bytes, 0);
+    Alert.alert(
+      'Delete Unused Receipts',
+      `${orphans.length} receipt image(s) (${formatBytes(bytes)}) no longer belong to any expense or trashed item.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(deleteOrphanedReceipts())
+              .unwrap()
+              .then((result) =>
+                Alert.alert('Done', `Deleted ${result.deleted} image(s) and freed ${formatBytes(result.bytesFreed)}.`)
+              )
+              .catch(() => Alert.alert('Error', 'Failed to delete unused receipts'));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCompressReceipts = () => {
+    Alert.alert(
+      'Compress Receipts',
+      'Large receipt photos will be resized and saved at a lower quality. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Compress',
+          onPress: () => {
+            dispatch(compressReceiptImages())
+              .unwrap()
+              .then((result) =>
+                Alert.alert('Done', `Compressed ${result.compressed} image(s) and saved ${formatBytes(result.bytesSaved)}.`)
+              )
+              .catch(() => Alert.alert('Error', 'Failed to compress receipts'));
+          },
+        },
+      ]
+    );
+  };
+
+  const storageUsed = storage.report
+    ? storage.report.collections.reduce((sum, collection) => sum + collection.bytes, 0) + storage.report.receipts.bytes
+    : 0;
+  const storageCritical = storage.report?.warnings.some((warning) => warning.level === 'critical');
+  const orphanCount = storage.report?.orphanedReceipts.length ?? 0;
+
   const handleSeed = (kind: 'minimal' | 'full' | 'edge') => {
     const run = kind === 'minimal' ? seedMinimal : kind === 'full' ? seedFullWorkflow : seedEdgeCases;
     run()
@@ -167,13 +471,112 @@ const SettingsScreen: React.FC = () => {
         },
       ],
     },
+    {
+      title: 'Sync',
+      items: [
+        {
+          icon: 'sync',
+          label: !sync.configured
+            ? 'Sync not configured'
+            : sync.syncing
+              ? 'Syncing...'
+              : `Sync Now${sync.lastSyncedAt ? ` (last ${new Date(sync.lastSyncedAt).toLocaleString()})` : ''}`,
+          onPress: sync.configured
+            ? handleSync
+            : () => Alert.alert('Sync Not Configured', 'This build has no sync server set up. Your data stays on this device.'),
+        },
+        {
+          icon: 'call-split',
+          label: `Sync Conflicts (${sync.conflicts.length})`,
+          onPress: () => navigation.navigate('SyncConflicts'),
+          color: sync.conflicts.length > 0 ? '#FF9800' : undefined,
+        },
+      ],
+    },
+    {
+      title: 'Storage',
+      items: [
+        {
+          icon: 'storage',
+          label: storage.inspecting
+            ? 'Checking storage...'
+            : storage.report
+              ? `Storage Used (${formatBytes(storageUsed)})`
+              : 'Storage Used',
+          onPress: handleStorageUsage,
+          color: storage.report?.warnings.length ? (storageCritical ? '#FF5722' : '#FF9800') : undefined,
+        },
+        ...(storage.report?.warnings ?? []).map((warning) => ({
+          icon: warning.level === 'critical' ? 'error' : 'warning',
+          label: warning.message,
+          onPress: handleStorageUsage,
+          color: warning.level === 'critical' ? '#FF5722' : '#FF9800',
+        })),
+        {
+          icon: 'cleaning-services',
+          label: `Delete Unused Receipts (${orphanCount})`,
+          onPress: handleDeleteOrphans,
+        },
+        {
+          icon: 'compress',
+          label: 'Compress Receipts',
+          onPress: handleCompressReceipts,
+        },
+      ],
+    },
     {
       title: 'Data',
       items: [
+        {
+          icon: 'content-copy',
+          label: `Job Templates (${templateCount})`,
+          onPress: () => navigation.navigate('JobTemplates'),
+        },
+        {
+          icon: 'inventory',
+          label: `Inventory (${inventory.length}${lowStockCount > 0 ? `, ${lowStockCount} low` : ''})`,
+          onPress: () => navigation.navigate('Inventory'),
+          color: lowStockCount > 0 ? '#FF9800' : undefined,
+        },
         {
           icon: 'download',
           label: 'Export Data',
-          onPress: () => logService.logUserAction('export_data'),
+          onPress: handleExport,
+        },
+        {
+          icon: 'upload',
+          label: 'Import Data',
+          onPress: handleImport,
+        },
+        {
+          icon: 'event',
+          label: 'Export Calendar (.ics)',
+          onPress: handleCalendarExport,
+        },
+        {
+          icon: 'event-available',
+          label: 'Import Calendar (.ics)',
+          onPress: handleCalendarImport,
+        },
+        {
+          icon: 'table-chart',
+          label: 'Import from CSV',
+          onPress: () => navigation.navigate('CsvImport'),
+        },
+        {
+          icon: 'delete',
+          label: 'Trash',
+          onPress: () => navigation.navigate('Trash'),
+        },
+        {
+          icon: 'history',
+          label: `Keep Deleted Items (${settings.trashRetentionDays} days)`,
+          onPress: handleTrashRetention,
+        },
+        {
+          icon: 'vpn-key',
+          label: 'Rotate Encryption Key',
+          onPress: handleRotateKey,
         },
         {
           icon: 'delete-forever',
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import { fetchSyncStatus, resolveSyncConflict } from '../state/slices/syncSlice';
+import { AUDIT_FIELD_LABELS, formatAuditValue, toAuditValue } from '../services/AuditService';
+import { ConflictChoice, JobConflict } from '../services/SyncService';
+import { logService } from '../services/LoggingService';
+import { Job } from '../types';
+
+type Choices = Partial<Record<keyof Job, ConflictChoice>>;
+
+const SyncConflictsScreen = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const conflicts = useSelector((state: RootState) => state.sync.conflicts);
+  // Chosen side per job and field; unpicked fields keep this device's value
+  const [choices, setChoices] = useState<Record<string, Choices>>({});
+
+  useEffect(() => {
+    dispatch(fetchSyncStatus());
+    logService.logNavigation('SyncConflicts');
+  }, [dispatch]);
+
+  const choose = (jobId: string, field: keyof Job, choice: ConflictChoice) => {
+    setChoices((current) => ({ ...current, [jobId]: { ...current[jobId], [field]: choice } }));
+  };
+
+  const handleApply = async (conflict: JobConflict) => {
+    try {
+      await dispatch(resolveSyncConflict({ jobId: conflict.jobId, choices: choices[conflict.jobId] ?? {} })).unwrap();
+      Alert.alert('Resolved', `${conflict.jobName} will be updated on other devices at the next sync.`);
+    } catch (error) {
+      Alert.alert('Error', (error as Error).message || 'Failed to resolve conflict');
+    }
+  };
+
+  const renderOption = (conflict: JobConflict, field: keyof Job, choice: ConflictChoice, value: unknown) => {
+    const selected = (choices[conflict.jobId]?.[field] ?? 'local') === choice;
+    return (
+      <TouchableOpacity
+        style={[styles.option, selected && styles.optionSelected]}
+        onPress={() => choose(conflict.jobId, field, choice)}
+      >
+        <Text style={[styles.optionTitle, selected && styles.optionTitleSelected]}>
+          {choice === 'local' ? 'This device' : 'Other device'}
+        </Text>
+        <Text style={styles.optionValue} numberOfLines={3}>
+          {formatAuditValue(field, toAuditValue(value))}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConflict = ({ item }: { item: JobConflict }) => (
+    <View style={styles.conflictCard}>
+      <Text style={styles.jobName}>{item.jobName}</Text>
+      <Text style={styles.meta}>Detected {new Date(item.detectedAt).toLocaleString()}</Text>
+      {item.fields.map(({ field, local, remote }) => (
+        <View key={field} style={styles.fieldRow}>
+          <Text style={styles.fieldLabel}>{AUDIT_FIELD_LABELS[field] ?? field}</Text>
+          <View style={styles.optionRow}>
+            {renderOption(item, field, 'local', local)}
+            {renderOption(item, field, 'remote', remote)}
+          </View>
+        </View>
+      ))}
+      <TouchableOpacity style={styles.applyButton} onPress={() => handleApply(item)}>
+        <Text style={styles.applyButtonText}>Apply</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={conflicts}
+        keyExtractor={(item) => item.jobId}
+        renderItem={renderConflict}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          conflicts.length > 0 ? (
+            <Text style={styles.intro}>
+              These jobs were changed on this device and on another device. Pick which value to keep for each
+              field. They are not synced until resolved.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyStateText}>No sync conflicts</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  conflictCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  jobName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  fieldRow: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+  },
+  option: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 10,
+    marginRight: 8,
+  },
+  optionSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#E3F2FD',
+  },
+  optionTitle: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  optionTitleSelected: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  optionValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  applyButton: {
+    marginTop: 16,
+    alignSelf: 'flex-start',
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
+
+export default SyncConflictsScreen;
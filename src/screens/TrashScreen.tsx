@@ -0,0 +1,244 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../state/store';
+import {
+  emptyTrash,
+  fetchTrash,
+  purgeTrashEntry,
+  restoreTrashEntry,
+} from '../state/slices/trashSlice';
+import { logService } from '../services/LoggingService';
+import { TrashEntry, TrashItemType } from '../types';
+
+const SECTION_TITLES: Record<TrashItemType, string> = {
+  job: 'Jobs',
+  client: 'Clients',
+  expense: 'Expenses',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashScreen = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const entries = useSelector((state: RootState) => state.trash.entries);
+  const loading = useSelector((state: RootState) => state.trash.loading);
+  const retentionDays = useSelector((state: RootState) => state.settings.trashRetentionDays);
+
+  useEffect(() => {
+    dispatch(fetchTrash());
+    logService.logNavigation('Trash');
+  }, [dispatch]);
+
+  const sections = (Object.keys(SECTION_TITLES) as TrashItemType[])
+    .map((type) => ({
+      title: SECTION_TITLES[type],
+      data: entries
+        .filter((entry) => entry.type === type)
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    }))
+    .filter((section) => section.data.length > 0);
+
+  const daysLeft = (entry: TrashEntry) => {
+    const expiresAt = new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+  };
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await dispatch(restoreTrashEntry(entry.id)).unwrap();
+      Alert.alert('Restored', `${entry.label} has been restored.`);
+    } catch (error) {
+      Alert.alert('Cannot Restore', (error as Error).message || 'Failed to restore item');
+    }
+  };
+
+  const handlePurge = (entry: TrashEntry) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete ${entry.label}? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(purgeTrashEntry(entry.id))
+              .unwrap()
+              .catch(() => Alert.alert('Error', 'Failed to delete item'));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${entries.length} items in the trash? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(emptyTrash())
+              .unwrap()
+              .catch(() => Alert.alert('Error', 'Failed to empty trash'));
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = ({ item }: { item: TrashEntry }) => (
+    <View style={styles.entryCard}>
+      <Text style={styles.entryLabel}>{item.label}</Text>
+      <Text style={styles.entryMeta}>
+        Deleted {new Date(item.deletedAt).toLocaleDateString()} · purged in {daysLeft(item)} days
+      </Text>
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={styles.restoreButton} onPress={() => handleRestore(item)}>
+          <Text style={styles.restoreButtonText}>Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.purgeButton} onPress={() => handlePurge(item)}>
+          <Text style={styles.purgeButtonText}>Delete Forever</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.retentionText}>
+          Items are permanently deleted {retentionDays} days after they are moved to the trash.
+        </Text>
+        {entries.length > 0 && (
+          <TouchableOpacity style={styles.emptyButton} onPress={handleEmptyTrash}>
+            <Text style={styles.emptyButtonText}>Empty Trash</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEntry}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        contentContainerStyle={styles.listContent}
+        refreshing={loading}
+        onRefresh={() => dispatch(fetchTrash())}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyStateText}>The trash is empty</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  retentionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#FF5722',
+  },
+  emptyButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  entryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  entryLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  restoreButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  purgeButton: {
+    borderWidth: 1,
+    borderColor: '#FF5722',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  purgeButtonText: {
+    color: '#FF5722',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
+
+export default TrashScreen;
@@ -0,0 +1,97 @@
+import { AuditEntry, AuditFieldChange, AuditValue, Job } from '../types';
+import { logService } from './LoggingService';
+import { auditRepository } from './Repository';
+
+export const AUDIT_FIELD_LABELS: Partial<Record<keyof Job, string>> = {
+  jobName: 'Job Name',
+  description: 'Description',
+  clientId: 'Client ID',
+  clientName: 'Client',
+  quote: 'Quote',
+  lineItems: 'Line Items',
+  discount: 'Discount',
+  taxRate: 'Tax Rate',
+  quoteRevisions: 'Quote Revisions',
+  acceptedRevision: 'Accepted Revision',
+  quoteAcceptance: 'Quote Acceptance',
+  quoteDate: 'Quote Date',
+  startDate: 'Start Date',
+  endDate: 'End Date',
+  status: 'Status',
+  expenses: 'Expenses',
+  toolsAndSupplies: 'Tools & Supplies',
+  tasks: 'Tasks',
+  notes: 'Notes',
+  payments: 'Payments',
+  timeEntries: 'Time Entries',
+  visits: 'Visits',
+  actualStartDate: 'Actual Start',
+  actualEndDate: 'Actual End',
+  statusHistory: 'Status History',
+  seriesId: 'Recurring Series',
+  occurrenceDate: 'Scheduled Occurrence',
+  seriesOverride: 'Edited Separately From Series',
+};
+
+// Lists are summarised by size so entries stay small and readable
+export const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as AuditValue;
+};
+
+// Field-level differences between two versions of a job (the id is never audited)
+export const diffJobs = (before: Job, after: Job): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Job)[]);
+  fields.delete('id');
+  return [...fields]
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, from: toAuditValue(before[field]), to: toAuditValue(after[field]) }));
+};
+
+export const formatAuditValue = (field: keyof Job, value: AuditValue): string => {
+  if (value === null || value === '') return '(empty)';
+  if (field === 'quote' && typeof value === 'number') return `$${value.toFixed(2)}`;
+  return String(value);
+};
+
+/**
+ * Appends an audit entry for the fields that differ between `before` and
+ * `after`. Entries are never edited or removed, and a failure here is logged
+ * rather than failing the save it describes. Resolves null if nothing changed.
+ */
+export const recordJobAudit = async (before: Job, after: Job, source: string): Promise<AuditEntry | null> => {
+  const changes = diffJobs(before, after);
+  if (changes.length === 0) return null;
+
+  const entry: AuditEntry = {
+    id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    jobId: after.id,
+    timestamp: new Date().toISOString(),
+    source,
+    changes,
+  };
+  try {
+    await auditRepository.insert(entry);
+    logService.debug('AUDIT', `Recorded ${changes.length} field change(s) on job ${after.id}`, { source });
+    return entry;
+  } catch (error) {
+    logService.logError('AUDIT', error as Error, { operation: 'recordJobAudit', jobId: after.id });
+    return null;
+  }
+};
+
+// Newest first; entries with the same timestamp are ordered by when they were written
+export const getJobAuditTrail = async (jobId: string): Promise<AuditEntry[]> => {
+  try {
+    const entries = await auditRepository.getAll();
+    return entries
+      .filter((entry) => entry.jobId === jobId)
+      .reverse()
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (error) {
+    logService.logError('AUDIT', error as Error, { operation: 'getJobAuditTrail', jobId });
+    return [];
+  }
+};
@@ -0,0 +1,407 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { AuditEntry, Client, Expense, InventoryItem, Job, JobSeries, JobTemplate } from '../types';
+import { SettingsState } from '../state/slices/settingsSlice';
+import { logService } from './LoggingService';
+import {
+  CLIENTS_KEY,
+  CollectionRepository,
+  JOBS_KEY,
+  auditRepository,
+  clientsRepository,
+  inventoryRepository,
+  jobsRepository,
+  mergeById,
+  seriesRepository,
+  templatesRepository,
+} from './Repository';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './SchemaMigrations';
+import { runInTransaction } from './UnitOfWork';
+
+export const BACKUP_FORMAT = 'oyhustle-backup';
+// Bump when the archive layout itself changes (record shapes follow schemaVersion)
+export const BACKUP_FORMAT_VERSION = 1;
+
+const RECEIPTS_DIR = 'receipts/';
+
+export interface BackupReceipt {
+  fileName: string;
+  base64: string;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  data: {
+    clients: Client[];
+    jobs: Job[];
+    settings: SettingsState;
+    // Field-level job history; missing from archives made before it existed
+    auditTrail: AuditEntry[];
+    // Likewise missing from older archives, which are read as having none
+    templates: JobTemplate[];
+    series: JobSeries[];
+    inventory: InventoryItem[];
+  };
+  // Receipt image contents keyed by receiptKey(job, expense)
+  receipts: Record<string, BackupReceipt>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+// Which copy wins when a record with the same id exists on both sides
+export type ConflictResolution = 'keepExisting' | 'useBackup';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  conflictResolution?: ConflictResolution;
+}
+
+interface CollectionPreview {
+  inBackup: number;
+  new: number;
+  conflicting: number;
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  clients: CollectionPreview;
+  jobs: CollectionPreview;
+  expenses: number;
+  payments: number;
+  receipts: number;
+}
+
+export interface ImportResult {
+  clients: number;
+  jobs: number;
+  receiptsRestored: number;
+  conflictsResolved: number;
+  auditEntries: number;
+  templates: number;
+  series: number;
+  inventoryItems: number;
+  settings: SettingsState;
+}
+
+const receiptsDirectory = () => `${FileSystem.documentDirectory}${RECEIPTS_DIR}`;
+
+const fileNameOf = (uri: string) => uri.split('/').pop() || uri;
+
+// Expense ids are only unique within a job (migrated ones repeat), so key by both
+export const receiptKey = (job: Job, expense: Expense) => `${job.id}/${expense.id}`;
+
+/**
+ * Collects every client, job, setting, audit entry, job template, recurring
+ * series and inventory item plus the receipt images referenced by
+ * `receiptImageLocalUri`. Receipts whose file is gone are skipped.
+ */
+export const createBackupArchive = async (settings: SettingsState): Promise<BackupArchive> => {
+  const [clients, jobs, auditTrail, templates, series, inventory] = await Promise.all([
+    clientsRepository.getAll(),
+    jobsRepository.getAll(),
+    auditRepository.getAll(),
+    templatesRepository.getAll(),
+    seriesRepository.getAll(),
+    inventoryRepository.getAll(),
+  ]);
+  const receipts: Record<string, BackupReceipt> = {};
+
+  for (const job of jobs) {
+    for (const expense of job.expenses) {
+      const uri = expense.receiptImageLocalUri;
+      if (!uri) continue;
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        logService.warn('BACKUP', 'Receipt image missing, skipping', { expenseId: expense.id, uri });
+        continue;
+      }
+      receipts[receiptKey(job, expense)] = {
+        fileName: fileNameOf(uri),
+        base64: await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }),
+      };
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    data: { clients, jobs, settings, auditTrail, templates, series, inventory },
+    receipts,
+  };
+};
+
+/**
+ * Writes the archive to the documents directory and opens the share sheet.
+ * Resolves the file uri.
+ */
+export const exportBackup = async (settings: SettingsState): Promise<string> => {
+  try {
+    const archive = await createBackupArchive(settings);
+    const stamp = archive.createdAt.replace(/[:.]/g, '-');
+    const uri = `${FileSystem.documentDirectory}oyhustle-backup-${stamp}.json`;
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+
+    logService.logUserAction('backup_exported', {
+      clients: archive.data.clients.length,
+      jobs: archive.data.jobs.length,
+      receipts: Object.keys(archive.receipts).length,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Export OYHustle backup',
+        UTI: 'public.json',
+      });
+    }
+    return uri;
+  } catch (error) {
+    logService.logError('BACKUP', error as Error, { operation: 'exportBackup' });
+    throw error;
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordList = <T extends { id: string }>(value: unknown): value is T[] =>
+  Array.isArray(value) && value.every((item) => isObject(item) && typeof item.id === 'string');
+
+const isReceiptMap = (value: unknown): value is Record<string, BackupReceipt> =>
+  isObject(value) &&
+  Object.values(value).every(
+    (receipt) => isObject(receipt) && typeof receipt.fileName === 'string' && typeof receipt.base64 === 'string'
+  );
+
+const assertUniqueIds = (label: string, items: { id: string }[]) => {
+  const ids = new Set<string>();
+  items.forEach(({ id }) => {
+    if (ids.has(id)) {
+      throw new Error(`Backup contains duplicate ${label} id "${id}"`);
+    }
+    ids.add(id);
+  });
+};
+
+/**
+ * Validates a raw archive and upgrades its records to the current schema.
+ * Throws with a user-facing message when the file is not a usable backup.
+ */
+export const parseBackupArchive = (contents: string): BackupArchive => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(contents);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error('File is not an OYHustle backup');
+  }
+  const { formatVersion, schemaVersion, data, receipts } = raw;
+  if (typeof formatVersion !== 'number' || formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('Backup was made by a newer version of the app');
+  }
+  if (typeof schemaVersion !== 'number' || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('Backup data uses a newer schema than this app supports');
+  }
+  if (!isObject(data) || !isRecordList(data.clients) || !isRecordList(data.jobs)) {
+    throw new Error('Backup is missing its client or job list');
+  }
+  if (receipts != null && !isReceiptMap(receipts)) {
+    throw new Error('Backup receipt section is malformed');
+  }
+
+  assertUniqueIds('client', data.clients);
+  assertUniqueIds('job', data.jobs);
+  const settings = isObject(data.settings) ? data.settings : {};
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: String(raw.createdAt ?? ''),
+    data: {
+      clients: migrateRecords<Client>(CLIENTS_KEY, data.clients, schemaVersion),
+      // A job saved without expenses is read everywhere as having none
+      jobs: migrateRecords<Job>(JOBS_KEY, data.jobs, schemaVersion).map((job) => ({
+        ...job,
+        expenses: job.expenses ?? [],
+      })),
+      settings: {
+        userEmail: String(settings.userEmail ?? ''),
+        smsOnly: !!settings.smsOnly,
+        trashRetentionDays: Number(settings.trashRetentionDays) || 30,
+      },
+      auditTrail: isRecordList<AuditEntry>(data.auditTrail) ? data.auditTrail : [],
+      templates: isRecordList<JobTemplate>(data.templates) ? data.templates : [],
+      series: isRecordList<JobSeries>(data.series) ? data.series : [],
+      inventory: isRecordList<InventoryItem>(data.inventory) ? data.inventory : [],
+    },
+    receipts: receipts ?? {},
+  };
+};
+
+// Lets the user choose a backup file. Resolves null when cancelled.
+export const pickBackupArchive = async (): Promise<BackupArchive | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+  const contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+  return parseBackupArchive(contents);
+};
+
+const previewCollection = <T extends { id: string }>(incoming: T[], existing: T[]): CollectionPreview => {
+  const { addedFromSecondary, conflicts } = mergeById(existing, incoming);
+  return { inBackup: incoming.length, new: addedFromSecondary, conflicting: conflicts.length };
+};
+
+// Counts shown before the user picks merge or replace
+export const previewBackup = async (archive: BackupArchive): Promise<BackupPreview> => {
+  const [clients, jobs] = await Promise.all([clientsRepository.getAll(), jobsRepository.getAll()]);
+  return {
+    createdAt: archive.createdAt,
+    clients: previewCollection(archive.data.clients, clients),
+    jobs: previewCollection(archive.data.jobs, jobs),
+    expenses: archive.data.jobs.reduce((sum, job) => sum + (job.expenses?.length || 0), 0),
+    payments: archive.data.jobs.reduce((sum, job) => sum + (job.payments?.length || 0), 0),
+    receipts: Object.keys(archive.receipts).length,
+  };
+};
+
+const mergeCollection = <T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  conflictResolution: ConflictResolution
+) => {
+  const result =
+    conflictResolution === 'useBackup' ? mergeById(incoming, existing) : mergeById(existing, incoming);
+  return { items: result.merged, conflicts: result.conflicts.length };
+};
+
+// Receipt file names are only unique on the device that took them, so restored
+// files are prefixed with their job's id to keep two jobs' receipts apart
+const restoredReceiptName = (job: Job, receipt: BackupReceipt) => {
+  const prefix = `${job.id.replace(/[^\w.-]/g, '_')}_`;
+  const name = fileNameOf(receipt.fileName);
+  return name.startsWith(prefix) ? name : `${prefix}${name}`;
+};
+
+// Writes receipt images for the selected jobs and points their expenses at the new files
+const restoreReceipts = async (
+  jobs: Job[],
+  receipts: Record<string, BackupReceipt>,
+  shouldRestore: (job: Job) => boolean
+) => {
+  let restored = 0;
+  const needed = jobs.some(
+    (job) => shouldRestore(job) && job.expenses.some((expense) => receipts[receiptKey(job, expense)])
+  );
+  if (!needed) return { jobs, restored };
+
+  const dir = receiptsDirectory();
+  const dirInfo = await FileSystem.getInfoAsync(dir);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+
+  const updated: Job[] = [];
+  for (const job of jobs) {
+    if (!shouldRestore(job)) {
+      updated.push(job);
+      continue;
+    }
+    const expenses = [];
+    for (const expense of job.expenses) {
+      const receipt = receipts[receiptKey(job, expense)];
+      if (!receipt) {
+        expenses.push(expense);
+        continue;
+      }
+      const uri = `${dir}${restoredReceiptName(job, receipt)}`;
+      await FileSystem.writeAsStringAsync(uri, receipt.base64, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      restored += 1;
+      expenses.push({ ...expense, receiptImageLocalUri: uri });
+    }
+    updated.push({ ...job, expenses });
+  }
+  return { jobs: updated, restored };
+};
+
+/**
+ * Applies an archive. `replace` swaps out all clients, jobs, templates, series
+ * and inventory; `merge` adds new records and settles id conflicts per
+ * `conflictResolution` (existing data wins by default). Audit entries are
+ * immutable, so merging keeps both sides. Everything is written in one
+ * transaction, so a failure part way leaves the device data as it was.
+ * Settings are returned for the caller to dispatch.
+ */
+export const importBackup = async (
+  archive: BackupArchive,
+  { mode, conflictResolution = 'keepExisting' }: ImportOptions
+): Promise<ImportResult> => {
+  try {
+    logService.logUserAction('backup_import_started', { mode, conflictResolution });
+
+    const result = await runInTransaction(`importBackup:${mode}`, async (uow) => {
+      const { data } = archive;
+      let conflictsResolved = 0;
+      // Replace takes the archive as is; merge settles each collection against the device copy
+      const settle = async <T extends { id: string }>(
+        repository: CollectionRepository<T>,
+        incoming: T[]
+      ): Promise<T[]> => {
+        if (mode === 'replace') return incoming;
+        const merged = mergeCollection(await uow.getAll(repository), incoming, conflictResolution);
+        conflictsResolved += merged.conflicts;
+        return merged.items;
+      };
+
+      const clients = await settle(clientsRepository, data.clients);
+      const templates = await settle(templatesRepository, data.templates);
+      const series = await settle(seriesRepository, data.series);
+      const inventory = await settle(inventoryRepository, data.inventory);
+      const auditTrail =
+        mode === 'merge' ? mergeById(await uow.getAll(auditRepository), data.auditTrail).merged : data.auditTrail;
+
+      // Only jobs taken from the archive need their receipt files restored
+      const fromArchive = new Set(data.jobs);
+      const restored = await restoreReceipts(await settle(jobsRepository, data.jobs), archive.receipts, (job) =>
+        fromArchive.has(job)
+      );
+
+      await uow.replaceAll(clientsRepository, clients);
+      await uow.replaceAll(jobsRepository, restored.jobs);
+      await uow.replaceAll(auditRepository, auditTrail);
+      await uow.replaceAll(templatesRepository, templates);
+      await uow.replaceAll(seriesRepository, series);
+      await uow.replaceAll(inventoryRepository, inventory);
+
+      return {
+        clients: clients.length,
+        jobs: restored.jobs.length,
+        receiptsRestored: restored.restored,
+        conflictsResolved,
+        auditEntries: auditTrail.length,
+        templates: templates.length,
+        series: series.length,
+        inventoryItems: inventory.length,
+        settings: data.settings,
+      };
+    });
+    logService.info('BACKUP', 'Backup imported', { mode, ...result, settings: undefined });
+    return result;
+  } catch (error) {
+    logService.logError('BACKUP', error as Error, { operation: 'importBackup', mode });
+    throw error;
+  }
+};
@@ -1,4 +1,5 @@
 import { Job, Expense } from '../types';
+import { jobNetEarnings, trackedHours } from './TimeTracking';
 
 export interface BudgetSummary {
   totalEarnings: number;
@@ -7,6 +8,10 @@ export interface BudgetSummary {
   profitMargin: number;
   reimbursableExpenses: number;
   taxDeductibleExpenses: number;
+  hoursWorked: number;
+  billableHours: number;
+  // Net earnings per hour across the jobs that have time logged; null when none do
+  effectiveHourlyRate: number | null;
 }
 
 export interface ExpenseCategory {
@@ -28,8 +33,8 @@ export interface MonthlyTrend {
 }
 
 class BudgetAnalytics {
-  public calculateBudgetSummary(jobs: Job[]): BudgetSummary {
-    const totalEarnings = jobs.reduce((sum, job) => sum + job.pay, 0);
+  public calculateBudgetSummary(jobs: Job[], now: Date = new Date()): BudgetSummary {
+    const totalEarnings = jobs.reduce((sum, job) => sum + job.quote, 0);
     const allExpenses = jobs.flatMap((job) => job.expenses);
     const totalExpenses = allExpenses.reduce(
       (sum, expense) => sum + expense.amount,
@@ -46,6 +51,18 @@ class BudgetAnalytics {
     // Assume 85% of business expenses are tax deductible
     const taxDeductibleExpenses = totalExpenses * 0.85;
 
+    // Jobs without logged time would make the rate look better than it is
+    const timedJobs = jobs.filter((job) => trackedHours(job, { now }) > 0);
+    const hoursWorked = timedJobs.reduce((sum, job) => sum + trackedHours(job, { now }), 0);
+    const billableHours = timedJobs.reduce(
+      (sum, job) => sum + trackedHours(job, { now, billableOnly: true }),
+      0
+    );
+    const effectiveHourlyRate =
+      hoursWorked > 0
+        ? timedJobs.reduce((sum, job) => sum + jobNetEarnings(job), 0) / hoursWorked
+        : null;
+
     return {
       totalEarnings,
       totalExpenses,
@@ -53,6 +70,9 @@ class BudgetAnalytics {
       profitMargin,
       reimbursableExpenses,
       taxDeductibleExpenses,
+      hoursWorked,
+      billableHours,
+      effectiveHourlyRate,
     };
   }
 
@@ -186,7 +206,7 @@ class BudgetAnalytics {
     >();
 
     jobs.forEach((job) => {
-      const date = new Date(job.date);
+      const date = new Date(job.startDate);
       const monthKey = `${date.getFullYear()}-${String(
         date.getMonth() + 1
       ).padStart(2, '0')}`;
@@ -196,7 +216,7 @@ class BudgetAnalytics {
       }
 
       const monthData = monthlyData.get(monthKey)!;
-      monthData.earnings += job.pay;
+      monthData.earnings += job.quote;
       monthData.expenses += job.expenses.reduce(
         (sum, exp) => sum + exp.amount,
         0
@@ -247,7 +267,7 @@ class BudgetAnalytics {
         sum + job.expenses.reduce((expSum, exp) => expSum + exp.amount, 0),
       0
     );
-    const totalEarnings = jobs.reduce((sum, job) => sum + job.pay, 0);
+    const totalEarnings = jobs.reduce((sum, job) => sum + job.quote, 0);
 
     const expensePerJob = totalExpenses / jobs.length;
     const expensePerDollarEarned =
@@ -260,7 +280,7 @@ class BudgetAnalytics {
     >();
 
     jobs.forEach((job) => {
-      const jobType = job.title;
+      const jobType = job.jobName;
       if (!jobTypeEfficiency.has(jobType)) {
         jobTypeEfficiency.set(jobType, {
           totalExpenses: 0,
@@ -274,7 +294,7 @@ class BudgetAnalytics {
         (sum, exp) => sum + exp.amount,
         0
       );
-      data.totalEarnings += job.pay;
+      data.totalEarnings += job.quote;
       data.count += 1;
     });
 
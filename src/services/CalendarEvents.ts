@@ -0,0 +1,150 @@
+import { Job } from '../types';
+import { getStatusColor } from '../constants/theme';
+import { addDays } from './Recurrence';
+import { putVisit } from './VisitScheduling';
+
+export type CalendarEventKind = 'start' | 'end' | 'visit' | 'payment';
+
+// One thing on a day of the calendar, colored by the status of the job it belongs to
+export interface CalendarEvent {
+  key: string;
+  kind: CalendarEventKind;
+  date: string; // YYYY-MM-DD
+  jobId: string;
+  jobName: string;
+  status: Job['status'];
+  title: string;
+  detail?: string;
+  visitId?: string;
+  paymentId?: string;
+}
+
+// The shape react-native-calendars takes for multi-dot marking
+export interface MarkedDay {
+  dots: { key: string; color: string }[];
+  marked: boolean;
+  selected?: boolean;
+  selectedColor?: string;
+}
+
+const KIND_ORDER: CalendarEventKind[] = ['start', 'visit', 'end', 'payment'];
+
+const dayOf = (value: string | undefined) => (value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null);
+
+const formatAmount = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+export const buildCalendarEvents = (jobs: Job[]): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  jobs.forEach((job) => {
+    const base = { jobId: job.id, jobName: job.jobName, status: job.status };
+    const start = dayOf(job.startDate);
+    const end = dayOf(job.endDate);
+    if (start) {
+      events.push({ ...base, key: `${job.id}:start`, kind: 'start', date: start, title: `Starts: ${job.jobName}` });
+    }
+    // A one-day job shows once
+    if (end && end !== start) {
+      events.push({ ...base, key: `${job.id}:end`, kind: 'end', date: end, title: `Ends: ${job.jobName}` });
+    }
+    (job.visits || [])
+      .filter((visit) => visit.status !== 'Cancelled')
+      .forEach((visit) =>
+        events.push({
+          ...base,
+          key: `${job.id}:visit:${visit.id}`,
+          kind: 'visit',
+          date: visit.date,
+          title: `Visit: ${job.jobName}`,
+          detail: [`${visit.startTime}–${visit.endTime}`, visit.workers.join(', ')].filter(Boolean).join(' · '),
+          visitId: visit.id,
+        })
+      );
+    (job.payments || [])
+      .filter((payment) => payment.status === 'pending')
+      .forEach((payment) => {
+        const due = dayOf(payment.paymentDate);
+        if (!due) return;
+        events.push({
+          ...base,
+          key: `${job.id}:payment:${payment.id}`,
+          kind: 'payment',
+          date: due,
+          title: `Payment due: ${job.jobName}`,
+          detail: formatAmount(payment.amount),
+          paymentId: payment.id,
+        });
+      });
+  });
+  return events.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      (a.detail ?? '').localeCompare(b.detail ?? '') ||
+      a.jobName.localeCompare(b.jobName)
+  );
+};
+
+export const eventsByDate = (events: CalendarEvent[]): Record<string, CalendarEvent[]> =>
+  events.reduce<Record<string, CalendarEvent[]>>((days, event) => {
+    (days[event.date] = days[event.date] || []).push(event);
+    return days;
+  }, {});
+
+// One dot per job status on each day, plus the selected day highlighted
+export const markedDatesFor = (events: CalendarEvent[], selected?: string): Record<string, MarkedDay> => {
+  const marked: Record<string, MarkedDay> = {};
+  Object.entries(eventsByDate(events)).forEach(([date, dayEvents]) => {
+    const statuses = Array.from(new Set(dayEvents.map((event) => event.status)));
+    marked[date] = {
+      dots: statuses.map((status) => ({ key: status, color: getStatusColor(status) })),
+      marked: true,
+    };
+  });
+  if (selected) {
+    marked[selected] = { ...(marked[selected] ?? { dots: [], marked: false }), selected: true, selectedColor: '#2196F3' };
+  }
+  return marked;
+};
+
+export const canReschedule = (event: CalendarEvent) => event.kind !== 'payment';
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+// The job with the event moved to a new day. Moving the start keeps the job's length;
+// moving the end changes it. A job from a series stops following the series once moved.
+export const rescheduleEvent = (job: Job, event: CalendarEvent, date: string): Job => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error('A new date must be YYYY-MM-DD');
+  }
+  if (event.jobId !== job.id) {
+    throw new Error(`Event ${event.key} does not belong to job ${job.id}`);
+  }
+  const detached = job.seriesId ? { seriesOverride: true } : {};
+  switch (event.kind) {
+    case 'start': {
+      if (job.quoteDate && date < job.quoteDate.slice(0, 10)) {
+        throw new Error('A job cannot start before it was quoted');
+      }
+      const shift = daysBetween(event.date, date);
+      const endDate = dayOf(job.endDate);
+      return { ...job, ...detached, startDate: date, endDate: endDate ? addDays(endDate, shift) : job.endDate };
+    }
+    case 'end': {
+      const startDate = dayOf(job.startDate);
+      if (startDate && date < startDate) {
+        throw new Error('A job cannot end before it starts');
+      }
+      return { ...job, ...detached, endDate: date };
+    }
+    case 'visit': {
+      const visit = job.visits?.find((existing) => existing.id === event.visitId);
+      if (!visit) {
+        throw new Error(`Visit with ID ${event.visitId} not found on job ${job.id}`);
+      }
+      return { ...putVisit(job, { ...visit, date }), ...detached };
+    }
+    default:
+      throw new Error('Payment due dates are changed from the payment itself');
+  }
+};
@@ -1,19 +1,18 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Client } from '../types';
+import { Client, Job } from '../types';
 import { logService } from './LoggingService';
-
-const CLIENTS_KEY = 'clients';
+import { clientsRepository } from './Repository';
+import { UnitOfWork, runInTransaction } from './UnitOfWork';
+import { withPendingWrites } from './OutboxService';
 
 export const getClients = async (): Promise<Client[]> => {
   try {
     logService.debug('CLIENT_SERVICE', 'Fetching clients from AsyncStorage');
-    const jsonValue = await AsyncStorage.getItem(CLIENTS_KEY);
-    const clients = jsonValue != null ? JSON.parse(jsonValue) : [];
+    const clients = await withPendingWrites('clients', await clientsRepository.getAll());
     logService.info('CLIENT_SERVICE', `Successfully fetched ${clients.length} clients`);
     return clients;
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { operation: 'getClients' });
-    return [];
+    throw error;
   }
 };
 
@@ -30,22 +29,17 @@ export const getClientById = async (id: string): Promise<Client | null> => {
     return client || null;
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { operation: 'getClientById', clientId: id });
-    return null;
+    throw error;
   }
 };
 
 export const saveClient = async (client: Client): Promise<void> => {
   try {
     logService.debug('CLIENT_SERVICE', `Saving new client: ${client.fullName}`, { clientId: client.id });
-    const clients = await getClients();
-    // Avoid duplicate IDs
-    const withoutDuplicate = clients.filter((c) => c.id !== client.id);
-    const newClients = [...withoutDuplicate, client];
-    const jsonValue = JSON.stringify(newClients);
-    await AsyncStorage.setItem(CLIENTS_KEY, jsonValue);
+    // Replaces any existing record with the same ID
+    await clientsRepository.insert(client);
     logService.info('CLIENT_SERVICE', `Successfully saved client: ${client.fullName}`, { 
-      clientId: client.id, 
-      totalClients: newClients.length 
+      clientId: client.id 
     });
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { 
@@ -60,20 +54,7 @@ export const saveClient = async (client: Client): Promise<void> => {
 export const updateClient = async (updatedClient: Client): Promise<void> => {
   try {
     logService.debug('CLIENT_SERVICE', `Updating client: ${updatedClient.fullName}`, { clientId: updatedClient.id });
-    const clients = await getClients();
-    const clientIndex = clients.findIndex(client => client.id === updatedClient.id);
-    
-    if (clientIndex === -1) {
-      const error = new Error(`Client with ID ${updatedClient.id} not found`);
-      logService.logError('CLIENT_SERVICE', error, { operation: 'updateClient', clientId: updatedClient.id });
-      throw error;
-    }
-    
-    // Ensure only one instance of the client with this ID exists
-    const filtered = clients.filter((c) => c.id !== updatedClient.id);
-    const newClients = [...filtered, updatedClient];
-    const jsonValue = JSON.stringify(newClients);
-    await AsyncStorage.setItem(CLIENTS_KEY, jsonValue);
+    await clientsRepository.update(updatedClient);
     logService.info('CLIENT_SERVICE', `Successfully updated client: ${updatedClient.fullName}`, { clientId: updatedClient.id });
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { 
@@ -85,25 +66,78 @@ export const updateClient = async (updatedClient: Client): Promise<void> => {
   }
 };
 
-export const deleteClient = async (id: string): Promise<void> => {
-  try {
-    logService.debug('CLIENT_SERVICE', `Deleting client with ID: ${id}`);
-    const clients = await getClients();
-    const clientToDelete = clients.find(client => client.id === id);
-    
-    if (!clientToDelete) {
-      const error = new Error(`Client with ID ${id} not found`);
-      logService.logError('CLIENT_SERVICE', error, { operation: 'deleteClient', clientId: id });
-      throw error;
+export type ClientDeletionPolicy =
+  // Refuse while any job still references the client
+  | { mode: 'block' }
+  // Delete the client's jobs along with it
+  | { mode: 'cascade' }
+  // Move the client's jobs to another existing client
+  | { mode: 'reassign'; toClientId: string };
+
+export interface ClientDeletionResult {
+  client: Client;
+  removedJobIds: string[];
+  reassignedJobs: Job[];
+}
+
+/**
+ * Removes a client inside an open unit of work, applying the policy to the
+ * jobs that reference it. Shared by permanent deletion and the trash.
+ */
+export const removeClientWithPolicy = async (
+  uow: UnitOfWork,
+  id: string,
+  policy: ClientDeletionPolicy
+): Promise<ClientDeletionResult> => {
+  const client = await uow.getClient(id);
+  if (!client) {
+    throw new Error(`Client with ID ${id} not found`);
+  }
+  const jobs = (await uow.getJobs()).filter((job) => job.clientId === id);
+  const removedJobIds: string[] = [];
+  const reassignedJobs: Job[] = [];
+
+  if (jobs.length > 0 && policy.mode === 'block') {
+    throw new Error(`Client ${client.fullName} still has ${jobs.length} job(s)`);
+  }
+  if (policy.mode === 'cascade') {
+    for (const job of jobs) {
+      await uow.removeJob(job.id);
+      removedJobIds.push(job.id);
+    }
+  }
+  if (policy.mode === 'reassign') {
+    const target = await uow.getClient(policy.toClientId);
+    if (!target || target.id === id) {
+      throw new Error(`Cannot reassign jobs to client ${policy.toClientId}`);
+    }
+    for (const job of jobs) {
+      const reassigned = { ...job, clientId: target.id, clientName: target.fullName };
+      await uow.updateJob(reassigned);
+      reassignedJobs.push(reassigned);
     }
-    
-    const newClients = clients.filter((client) => client.id !== id);
-    const jsonValue = JSON.stringify(newClients);
-    await AsyncStorage.setItem(CLIENTS_KEY, jsonValue);
-    logService.info('CLIENT_SERVICE', `Successfully deleted client: ${clientToDelete.fullName}`, { 
-      clientId: id, 
-      remainingClients: newClients.length 
+  }
+
+  await uow.removeClient(id);
+  return { client, removedJobIds, reassignedJobs };
+};
+
+export const deleteClient = async (
+  id: string,
+  policy: ClientDeletionPolicy = { mode: 'block' }
+): Promise<ClientDeletionResult> => {
+  try {
+    logService.debug('CLIENT_SERVICE', `Deleting client with ID: ${id}`, { policy: policy.mode });
+    const result = await runInTransaction(`deleteClient:${id}`, (uow) =>
+      removeClientWithPolicy(uow, id, policy)
+    );
+    logService.info('CLIENT_SERVICE', `Successfully deleted client: ${result.client.fullName}`, {
+      clientId: id,
+      policy: policy.mode,
+      removedJobs: result.removedJobIds.length,
+      reassignedJobs: result.reassignedJobs.length,
     });
+    return result;
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { operation: 'deleteClient', clientId: id });
     throw error;
@@ -114,8 +148,7 @@ export const deleteClient = async (id: string): Promise<void> => {
 export const setClients = async (clients: Client[]): Promise<void> => {
   try {
     logService.debug('CLIENT_SERVICE', `Setting clients collection (count=${clients.length})`);
-    const jsonValue = JSON.stringify(clients);
-    await AsyncStorage.setItem(CLIENTS_KEY, jsonValue);
+    await clientsRepository.replaceAll(clients);
     logService.info('CLIENT_SERVICE', 'Clients collection replaced successfully');
   } catch (error) {
     logService.logError('CLIENT_SERVICE', error as Error, { operation: 'setClients' });
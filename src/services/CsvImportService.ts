@@ -0,0 +1,352 @@
+import { Client, Job } from '../types';
+import { logService } from './LoggingService';
+import { clientsRepository, jobsRepository } from './Repository';
+import { runInTransaction } from './UnitOfWork';
+import { JOB_STATUSES } from './JobLifecycle';
+
+export type CsvImportTarget = 'clients' | 'jobs';
+
+export const CLIENT_IMPORT_FIELDS = ['fullName', 'phoneNumber', 'emailAddress', 'address'] as const;
+export const JOB_IMPORT_FIELDS = [
+  'jobName',
+  'clientName',
+  'quote',
+  'quoteDate',
+  'startDate',
+  'status',
+] as const;
+
+export type ClientImportField = (typeof CLIENT_IMPORT_FIELDS)[number];
+export type JobImportField = (typeof JOB_IMPORT_FIELDS)[number];
+export type ImportField = ClientImportField | JobImportField;
+
+// Field -> index of the CSV column it is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const REQUIRED_IMPORT_FIELDS: Record<CsvImportTarget, ImportField[]> = {
+  clients: ['fullName'],
+  jobs: ['jobName', 'clientName'],
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  fullName: 'Full Name',
+  phoneNumber: 'Phone Number',
+  emailAddress: 'Email Address',
+  address: 'Address',
+  jobName: 'Job Name',
+  clientName: 'Client (by name)',
+  quote: 'Quote',
+  quoteDate: 'Quote Date',
+  startDate: 'Start Date',
+  status: 'Status',
+};
+
+// Header spellings commonly found in spreadsheets, compared after normalizeHeader
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  fullName: ['fullname', 'name', 'client', 'clientname', 'customer', 'customername', 'contact'],
+  phoneNumber: ['phonenumber', 'phone', 'mobile', 'cell', 'tel', 'telephone'],
+  emailAddress: ['emailaddress', 'email', 'mail'],
+  address: ['address', 'street', 'location', 'streetaddress'],
+  jobName: ['jobname', 'job', 'title', 'project', 'projectname'],
+  clientName: ['clientname', 'client', 'customer', 'customername', 'name'],
+  quote: ['quote', 'price', 'amount', 'pay', 'total', 'estimate'],
+  quoteDate: ['quotedate', 'quoted', 'estimatedate'],
+  startDate: ['startdate', 'start', 'date', 'scheduled', 'jobdate'],
+  status: ['status', 'stage', 'state'],
+};
+
+
+export interface CsvRowError {
+  // 1-based spreadsheet row, counting the header as row 1
+  row: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface CsvImportReport {
+  target: CsvImportTarget;
+  totalRows: number;
+  validRows: number;
+  errors: CsvRowError[];
+  warnings: CsvRowError[];
+  clientsToCreate: Client[];
+  jobsToCreate: Job[];
+}
+
+/**
+ * RFC 4180 style parser: quoted fields may contain commas, newlines and
+ * doubled quotes. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const fieldsFor = (target: CsvImportTarget): readonly ImportField[] =>
+  target === 'clients' ? CLIENT_IMPORT_FIELDS : JOB_IMPORT_FIELDS;
+
+// Best-effort mapping from header names; each column is used at most once
+export const guessColumnMapping = (target: CsvImportTarget, headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  fieldsFor(target).forEach((field) => {
+    const index = HEADER_SYNONYMS[field]
+      .map((synonym) => normalized.findIndex((header, i) => header === synonym && !used.has(i)))
+      .find((i) => i >= 0);
+    if (index !== undefined) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Accepts YYYY-MM-DD and M/D/YYYY (the common spreadsheet export) and returns
+ * YYYY-MM-DD, or null when the value is not a real calendar date.
+ */
+export const normalizeImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const normalizeImportStatus = (value: string): Job['status'] | null => {
+  const key = normalizeHeader(value);
+  return JOB_STATUSES.find((status) => normalizeHeader(status) === key) || null;
+};
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+/**
+ * Validates every data row against the mapping without writing anything.
+ * `rows` includes the header row. Job rows naming an unknown client queue
+ * that client for creation (reported as a warning).
+ */
+export const dryRunCsvImport = (
+  target: CsvImportTarget,
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingClients: Client[]
+): CsvImportReport => {
+  const dataRows = rows.slice(1);
+  const errors: CsvRowError[] = [];
+  const warnings: CsvRowError[] = [];
+  const clientsToCreate: Client[] = [];
+  const jobsToCreate: Job[] = [];
+  const clientsByName = new Map(existingClients.map((client) => [nameKey(client.fullName), client]));
+  const createdAt = new Date().toISOString();
+  const idPrefix = Date.now();
+  let validRows = 0;
+
+  REQUIRED_IMPORT_FIELDS[target].forEach((field) => {
+    if (mapping[field] === undefined) {
+      errors.push({ row: 1, field, message: `${IMPORT_FIELD_LABELS[field]} column is not mapped` });
+    }
+  });
+  if (errors.length > 0) {
+    return { target, totalRows: dataRows.length, validRows: 0, errors, warnings, clientsToCreate, jobsToCreate };
+  }
+
+  const read = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const newClient = (fullName: string, rowNumber: number, values: Partial<Client> = {}): Client => ({
+    id: `client_${idPrefix}_${rowNumber}`,
+    fullName,
+    address: values.address ?? '',
+    phoneNumber: values.phoneNumber ?? '',
+    emailAddress: values.emailAddress ?? '',
+    createdDate: createdAt,
+  });
+
+  dataRows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const rowErrors: CsvRowError[] = [];
+    const fail = (field: ImportField, message: string) => rowErrors.push({ row: rowNumber, field, message });
+
+    if (target === 'clients') {
+      const fullName = read(row, 'fullName');
+      const emailAddress = read(row, 'emailAddress');
+      if (!fullName) {
+        fail('fullName', 'Name is required');
+      } else if (clientsByName.has(nameKey(fullName))) {
+        fail('fullName', `Duplicate client "${fullName}"`);
+      }
+      if (emailAddress && !/^\S+@\S+\.\S+$/.test(emailAddress)) {
+        fail('emailAddress', `Invalid email "${emailAddress}"`);
+      }
+
+      if (rowErrors.length === 0) {
+        const client = newClient(fullName, rowNumber, {
+          emailAddress,
+          phoneNumber: read(row, 'phoneNumber'),
+          address: read(row, 'address'),
+        });
+        clientsByName.set(nameKey(fullName), client);
+        clientsToCreate.push(client);
+      }
+    } else {
+      const jobName = read(row, 'jobName');
+      const clientName = read(row, 'clientName');
+      const rawQuote = read(row, 'quote');
+      const rawStatus = read(row, 'status');
+      const quote = rawQuote ? Number(rawQuote.replace(/[$,\s]/g, '')) : 0;
+      const status = rawStatus ? normalizeImportStatus(rawStatus) : 'Quoted';
+
+      if (!jobName) fail('jobName', 'Job name is required');
+      if (!clientName) fail('clientName', 'Client name is required');
+      if (isNaN(quote) || quote < 0) fail('quote', `Invalid quote "${rawQuote}"`);
+      if (!status) fail('status', `Unknown status "${rawStatus}"`);
+
+      const dates: Partial<Record<'quoteDate' | 'startDate', string>> = {};
+      (['quoteDate', 'startDate'] as const).forEach((field) => {
+        const raw = read(row, field);
+        if (!raw) return;
+        const normalized = normalizeImportDate(raw);
+        if (normalized) {
+          dates[field] = normalized;
+        } else {
+          fail(field, `Invalid date "${raw}"`);
+        }
+      });
+
+      if (rowErrors.length === 0) {
+        let client = clientsByName.get(nameKey(clientName));
+        if (!client) {
+          client = newClient(clientName, rowNumber);
+          clientsByName.set(nameKey(clientName), client);
+          clientsToCreate.push(client);
+          warnings.push({
+            row: rowNumber,
+            field: 'clientName',
+            message: `New client "${clientName}" will be created`,
+          });
+        }
+
+        const startDate = dates.startDate || dates.quoteDate || today();
+        jobsToCreate.push({
+          id: `job_${idPrefix}_${rowNumber}`,
+          jobName,
+          description: '',
+          clientId: client.id,
+          clientName: client.fullName,
+          quote,
+          quoteDate: dates.quoteDate || startDate,
+          startDate,
+          endDate: startDate,
+          status: status!,
+          expenses: [],
+        });
+      }
+    }
+
+    if (rowErrors.length === 0) {
+      validRows += 1;
+    } else {
+      errors.push(...rowErrors);
+    }
+  });
+
+  return { target, totalRows: dataRows.length, validRows, errors, warnings, clientsToCreate, jobsToCreate };
+};
+
+/**
+ * Writes a clean dry-run report through ClientService/StorageService. Both
+ * collections are written from one snapshot; if the second write fails the
+ * first is restored, so an import lands completely or not at all.
+ */
+export const commitCsvImport = async (report: CsvImportReport): Promise<void> => {
+  if (report.errors.length > 0) {
+    throw new Error('Fix the reported CSV errors before importing');
+  }
+
+  // One transaction, so a failed job write also undoes the new clients
+  const { newClients, newJobs } = await runInTransaction(`csvImport:${report.target}`, async (uow) => {
+    const clients = await uow.getClients();
+    const jobs = await uow.getJobs();
+    const clientIds = new Set(clients.map((client) => client.id));
+    const jobIds = new Set(jobs.map((job) => job.id));
+    const created = {
+      newClients: report.clientsToCreate.filter((client) => !clientIds.has(client.id)),
+      newJobs: report.jobsToCreate.filter((job) => !jobIds.has(job.id)),
+    };
+    await uow.replaceAll(clientsRepository, [...clients, ...created.newClients]);
+    await uow.replaceAll(jobsRepository, [...jobs, ...created.newJobs]);
+    return created;
+  });
+
+  logService.logUserAction('csv_import_committed', {
+    target: report.target,
+    clientsCreated: newClients.length,
+    jobsCreated: newJobs.length,
+  });
+};
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logService } from './LoggingService';
+import {
+  MIGRATION_BACKUP_KEY,
+  MIGRATION_CONFLICTS_KEY,
+  clientsRepository,
+  jobsRepository,
+  trashRepository,
+} from './Repository';
+import { SYNC_STATE_KEY } from './SyncService';
+import { OUTBOX_KEY } from './OutboxService';
+import {
+  addEncryptionKey,
+  decryptString,
+  encryptString,
+  isEncrypted,
+  isEncryptionReady,
+  retireKeys,
+} from './EncryptionService';
+
+const ENCRYPTION_MIGRATION_FLAG_KEY = 'encryption_migration_v1';
+
+// redux-persist stores the root reducer under `persist:<config key>` (see store.ts)
+export const PERSISTED_STATE_KEY = 'persist:root';
+
+// Reads each collection with encrypted fields and writes it back, which
+// encrypts under the active key (see the codecs in EncryptionService)
+export const reencryptCollections = async (): Promise<void> => {
+  await clientsRepository.replaceAll(await clientsRepository.getAll());
+  await jobsRepository.replaceAll(await jobsRepository.getAll());
+  await trashRepository.replaceAll(await trashRepository.getAll());
+};
+
+// Keys stored as one encrypted string each: the leftovers of the legacy
+// repository merge, the sync state and the write outbox
+const ENCRYPTED_VALUE_KEYS = [MIGRATION_BACKUP_KEY, MIGRATION_CONFLICTS_KEY, SYNC_STATE_KEY, OUTBOX_KEY];
+
+export const reencryptStoredValues = async (): Promise<void> => {
+  for (const key of ENCRYPTED_VALUE_KEYS) {
+    const stored = await AsyncStorage.getItem(key);
+    if (stored) await AsyncStorage.setItem(key, encryptString(decryptString(stored)));
+  }
+};
+
+/**
+ * Re-encrypts each slice in the redux-persist blob with the active key.
+ * Slices written before encryption was enabled are stored as plain objects
+ * and are encrypted here too.
+ */
+export const reencryptPersistedState = async (storageKey = PERSISTED_STATE_KEY): Promise<void> => {
+  const raw = await AsyncStorage.getItem(storageKey);
+  if (!raw) return;
+
+  const persisted: Record<string, string> = JSON.parse(raw);
+  for (const [key, serialized] of Object.entries(persisted)) {
+    if (key === '_persist') continue;
+    const value = JSON.parse(serialized);
+    const plaintext = isEncrypted(value) ? decryptString(value) : JSON.stringify(value);
+    persisted[key] = JSON.stringify(encryptString(plaintext));
+  }
+  await AsyncStorage.setItem(storageKey, JSON.stringify(persisted));
+};
+
+/**
+ * One-time pass that encrypts client and payment fields stored before
+ * encryption existed. Runs once the storage backend is settled; does nothing
+ * if the device key could not be loaded, so plaintext is never flagged as done.
+ */
+export const migrateToEncryptedStorage = async (): Promise<void> => {
+  if (!isEncryptionReady()) return;
+  try {
+    if (await AsyncStorage.getItem(ENCRYPTION_MIGRATION_FLAG_KEY)) return;
+    await reencryptCollections();
+    await reencryptPersistedState();
+    await reencryptStoredValues();
+    await AsyncStorage.setItem(ENCRYPTION_MIGRATION_FLAG_KEY, new Date().toISOString());
+    logService.info('ENCRYPTION', 'Encrypted existing client and payment data');
+  } catch (error) {
+    logService.logError('ENCRYPTION', error as Error, { operation: 'migrateToEncryptedStorage' });
+  }
+};
+
+/**
+ * Switches to a new device key and re-encrypts everything with it. The old
+ * keys are only dropped after every write succeeded, so a failure part way
+ * through leaves all data readable.
+ */
+export const rotateEncryptionKey = async (): Promise<void> => {
+  try {
+    const previousKeyIds = await addEncryptionKey();
+    await reencryptCollections();
+    await reencryptPersistedState();
+    await reencryptStoredValues();
+    await retireKeys(previousKeyIds);
+    logService.logUserAction('encryption_key_rotated', { retired: previousKeyIds.length });
+  } catch (error) {
+    logService.logError('ENCRYPTION', error as Error, { operation: 'rotateEncryptionKey' });
+    throw error;
+  }
+};
@@ -0,0 +1,221 @@
+import CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { Client, Job, TrashEntry } from '../types';
+import { logService } from './LoggingService';
+
+// Where the device-held keys live. Production uses the platform keychain.
+export interface KeyStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  deleteItem(key: string): Promise<void>;
+}
+
+export class SecureKeyStore implements KeyStore {
+  getItem(key: string) {
+    return SecureStore.getItemAsync(key);
+  }
+
+  setItem(key: string, value: string) {
+    return SecureStore.setItemAsync(key, value);
+  }
+
+  deleteItem(key: string) {
+    return SecureStore.deleteItemAsync(key);
+  }
+}
+
+export class InMemoryKeyStore implements KeyStore {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  async deleteItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+let keyStore: KeyStore = new SecureKeyStore();
+
+export const getKeyStore = (): KeyStore => keyStore;
+
+// Swaps the key store and forgets the loaded keys (used by tests)
+export const setKeyStore = (store: KeyStore): void => {
+  keyStore = store;
+  keyring = null;
+};
+
+const KEYRING_KEY = 'oyhustle_encryption_keyring';
+const CIPHER_PREFIX = 'enc:1:';
+
+// Every key that may still be needed to decrypt, plus the one used to encrypt
+interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>; // id -> 256-bit key as hex
+}
+
+let keyring: Keyring | null = null;
+
+const randomHex = (bytes: number) =>
+  Array.from(Crypto.getRandomBytes(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const newKeyId = () => randomHex(4);
+
+// Separate keys for the cipher and the MAC, both derived from the stored key
+const deriveKeys = (hexKey: string) => {
+  const master = CryptoJS.enc.Hex.parse(hexKey);
+  return {
+    cipherKey: CryptoJS.HmacSHA256('oyhustle-encryption', master),
+    macKey: CryptoJS.HmacSHA256('oyhustle-authentication', master),
+  };
+};
+
+const saveKeyring = async (next: Keyring) => {
+  await keyStore.setItem(KEYRING_KEY, JSON.stringify(next));
+  keyring = next;
+};
+
+/**
+ * Loads the keyring from the key store, creating the first key on a fresh
+ * install. Must finish before persisted state or repositories are read.
+ */
+export const initializeEncryption = async (): Promise<void> => {
+  const stored = await keyStore.getItem(KEYRING_KEY);
+  if (stored) {
+    keyring = JSON.parse(stored);
+    return;
+  }
+  const id = newKeyId();
+  await saveKeyring({ activeKeyId: id, keys: { [id]: randomHex(32) } });
+  logService.info('ENCRYPTION', 'Created device encryption key', { keyId: id });
+};
+
+export const isEncryptionReady = (): boolean => keyring !== null;
+
+export const getActiveKeyId = (): string | null => keyring?.activeKeyId ?? null;
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(CIPHER_PREFIX);
+
+let warnedNotReady = false;
+
+/**
+ * AES-256-CBC with an HMAC-SHA256 over the key id, IV and ciphertext.
+ * Until initializeEncryption has run, values pass through unchanged.
+ */
+export const encryptString = (plaintext: string): string => {
+  if (!keyring) {
+    if (!warnedNotReady) {
+      warnedNotReady = true;
+      logService.warn('ENCRYPTION', 'Encryption key not loaded; writing plaintext');
+    }
+    return plaintext;
+  }
+  const keyId = keyring.activeKeyId;
+  const { cipherKey, macKey } = deriveKeys(keyring.keys[keyId]);
+  const iv = randomHex(16);
+  const ciphertext = CryptoJS.AES.encrypt(plaintext, cipherKey, { iv: CryptoJS.enc.Hex.parse(iv) }).ciphertext.toString(
+    CryptoJS.enc.Base64
+  );
+  const mac = CryptoJS.HmacSHA256(`${keyId}:${iv}:${ciphertext}`, macKey).toString();
+  return `${CIPHER_PREFIX}${keyId}:${iv}:${ciphertext}:${mac}`;
+};
+
+// Plaintext written before encryption was enabled is returned as is
+export const decryptString = (value: string): string => {
+  if (!isEncrypted(value)) return value;
+  const [keyId, iv, ciphertext, mac] = value.slice(CIPHER_PREFIX.length).split(':');
+  const hexKey = keyring?.keys[keyId];
+  if (!hexKey) {
+    throw new Error(`Encryption key ${keyId} is not available on this device`);
+  }
+  const { cipherKey, macKey } = deriveKeys(hexKey);
+  if (CryptoJS.HmacSHA256(`${keyId}:${iv}:${ciphertext}`, macKey).toString() !== mac) {
+    throw new Error('Encrypted value failed its integrity check');
+  }
+  return CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(ciphertext) }),
+    cipherKey,
+    { iv: CryptoJS.enc.Hex.parse(iv) }
+  ).toString(CryptoJS.enc.Utf8);
+};
+
+/**
+ * Adds a new active key. Older keys stay in the keyring so existing data can
+ * still be read; call retireKeys once everything has been re-encrypted.
+ * Resolves the ids of the keys that were replaced.
+ */
+export const addEncryptionKey = async (): Promise<string[]> => {
+  if (!keyring) {
+    throw new Error('Encryption has not been initialized');
+  }
+  const previous = Object.keys(keyring.keys);
+  const id = newKeyId();
+  await saveKeyring({ activeKeyId: id, keys: { ...keyring.keys, [id]: randomHex(32) } });
+  logService.info('ENCRYPTION', 'Added encryption key', { keyId: id });
+  return previous;
+};
+
+export const retireKeys = async (keyIds: string[]): Promise<void> => {
+  if (!keyring) return;
+  const keys = { ...keyring.keys };
+  for (const id of keyIds) {
+    if (id !== keyring.activeKeyId) delete keys[id];
+  }
+  await saveKeyring({ ...keyring, keys });
+  logService.info('ENCRYPTION', 'Retired encryption keys', { keyIds });
+};
+
+// Empty and missing values are left alone
+const encryptOptional = <V extends string | undefined>(value: V): V => (value ? encryptString(value) : value) as V;
+const decryptOptional = <V extends string | undefined>(value: V): V => (value ? decryptString(value) : value) as V;
+
+// Field-level codecs for the repositories (see CollectionRepository)
+export interface RecordCodec<T> {
+  encode(item: T): T;
+  decode(item: T): T;
+}
+
+const mapClientFields = (client: Client, map: <V extends string | undefined>(value: V) => V): Client => ({
+  ...client,
+  phoneNumber: map(client.phoneNumber),
+  emailAddress: map(client.emailAddress),
+  address: map(client.address),
+});
+
+const mapPaymentFields = (job: Job, map: <V extends string | undefined>(value: V) => V): Job =>
+  job.payments
+    ? { ...job, payments: job.payments.map((payment) => ({ ...payment, transactionId: map(payment.transactionId) })) }
+    : job;
+
+export const clientCodec: RecordCodec<Client> = {
+  encode: (client) => mapClientFields(client, encryptOptional),
+  decode: (client) => mapClientFields(client, decryptOptional),
+};
+
+export const jobCodec: RecordCodec<Job> = {
+  encode: (job) => mapPaymentFields(job, encryptOptional),
+  decode: (job) => mapPaymentFields(job, decryptOptional),
+};
+
+// Trash entries hold whole clients and jobs, so their fields are protected too
+export const trashCodec: RecordCodec<TrashEntry> = {
+  encode: (entry) =>
+    entry.type === 'client'
+      ? { ...entry, record: clientCodec.encode(entry.record as Client) }
+      : entry.type === 'job'
+        ? { ...entry, record: jobCodec.encode(entry.record as Job) }
+        : entry,
+  decode: (entry) =>
+    entry.type === 'client'
+      ? { ...entry, record: clientCodec.decode(entry.record as Client) }
+      : entry.type === 'job'
+        ? { ...entry, record: jobCodec.decode(entry.record as Job) }
+        : entry,
+};
@@ -0,0 +1,80 @@
+import {
+  FetchLike,
+  PullResponse,
+  PushRequest,
+  PushResponse,
+  ServerRecord,
+  SyncTransport,
+} from './SyncTransport';
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * In-process stand-in for the sync server, used by tests. Follows the same protocol as HttpSyncTransport, and
+ * `fetch` serves that protocol so the HTTP client can run against it offline.
+ */
+export class FakeSyncServer implements SyncTransport {
+  private readonly records = new Map<string, ServerRecord>();
+  private sequence = 0;
+  // Set to simulate losing the connection
+  offline = false;
+
+  async push({ deviceId, changes }: PushRequest): Promise<PushResponse> {
+    this.assertOnline();
+    const accepted: ServerRecord[] = [];
+    const rejected: ServerRecord[] = [];
+
+    for (const change of changes) {
+      const key = `${change.collection}:${change.id}`;
+      const current = this.records.get(key);
+      if (current && current.version !== change.baseVersion) {
+        rejected.push(copy(current));
+        continue;
+      }
+      const stored: ServerRecord = {
+        collection: change.collection,
+        id: change.id,
+        version: ++this.sequence,
+        record: copy(change.record),
+        updatedAt: change.updatedAt,
+        deviceId,
+      };
+      this.records.set(key, stored);
+      accepted.push(copy(stored));
+    }
+    return { accepted, rejected };
+  }
+
+  async pull(since: number): Promise<PullResponse> {
+    this.assertOnline();
+    const records = [...this.records.values()]
+      .filter((record) => record.version > since)
+      .sort((a, b) => a.version - b.version);
+    return { records: copy(records), cursor: this.sequence };
+  }
+
+  readonly fetch: FetchLike = async (url, init) => {
+    const respond = (status: number, body: unknown) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+    });
+    if (this.offline) return respond(503, { error: 'offline' });
+
+    const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '');
+    if (init?.method === 'POST' && path.endsWith('/sync/push')) {
+      return respond(200, await this.push(JSON.parse(init.body ?? '{}')));
+    }
+    const pull = path.match(/\/sync\/pull\?since=(\d+)$/);
+    if ((init?.method ?? 'GET') === 'GET' && pull) {
+      return respond(200, await this.pull(Number(pull[1])));
+    }
+    return respond(404, { error: `No route for ${path}` });
+  };
+
+  private assertOnline() {
+    if (this.offline) {
+      throw new Error('Sync server is unreachable');
+    }
+  }
+}
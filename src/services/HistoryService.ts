@@ -0,0 +1,170 @@
+import { Client, Job, TrashEntry } from '../types';
+import { logService } from './LoggingService';
+import { UnitOfWork, runInTransaction } from './UnitOfWork';
+
+export type HistoryCollection = 'jobs' | 'clients' | 'trash';
+
+type HistoryRecord = Job | Client | TrashEntry;
+
+// One record before and after an action; null means the record did not exist
+export interface RecordChange {
+  collection: HistoryCollection;
+  id: string;
+  before: HistoryRecord | null;
+  after: HistoryRecord | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  recordedAt: string;
+  changes: RecordChange[];
+  // Destructive actions offer an Undo snackbar right away
+  showUndo?: boolean;
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Repeated edits to the same records within this window collapse into one step
+export const HISTORY_COALESCE_WINDOW_MS = 5000;
+
+export const recordChange = <T extends HistoryRecord>(
+  collection: HistoryCollection,
+  before: T | null | undefined,
+  after: T | null | undefined
+): RecordChange => ({
+  collection,
+  id: (after || before)!.id,
+  before: before ?? null,
+  after: after ?? null,
+});
+
+// Key order differs between storage backends, so compare with sorted keys
+export const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, key) => {
+            sorted[key] = v[key];
+            return sorted;
+          }, {})
+      : v
+  );
+
+const isNoOp = (change: RecordChange) => canonicalJson(change.before) === canonicalJson(change.after);
+
+const recordKeys = (entry: HistoryEntry) =>
+  entry.changes
+    .map((change) => `${change.collection}:${change.id}`)
+    .sort()
+    .join('|');
+
+// Only plain edits are folded together; creates and deletes stay separate steps
+const isEditOnly = (entry: HistoryEntry) => entry.changes.every((change) => change.before && change.after);
+
+// Keeps the earliest `before` and the latest `after` for each record
+const mergeEntries = (older: HistoryEntry, newer: HistoryEntry): HistoryEntry => ({
+  ...newer,
+  changes: newer.changes.map((change) => {
+    const previous = older.changes.find((c) => c.collection === change.collection && c.id === change.id);
+    return previous ? { ...change, before: previous.before } : change;
+  }),
+});
+
+/**
+ * Appends `entry` to the undo stack. No-op changes are dropped, a follow-up
+ * edit to the same records within the coalesce window is folded into the
+ * previous step (and dropped if it cancels it out), and the stack is capped
+ * at MAX_HISTORY_ENTRIES by discarding the oldest steps.
+ */
+export const compactHistory = (past: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  let next: HistoryEntry = { ...entry, changes: entry.changes.filter((change) => !isNoOp(change)) };
+  if (next.changes.length === 0) return past;
+
+  let stack = past;
+  const last = past[past.length - 1];
+  if (
+    last &&
+    isEditOnly(last) &&
+    isEditOnly(next) &&
+    recordKeys(last) === recordKeys(next) &&
+    Date.parse(next.recordedAt) - Date.parse(last.recordedAt) <= HISTORY_COALESCE_WINDOW_MS
+  ) {
+    const merged = mergeEntries(last, next);
+    next = { ...merged, changes: merged.changes.filter((change) => !isNoOp(change)) };
+    stack = past.slice(0, -1);
+    if (next.changes.length === 0) return stack;
+  }
+
+  return [...stack, next].slice(-MAX_HISTORY_ENTRIES);
+};
+
+// Applies the undo/redo side of each change to an in-memory collection
+export const applyChangesToList = <T extends { id: string }>(
+  list: T[],
+  changes: RecordChange[],
+  collection: HistoryCollection,
+  direction: HistoryDirection
+): T[] =>
+  changes
+    .filter((change) => change.collection === collection)
+    .reduce((current, change) => {
+      const target = (direction === 'undo' ? change.before : change.after) as T | null;
+      const without = current.filter((item) => item.id !== change.id);
+      if (!target) return without;
+      return current.some((item) => item.id === change.id)
+        ? current.map((item) => (item.id === change.id ? target : item))
+        : [...without, target];
+    }, list);
+
+const applyChange = async (uow: UnitOfWork, change: RecordChange, direction: HistoryDirection) => {
+  const target = direction === 'undo' ? change.before : change.after;
+  if (change.collection === 'jobs') {
+    const exists = await uow.getJob(change.id);
+    if (!target) {
+      if (exists) await uow.removeJob(change.id);
+    } else if (exists) {
+      await uow.updateJob(target as Job);
+    } else {
+      await uow.putJob(target as Job);
+    }
+  } else if (change.collection === 'clients') {
+    const exists = await uow.getClient(change.id);
+    if (!target) {
+      if (exists) await uow.removeClient(change.id);
+    } else if (exists) {
+      await uow.updateClient(target as Client);
+    } else {
+      await uow.putClient(target as Client);
+    }
+  } else {
+    const exists = (await uow.getTrash()).some((entry) => entry.id === change.id);
+    if (!target) {
+      if (exists) await uow.removeTrashEntry(change.id);
+    } else {
+      await uow.putTrashEntry(target as TrashEntry);
+    }
+  }
+};
+
+// Writes the undo/redo side of a history entry back to storage in one transaction
+export const applyHistoryEntry = async (entry: HistoryEntry, direction: HistoryDirection): Promise<void> => {
+  try {
+    await runInTransaction(`${direction}:${entry.label}`, async (uow) => {
+      const ordered = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+      for (const change of ordered) {
+        await applyChange(uow, change, direction);
+      }
+    });
+    logService.logUserAction(direction === 'undo' ? 'history_undo' : 'history_redo', {
+      label: entry.label,
+      changes: entry.changes.length,
+    });
+  } catch (error) {
+    logService.logError('HISTORY', error as Error, { operation: direction, label: entry.label });
+    throw error;
+  }
+};
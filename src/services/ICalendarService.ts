@@ -0,0 +1,519 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { Client, Job, Visit } from '../types';
+import { logService } from './LoggingService';
+import { clientsRepository, jobsRepository } from './Repository';
+import { setClients } from './ClientService';
+import { setJobs } from './StorageService';
+import { addDays, expandRule, localDay, parseRRule } from './Recurrence';
+import { SERIES_HORIZON_DAYS } from './JobSeriesService';
+import { normalizeWorkers, sortVisits } from './VisitScheduling';
+
+// iCalendar (RFC 5545) files, so jobs can be put on any calendar app and
+// events from one can be brought in as draft jobs. Jobs are all-day events
+// and visits are timed events in floating (device) time.
+
+export const ICS_PRODID = '-//OYHustle//Job Scheduler//EN';
+
+const UID_DOMAIN = 'oyhustle.app';
+
+// UIDs never change for a job or visit, so importing a newer export updates the event instead of adding another
+export const jobEventUid = (jobId: string) => `${jobId}@${UID_DOMAIN}`;
+export const visitEventUid = (jobId: string, visitId: string) => `${jobId}.${visitId}@${UID_DOMAIN}`;
+
+export interface IcsExportOptions {
+  // Inclusive YYYY-MM-DD bounds; jobs overlapping the range are exported
+  from?: string;
+  to?: string;
+  now?: Date;
+}
+
+// A VEVENT read from a file, with dates as calendar days in the device's time zone
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  contact: string;
+  startDate: string;
+  endDate: string; // Inclusive
+  startTime?: string; // HH:MM, absent for all-day events
+  endTime?: string;
+  status?: string;
+  rrule?: string;
+  exdates: string[];
+  recurrenceId?: string; // Set on a changed occurrence of a repeating event
+  relatedTo?: string;
+}
+
+export interface IcsSkippedEvent {
+  uid: string;
+  summary: string;
+  reason: string;
+}
+
+export interface IcsImportPlan {
+  totalEvents: number;
+  jobsToCreate: Job[];
+  clientsToCreate: Client[];
+  skipped: IcsSkippedEvent[];
+  warnings: string[];
+}
+
+const compactDate = (day: string) => day.replace(/-/g, '');
+
+const compactTime = (time: string) => `${time.replace(':', '')}00`;
+
+const utcStamp = (at: Date) => at.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeIcsText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space, never splitting a character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const dayOf = (value: string) => value.slice(0, 10);
+
+const inRange = (first: string, last: string, { from, to }: IcsExportOptions) =>
+  (!from || last >= from) && (!to || first <= to);
+
+const jobStatusFor = (job: Job) =>
+  job.status === 'Cancelled' ? 'CANCELLED' : job.status === 'Quoted' ? 'TENTATIVE' : 'CONFIRMED';
+
+const visitDescription = (visit: Visit) =>
+  [visit.workers.length > 0 ? `Crew: ${visit.workers.join(', ')}` : '', visit.notes ?? ''].filter(Boolean).join('\n');
+
+/**
+ * Builds a VCALENDAR with an all-day event per job and a timed event per
+ * visit. Cancelled jobs and visits are kept as CANCELLED so calendars that
+ * imported them before drop them.
+ */
+export const buildICalendar = (jobs: Job[], clients: Client[], options: IcsExportOptions = {}): string => {
+  const stamp = utcStamp(options.now ?? new Date());
+  const clientsById = new Map(clients.map((client) => [client.id, client]));
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  const text = (name: string, value: string | undefined) => {
+    if (value) lines.push(`${name}:${escapeIcsText(value)}`);
+  };
+
+  jobs.forEach((job) => {
+    const startDate = dayOf(job.startDate);
+    const endDate = job.endDate && dayOf(job.endDate) > startDate ? dayOf(job.endDate) : startDate;
+    const location = clientsById.get(job.clientId)?.address;
+    if (inRange(startDate, endDate, options)) {
+      lines.push('BEGIN:VEVENT', `UID:${jobEventUid(job.id)}`, `DTSTAMP:${stamp}`, `LAST-MODIFIED:${stamp}`);
+      // All-day events end on the day after the last one
+      lines.push(`DTSTART;VALUE=DATE:${compactDate(startDate)}`, `DTEND;VALUE=DATE:${compactDate(addDays(endDate, 1))}`);
+      text('SUMMARY', job.jobName);
+      text('DESCRIPTION', job.description);
+      text('LOCATION', location);
+      text('CONTACT', job.clientName);
+      lines.push(`STATUS:${jobStatusFor(job)}`, 'TRANSP:TRANSPARENT', 'END:VEVENT');
+    }
+
+    (job.visits || [])
+      .filter((visit) => inRange(visit.date, visit.date, options))
+      .forEach((visit) => {
+        lines.push('BEGIN:VEVENT', `UID:${visitEventUid(job.id, visit.id)}`, `DTSTAMP:${stamp}`, `LAST-MODIFIED:${stamp}`);
+        lines.push(
+          `DTSTART:${compactDate(visit.date)}T${compactTime(visit.startTime)}`,
+          `DTEND:${compactDate(visit.date)}T${compactTime(visit.endTime)}`
+        );
+        text('SUMMARY', `${job.jobName} (visit)`);
+        text('DESCRIPTION', visitDescription(visit));
+        text('LOCATION', location);
+        text('CONTACT', job.clientName);
+        const cancelled = visit.status === 'Cancelled' || job.status === 'Cancelled';
+        lines.push(`STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`, `RELATED-TO:${jobEventUid(job.id)}`, 'END:VEVENT');
+      });
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+interface IcsProperty {
+  name: string;
+  value: string;
+}
+
+// Splits NAME;PARAM=value;PARAM="quoted:value":VALUE at the first colon outside quotes.
+// Parameters are dropped: times with a TZID are taken as written.
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      return { name: line.slice(0, i).split(';')[0].toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+  return null;
+};
+
+interface IcsMoment {
+  date: string;
+  time?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// DATE values are days; DATE-TIME values in UTC are moved to the device's time zone, others are taken as written
+const parseMoment = (value: string): IcsMoment | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour) return { date: `${year}-${month}-${day}` };
+  if (utc) {
+    const at = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    return { date: localDay(at), time: `${pad(at.getHours())}:${pad(at.getMinutes())}` };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+};
+
+/**
+ * Reads the VEVENTs of an iCalendar file. Throws with a user-facing message
+ * when the file is not a calendar; events without a usable start are left out.
+ */
+export const parseICalendar = (contents: string): IcsEvent[] => {
+  const lines = contents.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('File is not an iCalendar (.ics) file');
+  }
+
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0;
+  lines.forEach((line) => {
+    const property = parseProperty(line.trimEnd());
+    if (!property) return;
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (current && property.name === 'BEGIN') {
+      // Alarms and other nested components have properties of their own
+      depth += 1;
+    } else if (current && property.name === 'END' && depth > 0) {
+      depth -= 1;
+    } else if (current && property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const event = toEvent(current);
+      if (event) events.push(event);
+      current = null;
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  });
+  return events;
+};
+
+const toEvent = (properties: IcsProperty[]): IcsEvent | null => {
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const text = (name: string) => unescapeIcsText(find(name)?.value ?? '').trim();
+
+  const start = find('DTSTART') && parseMoment(find('DTSTART')!.value);
+  if (!start) return null;
+  const end = find('DTEND') && parseMoment(find('DTEND')!.value);
+
+  let endDate = start.date;
+  if (end) {
+    // An all-day DTEND, or a timed one at midnight, is the day after the event
+    endDate = !end.time || (end.time === '00:00' && end.date > start.date) ? addDays(end.date, -1) : end.date;
+  }
+  if (endDate < start.date) endDate = start.date;
+
+  const exdates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) => property.value.split(','))
+    .map(parseMoment)
+    .filter((moment): moment is IcsMoment => moment !== null)
+    .map((moment) => moment.date);
+
+  const recurrenceId = find('RECURRENCE-ID') && parseMoment(find('RECURRENCE-ID')!.value);
+
+  return {
+    uid: text('UID'),
+    summary: text('SUMMARY'),
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    contact: text('CONTACT'),
+    startDate: start.date,
+    endDate,
+    ...(start.time && { startTime: start.time }),
+    ...(start.time && end?.time && end.date === start.date && { endTime: end.time }),
+    ...(find('STATUS') && { status: text('STATUS').toUpperCase() }),
+    ...(find('RRULE') && { rrule: find('RRULE')!.value.trim() }),
+    exdates,
+    ...(recurrenceId && { recurrenceId: recurrenceId.date }),
+    ...(find('RELATED-TO') && { relatedTo: text('RELATED-TO') }),
+  };
+};
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// A short stable id for events made by other calendar apps, so importing the same file twice adds nothing
+const uidHash = (uid: string) => {
+  let hash = 5381;
+  for (let i = 0; i < uid.length; i++) {
+    hash = ((hash << 5) + hash + uid.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+const ownJobId = (uid: string) => {
+  const suffix = `@${UID_DOMAIN}`;
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) : null;
+};
+
+const importedJobId = (uid: string) => ownJobId(uid) ?? `job_ics_${uidHash(uid)}`;
+
+const toVisit = (event: IcsEvent, jobId: string): Visit | null => {
+  if (!event.startTime || !event.endTime || event.endTime <= event.startTime) return null;
+  const own = ownJobId(event.uid);
+  const [crewLine, ...noteLines] = event.description.split('\n');
+  const hasCrew = crewLine?.startsWith('Crew: ');
+  const notes = (hasCrew ? noteLines : [crewLine, ...noteLines]).join('\n').trim();
+  return {
+    id: own?.startsWith(`${jobId}.`) ? own.slice(jobId.length + 1) : `visit_ics_${uidHash(event.uid)}`,
+    date: event.startDate,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    workers: hasCrew ? normalizeWorkers(crewLine.slice('Crew: '.length).split(',')) : [],
+    status: event.status === 'CANCELLED' ? 'Cancelled' : 'Scheduled',
+    ...(notes && { notes }),
+  };
+};
+
+/**
+ * Works out the draft jobs an import would create without writing anything.
+ * Every event becomes a Quoted job with no quote; a repeating event becomes a
+ * job per occurrence from today through the series horizon. Visits exported
+ * with a job come back on it. Events already in the app, or imported before,
+ * are skipped.
+ */
+export const planIcsImport = (
+  events: IcsEvent[],
+  existingJobs: Job[],
+  existingClients: Client[],
+  at: Date = new Date()
+): IcsImportPlan => {
+  const today = localDay(at);
+  const horizon = addDays(today, SERIES_HORIZON_DAYS);
+  const existingIds = new Set(existingJobs.map((job) => job.id));
+  const clientsByName = new Map(existingClients.map((client) => [nameKey(client.fullName), client]));
+  const clientsByAddress = new Map(
+    existingClients.filter((client) => client.address.trim()).map((client) => [nameKey(client.address), client])
+  );
+  const jobsToCreate: Job[] = [];
+  const clientsToCreate: Client[] = [];
+  const skipped: IcsSkippedEvent[] = [];
+  const warnings: string[] = [];
+  const skip = (event: IcsEvent, reason: string) => skipped.push({ uid: event.uid, summary: event.summary, reason });
+
+  const jobUids = new Set(events.filter((event) => !event.relatedTo).map((event) => event.uid));
+  const visitEvents = events.filter((event) => event.relatedTo && jobUids.has(event.relatedTo));
+  const overrides = events.filter((event) => event.recurrenceId && !event.relatedTo);
+  const masters = events.filter((event) => !event.recurrenceId && !visitEvents.includes(event));
+
+  const clientFor = (event: IcsEvent) => {
+    const byName = event.contact ? clientsByName.get(nameKey(event.contact)) : undefined;
+    const byAddress = event.location ? clientsByAddress.get(nameKey(event.location)) : undefined;
+    const existing = byName ?? byAddress;
+    if (existing) return existing;
+    const client: Client = {
+      id: `client_ics_${uidHash(event.contact || event.location || event.uid)}`,
+      fullName: event.contact || event.location || 'Calendar Import',
+      address: event.location,
+      phoneNumber: '',
+      emailAddress: '',
+      createdDate: at.toISOString(),
+    };
+    clientsByName.set(nameKey(client.fullName), client);
+    if (client.address) clientsByAddress.set(nameKey(client.address), client);
+    clientsToCreate.push(client);
+    warnings.push(`New client "${client.fullName}" will be created`);
+    return client;
+  };
+
+  const draftJob = (event: IcsEvent, id: string): Job => {
+    const client = clientFor(event);
+    return {
+      id,
+      jobName: event.summary || 'Untitled event',
+      description: event.description,
+      clientId: client.id,
+      clientName: client.fullName,
+      quote: 0,
+      quoteDate: event.startDate < today ? event.startDate : today,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      status: 'Quoted',
+      expenses: [],
+    };
+  };
+
+  masters.forEach((event) => {
+    if (!event.uid) {
+      skip(event, 'Event has no UID');
+      return;
+    }
+    if (event.status === 'CANCELLED') {
+      skip(event, 'Cancelled in the calendar');
+      return;
+    }
+    const id = importedJobId(event.uid);
+
+    if (!event.rrule) {
+      if (existingIds.has(id)) {
+        skip(event, 'Already in the app');
+        return;
+      }
+      const visits = visitEvents
+        .filter((visit) => visit.relatedTo === event.uid)
+        .map((visit) => toVisit(visit, id))
+        .filter((visit): visit is Visit => visit !== null);
+      const job = draftJob(event, id);
+      jobsToCreate.push(visits.length > 0 ? { ...job, visits: sortVisits(visits) } : job);
+      existingIds.add(id);
+      return;
+    }
+
+    let dates: string[];
+    try {
+      dates = expandRule(parseRRule(event.rrule), event.startDate, horizon, today);
+    } catch {
+      warnings.push(`"${event.summary}" repeats in a way the app cannot follow; only its first date was imported`);
+      dates = [event.startDate];
+    }
+    const excluded = new Set(event.exdates);
+    const length = Math.round(
+      (new Date(`${event.endDate}T00:00:00Z`).getTime() - new Date(`${event.startDate}T00:00:00Z`).getTime()) / 86400000
+    );
+    const occurrences = dates.filter((date) => !excluded.has(date));
+    if (occurrences.length === 0) {
+      skip(event, 'No upcoming dates');
+      return;
+    }
+    occurrences.forEach((date) => {
+      const occurrenceId = `${id}_${compactDate(date)}`;
+      if (existingIds.has(occurrenceId)) return;
+      const changed = overrides.find((override) => override.uid === event.uid && override.recurrenceId === date);
+      if (changed?.status === 'CANCELLED') return;
+      // A changed occurrence keeps whatever it does not say from the repeating event
+      const occurrence = changed
+        ? {
+            ...event,
+            startDate: changed.startDate,
+            endDate: changed.endDate,
+            summary: changed.summary || event.summary,
+            description: changed.description || event.description,
+            location: changed.location || event.location,
+            contact: changed.contact || event.contact,
+          }
+        : { ...event, startDate: date, endDate: addDays(date, length) };
+      jobsToCreate.push(draftJob(occurrence, occurrenceId));
+      existingIds.add(occurrenceId);
+    });
+  });
+
+  overrides
+    .filter((event) => !masters.some((master) => master.uid === event.uid && master.rrule))
+    .forEach((event) => skip(event, 'Changed date of a repeating event that is not in this file'));
+  visitEvents
+    .filter((event) => !jobsToCreate.some((job) => job.id === importedJobId(event.relatedTo!)))
+    .forEach((event) => skip(event, 'Visit on a job that is not being imported'));
+
+  return { totalEvents: events.length, jobsToCreate, clientsToCreate, skipped, warnings };
+};
+
+/**
+ * Writes the calendar to the documents directory and opens the share sheet.
+ * Resolves the file uri.
+ */
+export const exportICalendar = async (
+  jobs: Job[],
+  clients: Client[],
+  fileName: string,
+  options: IcsExportOptions = {}
+): Promise<string> => {
+  try {
+    const uri = `${FileSystem.documentDirectory}${fileName.replace(/[^\w-]+/g, '-')}.ics`;
+    await FileSystem.writeAsStringAsync(uri, buildICalendar(jobs, clients, options));
+
+    logService.logUserAction('ics_exported', { jobs: jobs.length, from: options.from, to: options.to });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'text/calendar',
+        dialogTitle: 'Add to Calendar',
+        UTI: 'com.apple.ical.ics',
+      });
+    }
+    return uri;
+  } catch (error) {
+    logService.logError('ICS', error as Error, { operation: 'exportICalendar' });
+    throw error;
+  }
+};
+
+// Lets the user choose an .ics file. Resolves null when cancelled.
+export const pickICalendar = async (): Promise<IcsEvent[] | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/calendar', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+  return parseICalendar(await FileSystem.readAsStringAsync(result.assets[0].uri));
+};
+
+/**
+ * Saves a planned import. As with the CSV import, if the job write fails the
+ * clients written before it are restored.
+ */
+export const commitIcsImport = async (plan: IcsImportPlan): Promise<void> => {
+  const [clients, jobs] = await Promise.all([clientsRepository.getAll(), jobsRepository.getAll()]);
+  const clientIds = new Set(clients.map((client) => client.id));
+  const jobIds = new Set(jobs.map((job) => job.id));
+  const newClients = plan.clientsToCreate.filter((client) => !clientIds.has(client.id));
+  const newJobs = plan.jobsToCreate.filter((job) => !jobIds.has(job.id));
+
+  await setClients([...clients, ...newClients]);
+  try {
+    await setJobs([...jobs, ...newJobs]);
+  } catch (error) {
+    logService.warn('ICS_IMPORT', 'Job write failed, restoring clients snapshot');
+    await setClients(clients);
+    throw error;
+  }
+
+  logService.logUserAction('ics_import_committed', {
+    events: plan.totalEvents,
+    clientsCreated: newClients.length,
+    jobsCreated: newJobs.length,
+  });
+};
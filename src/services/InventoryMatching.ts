@@ -0,0 +1,142 @@
+import { ChecklistItem, InventoryItem, Job } from '../types';
+import { addDays } from './Recurrence';
+
+// Linking checklist entries to inventory, stock use and shopping lists. Kept
+// free of storage so components can use it (see InventoryService for that).
+
+// How many of each inventory item a job's Tools & Supplies call for
+export interface SupplyNeed {
+  itemId: string;
+  quantity: number;
+}
+
+export interface ShoppingListEntry {
+  item: InventoryItem;
+  needed: number; // By the upcoming jobs
+  toBuy: number; // Enough for the jobs with the reorder threshold left over
+  estimatedCost: number;
+  jobs: { id: string; jobName: string; startDate: string; quantity: number }[];
+}
+
+// Jobs whose supplies are still to come out of stock
+const UPCOMING_STATUSES: Job['status'][] = ['Accepted', 'In-Progress'];
+
+export const SHOPPING_LIST_HORIZON_DAYS = 30;
+
+const byName = (a: InventoryItem, b: InventoryItem) => a.name.localeCompare(b.name);
+
+export const needsReorder = (item: InventoryItem) => item.quantityOnHand < item.reorderThreshold;
+
+export const validateInventoryItem = (item: InventoryItem) => {
+  if (!item.name.trim()) {
+    throw new Error('An inventory item needs a name');
+  }
+  const counts: [string, number][] = [
+    ['Quantity on hand', item.quantityOnHand],
+    ['Unit cost', item.unitCost],
+    ['Reorder threshold', item.reorderThreshold],
+  ];
+  counts.forEach(([label, value]) => {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${label} must be zero or more`);
+    }
+  });
+};
+
+// The inventory item a new checklist entry most likely stands for, matched by name
+export const matchInventoryItem = (text: string, inventory: InventoryItem[]): InventoryItem | undefined => {
+  const wanted = text.trim().toLowerCase();
+  return wanted ? inventory.find((item) => item.name.trim().toLowerCase() === wanted) : undefined;
+};
+
+// Links unlinked checklist entries whose text names an inventory item, e.g. supplies from a template
+export const linkChecklistToInventory = (items: ChecklistItem[], inventory: InventoryItem[]): ChecklistItem[] =>
+  items.map((entry) => {
+    if (entry.inventoryItemId) return entry;
+    const match = matchInventoryItem(entry.text, inventory);
+    return match ? { ...entry, inventoryItemId: match.id, quantity: entry.quantity ?? 1 } : entry;
+  });
+
+export const supplyNeeds = (job: Pick<Job, 'toolsAndSupplies'>): SupplyNeed[] => {
+  const needs = new Map<string, number>();
+  (job.toolsAndSupplies || []).forEach((entry) => {
+    if (!entry.inventoryItemId) return;
+    needs.set(entry.inventoryItemId, (needs.get(entry.inventoryItemId) || 0) + (entry.quantity ?? 1));
+  });
+  return Array.from(needs, ([itemId, quantity]) => ({ itemId, quantity }));
+};
+
+/**
+ * Takes a completed job's linked consumables out of stock. Each item records
+ * the jobs it was used on, so completing a job again after reopening it (or
+ * undoing and redoing the completion) does not use the supplies twice. Stock
+ * does not go below zero. Returns only the items that changed.
+ */
+export const consumeSupplies = (job: Job, inventory: InventoryItem[], at: Date): InventoryItem[] =>
+  supplyNeeds(job).flatMap(({ itemId, quantity }) => {
+    const item = inventory.find((candidate) => candidate.id === itemId);
+    if (!item || item.kind !== 'consumable' || item.usage?.some((use) => use.jobId === job.id)) return [];
+    return [
+      {
+        ...item,
+        quantityOnHand: Math.max(item.quantityOnHand - quantity, 0),
+        updatedDate: at.toISOString(),
+        usage: [...(item.usage || []), { jobId: job.id, quantity, date: at.toISOString() }],
+      },
+    ];
+  });
+
+/**
+ * What to buy for the Accepted and In-Progress jobs that start within the
+ * horizon (or are already under way). Consumables are needed once per job;
+ * a tool is reused, so the most any one job needs is enough. Items already
+ * below their reorder threshold are listed even when no job needs them.
+ */
+export const buildShoppingList = (
+  jobs: Job[],
+  inventory: InventoryItem[],
+  { today, horizonDays = SHOPPING_LIST_HORIZON_DAYS }: { today: string; horizonDays?: number }
+): ShoppingListEntry[] => {
+  const lastDay = addDays(today, horizonDays);
+  const upcoming = jobs.filter(
+    (job) =>
+      UPCOMING_STATUSES.includes(job.status) &&
+      (!job.endDate || job.endDate.slice(0, 10) >= today) &&
+      (!job.startDate || job.startDate.slice(0, 10) <= lastDay)
+  );
+
+  return [...inventory]
+    .sort(byName)
+    .flatMap((item) => {
+      const jobNeeds = upcoming.flatMap((job) => {
+        const need = supplyNeeds(job).find((candidate) => candidate.itemId === item.id);
+        return need ? [{ id: job.id, jobName: job.jobName, startDate: job.startDate, quantity: need.quantity }] : [];
+      });
+      const quantities = jobNeeds.map((need) => need.quantity);
+      const needed =
+        item.kind === 'consumable'
+          ? quantities.reduce((sum, quantity) => sum + quantity, 0)
+          : Math.max(0, ...quantities);
+      const toBuy = Math.max(needed + item.reorderThreshold - item.quantityOnHand, 0);
+      if (toBuy === 0) return [];
+      return [
+        {
+          item,
+          needed,
+          toBuy,
+          estimatedCost: Math.round(toBuy * item.unitCost * 100) / 100,
+          jobs: jobNeeds.sort((a, b) => a.startDate.localeCompare(b.startDate)),
+        },
+      ];
+    });
+};
+
+// Plain text for sharing the list with whoever does the buying
+export const shoppingListText = (entries: ShoppingListEntry[], formatCurrency: (amount: number) => string) => {
+  const lines = entries.map(({ item, toBuy, estimatedCost }) => {
+    const where = item.location ? ` (${item.location})` : '';
+    return `- ${toBuy} ${item.unit || '×'} ${item.name}${where}: ${formatCurrency(estimatedCost)}`;
+  });
+  const total = entries.reduce((sum, entry) => sum + entry.estimatedCost, 0);
+  return `Shopping List\n${lines.join('\n')}\n\nEstimated total: ${formatCurrency(total)}`;
+};
@@ -0,0 +1,62 @@
+import { InventoryItem, Job } from '../types';
+import { logService } from './LoggingService';
+import { inventoryRepository } from './Repository';
+import { consumeSupplies, supplyNeeds, validateInventoryItem } from './InventoryMatching';
+
+export const getInventory = async (): Promise<InventoryItem[]> => {
+  try {
+    return (await inventoryRepository.getAll()).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    logService.logError('INVENTORY', error as Error, { operation: 'getInventory' });
+    throw error;
+  }
+};
+
+// Inserts the item, replacing any existing one with the same id
+export const saveInventoryItem = async (item: InventoryItem): Promise<InventoryItem> => {
+  validateInventoryItem(item);
+  const saved: InventoryItem = { ...item, name: item.name.trim() };
+  try {
+    await inventoryRepository.insert(saved);
+    logService.info('INVENTORY', `Saved inventory item: ${saved.name}`, {
+      itemId: saved.id,
+      quantityOnHand: saved.quantityOnHand,
+    });
+    return saved;
+  } catch (error) {
+    logService.logError('INVENTORY', error as Error, { operation: 'saveInventoryItem', itemId: item.id });
+    throw error;
+  }
+};
+
+// Checklist entries linked to a deleted item keep their text; the dangling link is ignored
+export const deleteInventoryItem = async (id: string): Promise<void> => {
+  try {
+    const removed = await inventoryRepository.remove(id);
+    logService.info('INVENTORY', `Deleted inventory item: ${removed.name}`, { itemId: id });
+  } catch (error) {
+    logService.logError('INVENTORY', error as Error, { operation: 'deleteInventoryItem', itemId: id });
+    throw error;
+  }
+};
+
+// Stores the stock a completed job used; returns the items that changed
+export const recordJobConsumption = async (job: Job, at = new Date()): Promise<InventoryItem[]> => {
+  if (supplyNeeds(job).length === 0) return [];
+  try {
+    const consumed = consumeSupplies(job, await inventoryRepository.getAll(), at);
+    for (const item of consumed) {
+      await inventoryRepository.update(item);
+    }
+    if (consumed.length > 0) {
+      logService.info('INVENTORY', `Used supplies for completed job ${job.jobName}`, {
+        jobId: job.id,
+        items: consumed.map((item) => item.id),
+      });
+    }
+    return consumed;
+  } catch (error) {
+    logService.logError('INVENTORY', error as Error, { operation: 'recordJobConsumption', jobId: job.id });
+    throw error;
+  }
+};
@@ -0,0 +1,164 @@
+import { Job, StatusTransition } from '../types';
+import { lockAcceptedQuote, unlockQuote } from './QuoteRevisions';
+import { completionBlocker } from './JobTasks';
+
+export const JOB_STATUSES: Job['status'][] = ['Quoted', 'Accepted', 'In-Progress', 'On-Hold', 'Completed', 'Cancelled'];
+
+// Side effects the UI should offer after a transition
+export type TransitionEffect = 'finalInvoice';
+
+interface TransitionRule {
+  to: Job['status'];
+  // Cancelling, pausing and reopening are logged with a reason
+  requiresReason?: boolean;
+  // Explains why this job may not take the transition, or null if it may
+  guard?: (job: Job) => string | null;
+}
+
+// Status a job was in when it was put on hold, if its log records it
+export const heldFromStatus = (job: Job): Job['status'] | null =>
+  [...(job.statusHistory || [])].reverse().find((entry) => entry.to === 'On-Hold')?.from ?? null;
+
+const resumesTo = (status: Job['status']) => (job: Job) => {
+  const heldFrom = heldFromStatus(job);
+  return heldFrom && heldFrom !== status ? `This job was put on hold while ${heldFrom}; resume it as ${heldFrom}` : null;
+};
+
+/**
+ * The job lifecycle: Quoted → Accepted → In-Progress → Completed, with
+ * On-Hold and Cancelled branches. A status not listed under another cannot be
+ * reached from it.
+ */
+export const JOB_LIFECYCLE: Record<Job['status'], TransitionRule[]> = {
+  Quoted: [
+    { to: 'Accepted' },
+    { to: 'On-Hold', requiresReason: true },
+    { to: 'Cancelled', requiresReason: true },
+  ],
+  Accepted: [
+    { to: 'In-Progress' },
+    { to: 'Quoted', requiresReason: true },
+    { to: 'On-Hold', requiresReason: true },
+    { to: 'Cancelled', requiresReason: true },
+  ],
+  'In-Progress': [
+    { to: 'Completed', guard: completionBlocker },
+    { to: 'On-Hold', requiresReason: true },
+    { to: 'Cancelled', requiresReason: true },
+  ],
+  'On-Hold': [
+    { to: 'Quoted', guard: resumesTo('Quoted') },
+    { to: 'Accepted', guard: resumesTo('Accepted') },
+    { to: 'In-Progress', guard: resumesTo('In-Progress') },
+    { to: 'Cancelled', requiresReason: true },
+  ],
+  // Reopening finished or cancelled work
+  Completed: [{ to: 'In-Progress', requiresReason: true }],
+  Cancelled: [{ to: 'Quoted', requiresReason: true }],
+};
+
+// Dates on a job are calendar days in the device's time zone
+const localDate = (at: Date) =>
+  `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, '0')}-${String(at.getDate()).padStart(2, '0')}`;
+
+interface TransitionHook {
+  from?: Job['status'];
+  to?: Job['status'];
+  apply?: (job: Job, at: Date) => Job;
+  effects?: TransitionEffect[];
+}
+
+// Run in order after every matching transition
+const TRANSITION_HOOKS: TransitionHook[] = [
+  // Leaving Completed means the work is not finished any more
+  {
+    from: 'Completed',
+    apply: ({ actualEndDate, ...job }) => job,
+  },
+  // Accepting a quote locks it to the revision the client agreed to; returning
+  // to Quoted (re-quoting, or reviving a cancelled job) unlocks it
+  {
+    to: 'Accepted',
+    apply: lockAcceptedQuote,
+  },
+  {
+    to: 'Quoted',
+    apply: unlockQuote,
+  },
+  // The first time work starts; resuming after a hold keeps the original date
+  {
+    to: 'In-Progress',
+    apply: (job, at) => (job.actualStartDate ? job : { ...job, actualStartDate: localDate(at) }),
+  },
+  {
+    to: 'Completed',
+    apply: (job, at) => ({ ...job, actualStartDate: job.actualStartDate ?? localDate(at), actualEndDate: localDate(at) }),
+    effects: ['finalInvoice'],
+  },
+];
+
+export interface TransitionCheck {
+  allowed: boolean;
+  requiresReason: boolean;
+  // Why the transition is not allowed
+  reason?: string;
+}
+
+export const checkTransition = (job: Job, to: Job['status']): TransitionCheck => {
+  if (job.status === to) {
+    return { allowed: false, requiresReason: false, reason: `This job is already ${to}` };
+  }
+  const rule = JOB_LIFECYCLE[job.status]?.find((candidate) => candidate.to === to);
+  if (!rule) {
+    return { allowed: false, requiresReason: false, reason: `A ${job.status} job cannot be moved to ${to}` };
+  }
+  const blocked = rule.guard?.(job) ?? null;
+  return blocked
+    ? { allowed: false, requiresReason: !!rule.requiresReason, reason: blocked }
+    : { allowed: true, requiresReason: !!rule.requiresReason };
+};
+
+// Every other status, with whether this job can move to it and why not
+export const availableTransitions = (job: Job) =>
+  JOB_STATUSES.filter((status) => status !== job.status).map((to) => ({ to, ...checkTransition(job, to) }));
+
+export interface TransitionOptions {
+  source: string;
+  reason?: string;
+  at?: Date;
+}
+
+export interface TransitionResult {
+  job: Job;
+  effects: TransitionEffect[];
+}
+
+/**
+ * Moves a job to a new status: checks the lifecycle and guards, runs the
+ * transition hooks and appends the change to the job's status log. Throws
+ * with the guard's explanation when the transition is not allowed.
+ */
+export const transitionJob = (job: Job, to: Job['status'], options: TransitionOptions): TransitionResult => {
+  const check = checkTransition(job, to);
+  if (!check.allowed) {
+    throw new Error(check.reason);
+  }
+  const reason = options.reason?.trim();
+  if (check.requiresReason && !reason) {
+    throw new Error(`A reason is required to move a job to ${to}`);
+  }
+
+  const at = options.at ?? new Date();
+  const entry: StatusTransition = { from: job.status, to, at: at.toISOString(), source: options.source };
+  if (reason) entry.reason = reason;
+
+  const hooks = TRANSITION_HOOKS.filter(
+    (hook) => (!hook.from || hook.from === job.status) && (!hook.to || hook.to === to)
+  );
+  const moved = hooks.reduce<Job>((current, hook) => (hook.apply ? hook.apply(current, at) : current), {
+    ...job,
+    status: to,
+    statusHistory: [...(job.statusHistory || []), entry],
+  });
+  return { job: moved, effects: hooks.flatMap((hook) => hook.effects || []) };
+};
@@ -0,0 +1,246 @@
+import { Client, Job, JobSeries, JobTemplateDetails } from '../types';
+import { logService } from './LoggingService';
+import { recordJobAudit } from './AuditService';
+import { seriesRepository } from './Repository';
+import { runInTransaction } from './UnitOfWork';
+import { transitionJob } from './JobLifecycle';
+import { withDerivedQuote } from './QuoteCalculator';
+import { jobFieldsFromTemplate } from './JobTemplates';
+import { addDays, expandRule, formatRRule, localDay, parseRRule } from './Recurrence';
+
+// How far ahead a series' occurrences exist as jobs
+export const SERIES_HORIZON_DAYS = 56;
+
+const SERIES_SOURCE = 'RecurringSeries';
+
+export type SeriesChanges = Partial<Pick<JobSeries, 'rule' | 'startDate' | 'durationDays' | 'details' | 'templateId'>>;
+
+export interface NewSeries {
+  client: Client;
+  rule: string;
+  startDate: string;
+  durationDays: number;
+  details: JobTemplateDetails;
+  templateId?: string;
+}
+
+// Jobs to write for a series, worked out before anything is stored
+export interface SeriesPlan {
+  series: JobSeries;
+  create: Job[];
+  update: Job[];
+  remove: string[];
+}
+
+// One job per series and date, so generating twice cannot duplicate it
+export const occurrenceJobId = (seriesId: string, date: string) => `${seriesId}_${date.replace(/-/g, '')}`;
+
+/**
+ * Whether changes to the series still apply to this job: an upcoming
+ * occurrence that has not been started, moved off Accepted or edited on its own.
+ */
+export const followsSeries = (job: Job, today: string) =>
+  !!job.seriesId && !job.seriesOverride && job.status === 'Accepted' && (job.occurrenceDate ?? job.startDate) >= today;
+
+// A booked occurrence: generated as Quoted, then accepted through the lifecycle so its quote is locked
+export const buildOccurrence = (series: JobSeries, date: string, at: Date): Job => {
+  const today = localDay(at);
+  const draft: Job = withDerivedQuote({
+    id: occurrenceJobId(series.id, date),
+    ...jobFieldsFromTemplate(series.details, { clientName: series.clientName, date, at }),
+    clientId: series.clientId,
+    clientName: series.clientName,
+    quoteDate: date < today ? date : today,
+    startDate: date,
+    endDate: addDays(date, series.durationDays),
+    status: 'Quoted',
+    expenses: [],
+    seriesId: series.id,
+    occurrenceDate: date,
+  });
+  return transitionJob(draft, 'Accepted', { source: SERIES_SOURCE, at }).job;
+};
+
+const horizonFor = (at: Date) => addDays(localDay(at), SERIES_HORIZON_DAYS);
+
+const withoutExdates = (series: JobSeries, dates: string[]) => {
+  const excluded = new Set(series.exdates || []);
+  return dates.filter((date) => !excluded.has(date));
+};
+
+// Generates the occurrences between the last generated date and the horizon
+export const planSeriesExtension = (series: JobSeries, at: Date): SeriesPlan => {
+  const horizon = horizonFor(at);
+  if (series.generatedThrough >= horizon) {
+    return { series, create: [], update: [], remove: [] };
+  }
+  const dates = withoutExdates(
+    series,
+    expandRule(parseRRule(series.rule), series.startDate, horizon, addDays(series.generatedThrough, 1))
+  );
+  return {
+    series: { ...series, generatedThrough: horizon },
+    create: dates.map((date) => buildOccurrence(series, date, at)),
+    update: [],
+    remove: [],
+  };
+};
+
+/**
+ * Applies changes to a whole series from today on. Upcoming occurrences that
+ * still follow the series are rebuilt from the new details (keeping any
+ * expenses or deposits already recorded on them) or removed if the new rule
+ * skips their date; dates the rule adds are generated. Occurrences that were
+ * deleted stay deleted, and past, started or separately edited jobs are left alone.
+ */
+export const planSeriesRevision = (series: JobSeries, changes: SeriesChanges, jobs: Job[], at: Date): SeriesPlan => {
+  const today = localDay(at);
+  const seriesJobs = jobs.filter((job) => job.seriesId === series.id);
+  const scheduled = new Set(seriesJobs.map((job) => job.occurrenceDate));
+  const deleted = expandRule(parseRRule(series.rule), series.startDate, series.generatedThrough, today).filter(
+    (date) => !scheduled.has(date)
+  );
+  const revised: JobSeries = {
+    ...series,
+    ...changes,
+    exdates: [...new Set([...(series.exdates || []), ...deleted])].sort(),
+  };
+  const horizon = series.generatedThrough > horizonFor(at) ? series.generatedThrough : horizonFor(at);
+  const dates = withoutExdates(revised, expandRule(parseRRule(revised.rule), revised.startDate, horizon, today));
+  const wanted = new Set(dates);
+
+  const following = seriesJobs.filter((job) => followsSeries(job, today));
+  return {
+    series: { ...revised, generatedThrough: horizon },
+    create: dates.filter((date) => !scheduled.has(date)).map((date) => buildOccurrence(revised, date, at)),
+    update: following
+      .filter((job) => wanted.has(job.occurrenceDate!))
+      .map((job) => {
+        const rebuilt: Job = {
+          ...buildOccurrence(revised, job.occurrenceDate!, at),
+          id: job.id,
+          expenses: job.expenses,
+          statusHistory: job.statusHistory,
+        };
+        if (job.payments) rebuilt.payments = job.payments;
+        return rebuilt;
+      }),
+    remove: following.filter((job) => !wanted.has(job.occurrenceDate!)).map((job) => job.id),
+  };
+};
+
+const hasChanges = (plan: SeriesPlan) => plan.create.length + plan.update.length + plan.remove.length > 0;
+
+export const getSeries = async (): Promise<JobSeries[]> => {
+  try {
+    return await seriesRepository.getAll();
+  } catch (error) {
+    logService.logError('RECURRENCE', error as Error, { operation: 'getSeries' });
+    throw error;
+  }
+};
+
+// Starts a series for a client and generates its upcoming occurrences
+export const createSeries = async (input: NewSeries, at: Date = new Date()): Promise<SeriesPlan> => {
+  try {
+    parseRRule(input.rule);
+    const series: JobSeries = {
+      id: `series_${at.getTime()}`,
+      clientId: input.client.id,
+      clientName: input.client.fullName,
+      rule: input.rule,
+      startDate: input.startDate,
+      durationDays: input.durationDays,
+      details: input.details,
+      generatedThrough: addDays(input.startDate, -1),
+      createdDate: at.toISOString(),
+    };
+    if (input.templateId) series.templateId = input.templateId;
+
+    const plan = planSeriesExtension(series, at);
+    await runInTransaction(`createSeries:${series.id}`, async (uow) => {
+      await uow.putSeries(plan.series);
+      for (const job of plan.create) await uow.putJob(job);
+    });
+    logService.info('RECURRENCE', `Started series "${input.details.jobName}"`, {
+      seriesId: series.id,
+      rule: series.rule,
+      occurrences: plan.create.length,
+    });
+    return plan;
+  } catch (error) {
+    logService.logError('RECURRENCE', error as Error, { operation: 'createSeries' });
+    throw error;
+  }
+};
+
+// Tops every series up to the horizon; run at startup. Resolves the jobs generated.
+export const extendAllSeries = async (at: Date = new Date()): Promise<Job[]> => {
+  try {
+    const created = await runInTransaction('extendAllSeries', async (uow) => {
+      const jobs: Job[] = [];
+      for (const series of await uow.getSeries()) {
+        const plan = planSeriesExtension(series, at);
+        if (plan.series === series) continue;
+        await uow.putSeries(plan.series);
+        for (const job of plan.create) await uow.putJob(job);
+        jobs.push(...plan.create);
+      }
+      return jobs;
+    });
+    if (created.length > 0) {
+      logService.info('RECURRENCE', `Generated ${created.length} upcoming occurrence(s)`);
+    }
+    return created;
+  } catch (error) {
+    logService.logError('RECURRENCE', error as Error, { operation: 'extendAllSeries' });
+    throw error;
+  }
+};
+
+// Edits the whole series from today on (see planSeriesRevision)
+export const reviseSeries = async (
+  seriesId: string,
+  changes: SeriesChanges,
+  source: string,
+  at: Date = new Date()
+): Promise<SeriesPlan> => {
+  try {
+    if (changes.rule) parseRRule(changes.rule);
+    const { plan, before } = await runInTransaction(`reviseSeries:${seriesId}`, async (uow) => {
+      const series = (await uow.getSeries()).find((candidate) => candidate.id === seriesId);
+      if (!series) {
+        throw new Error(`Series with ID ${seriesId} not found`);
+      }
+      const jobs = await uow.getJobs();
+      const revision = planSeriesRevision(series, changes, jobs, at);
+      await uow.putSeries(revision.series);
+      for (const id of revision.remove) await uow.removeJob(id);
+      for (const job of [...revision.create, ...revision.update]) await uow.putJob(job);
+      return { plan: revision, before: jobs };
+    });
+    for (const job of plan.update) {
+      const previous = before.find((candidate) => candidate.id === job.id);
+      if (previous) await recordJobAudit(previous, job, source);
+    }
+    if (hasChanges(plan)) {
+      logService.info('RECURRENCE', `Revised series ${seriesId}`, {
+        created: plan.create.length,
+        updated: plan.update.length,
+        removed: plan.remove.length,
+      });
+    }
+    return plan;
+  } catch (error) {
+    logService.logError('RECURRENCE', error as Error, { operation: 'reviseSeries', seriesId });
+    throw error;
+  }
+};
+
+// Stops a series after today, removing the upcoming occurrences that still follow it
+export const endSeries = async (series: JobSeries, source: string, at: Date = new Date()): Promise<SeriesPlan> => {
+  const { count, ...rule } = parseRRule(series.rule);
+  const today = localDay(at);
+  const until = rule.until && rule.until < today ? rule.until : today;
+  return reviseSeries(series.id, { rule: formatRRule({ ...rule, until }) }, source, at);
+};
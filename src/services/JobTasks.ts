@@ -0,0 +1,71 @@
+import { Job, JobTask } from '../types';
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+// How much of the task list is checked off; null when the job has no tasks
+export const taskProgress = (job: Pick<Job, 'tasks'>): TaskProgress | null => {
+  const tasks = job.tasks || [];
+  if (tasks.length === 0) return null;
+  const completed = tasks.filter((task) => task.completed).length;
+  return { completed, total: tasks.length, percent: Math.round((completed / tasks.length) * 100) };
+};
+
+export const unfinishedRequiredTasks = (job: Pick<Job, 'tasks'>) =>
+  (job.tasks || []).filter((task) => task.required && !task.completed);
+
+// Why the job cannot be Completed yet, as a lifecycle guard
+export const completionBlocker = (job: Pick<Job, 'tasks'>): string | null => {
+  const unfinished = unfinishedRequiredTasks(job);
+  if (unfinished.length === 0) return null;
+  const names = unfinished.map((task) => `"${task.text}"`).join(', ');
+  return unfinished.length === 1
+    ? `Check off the required task ${names} before completing this job`
+    : `Check off the ${unfinished.length} required tasks before completing this job: ${names}`;
+};
+
+// Unfinished tasks due before today
+export const isTaskOverdue = (task: JobTask, today: string) => !task.completed && !!task.dueDate && task.dueDate < today;
+
+// The task helpers also work on a job still being filled in on a form
+type TaskList = Pick<Job, 'id' | 'tasks'>;
+
+// Adds or replaces a task, keeping the order tasks were added in
+export const putTask = <T extends TaskList>(job: T, task: JobTask): T => {
+  const text = task.text.trim();
+  if (!text) {
+    throw new Error('A task needs a description');
+  }
+  if (task.dueDate && !dateRegex.test(task.dueDate)) {
+    throw new Error('A task due date must be YYYY-MM-DD');
+  }
+  const { assignee, dueDate, ...fields } = task;
+  const saved: JobTask = { ...fields, text };
+  if (assignee?.trim()) saved.assignee = assignee.trim();
+  if (dueDate) saved.dueDate = dueDate;
+
+  const tasks = job.tasks || [];
+  return tasks.some((existing) => existing.id === task.id)
+    ? { ...job, tasks: tasks.map((existing) => (existing.id === task.id ? saved : existing)) }
+    : { ...job, tasks: [...tasks, saved] };
+};
+
+export const toggleTask = <T extends TaskList>(job: T, taskId: string): T => {
+  const task = job.tasks?.find((existing) => existing.id === taskId);
+  if (!task) {
+    throw new Error(`Task with ID ${taskId} not found on job ${job.id}`);
+  }
+  return putTask(job, { ...task, completed: !task.completed });
+};
+
+export const deleteTask = <T extends TaskList>(job: T, taskId: string): T => {
+  if (!job.tasks?.some((task) => task.id === taskId)) {
+    throw new Error(`Task with ID ${taskId} not found on job ${job.id}`);
+  }
+  return { ...job, tasks: job.tasks.filter((task) => task.id !== taskId) };
+};
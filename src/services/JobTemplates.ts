@@ -0,0 +1,95 @@
+import { Job, JobTemplate, JobTemplateDetails } from '../types';
+import { logService } from './LoggingService';
+import { templatesRepository } from './Repository';
+
+export type TemplateJobFields = Pick<
+  Job,
+  'jobName' | 'description' | 'quote' | 'lineItems' | 'discount' | 'taxRate' | 'toolsAndSupplies' | 'tasks' | 'notes'
+>;
+
+export const fillNotesTemplate = (template: string, values: { client: string; date: string }) =>
+  template.replace(/\{client\}/g, values.client).replace(/\{date\}/g, values.date);
+
+// The reusable parts of a job: no client, dates, status or money received
+export const templateDetailsFromJob = (job: Job): JobTemplateDetails => {
+  const details: JobTemplateDetails = {
+    jobName: job.jobName,
+    description: job.description,
+    quote: job.quote,
+    toolsAndSupplies: (job.toolsAndSupplies || []).map((item) => item.text),
+  };
+  if (job.tasks && job.tasks.length > 0) {
+    details.tasks = job.tasks.map(({ text, required }) => ({ text, required }));
+  }
+  if (job.lineItems && job.lineItems.length > 0) {
+    details.lineItems = job.lineItems;
+    if (job.discount) details.discount = job.discount;
+    if (job.taxRate !== undefined) details.taxRate = job.taxRate;
+  }
+  if (job.notes) details.notesTemplate = job.notes;
+  return details;
+};
+
+// Job fields for a new job from template details, with fresh unchecked checklist items and tasks
+export const jobFieldsFromTemplate = (
+  details: JobTemplateDetails,
+  { clientName, date, at }: { clientName: string; date: string; at: Date }
+): TemplateJobFields => {
+  const fields: TemplateJobFields = {
+    jobName: details.jobName,
+    description: details.description,
+    quote: details.quote,
+    toolsAndSupplies: details.toolsAndSupplies.map((text, index) => ({
+      id: `checklist_${at.getTime()}_${index}`,
+      text,
+      completed: false,
+      createdDate: at.toISOString(),
+    })),
+    notes: details.notesTemplate ? fillNotesTemplate(details.notesTemplate, { client: clientName, date }) : '',
+  };
+  if (details.tasks && details.tasks.length > 0) {
+    fields.tasks = details.tasks.map(({ text, required }, index) => ({
+      id: `task_${at.getTime()}_${index}`,
+      text,
+      required,
+      completed: false,
+      createdDate: at.toISOString(),
+    }));
+  }
+  if (details.lineItems && details.lineItems.length > 0) {
+    fields.lineItems = details.lineItems;
+    if (details.discount) fields.discount = details.discount;
+    if (details.taxRate !== undefined) fields.taxRate = details.taxRate;
+  }
+  return fields;
+};
+
+export const getTemplates = async (): Promise<JobTemplate[]> => {
+  try {
+    return await templatesRepository.getAll();
+  } catch (error) {
+    logService.logError('TEMPLATES', error as Error, { operation: 'getTemplates' });
+    throw error;
+  }
+};
+
+// Inserts the template, replacing any existing one with the same id
+export const saveTemplate = async (template: JobTemplate): Promise<void> => {
+  try {
+    await templatesRepository.insert(template);
+    logService.info('TEMPLATES', `Saved job template: ${template.name}`, { templateId: template.id });
+  } catch (error) {
+    logService.logError('TEMPLATES', error as Error, { operation: 'saveTemplate', templateId: template.id });
+    throw error;
+  }
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  try {
+    const removed = await templatesRepository.remove(id);
+    logService.info('TEMPLATES', `Deleted job template: ${removed.name}`, { templateId: id });
+  } catch (error) {
+    logService.logError('TEMPLATES', error as Error, { operation: 'deleteTemplate', templateId: id });
+    throw error;
+  }
+};
@@ -0,0 +1,222 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Client, Job } from '../types';
+import { logService } from './LoggingService';
+import { clientsRepository, jobsRepository } from './Repository';
+import { decryptString, encryptString } from './EncryptionService';
+
+export const OUTBOX_KEY = 'write_outbox';
+
+export const OUTBOX_RETRY_BASE_MS = 2000;
+export const OUTBOX_RETRY_MAX_MS = 5 * 60 * 1000;
+
+export type OutboxCollection = 'jobs' | 'clients';
+
+// A record write that failed and is waiting to be retried
+export interface OutboxEntry {
+  id: string;
+  collection: OutboxCollection;
+  recordId: string;
+  // Upserted on retry; null removes the record
+  record: Job | Client | null;
+  enqueuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export type OutboxListener = (pending: OutboxEntry[]) => void;
+
+// Doubles with every failed attempt, up to OUTBOX_RETRY_MAX_MS
+export const outboxBackoffMs = (attempts: number): number =>
+  Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RETRY_MAX_MS);
+
+let queue: OutboxEntry[] = [];
+// False until the stored queue has been read; writes merge with it first
+let loaded = false;
+let flushing: Promise<number> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+// Entries can hold client contact details, so the queue is stored encrypted
+const readStoredQueue = async (): Promise<OutboxEntry[]> => {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  return raw ? JSON.parse(decryptString(raw)) : [];
+};
+
+const loadQueue = async (): Promise<OutboxEntry[]> => {
+  if (loaded) return queue;
+  try {
+    const stored = await readStoredQueue();
+    queue = [...stored, ...queue.filter((entry) => !stored.some((s) => s.id === entry.id))];
+    loaded = true;
+  } catch (error) {
+    logService.logError('OUTBOX', error as Error, { operation: 'loadQueue' });
+  }
+  return queue;
+};
+
+// When storage is failing the queue stays in memory and is saved on a later attempt
+const saveQueue = async (): Promise<void> => {
+  try {
+    await loadQueue();
+    if (!loaded) return;
+    await AsyncStorage.setItem(OUTBOX_KEY, encryptString(JSON.stringify(queue)));
+  } catch (error) {
+    logService.warn('OUTBOX', 'Could not save pending writes; keeping them in memory', {
+      pending: queue.length,
+      error: (error as Error).message,
+    });
+  }
+};
+
+const notify = () => {
+  const pending = [...queue];
+  listeners.forEach((listener) => listener(pending));
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (queue.length === 0) return;
+  const delay = Math.max(Date.parse(queue[0].nextAttemptAt) - Date.now(), 0);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+};
+
+const applyEntry = async ({ collection, recordId, record }: OutboxEntry): Promise<void> => {
+  if (collection === 'jobs') {
+    if (record) await jobsRepository.insert(record as Job);
+    else if (await jobsRepository.getById(recordId)) await jobsRepository.remove(recordId);
+  } else {
+    if (record) await clientsRepository.insert(record as Client);
+    else if (await clientsRepository.getById(recordId)) await clientsRepository.remove(recordId);
+  }
+};
+
+const markFailed = (entry: OutboxEntry, error: Error) => {
+  entry.attempts += 1;
+  entry.lastError = error.message;
+  entry.nextAttemptAt = new Date(Date.now() + outboxBackoffMs(entry.attempts)).toISOString();
+  logService.warn('OUTBOX', `Write to "${entry.collection}" failed; retrying later`, {
+    recordId: entry.recordId,
+    attempts: entry.attempts,
+    nextAttemptAt: entry.nextAttemptAt,
+    error: error.message,
+  });
+};
+
+const runFlush = async (force: boolean): Promise<number> => {
+  await loadQueue();
+  while (queue.length > 0) {
+    const entry = queue[0];
+    if (!force && Date.parse(entry.nextAttemptAt) > Date.now()) break;
+    try {
+      await applyEntry(entry);
+      // A newer write to the same record may have replaced the entry meanwhile
+      queue = queue.filter((pending) => pending !== entry);
+      logService.info('OUTBOX', `Saved pending write to "${entry.collection}"`, {
+        recordId: entry.recordId,
+        attempts: entry.attempts,
+      });
+    } catch (error) {
+      markFailed(entry, error as Error);
+      break;
+    }
+  }
+  await saveQueue();
+  notify();
+  scheduleRetry();
+  return queue.length;
+};
+
+/**
+ * Retries pending writes in the order they were made, stopping at the first
+ * one that fails so later writes never overtake it. Entries still backing off
+ * are skipped unless `force` is set. Resolves the number still pending.
+ */
+export const flushOutbox = ({ force = false }: { force?: boolean } = {}): Promise<number> => {
+  if (!flushing) {
+    flushing = runFlush(force).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Writes a job or client (null `record` removes it). If the write fails, or
+ * earlier writes are still pending, it is queued and retried with backoff
+ * instead of failing. Resolves whether the write is still pending.
+ */
+export const submitWrite = async (
+  collection: OutboxCollection,
+  recordId: string,
+  record: Job | Client | null
+): Promise<{ queued: boolean }> => {
+  await loadQueue();
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    collection,
+    recordId,
+    record,
+    enqueuedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+
+  if (queue.length === 0) {
+    try {
+      await applyEntry(entry);
+      return { queued: false };
+    } catch (error) {
+      markFailed(entry, error as Error);
+    }
+  }
+
+  // Only the latest write to a record matters
+  queue = [...queue.filter((e) => !(e.collection === collection && e.recordId === recordId)), entry];
+  await saveQueue();
+  if (entry.attempts === 0) {
+    await flushOutbox();
+  } else {
+    notify();
+    scheduleRetry();
+  }
+  return { queued: queue.includes(entry) };
+};
+
+export const getPendingWrites = async (): Promise<OutboxEntry[]> => [...(await loadQueue())];
+
+// Lays queued writes over records read from storage so pending changes stay visible
+export const withPendingWrites = async <T extends Job | Client>(
+  collection: OutboxCollection,
+  records: T[]
+): Promise<T[]> => {
+  const pending = (await loadQueue()).filter((entry) => entry.collection === collection);
+  return pending.reduce<T[]>((result, entry) => {
+    const others = result.filter((record) => record.id !== entry.recordId);
+    if (!entry.record) return others;
+    const index = result.findIndex((record) => record.id === entry.recordId);
+    if (index === -1) return [...others, entry.record as T];
+    return result.map((record, i) => (i === index ? (entry.record as T) : record));
+  }, records);
+};
+
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Forgets the in-memory queue and stops retries (used by tests)
+export const resetOutbox = (): void => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  queue = [];
+  loaded = false;
+  flushing = null;
+};
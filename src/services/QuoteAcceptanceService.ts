@@ -0,0 +1,161 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Job, QuoteAcceptance, QuoteRevision, Signature } from '../types';
+import { logService } from './LoggingService';
+import { QUOTE_CATEGORIES, calculateQuote, lineItemTotal } from './QuoteCalculator';
+import { snapshotQuote } from './QuoteRevisions';
+import { TransitionResult, checkTransition, transitionJob } from './JobLifecycle';
+
+const SIGNED_QUOTES_DIR = 'signed-quotes/';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+export const signatureSvg = ({ width, height, paths }: Signature) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">` +
+  paths
+    .map(
+      (d) =>
+        `<path d="${escapeHtml(d)}" fill="none" stroke="#000" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>`
+    )
+    .join('') +
+  '</svg>';
+
+const lineItemRows = (revision: QuoteRevision) => {
+  const items = revision.lineItems || [];
+  if (items.length === 0) {
+    return `<tr><td colspan="4">Quoted work</td><td class="amount">${money(revision.quote)}</td></tr>`;
+  }
+  return QUOTE_CATEGORIES.flatMap((category) =>
+    items
+      .filter((item) => item.category === category)
+      .map(
+        (item) =>
+          `<tr><td>${escapeHtml(item.description)}${item.taxable ? ' *' : ''}</td><td>${escapeHtml(category)}</td>` +
+          `<td>${item.quantity} ${escapeHtml(item.unit)}</td><td class="amount">${money(item.unitPrice)}</td>` +
+          `<td class="amount">${money(lineItemTotal(item))}</td></tr>`
+      )
+  ).join('');
+};
+
+const totalRows = (revision: QuoteRevision) => {
+  if (!revision.lineItems || revision.lineItems.length === 0) return '';
+  const totals = calculateQuote(revision);
+  const rows = [['Subtotal', money(totals.subtotal)]];
+  if (totals.discount > 0) rows.push(['Discount', `-${money(totals.discount)}`]);
+  if (totals.tax > 0) rows.push([`Tax (${revision.taxRate}% on items marked *)`, money(totals.tax)]);
+  return rows.map(([label, value]) => `<tr><td colspan="4">${label}</td><td class="amount">${value}</td></tr>`).join('');
+};
+
+// The document the client signed: the accepted revision, their name, the time and the signature itself
+export const buildSignedQuoteHtml = (
+  job: Job,
+  revision: QuoteRevision,
+  acceptance: Omit<QuoteAcceptance, 'pdfUri'>
+): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; padding: 24px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #666; font-size: 13px; margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 13px; }
+  th, td { border-bottom: 1px solid #eee; padding: 6px 4px; text-align: left; }
+  .amount { text-align: right; }
+  .total td { font-weight: bold; font-size: 15px; border-top: 2px solid #333; }
+  .signature { margin-top: 32px; }
+  .signature svg { border-bottom: 1px solid #333; max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+  <h1>Quote for ${escapeHtml(job.jobName)}</h1>
+  <p class="meta">Client: ${escapeHtml(job.clientName)}</p>
+  <p class="meta">Revision ${revision.number} of ${new Date(revision.createdAt).toLocaleDateString('en-US')}</p>
+  <p>${escapeHtml(job.description)}</p>
+  <table>
+    <tr><th>Item</th><th>Category</th><th>Qty</th><th class="amount">Unit price</th><th class="amount">Amount</th></tr>
+    ${lineItemRows(revision)}
+    ${totalRows(revision)}
+    <tr class="total"><td colspan="4">Total</td><td class="amount">${money(revision.quote)}</td></tr>
+  </table>
+  <div class="signature">
+    <p>Accepted by ${escapeHtml(acceptance.signerName)} on ${new Date(acceptance.signedAt).toLocaleString('en-US')}</p>
+    ${signatureSvg(acceptance.signature)}
+  </div>
+</body>
+</html>`;
+
+// Renders the signed quote and moves it out of the cache into the documents directory
+const renderSignedQuotePdf = async (
+  job: Job,
+  revision: QuoteRevision,
+  acceptance: Omit<QuoteAcceptance, 'pdfUri'>
+): Promise<string> => {
+  const { uri } = await Print.printToFileAsync({ html: buildSignedQuoteHtml(job, revision, acceptance) });
+  const directory = `${FileSystem.documentDirectory}${SIGNED_QUOTES_DIR}`;
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+  const target = `${directory}${job.id}_rev${revision.number}_${Date.parse(acceptance.signedAt)}.pdf`;
+  await FileSystem.moveAsync({ from: uri, to: target });
+  return target;
+};
+
+export interface SignedAcceptance {
+  signerName: string;
+  signature: Signature;
+  source: string;
+  at?: Date;
+}
+
+/**
+ * Accepts a job's quote on the client's signature: the working quote is kept
+ * as a revision, rendered with the signature to a PDF, and the job moves to
+ * Accepted through the lifecycle, which locks that revision. Throws before
+ * anything is rendered if the job cannot be accepted or the signature is
+ * missing. The caller saves the returned job.
+ */
+export const acceptSignedQuote = async (job: Job, input: SignedAcceptance): Promise<TransitionResult> => {
+  const signerName = input.signerName.trim();
+  if (!signerName) {
+    throw new Error('Enter the name of the person signing');
+  }
+  if (input.signature.paths.length === 0) {
+    throw new Error('A signature is required to accept the quote');
+  }
+  const check = checkTransition(job, 'Accepted');
+  if (!check.allowed) {
+    throw new Error(check.reason);
+  }
+
+  const at = input.at ?? new Date();
+  // A job coming back from On-Hold is already locked to the revision it accepted
+  const accepted = job.quoteRevisions?.find((candidate) => candidate.number === job.acceptedRevision);
+  const { job: withRevision, revision } = accepted ? { job, revision: accepted } : snapshotQuote(job, at);
+  const acceptance = { revision: revision.number, signerName, signedAt: at.toISOString(), signature: input.signature };
+  try {
+    const pdfUri = await renderSignedQuotePdf(withRevision, revision, acceptance);
+    const result = transitionJob(withRevision, 'Accepted', { source: input.source, reason: `Signed by ${signerName}`, at });
+    logService.info('QUOTE', `Quote revision ${revision.number} signed`, { jobId: job.id, pdfUri });
+    return { ...result, job: { ...result.job, quoteAcceptance: { ...acceptance, pdfUri } } };
+  } catch (error) {
+    logService.logError('QUOTE', error as Error, { operation: 'acceptSignedQuote', jobId: job.id });
+    throw error;
+  }
+};
+
+// Opens the share sheet for a signed quote; false when there is nothing to share from this device
+export const shareSignedQuote = async ({ pdfUri }: QuoteAcceptance): Promise<boolean> => {
+  if (!pdfUri || !(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(pdfUri, {
+    mimeType: 'application/pdf',
+    dialogTitle: 'Share signed quote',
+    UTI: 'com.adobe.pdf',
+  });
+  return true;
+};
@@ -0,0 +1,98 @@
+import { Job, QuoteDiscount, QuoteLineItem, QuoteLineItemCategory } from '../types';
+
+export const QUOTE_CATEGORIES: QuoteLineItemCategory[] = ['Labor', 'Materials', 'Equipment', 'Other'];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const lineItemTotal = (item: QuoteLineItem) => roundCents(item.quantity * item.unitPrice);
+
+export interface QuoteTotals {
+  subtotal: number;
+  byCategory: Record<QuoteLineItemCategory, number>;
+  discount: number;
+  // Taxable items after their share of the discount
+  taxableAmount: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Totals for an itemized quote. The discount comes off the subtotal before
+ * tax and is shared between taxable and non-taxable items in proportion, so
+ * a discount never increases the tax owed.
+ */
+export const calculateQuote = ({
+  lineItems = [],
+  discount,
+  taxRate = 0,
+}: {
+  lineItems?: QuoteLineItem[];
+  discount?: QuoteDiscount;
+  taxRate?: number;
+}): QuoteTotals => {
+  const byCategory = Object.fromEntries(QUOTE_CATEGORIES.map((category) => [category, 0])) as QuoteTotals['byCategory'];
+  let subtotal = 0;
+  let taxableSubtotal = 0;
+  for (const item of lineItems) {
+    const amount = lineItemTotal(item);
+    byCategory[item.category] = roundCents(byCategory[item.category] + amount);
+    subtotal += amount;
+    if (item.taxable) taxableSubtotal += amount;
+  }
+  subtotal = roundCents(subtotal);
+
+  const requested = !discount ? 0 : discount.type === 'percent' ? (subtotal * discount.value) / 100 : discount.value;
+  const discountAmount = roundCents(Math.min(Math.max(requested, 0), subtotal));
+  const taxableAmount =
+    subtotal > 0 ? roundCents(taxableSubtotal - (discountAmount * taxableSubtotal) / subtotal) : 0;
+  const tax = roundCents((taxableAmount * taxRate) / 100);
+
+  return {
+    subtotal,
+    byCategory,
+    discount: discountAmount,
+    taxableAmount,
+    tax,
+    total: roundCents(subtotal - discountAmount + tax),
+  };
+};
+
+export const hasLineItems = (job: Pick<Job, 'lineItems'>) => !!job.lineItems && job.lineItems.length > 0;
+
+// What the client is charged for the work; jobs quoted before line items keep their flat quote
+export const quoteTotal = (job: Job) => (hasLineItems(job) ? calculateQuote(job).total : job.quote);
+
+// The part of the quote that is income: sales tax collected is passed on, not earned
+export const quoteRevenue = (job: Job) => {
+  if (!hasLineItems(job)) return job.quote;
+  const totals = calculateQuote(job);
+  return roundCents(totals.total - totals.tax);
+};
+
+// Keeps `quote` in step with the line items whenever a job is saved
+export const withDerivedQuote = (job: Job): Job =>
+  hasLineItems(job) ? { ...job, quote: calculateQuote(job).total } : job;
+
+/**
+ * Plain-text itemization for quotes and invoices sent by email or SMS, grouped
+ * by category. Empty for jobs without line items.
+ */
+export const quoteBreakdownText = (job: Job, formatCurrency: (amount: number) => string): string => {
+  const lineItems = job.lineItems || [];
+  if (lineItems.length === 0) return '';
+  const totals = calculateQuote(job);
+  const itemLine = (item: QuoteLineItem) =>
+    `- ${item.description}: ${item.quantity} ${item.unit} @ ${formatCurrency(item.unitPrice)} = ` +
+    `${formatCurrency(lineItemTotal(item))}${item.taxable ? ' (taxable)' : ''}`;
+
+  const sections = QUOTE_CATEGORIES.map((category) => lineItems.filter((item) => item.category === category))
+    .filter((items) => items.length > 0)
+    .map((items) => `${items[0].category}:\n${items.map(itemLine).join('\n')}`);
+  const summary = [`Subtotal: ${formatCurrency(totals.subtotal)}`];
+  if (totals.discount > 0) {
+    const percent = job.discount?.type === 'percent' ? ` (${job.discount.value}%)` : '';
+    summary.push(`Discount${percent}: -${formatCurrency(totals.discount)}`);
+  }
+  if (job.taxRate) summary.push(`Tax (${job.taxRate}% on taxable items): ${formatCurrency(totals.tax)}`);
+  return `${sections.join('\n\n')}\n\n${summary.join('\n')}\n`;
+};
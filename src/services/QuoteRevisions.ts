@@ -0,0 +1,157 @@
+import { Job, QuoteLineItem, QuoteRevision } from '../types';
+import { QuoteTotals, calculateQuote } from './QuoteCalculator';
+
+type QuoteContent = Pick<QuoteRevision, 'quote' | 'lineItems' | 'discount' | 'taxRate'>;
+
+// The quote fields a revision captures, built in a fixed shape so two copies compare equal
+const quoteContent = (source: Job | QuoteRevision): QuoteContent => {
+  const content: QuoteContent = { quote: source.quote };
+  if (source.lineItems && source.lineItems.length > 0) {
+    content.lineItems = source.lineItems.map(({ id, description, quantity, unit, unitPrice, taxable, category }) => ({
+      id,
+      description,
+      quantity,
+      unit,
+      unitPrice,
+      taxable,
+      category,
+    }));
+  }
+  if (source.discount) content.discount = { type: source.discount.type, value: source.discount.value };
+  if (source.taxRate !== undefined) content.taxRate = source.taxRate;
+  return content;
+};
+
+const sameContent = (a: Job | QuoteRevision, b: Job | QuoteRevision) =>
+  JSON.stringify(quoteContent(a)) === JSON.stringify(quoteContent(b));
+
+export const latestRevision = (job: Job): QuoteRevision | null =>
+  job.quoteRevisions?.[job.quoteRevisions.length - 1] ?? null;
+
+export const isQuoteLocked = (job: Job) => job.acceptedRevision !== undefined;
+
+// True when the working quote has changes that no revision holds yet
+export const hasUnrevisedChanges = (job: Job) => {
+  const latest = latestRevision(job);
+  return latest ? !sameContent(latest, job) : false;
+};
+
+export interface SnapshotResult {
+  job: Job;
+  revision: QuoteRevision;
+  // False when the working quote matched the latest revision, which is reused
+  created: boolean;
+}
+
+/**
+ * Records the job's working quote as the next numbered revision. Revisions are
+ * never changed once written; if nothing changed since the latest one it is
+ * returned instead of adding a duplicate.
+ */
+export const snapshotQuote = (job: Job, at: Date, sentVia?: QuoteRevision['sentVia']): SnapshotResult => {
+  const latest = latestRevision(job);
+  if (latest && sameContent(latest, job)) {
+    return { job, revision: latest, created: false };
+  }
+  const revision: QuoteRevision = { number: (latest?.number ?? 0) + 1, createdAt: at.toISOString(), ...quoteContent(job) };
+  if (sentVia) revision.sentVia = sentVia;
+  return { job: { ...job, quoteRevisions: [...(job.quoteRevisions || []), revision] }, revision, created: true };
+};
+
+// Locks the quote to the revision being accepted, snapshotting the working quote first if needed
+export const lockAcceptedQuote = (job: Job, at: Date): Job => {
+  if (isQuoteLocked(job)) return job;
+  const { job: snapshotted, revision } = snapshotQuote(job, at);
+  return { ...snapshotted, acceptedRevision: revision.number };
+};
+
+export const unlockQuote = ({ acceptedRevision, ...job }: Job): Job => job;
+
+// Revisions, the acceptance lock and the client's signature are only written
+// here, by the job lifecycle and by QuoteAcceptanceService, so an edited copy
+// of a job always keeps the stored ones
+export const withStoredRevisions = (stored: Job, edited: Job): Job => {
+  const { quoteRevisions, acceptedRevision, quoteAcceptance, ...fields } = edited;
+  const job: Job = fields;
+  if (stored.quoteRevisions) job.quoteRevisions = stored.quoteRevisions;
+  if (stored.acceptedRevision !== undefined) job.acceptedRevision = stored.acceptedRevision;
+  if (stored.quoteAcceptance) job.quoteAcceptance = stored.quoteAcceptance;
+  return job;
+};
+
+/**
+ * Refuses an edit that changes the quote of a job locked to an accepted
+ * revision. Moving the job back to Quoted unlocks it.
+ */
+export const assertQuoteEditable = (stored: Job, edited: Job) => {
+  if (isQuoteLocked(stored) && !sameContent(stored, edited)) {
+    throw new Error(
+      `The quote is locked to accepted revision ${stored.acceptedRevision}; move the job back to Quoted to revise it`
+    );
+  }
+};
+
+export type LineItemChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface LineItemComparison {
+  id: string;
+  change: LineItemChange;
+  before?: QuoteLineItem;
+  after?: QuoteLineItem;
+}
+
+export interface RevisionComparison {
+  lineItems: LineItemComparison[];
+  before: QuoteTotals;
+  after: QuoteTotals;
+}
+
+const sameItem = (a: QuoteLineItem, b: QuoteLineItem) =>
+  a.description === b.description &&
+  a.quantity === b.quantity &&
+  a.unit === b.unit &&
+  a.unitPrice === b.unitPrice &&
+  a.taxable === b.taxable &&
+  a.category === b.category;
+
+// A revision without line items is shown as one line for its flat quote
+const comparableItems = (revision: QuoteRevision): QuoteLineItem[] =>
+  revision.lineItems && revision.lineItems.length > 0
+    ? revision.lineItems
+    : [
+        {
+          id: 'flat',
+          description: 'Quote',
+          quantity: 1,
+          unit: 'each',
+          unitPrice: revision.quote,
+          taxable: false,
+          category: 'Other',
+        },
+      ];
+
+const revisionTotals = (revision: QuoteRevision): QuoteTotals =>
+  calculateQuote({ ...revision, lineItems: comparableItems(revision) });
+
+/**
+ * Line items of two revisions matched by id, in the order they appear in the
+ * later revision followed by the ones it dropped, with both sets of totals.
+ */
+export const compareRevisions = (before: QuoteRevision, after: QuoteRevision): RevisionComparison => {
+  const beforeItems = comparableItems(before);
+  const afterItems = comparableItems(after);
+  const beforeById = new Map(beforeItems.map((item) => [item.id, item]));
+  const afterIds = new Set(afterItems.map((item) => item.id));
+
+  const lineItems: LineItemComparison[] = [
+    ...afterItems.map((item): LineItemComparison => {
+      const previous = beforeById.get(item.id);
+      if (!previous) return { id: item.id, change: 'added', after: item };
+      return { id: item.id, change: sameItem(previous, item) ? 'unchanged' : 'changed', before: previous, after: item };
+    }),
+    ...beforeItems
+      .filter((item) => !afterIds.has(item.id))
+      .map((item): LineItemComparison => ({ id: item.id, change: 'removed', before: item })),
+  ];
+  return { lineItems, before: revisionTotals(before), after: revisionTotals(after) };
+};
@@ -0,0 +1,285 @@
+// Recurrence rules in the RFC 5545 RRULE format, so series can be exchanged
+// with calendar apps. Dates are calendar days (YYYY-MM-DD) without a time zone.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// A weekday, optionally the nth (or nth from last, when negative) of its month
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[]; // Negative days count from the end of the month
+  count?: number;
+  until?: string; // Last possible occurrence, YYYY-MM-DD
+  weekStart?: number; // WKST; weeks start on Monday when unset
+}
+
+export type RecurrencePreset = 'weekly' | 'biweekly' | 'monthly';
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops runaway expansion of rules that never produce a date
+const MAX_PERIODS = 5000;
+
+const toDate = (day: string) => new Date(`${day}T00:00:00Z`);
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (day: string, days: number) => toDay(new Date(toDate(day).getTime() + days * DAY_MS));
+
+export const weekdayOf = (day: string) => toDate(day).getUTCDay();
+
+// The calendar day a moment falls on in the device's time zone
+export const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const monthDay = (year: number, month: number, day: number) => toDay(new Date(Date.UTC(year, month, day)));
+
+const ordinalSuffix = (n: number) => {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+};
+
+const parseInteger = (value: string, part: string, min: number, max: number) => {
+  const number = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || number < min || number > max || number === 0) {
+    throw new Error(`Invalid ${part} "${value}" in recurrence rule`);
+  }
+  return number;
+};
+
+const parseWeekday = (code: string) => {
+  const weekday = WEEKDAY_CODES.indexOf(code);
+  if (weekday < 0) throw new Error(`Invalid weekday "${code}" in recurrence rule`);
+  return weekday;
+};
+
+/**
+ * Parses an RRULE (with or without the "RRULE:" prefix). Supports FREQ,
+ * INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL and WKST; throws on anything else
+ * so a rule is never silently expanded differently from the calendar it came from.
+ */
+export const parseRRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  text
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [key, value] = part.split('=');
+      if (!key || !value) throw new Error(`Invalid recurrence rule part "${part}"`);
+      parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    });
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error('A recurrence rule needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+  const unsupported = [...parts.keys()].filter((key) => !SUPPORTED_PARTS.includes(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  const interval = parts.get('INTERVAL');
+  if (interval) rule.interval = parseInteger(interval, 'INTERVAL', 1, 999);
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    rule.byDay = byDay.split(',').map((entry) => {
+      const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(entry);
+      if (!match) throw new Error(`Invalid BYDAY "${entry}" in recurrence rule`);
+      const weekday: RecurrenceWeekday = { weekday: parseWeekday(match[2]) };
+      if (match[1]) {
+        if (freq !== 'MONTHLY') throw new Error('Numbered weekdays (e.g. 2TU) are only supported for monthly rules');
+        weekday.ordinal = parseInteger(match[1], 'BYDAY', -5, 5);
+      }
+      return weekday;
+    });
+    if (freq === 'YEARLY') throw new Error('BYDAY is not supported for yearly rules');
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    if (freq !== 'MONTHLY') throw new Error('BYMONTHDAY is only supported for monthly rules');
+    if (rule.byDay) throw new Error('BYDAY and BYMONTHDAY cannot be combined');
+    rule.byMonthDay = byMonthDay.split(',').map((day) => parseInteger(day, 'BYMONTHDAY', -31, 31));
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if (count && until) throw new Error('A recurrence rule cannot have both COUNT and UNTIL');
+  if (count) rule.count = parseInteger(count, 'COUNT', 1, 9999);
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(until);
+    if (!match) throw new Error(`Invalid UNTIL "${until}" in recurrence rule`);
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  const weekStart = parts.get('WKST');
+  if (weekStart) rule.weekStart = parseWeekday(weekStart);
+  return rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${WEEKDAY_CODES[weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.weekStart !== undefined) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+};
+
+// First day of the nth period after the one holding the start date
+const periodStart = (rule: RecurrenceRule, startDate: string, period: number): string => {
+  const start = toDate(startDate);
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(startDate, step);
+    case 'WEEKLY': {
+      const weekStart = rule.weekStart ?? 1;
+      return addDays(startDate, step * 7 - ((start.getUTCDay() - weekStart + 7) % 7));
+    }
+    case 'MONTHLY':
+      return monthDay(start.getUTCFullYear(), start.getUTCMonth() + step, 1);
+    case 'YEARLY':
+      return monthDay(start.getUTCFullYear() + step, 0, 1);
+  }
+};
+
+// The rule's dates within one period, in order
+const periodDates = (rule: RecurrenceRule, startDate: string, first: string): string[] => {
+  const start = toDate(startDate);
+  const periodDate = toDate(first);
+  const year = periodDate.getUTCFullYear();
+  const month = periodDate.getUTCMonth();
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return !rule.byDay || rule.byDay.some(({ weekday }) => weekday === periodDate.getUTCDay()) ? [first] : [];
+    case 'WEEKLY': {
+      const weekdays = rule.byDay?.map(({ weekday }) => weekday) ?? [start.getUTCDay()];
+      return weekdays
+        .map((weekday) => addDays(first, (weekday - periodDate.getUTCDay() + 7) % 7))
+        .sort();
+    }
+    case 'MONTHLY': {
+      const length = daysInMonth(year, month);
+      if (rule.byDay) {
+        return rule.byDay
+          .flatMap(({ weekday, ordinal }) => {
+            const offset = (weekday - periodDate.getUTCDay() + 7) % 7;
+            const days: number[] = [];
+            for (let day = 1 + offset; day <= length; day += 7) days.push(day);
+            if (ordinal === undefined) return days;
+            const picked = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+            return picked === undefined ? [] : [picked];
+          })
+          .sort((a, b) => a - b)
+          .map((day) => monthDay(year, month, day));
+      }
+      // Days the month does not have are skipped, as RFC 5545 requires
+      return (rule.byMonthDay ?? [start.getUTCDate()])
+        .map((day) => (day > 0 ? day : length + day + 1))
+        .filter((day) => day >= 1 && day <= length)
+        .sort((a, b) => a - b)
+        .map((day) => monthDay(year, month, day));
+    }
+    case 'YEARLY':
+      return start.getUTCDate() <= daysInMonth(year, start.getUTCMonth())
+        ? [monthDay(year, start.getUTCMonth(), start.getUTCDate())]
+        : [];
+  }
+};
+
+/**
+ * Dates the rule produces from `from` through `through`, inclusive. Counting
+ * for COUNT always starts at the series' start date.
+ */
+export const expandRule = (
+  rule: RecurrenceRule,
+  startDate: string,
+  through: string,
+  from: string = startDate
+): string[] => {
+  const last = rule.until && rule.until < through ? rule.until : through;
+  const dates: string[] = [];
+  let counted = 0;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const first = periodStart(rule, startDate, period);
+    if (first > last) break;
+    for (const date of periodDates(rule, startDate, first)) {
+      if (date < startDate) continue;
+      if (date > last) return dates;
+      counted += 1;
+      if (rule.count && counted > rule.count) return dates;
+      if (date >= from) dates.push(date);
+    }
+  }
+  return dates;
+};
+
+export const presetRule = (preset: RecurrencePreset, startDate: string): string => {
+  const weekday = WEEKDAY_CODES[weekdayOf(startDate)];
+  switch (preset) {
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${weekday}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${toDate(startDate).getUTCDate()}`;
+  }
+};
+
+const listNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+// e.g. "Every 2 weeks on Monday", "Monthly on the last Friday, 6 times"
+export const describeRule = (rule: RecurrenceRule, startDate: string): string => {
+  const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text =
+    rule.interval === 1
+      ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+      : `Every ${rule.interval} ${units}s`;
+
+  if (rule.freq === 'WEEKLY' || (rule.freq === 'DAILY' && rule.byDay)) {
+    const weekdays = rule.byDay?.map(({ weekday }) => weekday) ?? [weekdayOf(startDate)];
+    text += ` on ${listNames(weekdays.map((weekday) => WEEKDAY_NAMES[weekday]))}`;
+  } else if (rule.freq === 'MONTHLY') {
+    if (rule.byDay) {
+      const names = rule.byDay.map(({ weekday, ordinal }) => {
+        if (ordinal === undefined) return `every ${WEEKDAY_NAMES[weekday]}`;
+        const position = ordinal === -1 ? 'last' : ordinal > 0 ? ordinalSuffix(ordinal) : `${ordinalSuffix(-ordinal)} to last`;
+        return `the ${position} ${WEEKDAY_NAMES[weekday]}`;
+      });
+      text += ` on ${listNames(names)}`;
+    } else {
+      const days = (rule.byMonthDay ?? [toDate(startDate).getUTCDate()]).map((day) =>
+        day === -1 ? 'the last day' : day > 0 ? `the ${ordinalSuffix(day)}` : `the ${ordinalSuffix(-day)} to last day`
+      );
+      text += ` on ${listNames(days)}`;
+    }
+  } else if (rule.freq === 'YEARLY') {
+    text += ` on ${toDate(startDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}`;
+  }
+
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+};
@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuditEntry, Client, InventoryItem, Job, JobSeries, JobTemplate, TrashEntry } from '../types';
+import { logService } from './LoggingService';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './SchemaMigrations';
+import { Entity, StorageBackend, getStorageBackend } from './StorageBackend';
+import { RecordCodec, clientCodec, decryptString, encryptString, jobCodec, trashCodec } from './EncryptionService';
+
+// Keys of the persisted collections. Redux slices and the service layer both
+// read and write through the repositories below, whatever the storage backend.
+export const JOBS_KEY = 'jobs';
+export const CLIENTS_KEY = 'clients';
+export const TRASH_KEY = 'trash';
+export const AUDIT_KEY = 'auditTrail';
+export const TEMPLATES_KEY = 'jobTemplates';
+export const SERIES_KEY = 'jobSeries';
+export const INVENTORY_KEY = 'inventory';
+
+// Set once the legacy redux-persist copies have been merged into the repository
+const MIGRATION_FLAG_KEY = 'repository_migration_v1';
+// Raw legacy copies, written before merging so a failed merge loses nothing
+export const MIGRATION_BACKUP_KEY = 'repository_migration_backup';
+// Losing side of any conflict found during the merge, kept for manual recovery
+export const MIGRATION_CONFLICTS_KEY = 'repository_migration_conflicts';
+
+export interface MergeConflict<T extends Entity> {
+  id: string;
+  kept: T;
+  discarded: T;
+}
+
+export interface MergeResult<T extends Entity> {
+  merged: T[];
+  conflicts: MergeConflict<T>[];
+  addedFromSecondary: number;
+}
+
+// Keys of every repository, so a new storage backend can copy them all over
+export const registeredCollectionKeys: string[] = [];
+
+export class CollectionRepository<T extends Entity> {
+  // Backend whose copy of this collection is known to be on the current schema
+  private migratedOn: StorageBackend | null = null;
+
+  // `codec` encrypts sensitive fields on the way to storage and back
+  constructor(
+    public readonly key: string,
+    private readonly entityName: string,
+    private readonly category: string,
+    private readonly codec?: RecordCodec<T>
+  ) {
+    registeredCollectionKeys.push(key);
+  }
+
+  async getAll(): Promise<T[]> {
+    const backend = getStorageBackend();
+    const stored = await backend.read<T>(this.key);
+    if (!stored) return [];
+
+    const items = this.codec ? stored.items.map(this.codec.decode) : stored.items;
+    if (stored.schemaVersion >= CURRENT_SCHEMA_VERSION) {
+      this.migratedOn = backend;
+      return items;
+    }
+
+    const migrated = migrateRecords<T>(this.key, items, stored.schemaVersion);
+    logService.info(this.category, `Migrated "${this.key}" schema`, {
+      fromVersion: stored.schemaVersion,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      records: migrated.length,
+    });
+    await backend.replaceAll(this.key, this.encodeAll(migrated));
+    this.migratedOn = backend;
+    return migrated;
+  }
+
+  async getById(id: string): Promise<T | null> {
+    const items = await this.getAll();
+    return items.find((item) => item.id === id) || null;
+  }
+
+  // Inserts the item, replacing any existing record with the same id
+  async insert(item: T): Promise<void> {
+    const backend = await this.currentBackend();
+    logService.debug(this.category, `Writing ${this.entityName} ${item.id} to "${this.key}"`);
+    await backend.put(this.key, this.encode(item));
+  }
+
+  async update(item: T): Promise<void> {
+    const backend = await this.currentBackend();
+    logService.debug(this.category, `Updating ${this.entityName} ${item.id} in "${this.key}"`);
+    if (!(await backend.update(this.key, this.encode(item)))) {
+      throw new Error(`${this.entityName} with ID ${item.id} not found`);
+    }
+  }
+
+  async remove(id: string): Promise<T> {
+    const backend = await this.currentBackend();
+    const removed = await backend.remove<T>(this.key, id);
+    if (!removed) {
+      throw new Error(`${this.entityName} with ID ${id} not found`);
+    }
+    return this.codec ? this.codec.decode(removed) : removed;
+  }
+
+  async replaceAll(items: T[]): Promise<void> {
+    const backend = getStorageBackend();
+    logService.debug(this.category, `Writing ${items.length} records to "${this.key}"`);
+    await backend.replaceAll(this.key, this.encodeAll(items));
+    this.migratedOn = backend;
+  }
+
+  private encode(item: T): T {
+    return this.codec ? this.codec.encode(item) : item;
+  }
+
+  private encodeAll(items: T[]): T[] {
+    return this.codec ? items.map(this.codec.encode) : items;
+  }
+
+  // Single-record writes must not stamp un-migrated data with the new version
+  private async currentBackend(): Promise<StorageBackend> {
+    const backend = getStorageBackend();
+    if (this.migratedOn !== backend) {
+      await this.getAll();
+    }
+    return backend;
+  }
+}
+
+export const jobsRepository = new CollectionRepository<Job>(JOBS_KEY, 'Job', 'STORAGE', jobCodec);
+export const clientsRepository = new CollectionRepository<Client>(CLIENTS_KEY, 'Client', 'CLIENT_SERVICE', clientCodec);
+export const trashRepository = new CollectionRepository<TrashEntry>(TRASH_KEY, 'Trash entry', 'TRASH', trashCodec);
+export const auditRepository = new CollectionRepository<AuditEntry>(AUDIT_KEY, 'Audit entry', 'AUDIT');
+export const templatesRepository = new CollectionRepository<JobTemplate>(TEMPLATES_KEY, 'Job template', 'TEMPLATES');
+export const seriesRepository = new CollectionRepository<JobSeries>(SERIES_KEY, 'Job series', 'RECURRENCE');
+export const inventoryRepository = new CollectionRepository<InventoryItem>(INVENTORY_KEY, 'Inventory item', 'INVENTORY');
+
+/**
+ * Merges two copies of a collection by id. Records present in only one copy
+ * are kept; when both copies hold different data for the same id the primary
+ * copy wins and the pair is reported as a conflict.
+ */
+export const mergeById = <T extends Entity>(primary: T[], secondary: T[]): MergeResult<T> => {
+  const merged = [...primary];
+  const byId = new Map(primary.map((item) => [item.id, item]));
+  const conflicts: MergeConflict<T>[] = [];
+  let addedFromSecondary = 0;
+
+  secondary.forEach((item) => {
+    const existing = byId.get(item.id);
+    if (!existing) {
+      byId.set(item.id, item);
+      merged.push(item);
+      addedFromSecondary += 1;
+    } else if (JSON.stringify(existing) !== JSON.stringify(item)) {
+      conflicts.push({ id: item.id, kept: existing, discarded: item });
+    }
+  });
+
+  return { merged, conflicts, addedFromSecondary };
+};
+
+export interface LegacyMigrationReport {
+  migrated: boolean;
+  jobsAdded: number;
+  clientsAdded: number;
+  jobConflicts: MergeConflict<Job>[];
+  clientConflicts: MergeConflict<Client>[];
+}
+
+/**
+ * One-time merge of the jobs/clients that older builds kept inside the
+ * redux-persist `root` blob into the repository keys. The repository copy is
+ * authoritative on conflicts; the discarded side is stored under
+ * MIGRATION_CONFLICTS_KEY so nothing is silently lost. Both the backup and the
+ * conflicts hold client details, so they are stored encrypted, and the backup
+ * is dropped once the merge has succeeded. The legacy copies are unversioned
+ * and untyped until the schema migrations have run over them.
+ */
+export const migrateLegacyPersistedCollections = async (
+  legacyJobs: unknown[],
+  legacyClients: unknown[]
+): Promise<LegacyMigrationReport> => {
+  const alreadyMigrated = await AsyncStorage.getItem(MIGRATION_FLAG_KEY);
+  if (alreadyMigrated) {
+    return { migrated: false, jobsAdded: 0, clientsAdded: 0, jobConflicts: [], clientConflicts: [] };
+  }
+
+  await AsyncStorage.setItem(
+    MIGRATION_BACKUP_KEY,
+    encryptString(JSON.stringify({ jobs: legacyJobs, clients: legacyClients }))
+  );
+
+  // Legacy redux copies predate schema versioning
+  const jobsResult = mergeById(
+    await jobsRepository.getAll(),
+    migrateRecords<Job>(JOBS_KEY, legacyJobs, 0)
+  );
+  const clientsResult = mergeById(
+    await clientsRepository.getAll(),
+    migrateRecords<Client>(CLIENTS_KEY, legacyClients, 0)
+  );
+
+  await jobsRepository.replaceAll(jobsResult.merged);
+  await clientsRepository.replaceAll(clientsResult.merged);
+
+  if (jobsResult.conflicts.length > 0 || clientsResult.conflicts.length > 0) {
+    await AsyncStorage.setItem(
+      MIGRATION_CONFLICTS_KEY,
+      encryptString(JSON.stringify({ jobs: jobsResult.conflicts, clients: clientsResult.conflicts }))
+    );
+    logService.warn('STORAGE', 'Conflicting records found while merging legacy persisted state', {
+      jobConflicts: jobsResult.conflicts.map((c) => c.id),
+      clientConflicts: clientsResult.conflicts.map((c) => c.id),
+    });
+  }
+
+  await AsyncStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+  await AsyncStorage.removeItem(MIGRATION_BACKUP_KEY);
+  logService.info('STORAGE', 'Merged legacy persisted state into repository', {
+    jobsAdded: jobsResult.addedFromSecondary,
+    clientsAdded: clientsResult.addedFromSecondary,
+  });
+
+  return {
+    migrated: true,
+    jobsAdded: jobsResult.addedFromSecondary,
+    clientsAdded: clientsResult.addedFromSecondary,
+    jobConflicts: jobsResult.conflicts,
+    clientConflicts: clientsResult.conflicts,
+  };
+};
+
+/**
+ * Retries a merge that failed on an earlier launch. The legacy copies are gone
+ * from the redux-persist blob by then, so they are read back from the backup
+ * written before that merge. Resolves null when there is nothing to retry.
+ */
+export const retryLegacyMigration = async (): Promise<LegacyMigrationReport | null> => {
+  const backup = await AsyncStorage.getItem(MIGRATION_BACKUP_KEY);
+  if (!backup || (await AsyncStorage.getItem(MIGRATION_FLAG_KEY))) return null;
+  const { jobs, clients }: { jobs?: unknown; clients?: unknown } = JSON.parse(decryptString(backup));
+  logService.info('STORAGE', 'Retrying the merge of legacy persisted state from its backup');
+  return migrateLegacyPersistedCollections(
+    Array.isArray(jobs) ? jobs : [],
+    Array.isArray(clients) ? clients : []
+  );
+};
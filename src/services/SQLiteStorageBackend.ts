@@ -0,0 +1,349 @@
+import * as SQLite from 'expo-sqlite';
+import { CURRENT_SCHEMA_VERSION } from './SchemaMigrations';
+import {
+  CollectionEnvelope,
+  Entity,
+  StorageBackend,
+  asyncStorageBackend,
+  setStorageBackend,
+} from './StorageBackend';
+import { logService } from './LoggingService';
+
+const DATABASE_NAME = 'oyhustle.db';
+const JOBS_COLLECTION = 'jobs';
+
+type BindValue = string | number | null;
+
+// Subset of expo-sqlite's SQLiteDatabase used here (also lets tests plug in sql.js)
+export interface SQLiteExecutor {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: BindValue[]): Promise<unknown>;
+  getAllAsync<T>(source: string, params: BindValue[]): Promise<T[]>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+// Nested job arrays stored one row per entry
+const JOB_CHILD_TABLES = [
+  { table: 'expenses', field: 'expenses' },
+  { table: 'payments', field: 'payments' },
+  { table: 'checklist_items', field: 'toolsAndSupplies' },
+] as const;
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS collection_meta (
+  collection TEXT PRIMARY KEY NOT NULL,
+  schema_version INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS documents (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection, id)
+);
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY NOT NULL,
+  client_id TEXT,
+  status TEXT,
+  start_date TEXT,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_jobs_client_id ON jobs (client_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status);
+${JOB_CHILD_TABLES.map(
+  ({ table }) => `
+CREATE TABLE IF NOT EXISTS ${table} (
+  job_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_${table}_job_id ON ${table} (job_id);`
+).join('\n')}
+`;
+
+interface DataRow {
+  id: string;
+  data: string;
+}
+
+interface ChildRow {
+  job_id: string;
+  data: string;
+}
+
+/**
+ * Row-per-entity engine. Jobs get their own indexed table with expenses,
+ * payments and checklist items split into child tables, so editing one job
+ * touches only that job's rows. Other collections share a keyed documents
+ * table. Ordering follows rowid, matching the AsyncStorage engine where a
+ * re-inserted record moves to the end and an update keeps its place.
+ */
+export class SQLiteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+
+  constructor(private readonly db: SQLiteExecutor) {}
+
+  async initialize(): Promise<void> {
+    await this.db.execAsync(SCHEMA_SQL);
+  }
+
+  async hasCollection(key: string): Promise<boolean> {
+    const rows = await this.db.getAllAsync<{ schema_version: number }>(
+      'SELECT schema_version FROM collection_meta WHERE collection = ?',
+      [key]
+    );
+    return rows.length > 0;
+  }
+
+  async read<T extends Entity>(key: string): Promise<CollectionEnvelope<T> | null> {
+    const meta = await this.db.getAllAsync<{ schema_version: number }>(
+      'SELECT schema_version FROM collection_meta WHERE collection = ?',
+      [key]
+    );
+    if (meta.length === 0) return null;
+
+    const items = key === JOBS_COLLECTION ? await this.readJobs() : await this.readDocuments(key);
+    return { schemaVersion: meta[0].schema_version, items: items as T[] };
+  }
+
+  async put<T extends Entity>(key: string, item: T): Promise<void> {
+    await this.db.withTransactionAsync(async () => {
+      await this.deleteRecord(key, item.id);
+      await this.insertRecord(key, item);
+      await this.stamp(key);
+    });
+  }
+
+  async update<T extends Entity>(key: string, item: T): Promise<boolean> {
+    let found = false;
+    await this.db.withTransactionAsync(async () => {
+      found = await this.exists(key, item.id);
+      if (!found) return;
+      if (key === JOBS_COLLECTION) {
+        const { row, children } = splitJob(item);
+        await this.db.runAsync(
+          'UPDATE jobs SET client_id = ?, status = ?, start_date = ?, data = ? WHERE id = ?',
+          [row.clientId, row.status, row.startDate, row.data, item.id]
+        );
+        await this.replaceChildren(item.id, children);
+      } else {
+        await this.db.runAsync('UPDATE documents SET data = ? WHERE collection = ? AND id = ?', [
+          JSON.stringify(item),
+          key,
+          item.id,
+        ]);
+      }
+      await this.stamp(key);
+    });
+    return found;
+  }
+
+  async remove<T extends Entity>(key: string, id: string): Promise<T | null> {
+    const [existing] =
+      key === JOBS_COLLECTION ? await this.readJobs(id) : await this.readDocuments(key, id);
+    if (!existing) return null;
+    await this.db.withTransactionAsync(async () => {
+      await this.deleteRecord(key, id);
+      await this.stamp(key);
+    });
+    return existing as T;
+  }
+
+  async replaceAll<T extends Entity>(key: string, items: T[]): Promise<void> {
+    await this.db.withTransactionAsync(async () => {
+      if (key === JOBS_COLLECTION) {
+        await this.db.runAsync('DELETE FROM jobs', []);
+        for (const { table } of JOB_CHILD_TABLES) {
+          await this.db.runAsync(`DELETE FROM ${table}`, []);
+        }
+      } else {
+        await this.db.runAsync('DELETE FROM documents WHERE collection = ?', [key]);
+      }
+      for (const item of items) {
+        await this.insertRecord(key, item);
+      }
+      await this.stamp(key);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.db.withTransactionAsync(async () => {
+      for (const table of ['collection_meta', 'documents', 'jobs', ...JOB_CHILD_TABLES.map((c) => c.table)]) {
+        await this.db.runAsync(`DELETE FROM ${table}`, []);
+      }
+    });
+  }
+
+  // All jobs, or just one when an id is given
+  private async readJobs(id?: string): Promise<Entity[]> {
+    const filter = id !== undefined ? ' WHERE id = ?' : '';
+    const childFilter = id !== undefined ? ' WHERE job_id = ?' : '';
+    const params = id !== undefined ? [id] : [];
+    const rows = await this.db.getAllAsync<DataRow>(
+      `SELECT id, data FROM jobs${filter} ORDER BY rowid`,
+      params
+    );
+    const childrenByTable = new Map<string, Map<string, unknown[]>>();
+    for (const { table } of JOB_CHILD_TABLES) {
+      const childRows = await this.db.getAllAsync<ChildRow>(
+        `SELECT job_id, data FROM ${table}${childFilter} ORDER BY rowid`,
+        params
+      );
+      const byJob = new Map<string, unknown[]>();
+      childRows.forEach(({ job_id, data }) => {
+        const list = byJob.get(job_id) || [];
+        list.push(JSON.parse(data));
+        byJob.set(job_id, list);
+      });
+      childrenByTable.set(table, byJob);
+    }
+
+    return rows.map(({ id, data }) => {
+      const job = JSON.parse(data);
+      JOB_CHILD_TABLES.forEach(({ table, field }) => {
+        // An empty array placeholder marks that the job had this list at all
+        if (Array.isArray(job[field])) {
+          job[field] = childrenByTable.get(table)?.get(id) || [];
+        }
+      });
+      return job;
+    });
+  }
+
+  private async readDocuments(key: string, id?: string): Promise<Entity[]> {
+    const rows = await this.db.getAllAsync<DataRow>(
+      `SELECT id, data FROM documents WHERE collection = ?${id !== undefined ? ' AND id = ?' : ''} ORDER BY rowid`,
+      id !== undefined ? [key, id] : [key]
+    );
+    return rows.map(({ data }) => JSON.parse(data));
+  }
+
+  private async exists(key: string, id: string): Promise<boolean> {
+    const rows =
+      key === JOBS_COLLECTION
+        ? await this.db.getAllAsync<{ id: string }>('SELECT id FROM jobs WHERE id = ?', [id])
+        : await this.db.getAllAsync<{ id: string }>(
+            'SELECT id FROM documents WHERE collection = ? AND id = ?',
+            [key, id]
+          );
+    return rows.length > 0;
+  }
+
+  private async insertRecord(key: string, item: Entity): Promise<void> {
+    if (key === JOBS_COLLECTION) {
+      const { row, children } = splitJob(item);
+      await this.db.runAsync(
+        'INSERT INTO jobs (id, client_id, status, start_date, data) VALUES (?, ?, ?, ?, ?)',
+        [item.id, row.clientId, row.status, row.startDate, row.data]
+      );
+      await this.insertChildren(item.id, children);
+    } else {
+      await this.db.runAsync('INSERT INTO documents (collection, id, data) VALUES (?, ?, ?)', [
+        key,
+        item.id,
+        JSON.stringify(item),
+      ]);
+    }
+  }
+
+  private async deleteRecord(key: string, id: string): Promise<void> {
+    if (key === JOBS_COLLECTION) {
+      await this.db.runAsync('DELETE FROM jobs WHERE id = ?', [id]);
+      for (const { table } of JOB_CHILD_TABLES) {
+        await this.db.runAsync(`DELETE FROM ${table} WHERE job_id = ?`, [id]);
+      }
+    } else {
+      await this.db.runAsync('DELETE FROM documents WHERE collection = ? AND id = ?', [key, id]);
+    }
+  }
+
+  private async replaceChildren(jobId: string, children: JobChildren): Promise<void> {
+    for (const { table } of JOB_CHILD_TABLES) {
+      await this.db.runAsync(`DELETE FROM ${table} WHERE job_id = ?`, [jobId]);
+    }
+    await this.insertChildren(jobId, children);
+  }
+
+  private async insertChildren(jobId: string, children: JobChildren): Promise<void> {
+    for (const { table, rows } of children) {
+      for (const child of rows) {
+        await this.db.runAsync(`INSERT INTO ${table} (job_id, id, data) VALUES (?, ?, ?)`, [
+          jobId,
+          child.id,
+          JSON.stringify(child),
+        ]);
+      }
+    }
+  }
+
+  private async stamp(key: string): Promise<void> {
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO collection_meta (collection, schema_version) VALUES (?, ?)',
+      [key, CURRENT_SCHEMA_VERSION]
+    );
+  }
+}
+
+type JobChildren = { table: string; rows: Entity[] }[];
+
+// Indexed columns are only filled from string fields
+const textColumn = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const splitJob = (job: Entity) => {
+  const data: Record<string, unknown> = { ...job };
+  const children: JobChildren = JOB_CHILD_TABLES.map(({ table, field }) => {
+    const rows = data[field];
+    if (rows !== undefined) {
+      data[field] = [];
+    }
+    return { table, rows: Array.isArray(rows) ? (rows as Entity[]) : [] };
+  });
+
+  return {
+    row: {
+      clientId: textColumn(data.clientId),
+      status: textColumn(data.status),
+      startDate: textColumn(data.startDate),
+      data: JSON.stringify(data),
+    },
+    children,
+  };
+};
+
+/**
+ * Opens the on-device database and makes it the active backend. Collections
+ * that only exist in AsyncStorage so far are copied over once. On any failure
+ * the app keeps using AsyncStorage.
+ */
+export const initializeSQLiteStorage = async (collectionKeys: string[]): Promise<StorageBackend> => {
+  try {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+    const backend = new SQLiteStorageBackend(db);
+    await backend.initialize();
+
+    for (const key of collectionKeys) {
+      if (await backend.hasCollection(key)) continue;
+      const legacy = await asyncStorageBackend.read(key);
+      if (!legacy) continue;
+      // Copied as-is; the repository upgrades the schema on first read
+      await backend.replaceAll(key, legacy.items);
+      if (legacy.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+        await db.runAsync(
+          'UPDATE collection_meta SET schema_version = ? WHERE collection = ?',
+          [legacy.schemaVersion, key]
+        );
+      }
+      logService.info('STORAGE', `Copied "${key}" from AsyncStorage into SQLite`, {
+        records: legacy.items.length,
+      });
+    }
+
+    setStorageBackend(backend);
+    logService.info('STORAGE', 'Using SQLite storage backend');
+    return backend;
+  } catch (error) {
+    logService.logError('STORAGE', error as Error, { operation: 'initializeSQLiteStorage' });
+    setStorageBackend(asyncStorageBackend);
+    return asyncStorageBackend;
+  }
+};
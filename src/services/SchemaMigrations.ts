@@ -0,0 +1,139 @@
+import { MigrationManifest, PersistedState } from 'redux-persist';
+
+// Bump this and append a step below whenever a persisted shape changes.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// A stored record or blob of whatever shape an older build wrote
+export type LegacyRecord = Record<string, unknown>;
+
+export type RecordMigration = (record: LegacyRecord) => LegacyRecord;
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  // Per-record upgrades keyed by repository collection key
+  collections?: Record<string, RecordMigration>;
+  // Applied to the redux-persist root blob (budget, settings), which is undefined before the first save
+  persisted?: (state: LegacyRecord | undefined) => LegacyRecord | undefined;
+}
+
+const isRecord = (value: unknown): value is LegacyRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): LegacyRecord => (isRecord(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const normalizeExpense = (value: unknown, index: number): LegacyRecord => {
+  const expense = asRecord(value);
+  return {
+    ...expense,
+    id: expense.id || `expense_legacy_${index}`,
+    description: expense.description ?? '',
+    amount: toNumber(expense.amount),
+    isReimbursable: !!expense.isReimbursable,
+  };
+};
+
+/**
+ * Ordered registry of schema changes. Each step upgrades a record from
+ * `version - 1` to `version`; steps must never be edited once shipped.
+ */
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Rename legacy job/client fields (title, pay, date, name, email, phone)',
+    collections: {
+      jobs: ({ title, pay, date, ...job }) => ({
+        ...job,
+        jobName: job.jobName ?? title ?? '',
+        quote: job.quote ?? pay ?? 0,
+        startDate: job.startDate ?? date ?? '',
+        quoteDate: job.quoteDate ?? date ?? '',
+        endDate: job.endDate ?? job.startDate ?? date ?? '',
+        description: job.description ?? '',
+        status: job.status ?? 'Quoted',
+        expenses: job.expenses ?? [],
+      }),
+      clients: ({ name, email, phone, ...client }) => ({
+        ...client,
+        fullName: client.fullName ?? name ?? '',
+        emailAddress: client.emailAddress ?? email ?? '',
+        phoneNumber: client.phoneNumber ?? phone ?? '',
+        address: client.address ?? '',
+      }),
+    },
+  },
+  {
+    version: 2,
+    description: 'Coerce stored amounts to numbers and fill expense/payment defaults',
+    collections: {
+      jobs: (job) => ({
+        ...job,
+        quote: toNumber(job.quote),
+        expenses: asArray(job.expenses).map(normalizeExpense),
+        ...(Array.isArray(job.payments) && {
+          payments: job.payments.map((value) => {
+            const payment = asRecord(value);
+            return { ...payment, jobId: payment.jobId ?? job.id, amount: toNumber(payment.amount) };
+          }),
+        }),
+      }),
+    },
+    persisted: (state) => {
+      if (!isRecord(state?.budget)) return state;
+      return {
+        ...state,
+        budget: {
+          ...state.budget,
+          expenses: asArray(state.budget.expenses).map(normalizeExpense),
+        },
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Add trash retention setting',
+    persisted: (state) =>
+      isRecord(state?.settings)
+        ? {
+            ...state,
+            settings: { trashRetentionDays: 30, ...state.settings },
+          }
+        : state,
+  },
+];
+
+/**
+ * Runs every step newer than `fromVersion` over the given records. Entries
+ * that are not objects cannot be records and are dropped. The result is only
+ * typed as `T` because the steps bring every record up to the current shape.
+ */
+export const migrateRecords = <T>(
+  collection: string,
+  records: unknown[],
+  fromVersion: number
+): T[] =>
+  schemaMigrations
+    .filter((step) => step.version > fromVersion && step.version <= CURRENT_SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version)
+    .reduce<LegacyRecord[]>((current, step) => {
+      const migrate = step.collections?.[collection];
+      return migrate ? current.map(migrate) : current;
+    }, records.filter(isRecord)) as T[];
+
+// redux-persist manifest built from the same registry (used with createMigrate)
+export const persistMigrations: MigrationManifest = schemaMigrations.reduce(
+  (manifest, step) => ({
+    ...manifest,
+    // redux-persist types the blob only by its _persist key; the steps narrow the rest
+    [step.version]: (state: PersistedState) =>
+      step.persisted ? (step.persisted(state as LegacyRecord | undefined) as PersistedState) : state,
+  }),
+  {} as MigrationManifest
+);
@@ -53,7 +53,8 @@ export const seedMinimal = async () => {
   return { clients: [c1], jobs };
 };
 
-export const seedFullWorkflow = async () => {
+// Dataset behind seedFullWorkflow; jobCount can be raised for load testing
+export const buildFullWorkflowData = (jobCount = 50) => {
   const c1 = makeClient(1);
 
   const statuses: Job['status'][] = [
@@ -73,7 +74,7 @@ export const seedFullWorkflow = async () => {
 
   const today = new Date();
   const jobs: Job[] = [];
-  for (let i = 1; i <= 50; i++) {
+  for (let i = 1; i <= jobCount; i++) {
     const status = statuses[(i - 1) % statuses.length];
     const start = new Date(today);
     start.setDate(start.getDate() - i); // newer first when sorted desc
@@ -101,11 +102,16 @@ export const seedFullWorkflow = async () => {
     jobs.push(j);
   }
 
-  await setJobs(jobs);
-  await persistClients([c1]);
   return { clients: [c1], jobs };
 };
 
+export const seedFullWorkflow = async () => {
+  const { clients, jobs } = buildFullWorkflowData();
+  await setJobs(jobs);
+  await persistClients(clients);
+  return { clients, jobs };
+};
+
 export const seedEdgeCases = async () => {
   const c = makeClient(99);
   const overBudget = makeJob(99, c, 'In-Progress');
@@ -0,0 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CURRENT_SCHEMA_VERSION } from './SchemaMigrations';
+
+export interface Entity {
+  id: string;
+}
+
+// Stored shape of every collection. Builds before schema versioning wrote a
+// bare array, which is read as version 0.
+export interface CollectionEnvelope<T> {
+  schemaVersion: number;
+  items: T[];
+}
+
+/**
+ * Persistence engine behind the repositories. Writes always stamp the
+ * collection with CURRENT_SCHEMA_VERSION; callers are expected to have
+ * migrated older data (see CollectionRepository) before writing.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  read<T extends Entity>(key: string): Promise<CollectionEnvelope<T> | null>;
+  // Inserts the item, replacing any existing record with the same id
+  put<T extends Entity>(key: string, item: T): Promise<void>;
+  // Resolves false when no record with the item's id exists
+  update<T extends Entity>(key: string, item: T): Promise<boolean>;
+  // Resolves the removed record, or null when it did not exist
+  remove<T extends Entity>(key: string, id: string): Promise<T | null>;
+  replaceAll<T extends Entity>(key: string, items: T[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Original engine: one JSON blob per collection, rewritten on every change.
+ * Kept as the fallback when SQLite is unavailable.
+ */
+class AsyncStorageBackend implements StorageBackend {
+  readonly name = 'asyncstorage';
+
+  async read<T extends Entity>(key: string): Promise<CollectionEnvelope<T> | null> {
+    const jsonValue = await AsyncStorage.getItem(key);
+    if (jsonValue == null) return null;
+    const parsed = JSON.parse(jsonValue);
+    return Array.isArray(parsed) ? { schemaVersion: 0, items: parsed } : parsed;
+  }
+
+  async put<T extends Entity>(key: string, item: T): Promise<void> {
+    const items = await this.items<T>(key);
+    await this.replaceAll(key, [...items.filter((existing) => existing.id !== item.id), item]);
+  }
+
+  async update<T extends Entity>(key: string, item: T): Promise<boolean> {
+    const items = await this.items<T>(key);
+    if (!items.some((existing) => existing.id === item.id)) return false;
+    await this.replaceAll(key, items.map((existing) => (existing.id === item.id ? item : existing)));
+    return true;
+  }
+
+  async remove<T extends Entity>(key: string, id: string): Promise<T | null> {
+    const items = await this.items<T>(key);
+    const removed = items.find((existing) => existing.id === id);
+    if (!removed) return null;
+    await this.replaceAll(key, items.filter((existing) => existing.id !== id));
+    return removed;
+  }
+
+  async replaceAll<T extends Entity>(key: string, items: T[]): Promise<void> {
+    const envelope: CollectionEnvelope<T> = { schemaVersion: CURRENT_SCHEMA_VERSION, items };
+    await AsyncStorage.setItem(key, JSON.stringify(envelope));
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.clear();
+  }
+
+  private async items<T extends Entity>(key: string): Promise<T[]> {
+    return (await this.read<T>(key))?.items || [];
+  }
+}
+
+export const asyncStorageBackend: StorageBackend = new AsyncStorageBackend();
+
+let activeBackend: StorageBackend = asyncStorageBackend;
+
+export const getStorageBackend = (): StorageBackend => activeBackend;
+
+export const setStorageBackend = (backend: StorageBackend): void => {
+  activeBackend = backend;
+};
@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { SaveFormat, manipulateAsync } from 'expo-image-manipulator';
+import { Expense, Job, TrashEntry } from '../types';
+import { logService } from './LoggingService';
+import { CLIENTS_KEY, JOBS_KEY, registeredCollectionKeys, trashRepository } from './Repository';
+import { getStorageBackend } from './StorageBackend';
+import { getJobs } from './StorageService';
+
+const RECEIPTS_DIR = 'receipts/';
+
+// Android caps the AsyncStorage database at 6 MB and cannot read back a single
+// value larger than about 2 MB, so the JSON blobs are checked against both.
+export const ASYNC_STORAGE_LIMIT_BYTES = 6 * 1024 * 1024;
+export const ASYNC_STORAGE_ENTRY_LIMIT_BYTES = 2 * 1024 * 1024;
+// Fraction of a limit at which a warning, then a critical warning, is raised
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_CRITICAL_RATIO = 0.95;
+// Free device space below which new receipt photos may fail to save
+export const FREE_DISK_WARNING_BYTES = 500 * 1024 * 1024;
+export const FREE_DISK_CRITICAL_BYTES = 100 * 1024 * 1024;
+// A receipt that was just captured is not referenced until its expense is
+// saved, so younger files are never treated as orphaned.
+export const ORPHAN_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+// Receipts smaller than this are left alone by compressReceipts
+export const RECEIPT_COMPRESS_MIN_BYTES = 300 * 1024;
+export const RECEIPT_MAX_WIDTH = 1600;
+export const RECEIPT_JPEG_QUALITY = 0.6;
+
+export interface CollectionUsage {
+  key: string;
+  bytes: number;
+  records: number;
+}
+
+export interface ReceiptFile {
+  uri: string;
+  bytes: number;
+}
+
+export interface StorageWarning {
+  level: 'warning' | 'critical';
+  message: string;
+}
+
+export interface StorageReport {
+  backend: string;
+  collections: CollectionUsage[];
+  // Everything held in AsyncStorage, including settings and the sync/outbox state
+  asyncStorageBytes: number;
+  receipts: { count: number; bytes: number; missing: number };
+  orphanedReceipts: ReceiptFile[];
+  freeDiskBytes: number | null;
+  warnings: StorageWarning[];
+  inspectedAt: string;
+}
+
+export interface ReceiptCleanupResult {
+  deleted: number;
+  bytesFreed: number;
+}
+
+export interface ReceiptCompressionResult {
+  compressed: number;
+  bytesSaved: number;
+}
+
+const receiptsDirectory = () => `${FileSystem.documentDirectory}${RECEIPTS_DIR}`;
+
+// Storage is UTF-8, so non-ASCII characters take more than one byte
+export const utf8ByteLength = (value: string): number => {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const fileSize = async (uri: string): Promise<{ exists: boolean; bytes: number; modifiedAt: number }> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists
+    ? { exists: true, bytes: info.size ?? 0, modifiedAt: (info.modificationTime ?? 0) * 1000 }
+    : { exists: false, bytes: 0, modifiedAt: 0 };
+};
+
+// Sizes the stored (encrypted) form of every repository collection
+const measureCollections = async (): Promise<CollectionUsage[]> => {
+  const backend = getStorageBackend();
+  return Promise.all(
+    registeredCollectionKeys.map(async (key) => {
+      const stored = await backend.read(key);
+      return {
+        key,
+        bytes: stored ? utf8ByteLength(JSON.stringify(stored)) : 0,
+        records: stored?.items.length ?? 0,
+      };
+    })
+  );
+};
+
+const measureAsyncStorage = async (): Promise<number> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const entries = await AsyncStorage.multiGet(keys);
+  return entries.reduce((sum, [key, value]) => sum + utf8ByteLength(key) + utf8ByteLength(value ?? ''), 0);
+};
+
+const trashedReceiptUris = (entry: TrashEntry): (string | undefined)[] => {
+  if (entry.type === 'job') return (entry.record as Job).expenses.map((e) => e.receiptImageLocalUri);
+  if (entry.type === 'expense') return [(entry.record as Expense).receiptImageLocalUri];
+  return [];
+};
+
+/**
+ * Receipt files still in use: those on live expenses (including writes waiting
+ * in the outbox) and those on trashed jobs and expenses, which get their files
+ * back on restore. Read failures are thrown so that a storage error is never
+ * mistaken for "nothing references these files".
+ */
+const referencedReceiptUris = async (): Promise<Set<string>> => {
+  const [jobs, trash] = await Promise.all([getJobs(), trashRepository.getAll()]);
+  const uris = [
+    ...jobs.flatMap((job) => job.expenses.map((expense) => expense.receiptImageLocalUri)),
+    ...trash.flatMap(trashedReceiptUris),
+  ];
+  return new Set(uris.filter((uri): uri is string => !!uri));
+};
+
+const listReceiptFiles = async (): Promise<string[]> => {
+  const dir = receiptsDirectory();
+  const info = await FileSystem.getInfoAsync(dir);
+  if (!info.exists) return [];
+  const names = await FileSystem.readDirectoryAsync(dir);
+  return names.map((name) => `${dir}${name}`);
+};
+
+const findOrphanedReceipts = async (referenced: Set<string>, now: number): Promise<ReceiptFile[]> => {
+  const orphans: ReceiptFile[] = [];
+  for (const uri of await listReceiptFiles()) {
+    if (referenced.has(uri)) continue;
+    const file = await fileSize(uri);
+    if (file.exists && now - file.modifiedAt >= ORPHAN_MIN_AGE_MS) {
+      orphans.push({ uri, bytes: file.bytes });
+    }
+  }
+  return orphans;
+};
+
+const readFreeDiskBytes = async (): Promise<number | null> => {
+  try {
+    return await FileSystem.getFreeDiskStorageAsync();
+  } catch (error) {
+    logService.warn('STORAGE_INSPECTOR', 'Free disk space is not available on this platform');
+    return null;
+  }
+};
+
+const limitWarning = (label: string, bytes: number, limit: number): StorageWarning | null => {
+  const usage = `${label} is using ${formatBytes(bytes)} of ${formatBytes(limit)}`;
+  if (bytes >= limit * STORAGE_CRITICAL_RATIO) {
+    return { level: 'critical', message: `${usage}. New changes may soon fail to save.` };
+  }
+  if (bytes >= limit * STORAGE_WARNING_RATIO) {
+    return { level: 'warning', message: `${usage}.` };
+  }
+  return null;
+};
+
+export const storageWarnings = (
+  report: Pick<StorageReport, 'backend' | 'collections' | 'asyncStorageBytes' | 'freeDiskBytes'>
+): StorageWarning[] => {
+  const warnings: (StorageWarning | null)[] = [];
+  // The SQLite backend stores rows in its own database, free of these limits
+  if (report.backend === 'asyncstorage') {
+    warnings.push(limitWarning('App data', report.asyncStorageBytes, ASYNC_STORAGE_LIMIT_BYTES));
+    for (const collection of report.collections) {
+      warnings.push(limitWarning(`The ${collection.key} list`, collection.bytes, ASYNC_STORAGE_ENTRY_LIMIT_BYTES));
+    }
+  }
+  if (report.freeDiskBytes != null) {
+    const free = `Only ${formatBytes(report.freeDiskBytes)} of device storage is free`;
+    if (report.freeDiskBytes < FREE_DISK_CRITICAL_BYTES) {
+      warnings.push({ level: 'critical', message: `${free}. Receipt photos may fail to save.` });
+    } else if (report.freeDiskBytes < FREE_DISK_WARNING_BYTES) {
+      warnings.push({ level: 'warning', message: `${free}.` });
+    }
+  }
+  return warnings.filter((warning): warning is StorageWarning => warning !== null);
+};
+
+/**
+ * Measures the jobs/clients blobs and the other stored collections, the receipt
+ * images referenced by expenses, and receipt files nothing references any more.
+ */
+export const inspectStorage = async (now: Date = new Date()): Promise<StorageReport> => {
+  try {
+    const backend = getStorageBackend().name;
+    const collections = await measureCollections();
+    const asyncStorageBytes = await measureAsyncStorage();
+    const referenced = await referencedReceiptUris();
+
+    const receipts = { count: 0, bytes: 0, missing: 0 };
+    for (const uri of referenced) {
+      const file = await fileSize(uri);
+      if (file.exists) {
+        receipts.count += 1;
+        receipts.bytes += file.bytes;
+      } else {
+        receipts.missing += 1;
+      }
+    }
+
+    const orphanedReceipts = await findOrphanedReceipts(referenced, now.getTime());
+    const freeDiskBytes = await readFreeDiskBytes();
+    const report: StorageReport = {
+      backend,
+      collections,
+      asyncStorageBytes,
+      receipts,
+      orphanedReceipts,
+      freeDiskBytes,
+      warnings: storageWarnings({ backend, collections, asyncStorageBytes, freeDiskBytes }),
+      inspectedAt: now.toISOString(),
+    };
+
+    logService.info('STORAGE_INSPECTOR', 'Storage inspected', {
+      jobsBytes: collections.find((c) => c.key === JOBS_KEY)?.bytes,
+      clientsBytes: collections.find((c) => c.key === CLIENTS_KEY)?.bytes,
+      receiptBytes: receipts.bytes,
+      orphanedReceipts: orphanedReceipts.length,
+      warnings: report.warnings.length,
+    });
+    return report;
+  } catch (error) {
+    logService.logError('STORAGE_INSPECTOR', error as Error, { operation: 'inspectStorage' });
+    throw error;
+  }
+};
+
+// Deletes receipt files that no live or trashed expense points at
+export const cleanUpOrphanedReceipts = async (now: Date = new Date()): Promise<ReceiptCleanupResult> => {
+  try {
+    const orphans = await findOrphanedReceipts(await referencedReceiptUris(), now.getTime());
+    const result: ReceiptCleanupResult = { deleted: 0, bytesFreed: 0 };
+    for (const orphan of orphans) {
+      try {
+        await FileSystem.deleteAsync(orphan.uri, { idempotent: true });
+        result.deleted += 1;
+        result.bytesFreed += orphan.bytes;
+      } catch (error) {
+        logService.warn('STORAGE_INSPECTOR', 'Failed to delete orphaned receipt', { uri: orphan.uri });
+      }
+    }
+    logService.logUserAction('orphaned_receipts_deleted', { ...result });
+    return result;
+  } catch (error) {
+    logService.logError('STORAGE_INSPECTOR', error as Error, { operation: 'cleanUpOrphanedReceipts' });
+    throw error;
+  }
+};
+
+// Keeps the original until the replacement is in place, and puts it back if the move fails
+const replaceFile = async (uri: string, replacementUri: string): Promise<void> => {
+  const backupUri = `${uri}.bak`;
+  await FileSystem.moveAsync({ from: uri, to: backupUri });
+  try {
+    await FileSystem.moveAsync({ from: replacementUri, to: uri });
+  } catch (error) {
+    await FileSystem.moveAsync({ from: backupUri, to: uri });
+    throw error;
+  }
+  await FileSystem.deleteAsync(backupUri, { idempotent: true });
+};
+
+/**
+ * Re-encodes large receipt photos as JPEG, scaled down to RECEIPT_MAX_WIDTH.
+ * The result replaces the original file in place, so expenses keep their
+ * `receiptImageLocalUri`. Files that would not get smaller are left untouched.
+ */
+export const compressReceipts = async (): Promise<ReceiptCompressionResult> => {
+  try {
+    const result: ReceiptCompressionResult = { compressed: 0, bytesSaved: 0 };
+    for (const uri of await referencedReceiptUris()) {
+      const original = await fileSize(uri);
+      if (!original.exists || original.bytes < RECEIPT_COMPRESS_MIN_BYTES) continue;
+
+      try {
+        const saveOptions = { compress: RECEIPT_JPEG_QUALITY, format: SaveFormat.JPEG };
+        let output = await manipulateAsync(uri, [], saveOptions);
+        if (output.width > RECEIPT_MAX_WIDTH) {
+          const encoded = output.uri;
+          output = await manipulateAsync(uri, [{ resize: { width: RECEIPT_MAX_WIDTH } }], saveOptions);
+          await FileSystem.deleteAsync(encoded, { idempotent: true });
+        }
+
+        const smaller = await fileSize(output.uri);
+        if (smaller.bytes >= original.bytes) {
+          await FileSystem.deleteAsync(output.uri, { idempotent: true });
+          continue;
+        }
+        await replaceFile(uri, output.uri);
+        result.compressed += 1;
+        result.bytesSaved += original.bytes - smaller.bytes;
+      } catch (error) {
+        logService.warn('STORAGE_INSPECTOR', 'Failed to compress receipt', { uri });
+      }
+    }
+    logService.logUserAction('receipts_compressed', { ...result });
+    return result;
+  } catch (error) {
+    logService.logError('STORAGE_INSPECTOR', error as Error, { operation: 'compressReceipts' });
+    throw error;
+  }
+};
@@ -1,19 +1,24 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Job } from '../types';
+import { Job, Payment } from '../types';
 import { logService } from './LoggingService';
+import { jobsRepository } from './Repository';
+import { getStorageBackend } from './StorageBackend';
+import { runInTransaction } from './UnitOfWork';
+import { withPendingWrites } from './OutboxService';
+import { checkTransition, transitionJob } from './JobLifecycle';
+import { quoteTotal } from './QuoteCalculator';
 
-const JOBS_KEY = 'jobs';
-
+// Includes writes still waiting in the outbox. A read failure is thrown rather
+// than reported as an empty list, which would look like lost data.
 export const getJobs = async (): Promise<Job[]> => {
   try {
     logService.debug('STORAGE', 'Fetching jobs from AsyncStorage');
-    const jsonValue = await AsyncStorage.getItem(JOBS_KEY);
-    const jobs = jsonValue != null ? JSON.parse(jsonValue) : [];
+    const jobs = await withPendingWrites('jobs', await jobsRepository.getAll());
     logService.info('STORAGE', `Successfully fetched ${jobs.length} jobs`);
     return jobs;
   } catch (error) {
     logService.logError('STORAGE', error as Error, { operation: 'getJobs' });
-    return [];
+    throw error;
   }
 };
 
@@ -33,7 +38,7 @@ export const getJobById = async (id: string): Promise<Job | null> => {
       operation: 'getJobById',
       jobId: id,
     });
-    return null;
+    throw error;
   }
 };
 
@@ -42,13 +47,9 @@ export const saveJob = async (job: Job): Promise<void> => {
     logService.debug('STORAGE', `Saving new job: ${job.jobName}`, {
       jobId: job.id,
     });
-    const jobs = await getJobs();
-    const newJobs = [...jobs, job];
-    const jsonValue = JSON.stringify(newJobs);
-    await AsyncStorage.setItem(JOBS_KEY, jsonValue);
+    await jobsRepository.insert(job);
     logService.info('STORAGE', `Successfully saved job: ${job.jobName}`, {
       jobId: job.id,
-      totalJobs: newJobs.length,
     });
   } catch (error) {
     logService.logError('STORAGE', error as Error, {
@@ -65,23 +66,7 @@ export const updateJob = async (updatedJob: Job): Promise<void> => {
     logService.debug('STORAGE', `Updating job: ${updatedJob.jobName}`, {
       jobId: updatedJob.id,
     });
-    const jobs = await getJobs();
-    const jobIndex = jobs.findIndex((job) => job.id === updatedJob.id);
-
-    if (jobIndex === -1) {
-      const error = new Error(`Job with ID ${updatedJob.id} not found`);
-      logService.logError('STORAGE', error, {
-        operation: 'updateJob',
-        jobId: updatedJob.id,
-      });
-      throw error;
-    }
-
-    const newJobs = jobs.map((job) =>
-      job.id === updatedJob.id ? updatedJob : job
-    );
-    const jsonValue = JSON.stringify(newJobs);
-    await AsyncStorage.setItem(JOBS_KEY, jsonValue);
+    await jobsRepository.update(updatedJob);
     logService.info(
       'STORAGE',
       `Successfully updated job: ${updatedJob.jobName}`,
@@ -100,25 +85,11 @@ export const updateJob = async (updatedJob: Job): Promise<void> => {
 export const deleteJob = async (id: string): Promise<void> => {
   try {
     logService.debug('STORAGE', `Deleting job with ID: ${id}`);
-    const jobs = await getJobs();
-    const jobToDelete = jobs.find((job) => job.id === id);
-
-    if (!jobToDelete) {
-      const error = new Error(`Job with ID ${id} not found`);
-      logService.logError('STORAGE', error, {
-        operation: 'deleteJob',
-        jobId: id,
-      });
-      throw error;
-    }
-
-    const newJobs = jobs.filter((job) => job.id !== id);
-    const jsonValue = JSON.stringify(newJobs);
-    await AsyncStorage.setItem(JOBS_KEY, jsonValue);
+    const jobToDelete = await jobsRepository.remove(id);
     logService.info(
       'STORAGE',
       `Successfully deleted job: ${jobToDelete.jobName}`,
-      { jobId: id, remainingJobs: newJobs.length }
+      { jobId: id }
     );
   } catch (error) {
     logService.logError('STORAGE', error as Error, {
@@ -129,12 +100,108 @@ export const deleteJob = async (id: string): Promise<void> => {
   }
 };
 
+// Quote total plus reimbursable expenses, less everything paid so far (never negative)
+export const getAmountOwed = (job: Job): number => {
+  const reimbursable = job.expenses.filter((e) => e.isReimbursable).reduce((sum, e) => sum + e.amount, 0);
+  const paid = (job.payments || []).reduce((sum, p) => sum + p.amount, 0);
+  return Math.max(quoteTotal(job) + reimbursable - paid, 0);
+};
+
+// A recorded payment: the stored job as it was read before the payment, and as saved
+export interface PaymentChange {
+  before: Job;
+  after: Job;
+}
+
+// Adds a processed payment to the stored job, in a single transaction. Once
+// nothing is owed an In-Progress job is completed through the job lifecycle,
+// which logs the transition; jobs in other statuses are left as they are.
+export const recordPaymentChange = async (payment: Payment): Promise<PaymentChange> => {
+  try {
+    logService.debug('STORAGE', `Recording payment ${payment.id}`, { jobId: payment.jobId });
+    const change = await runInTransaction(`recordPayment:${payment.id}`, async (uow) => {
+      const before = await uow.getJob(payment.jobId);
+      if (!before) {
+        throw new Error(`Job with ID ${payment.jobId} not found`);
+      }
+      const withPayment = await uow.addPayment(payment);
+      if (getAmountOwed(withPayment) > 0 || !checkTransition(withPayment, 'Completed').allowed) {
+        return { before, after: withPayment };
+      }
+      const { job: completed } = transitionJob(withPayment, 'Completed', { source: 'Payment', reason: 'Paid in full' });
+      await uow.updateJob(completed);
+      return { before, after: completed };
+    });
+    logService.info('STORAGE', `Recorded payment ${payment.id}`, {
+      jobId: change.after.id,
+      status: change.after.status,
+    });
+    return change;
+  } catch (error) {
+    logService.logError('STORAGE', error as Error, {
+      operation: 'recordPayment',
+      paymentId: payment.id,
+      jobId: payment.jobId,
+    });
+    throw error;
+  }
+};
+
+// Same as recordPaymentChange, for callers that only need the saved job
+export const recordPayment = async (payment: Payment): Promise<Job> => (await recordPaymentChange(payment)).after;
+
+// Removes a payment from the stored job. The job status is left as is.
+export const removePayment = async (jobId: string, paymentId: string): Promise<Job> => {
+  try {
+    const job = await runInTransaction(`removePayment:${paymentId}`, async (uow) => {
+      const existing = await uow.getJob(jobId);
+      if (!existing || !(existing.payments || []).some((p) => p.id === paymentId)) {
+        throw new Error(`Payment with ID ${paymentId} not found on job ${jobId}`);
+      }
+      const updated: Job = { ...existing, payments: existing.payments!.filter((p) => p.id !== paymentId) };
+      await uow.updateJob(updated);
+      return updated;
+    });
+    logService.info('STORAGE', `Removed payment ${paymentId}`, { jobId });
+    return job;
+  } catch (error) {
+    logService.logError('STORAGE', error as Error, { operation: 'removePayment', paymentId, jobId });
+    throw error;
+  }
+};
+
+// Replaces a payment on the stored job, e.g. when a pending payment clears
+export const updatePayment = async (payment: Payment): Promise<Job> => {
+  try {
+    const job = await runInTransaction(`updatePayment:${payment.id}`, async (uow) => {
+      const existing = await uow.getJob(payment.jobId);
+      if (!existing || !(existing.payments || []).some((p) => p.id === payment.id)) {
+        throw new Error(`Payment with ID ${payment.id} not found on job ${payment.jobId}`);
+      }
+      const updated: Job = {
+        ...existing,
+        payments: existing.payments!.map((p) => (p.id === payment.id ? payment : p)),
+      };
+      await uow.updateJob(updated);
+      return updated;
+    });
+    logService.info('STORAGE', `Updated payment ${payment.id}`, { jobId: payment.jobId, status: payment.status });
+    return job;
+  } catch (error) {
+    logService.logError('STORAGE', error as Error, {
+      operation: 'updatePayment',
+      paymentId: payment.id,
+      jobId: payment.jobId,
+    });
+    throw error;
+  }
+};
+
 // Replace the entire jobs collection (used by seeders/tests)
 export const setJobs = async (jobs: Job[]): Promise<void> => {
   try {
     logService.debug('STORAGE', `Setting jobs collection (count=${jobs.length})`);
-    const jsonValue = JSON.stringify(jobs);
-    await AsyncStorage.setItem(JOBS_KEY, jsonValue);
+    await jobsRepository.replaceAll(jobs);
     logService.info('STORAGE', 'Jobs collection replaced successfully');
   } catch (error) {
     logService.logError('STORAGE', error as Error, {
@@ -149,6 +216,7 @@ export const setJobs = async (jobs: Job[]): Promise<void> => {
 export const clearAllPersistedData = async (): Promise<void> => {
   try {
     logService.warn('STORAGE', 'Clearing ALL persisted data');
+    await getStorageBackend().clear();
     await AsyncStorage.clear();
     logService.info('STORAGE', 'All persisted data cleared');
   } catch (error) {
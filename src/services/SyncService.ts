@@ -0,0 +1,363 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Client, Job } from '../types';
+import { logService } from './LoggingService';
+import { clientsRepository, jobsRepository } from './Repository';
+import { UnitOfWork, runInTransaction } from './UnitOfWork';
+import { canonicalJson } from './HistoryService';
+import { recordJobAudit } from './AuditService';
+import { decryptString, encryptString } from './EncryptionService';
+import {
+  HttpSyncTransport,
+  ServerRecord,
+  SyncChange,
+  SyncCollection,
+  SyncRecordData,
+  SyncTransport,
+} from './SyncTransport';
+
+export const SYNC_STATE_KEY = 'sync_state';
+
+// Pull/push rounds per sync; another device writing in between forces a retry
+const MAX_SYNC_PASSES = 3;
+
+export interface JobFieldConflict {
+  field: keyof Job;
+  local: unknown;
+  remote: unknown;
+}
+
+// Job fields changed differently here and on another device, awaiting a manual merge
+export interface JobConflict {
+  jobId: string;
+  jobName: string;
+  remoteVersion: number;
+  remoteDeviceId: string;
+  detectedAt: string;
+  fields: JobFieldConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: JobConflict[];
+  syncedAt: string;
+}
+
+export interface SyncStatus {
+  configured: boolean;
+  lastSyncedAt: string | null;
+  conflicts: JobConflict[];
+}
+
+// Last copy of a record both sides agreed on; the base of every three-way merge
+interface SyncedRecord {
+  version: number;
+  record: SyncRecordData | null;
+}
+
+interface SyncState {
+  deviceId: string;
+  cursor: number;
+  lastSyncedAt: string | null;
+  base: Record<SyncCollection, Record<string, SyncedRecord>>;
+  conflicts: JobConflict[];
+}
+
+let transport: SyncTransport | null = null;
+
+// EXPO_PUBLIC_SYNC_URL points at the team's server; without it sync is off (null)
+export const getSyncTransport = (): SyncTransport | null => {
+  if (!transport) {
+    const url = process.env.EXPO_PUBLIC_SYNC_URL;
+    if (!url) return null;
+    transport = new HttpSyncTransport(url);
+    logService.info('SYNC', `Syncing with ${url}`);
+  }
+  return transport;
+};
+
+export const setSyncTransport = (next: SyncTransport | null): void => {
+  transport = next;
+};
+
+const emptySyncState = (): SyncState => ({
+  deviceId: `device_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  cursor: 0,
+  lastSyncedAt: null,
+  base: { jobs: {}, clients: {} },
+  conflicts: [],
+});
+
+// The synced copies include client contact details, so the state is stored encrypted
+const loadSyncState = async (): Promise<SyncState> => {
+  const raw = await AsyncStorage.getItem(SYNC_STATE_KEY);
+  return raw ? JSON.parse(decryptString(raw)) : emptySyncState();
+};
+
+const saveSyncState = (state: SyncState): Promise<void> =>
+  AsyncStorage.setItem(SYNC_STATE_KEY, encryptString(JSON.stringify(state)));
+
+const same = (a: unknown, b: unknown) => canonicalJson(a ?? null) === canonicalJson(b ?? null);
+
+/**
+ * Three-way merge against the last synced copy. Each side keeps its own
+ * changes; fields both sides changed to different values are reported as
+ * conflicts and take the value from the `prefer` side.
+ */
+export const mergeRecords = <T extends SyncRecordData>(
+  base: T | null,
+  local: T,
+  remote: T,
+  prefer: ConflictChoice
+): { merged: T; conflicts: string[] } => {
+  const [b, l, r] = [base ?? {}, local, remote] as Record<string, unknown>[];
+  const merged: Record<string, unknown> = { id: local.id };
+  const conflicts: string[] = [];
+  const fields = new Set([...Object.keys(l), ...Object.keys(r)]);
+  fields.delete('id');
+
+  for (const field of fields) {
+    let value: unknown;
+    if (same(b[field], l[field])) {
+      value = r[field];
+    } else if (same(b[field], r[field]) || same(l[field], r[field])) {
+      value = l[field];
+    } else {
+      conflicts.push(field);
+      value = prefer === 'local' ? l[field] : r[field];
+    }
+    if (value !== undefined) merged[field] = value;
+  }
+  return { merged: merged as T, conflicts };
+};
+
+const getLocal = (uow: UnitOfWork, collection: SyncCollection): Promise<SyncRecordData[]> =>
+  collection === 'jobs' ? uow.getJobs() : uow.getClients();
+
+const writeLocal = (uow: UnitOfWork, collection: SyncCollection, record: SyncRecordData, exists: boolean) => {
+  if (collection === 'jobs') {
+    return exists ? uow.updateJob(record as Job) : uow.putJob(record as Job);
+  }
+  return exists ? uow.updateClient(record as Client) : uow.putClient(record as Client);
+};
+
+const removeLocal = (uow: UnitOfWork, collection: SyncCollection, id: string) =>
+  collection === 'jobs' ? uow.removeJob(id) : uow.removeClient(id);
+
+// Replaces the job's conflict with the fields that still differ from the remote copy
+const trackJobConflict = (state: SyncState, local: Job, remote: ServerRecord, conflictFields: string[]) => {
+  const previous = state.conflicts.find((conflict) => conflict.jobId === local.id);
+  const remoteJob = remote.record as Job;
+  const fields = [...new Set([...(previous?.fields.map((f) => f.field) ?? []), ...conflictFields])].filter(
+    (field) => !same(local[field as keyof Job], remoteJob[field as keyof Job])
+  ) as (keyof Job)[];
+
+  state.conflicts = state.conflicts.filter((conflict) => conflict.jobId !== local.id);
+  if (fields.length === 0) return;
+  state.conflicts.push({
+    jobId: local.id,
+    jobName: local.jobName,
+    remoteVersion: remote.version,
+    remoteDeviceId: remote.deviceId,
+    detectedAt: new Date().toISOString(),
+    fields: fields.map((field) => ({ field, local: local[field] ?? null, remote: remoteJob[field] ?? null })),
+  });
+};
+
+/**
+ * Applies one remote record to the local copy. Untouched records take the
+ * remote copy. Otherwise: an edit wins over a delete on either side, client
+ * edits are merged with the remote value winning on shared fields, and job
+ * edits are merged with shared fields kept local and queued as conflicts.
+ */
+const applyRemoteRecord = async (
+  uow: UnitOfWork,
+  state: SyncState,
+  remote: ServerRecord,
+  jobEdits: [Job, Job][]
+): Promise<void> => {
+  const { collection, id } = remote;
+  const base = state.base[collection][id]?.record ?? null;
+  const local = (await getLocal(uow, collection)).find((record) => record.id === id) ?? null;
+  state.base[collection][id] = { version: remote.version, record: remote.record };
+
+  let next = remote.record;
+  if (local && !same(local, base)) {
+    if (!remote.record) {
+      next = local;
+    } else if (collection === 'clients') {
+      next = mergeRecords(base, local, remote.record, 'remote').merged;
+    } else {
+      const { merged, conflicts } = mergeRecords(base, local, remote.record, 'local');
+      next = merged;
+      trackJobConflict(state, merged as Job, remote, conflicts);
+    }
+  }
+  if (collection === 'jobs' && !remote.record) {
+    state.conflicts = state.conflicts.filter((conflict) => conflict.jobId !== id);
+  }
+
+  if (same(next, local)) return;
+  if (!next) {
+    await removeLocal(uow, collection, id);
+    return;
+  }
+  await writeLocal(uow, collection, next, local !== null);
+  if (collection === 'jobs' && local) jobEdits.push([local as Job, next as Job]);
+};
+
+// Resolves the number of records that changed on the server since the last sync
+const applyRemoteRecords = async (state: SyncState, records: ServerRecord[]): Promise<number> => {
+  const fresh = records.filter((remote) => (state.base[remote.collection][remote.id]?.version ?? 0) < remote.version);
+  if (fresh.length === 0) return 0;
+
+  const jobEdits: [Job, Job][] = [];
+  const next = await runInTransaction('sync:applyRemote', async (uow) => {
+    const draft: SyncState = JSON.parse(JSON.stringify(state));
+    for (const remote of fresh) {
+      await applyRemoteRecord(uow, draft, remote, jobEdits);
+    }
+    return draft;
+  });
+  Object.assign(state, next);
+  await saveSyncState(state);
+  for (const [before, after] of jobEdits) {
+    await recordJobAudit(before, after, 'Sync');
+  }
+  return fresh.length;
+};
+
+const diffCollection = (
+  collection: SyncCollection,
+  records: SyncRecordData[],
+  state: SyncState,
+  skip: Set<string>
+): SyncChange[] => {
+  const base = state.base[collection];
+  const updatedAt = new Date().toISOString();
+  const changes: SyncChange[] = records
+    .filter((record) => !skip.has(record.id) && !same(record, base[record.id]?.record))
+    .map((record) => ({ collection, id: record.id, baseVersion: base[record.id]?.version ?? 0, record, updatedAt }));
+
+  const present = new Set(records.map((record) => record.id));
+  for (const [id, synced] of Object.entries(base)) {
+    if (synced.record && !present.has(id) && !skip.has(id)) {
+      changes.push({ collection, id, baseVersion: synced.version, record: null, updatedAt });
+    }
+  }
+  return changes;
+};
+
+// Jobs with an unresolved conflict are held back so the other device's values are not overwritten
+const collectLocalChanges = async (state: SyncState): Promise<SyncChange[]> => {
+  const [jobs, clients] = await Promise.all([jobsRepository.getAll(), clientsRepository.getAll()]);
+  const conflicted = new Set(state.conflicts.map((conflict) => conflict.jobId));
+  return [...diffCollection('jobs', jobs, state, conflicted), ...diffCollection('clients', clients, state, new Set())];
+};
+
+const runSync = async (): Promise<SyncResult> => {
+  const server = getSyncTransport();
+  if (!server) {
+    throw new Error('Sync is not configured');
+  }
+  const state = await loadSyncState();
+  let pushed = 0;
+  let pulled = 0;
+
+  try {
+    for (let pass = 0; pass < MAX_SYNC_PASSES; pass++) {
+      const { records, cursor } = await server.pull(state.cursor);
+      pulled += await applyRemoteRecords(state, records);
+      state.cursor = cursor;
+      await saveSyncState(state);
+
+      const changes = await collectLocalChanges(state);
+      if (changes.length === 0) break;
+      const { accepted, rejected } = await server.push({ deviceId: state.deviceId, changes });
+      for (const record of accepted) {
+        state.base[record.collection][record.id] = { version: record.version, record: record.record };
+      }
+      pushed += accepted.length;
+      await saveSyncState(state);
+      if (rejected.length === 0) break;
+    }
+
+    state.lastSyncedAt = new Date().toISOString();
+    await saveSyncState(state);
+    logService.info('SYNC', 'Sync complete', { pushed, pulled, conflicts: state.conflicts.length });
+    return { pushed, pulled, conflicts: state.conflicts, syncedAt: state.lastSyncedAt };
+  } catch (error) {
+    logService.logError('SYNC', error as Error, { operation: 'synchronize', pushed, pulled });
+    throw error;
+  }
+};
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Pulls changes from the sync server, merges them into the local jobs and
+ * clients, then pushes local changes. Local data stays usable offline; a
+ * failed sync leaves it as it was and the next sync picks up from there.
+ * Concurrent calls share one run.
+ */
+export const synchronize = (): Promise<SyncResult> => {
+  if (!inFlight) {
+    inFlight = runSync().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+};
+
+export const getSyncStatus = async (): Promise<SyncStatus> => {
+  try {
+    const { lastSyncedAt, conflicts } = await loadSyncState();
+    return { configured: getSyncTransport() !== null, lastSyncedAt, conflicts };
+  } catch (error) {
+    logService.logError('SYNC', error as Error, { operation: 'getSyncStatus' });
+    return { configured: getSyncTransport() !== null, lastSyncedAt: null, conflicts: [] };
+  }
+};
+
+/**
+ * Applies the chosen side for each conflicting field (this device by default)
+ * and releases the job, so the result is pushed on the next sync.
+ */
+export const resolveJobConflict = async (
+  jobId: string,
+  choices: Partial<Record<keyof Job, ConflictChoice>>
+): Promise<Job> => {
+  try {
+    const state = await loadSyncState();
+    const conflict = state.conflicts.find((candidate) => candidate.jobId === jobId);
+    if (!conflict) {
+      throw new Error(`No sync conflict for job ${jobId}`);
+    }
+
+    const [before, after] = await runInTransaction(`sync:resolve:${jobId}`, async (uow) => {
+      const local = await uow.getJob(jobId);
+      if (!local) {
+        throw new Error(`Job with ID ${jobId} not found`);
+      }
+      const resolved: Record<string, unknown> = { ...local };
+      for (const { field, remote } of conflict.fields) {
+        if (choices[field] !== 'remote') continue;
+        if (remote === null) delete resolved[field];
+        else resolved[field] = remote;
+      }
+      await uow.updateJob(resolved as unknown as Job);
+      return [local, resolved as unknown as Job];
+    });
+
+    state.conflicts = state.conflicts.filter((candidate) => candidate.jobId !== jobId);
+    await saveSyncState(state);
+    await recordJobAudit(before, after, 'SyncConflict');
+    logService.logUserAction('sync_conflict_resolved', { jobId, choices });
+    return after;
+  } catch (error) {
+    logService.logError('SYNC', error as Error, { operation: 'resolveJobConflict', jobId });
+    throw error;
+  }
+};
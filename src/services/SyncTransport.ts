@@ -0,0 +1,126 @@
+import { Client, Job } from '../types';
+
+export type SyncCollection = 'jobs' | 'clients';
+export type SyncRecordData = Job | Client;
+
+// A record as the server holds it. Deletions are kept as tombstones (record null).
+export interface ServerRecord {
+  collection: SyncCollection;
+  id: string;
+  // Server sequence number of the write that produced this copy
+  version: number;
+  record: SyncRecordData | null;
+  updatedAt: string;
+  deviceId: string;
+}
+
+// A local change, based on the server version the device last saw (0 = never synced)
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  baseVersion: number;
+  record: SyncRecordData | null;
+  updatedAt: string;
+}
+
+export interface PushRequest {
+  deviceId: string;
+  changes: SyncChange[];
+}
+
+// `rejected` holds the server's current copy of each record whose base version was stale
+export interface PushResponse {
+  accepted: ServerRecord[];
+  rejected: ServerRecord[];
+}
+
+// Records written after `since`, oldest first, and the cursor to pull from next time
+export interface PullResponse {
+  records: ServerRecord[];
+  cursor: number;
+}
+
+/**
+ * Connection to the team's sync server. The server only orders writes and
+ * rejects stale ones; merging happens on the device (see SyncService).
+ */
+export interface SyncTransport {
+  push(request: PushRequest): Promise<PushResponse>;
+  pull(since: number): Promise<PullResponse>;
+}
+
+export interface FetchRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export type FetchLike = (
+  url: string,
+  init?: FetchRequestInit
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Record contents are checked by the merge; only the envelope is checked here
+const isServerRecord = (value: unknown): value is ServerRecord =>
+  isObject(value) &&
+  (value.collection === 'jobs' || value.collection === 'clients') &&
+  typeof value.id === 'string' &&
+  typeof value.version === 'number' &&
+  (value.record === null || isObject(value.record)) &&
+  typeof value.updatedAt === 'string' &&
+  typeof value.deviceId === 'string';
+
+const isServerRecordList = (value: unknown): value is ServerRecord[] =>
+  Array.isArray(value) && value.every(isServerRecord);
+
+const isPushResponse = (value: unknown): value is PushResponse =>
+  isObject(value) && isServerRecordList(value.accepted) && isServerRecordList(value.rejected);
+
+const isPullResponse = (value: unknown): value is PullResponse =>
+  isObject(value) && isServerRecordList(value.records) && typeof value.cursor === 'number';
+
+/**
+ * JSON over HTTP: `POST /sync/push` with a PushRequest body and
+ * `GET /sync/pull?since=<cursor>`.
+ */
+export class HttpSyncTransport implements SyncTransport {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly fetchImpl: FetchLike = fetch
+  ) {}
+
+  push(request: PushRequest): Promise<PushResponse> {
+    return this.request(
+      '/sync/push',
+      isPushResponse,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
+  pull(since: number): Promise<PullResponse> {
+    return this.request(`/sync/pull?since=${since}`, isPullResponse);
+  }
+
+  private async request<R>(
+    path: string,
+    isResponse: (body: unknown) => body is R,
+    init?: FetchRequestInit
+  ): Promise<R> {
+    const response = await this.fetchImpl(`${this.baseUrl.replace(/\/$/, '')}${path}`, init);
+    if (!response.ok) {
+      throw new Error(`Sync server responded with status ${response.status}`);
+    }
+    const body = await response.json();
+    if (!isResponse(body)) {
+      throw new Error(`Sync server sent an unexpected response to ${path.split('?')[0]}`);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,73 @@
+import { Job, TimeEntry } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const runningEntry = (job: Job): TimeEntry | null => job.timeEntries?.find((entry) => !entry.end) ?? null;
+
+// Length of a session; one still running counts up to `now`
+export const entryDurationMs = (entry: TimeEntry, now: Date = new Date()) =>
+  Math.max(0, (entry.end ? Date.parse(entry.end) : now.getTime()) - Date.parse(entry.start));
+
+export const trackedHours = (job: Job, { now = new Date(), billableOnly = false } = {}) =>
+  (job.timeEntries || [])
+    .filter((entry) => !billableOnly || entry.billable)
+    .reduce((sum, entry) => sum + entryDurationMs(entry, now), 0) / HOUR_MS;
+
+// What the job keeps after expenses the client does not pay back, as used by BudgetAnalytics
+export const jobNetEarnings = (job: Job) =>
+  job.quote - job.expenses.filter((expense) => !expense.isReimbursable).reduce((sum, expense) => sum + expense.amount, 0);
+
+// Net earnings per hour logged, billable or not; null until time has been logged
+export const effectiveHourlyRate = (job: Job, now: Date = new Date()): number | null => {
+  const hours = trackedHours(job, { now });
+  return hours > 0 ? jobNetEarnings(job) / hours : null;
+};
+
+// e.g. "2h 05m"
+export const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+const sortedByStart = (entries: TimeEntry[]) => [...entries].sort((a, b) => a.start.localeCompare(b.start));
+
+/**
+ * Adds or replaces a time entry. Sessions must end after they start and only
+ * one per job may be left running, so the open entry is always the timer.
+ */
+export const putTimeEntry = (job: Job, entry: TimeEntry): Job => {
+  if (isNaN(Date.parse(entry.start))) {
+    throw new Error('A time entry needs a valid start time');
+  }
+  if (entry.end !== undefined && !(Date.parse(entry.end) > Date.parse(entry.start))) {
+    throw new Error('A time entry must end after it starts');
+  }
+  const others = (job.timeEntries || []).filter((existing) => existing.id !== entry.id);
+  if (!entry.end && others.some((existing) => !existing.end)) {
+    throw new Error('A timer is already running on this job');
+  }
+  return { ...job, timeEntries: sortedByStart([...others, entry]) };
+};
+
+export const deleteTimeEntry = (job: Job, entryId: string): Job => {
+  if (!job.timeEntries?.some((entry) => entry.id === entryId)) {
+    throw new Error(`Time entry with ID ${entryId} not found on job ${job.id}`);
+  }
+  return { ...job, timeEntries: job.timeEntries.filter((entry) => entry.id !== entryId) };
+};
+
+export const startTimer = (job: Job, at: Date, { notes, billable = true }: { notes?: string; billable?: boolean } = {}) => {
+  const entry: TimeEntry = { id: `time_${at.getTime()}`, start: at.toISOString(), billable };
+  if (notes) entry.notes = notes;
+  return putTimeEntry(job, entry);
+};
+
+// Stops the running timer. Stopping at or before its start (e.g. after a clock change) still leaves a valid entry.
+export const stopTimer = (job: Job, at: Date): Job => {
+  const running = runningEntry(job);
+  if (!running) {
+    throw new Error('No timer is running on this job');
+  }
+  const end = Math.max(at.getTime(), Date.parse(running.start) + 1000);
+  return putTimeEntry(job, { ...running, end: new Date(end).toISOString() });
+};
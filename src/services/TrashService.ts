@@ -0,0 +1,248 @@
+import * as FileSystem from 'expo-file-system';
+import { Client, Expense, Job, TrashEntry, TrashItemType } from '../types';
+import { logService } from './LoggingService';
+import { ClientDeletionPolicy, removeClientWithPolicy } from './ClientService';
+import { trashRepository } from './Repository';
+import { UnitOfWork, runInTransaction } from './UnitOfWork';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expense ids are only unique within their job, so expense entries include the job id
+export const trashEntryId = (type: TrashItemType, recordId: string, jobId?: string) =>
+  jobId ? `${type}:${jobId}:${recordId}` : `${type}:${recordId}`;
+
+const makeEntry = (
+  type: TrashItemType,
+  record: Job | Client | Expense,
+  label: string,
+  extra: Partial<TrashEntry> = {}
+): TrashEntry => ({
+  id: trashEntryId(type, record.id, extra.jobId),
+  type,
+  recordId: record.id,
+  label,
+  deletedAt: new Date().toISOString(),
+  record,
+  ...extra,
+});
+
+const expenseLabel = (expense: Expense) => `${expense.description} ($${expense.amount.toFixed(2)})`;
+
+export const getTrash = async (): Promise<TrashEntry[]> => {
+  try {
+    return await trashRepository.getAll();
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'getTrash' });
+    return [];
+  }
+};
+
+export const trashJob = async (id: string): Promise<TrashEntry> => {
+  try {
+    const entry = await runInTransaction(`trashJob:${id}`, async (uow) => {
+      const job = await uow.removeJob(id);
+      const trashed = makeEntry('job', job, job.jobName);
+      await uow.putTrashEntry(trashed);
+      return trashed;
+    });
+    logService.info('TRASH', `Moved job to trash: ${entry.label}`, { jobId: id });
+    return entry;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'trashJob', jobId: id });
+    throw error;
+  }
+};
+
+// Cascaded jobs get their own entries so they can be restored individually
+export const trashClient = async (
+  id: string,
+  policy: ClientDeletionPolicy = { mode: 'block' }
+): Promise<TrashEntry> => {
+  try {
+    const entry = await runInTransaction(`trashClient:${id}`, async (uow) => {
+      const clientJobs = (await uow.getJobs()).filter((job) => job.clientId === id);
+      const result = await removeClientWithPolicy(uow, id, policy);
+      for (const job of clientJobs.filter((j) => result.removedJobIds.includes(j.id))) {
+        await uow.putTrashEntry(makeEntry('job', job, job.jobName));
+      }
+      const trashed = makeEntry('client', result.client, result.client.fullName, {
+        cascadedJobIds: result.removedJobIds,
+      });
+      await uow.putTrashEntry(trashed);
+      return trashed;
+    });
+    logService.info('TRASH', `Moved client to trash: ${entry.label}`, {
+      clientId: id,
+      policy: policy.mode,
+      cascadedJobs: entry.cascadedJobIds?.length ?? 0,
+    });
+    return entry;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'trashClient', clientId: id });
+    throw error;
+  }
+};
+
+export const trashExpense = async (jobId: string, expenseId: string): Promise<TrashEntry> => {
+  try {
+    const entry = await runInTransaction(`trashExpense:${jobId}:${expenseId}`, async (uow) => {
+      const job = await uow.getJob(jobId);
+      const expense = job?.expenses.find((e) => e.id === expenseId);
+      if (!job || !expense) {
+        throw new Error(`Expense with ID ${expenseId} not found on job ${jobId}`);
+      }
+      await uow.updateJob({ ...job, expenses: job.expenses.filter((e) => e.id !== expenseId) });
+      const trashed = makeEntry('expense', expense, expenseLabel(expense), { jobId });
+      await uow.putTrashEntry(trashed);
+      return trashed;
+    });
+    logService.info('TRASH', `Moved expense to trash: ${entry.label}`, { jobId, expenseId });
+    return entry;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'trashExpense', jobId, expenseId });
+    throw error;
+  }
+};
+
+const restoreEntry = async (uow: UnitOfWork, entry: TrashEntry): Promise<void> => {
+  const trash = await uow.getTrash();
+  await uow.removeTrashEntry(entry.id);
+
+  if (entry.type === 'job') {
+    const job = entry.record as Job;
+    if (await uow.getJob(job.id)) {
+      throw new Error(`A job with ID ${job.id} already exists`);
+    }
+    // Bring the client back too if it was trashed, so the job is not orphaned
+    const clientEntry = trash.find((e) => e.id === trashEntryId('client', job.clientId));
+    if (clientEntry && !(await uow.getClient(job.clientId))) {
+      await uow.removeTrashEntry(clientEntry.id);
+      await uow.putClient(clientEntry.record as Client);
+    } else if (!(await uow.getClient(job.clientId))) {
+      logService.warn('TRASH', 'Restored job references a client that no longer exists', {
+        jobId: job.id,
+        clientId: job.clientId,
+      });
+    }
+    await uow.putJob(job);
+  } else if (entry.type === 'client') {
+    const client = entry.record as Client;
+    if (await uow.getClient(client.id)) {
+      throw new Error(`A client with ID ${client.id} already exists`);
+    }
+    await uow.putClient(client);
+    for (const jobId of entry.cascadedJobIds || []) {
+      const jobEntry = (await uow.getTrash()).find((e) => e.id === trashEntryId('job', jobId));
+      if (jobEntry && !(await uow.getJob(jobId))) {
+        await uow.removeTrashEntry(jobEntry.id);
+        await uow.putJob(jobEntry.record as Job);
+      }
+    }
+  } else {
+    const expense = entry.record as Expense;
+    const job = entry.jobId ? await uow.getJob(entry.jobId) : null;
+    if (!job) {
+      const jobTrashed = trash.some((e) => e.id === trashEntryId('job', entry.jobId || ''));
+      throw new Error(
+        jobTrashed
+          ? 'Restore the job this expense belongs to first'
+          : 'The job this expense belonged to no longer exists'
+      );
+    }
+    await uow.updateJob({
+      ...job,
+      expenses: [...job.expenses.filter((e) => e.id !== expense.id), expense],
+    });
+  }
+};
+
+export const restoreFromTrash = async (entryId: string): Promise<TrashEntry> => {
+  try {
+    const entry = await runInTransaction(`restore:${entryId}`, async (uow) => {
+      const found = (await uow.getTrash()).find((e) => e.id === entryId);
+      if (!found) {
+        throw new Error(`Trash entry ${entryId} not found`);
+      }
+      await restoreEntry(uow, found);
+      return found;
+    });
+    logService.logUserAction('trash_restored', { type: entry.type, recordId: entry.recordId });
+    return entry;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'restoreFromTrash', entryId });
+    throw error;
+  }
+};
+
+// Receipt images only live on the device, so they go when the record is purged
+const deleteReceiptFiles = async (entries: TrashEntry[]) => {
+  const uris = entries.flatMap((entry) => {
+    if (entry.type === 'job') return (entry.record as Job).expenses.map((e) => e.receiptImageLocalUri);
+    if (entry.type === 'expense') return [(entry.record as Expense).receiptImageLocalUri];
+    return [];
+  });
+  for (const uri of uris) {
+    if (!uri) continue;
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } catch (error) {
+      logService.warn('TRASH', 'Failed to delete receipt image', { uri });
+    }
+  }
+};
+
+const purgeEntries = async (label: string, select: (trash: TrashEntry[]) => TrashEntry[]) => {
+  const purged = await runInTransaction(label, async (uow) => {
+    const entries = select(await uow.getTrash());
+    for (const entry of entries) {
+      await uow.removeTrashEntry(entry.id);
+    }
+    return entries;
+  });
+  await deleteReceiptFiles(purged);
+  return purged;
+};
+
+export const purgeFromTrash = async (entryId: string): Promise<void> => {
+  try {
+    const purged = await purgeEntries(`purge:${entryId}`, (trash) => {
+      const entry = trash.find((e) => e.id === entryId);
+      if (!entry) {
+        throw new Error(`Trash entry ${entryId} not found`);
+      }
+      return [entry];
+    });
+    logService.logUserAction('trash_purged', { type: purged[0].type, recordId: purged[0].recordId });
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'purgeFromTrash', entryId });
+    throw error;
+  }
+};
+
+export const emptyTrash = async (): Promise<number> => {
+  try {
+    const purged = await purgeEntries('emptyTrash', (trash) => trash);
+    logService.logUserAction('trash_emptied', { entries: purged.length });
+    return purged.length;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'emptyTrash' });
+    throw error;
+  }
+};
+
+// Removes entries deleted more than `retentionDays` ago. Resolves the count purged.
+export const purgeExpiredTrash = async (retentionDays: number, now: Date = new Date()): Promise<number> => {
+  try {
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    const purged = await purgeEntries('purgeExpiredTrash', (trash) =>
+      trash.filter((entry) => new Date(entry.deletedAt).getTime() < cutoff)
+    );
+    if (purged.length > 0) {
+      logService.info('TRASH', `Purged ${purged.length} expired trash entries`, { retentionDays });
+    }
+    return purged.length;
+  } catch (error) {
+    logService.logError('TRASH', error as Error, { operation: 'purgeExpiredTrash' });
+    return 0;
+  }
+};
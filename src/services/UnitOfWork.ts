@@ -0,0 +1,281 @@
+import { Client, Job, JobSeries, Payment, TrashEntry } from '../types';
+import { logService } from './LoggingService';
+import {
+  CLIENTS_KEY,
+  CollectionRepository,
+  JOBS_KEY,
+  clientsRepository,
+  jobsRepository,
+  seriesRepository,
+  trashRepository,
+} from './Repository';
+import { Entity } from './StorageBackend';
+import { OutboxCollection, flushOutbox, getPendingWrites } from './OutboxService';
+
+type StagedOperation<T extends Entity> =
+  | { kind: 'put'; item: T }
+  | { kind: 'update'; item: T }
+  | { kind: 'remove'; id: string }
+  | { kind: 'replaceAll'; items: T[] };
+
+// What commit and rollback need from a staged collection, whatever its record type
+interface StagedWrites {
+  readonly key: string;
+  readonly pending: boolean;
+  write(): Promise<void>;
+  restore(): Promise<void>;
+}
+
+// Working copy of one collection inside a unit of work
+class StagedCollection<T extends Entity> implements StagedWrites {
+  readonly operations: StagedOperation<T>[] = [];
+
+  constructor(
+    readonly repository: CollectionRepository<T>,
+    readonly snapshot: T[],
+    public working: T[]
+  ) {}
+
+  get key(): string {
+    return this.repository.key;
+  }
+
+  get pending(): boolean {
+    return this.operations.length > 0;
+  }
+
+  async write(): Promise<void> {
+    for (const operation of this.operations) {
+      if (operation.kind === 'put') {
+        await this.repository.insert(operation.item);
+      } else if (operation.kind === 'update') {
+        await this.repository.update(operation.item);
+      } else if (operation.kind === 'replaceAll') {
+        await this.repository.replaceAll(operation.items);
+      } else {
+        await this.repository.remove(operation.id);
+      }
+    }
+  }
+
+  restore(): Promise<void> {
+    return this.repository.replaceAll(this.snapshot);
+  }
+}
+
+const OUTBOX_COLLECTIONS: Record<string, OutboxCollection> = { [JOBS_KEY]: 'jobs', [CLIENTS_KEY]: 'clients' };
+
+/**
+ * Queued outbox writes hold whole records, so one flushed after a transaction
+ * would overwrite what the transaction committed. They are saved before the
+ * collection is read; if that fails the transaction fails too, rather than
+ * working from records that are about to be replaced.
+ */
+const settlePendingWrites = async (key: string): Promise<void> => {
+  const collection = OUTBOX_COLLECTIONS[key];
+  if (!collection) return;
+  const hasPending = async () => (await getPendingWrites()).some((entry) => entry.collection === collection);
+  if (!(await hasPending())) return;
+  await flushOutbox({ force: true });
+  if (await hasPending()) {
+    throw new Error(`Earlier changes to ${collection} are still waiting to be saved; try again shortly`);
+  }
+};
+
+/**
+ * Stages changes to clients, jobs (with their payments), recurring series and
+ * the trash (or to any whole collection, see replaceAll) and writes them
+ * together on commit. Reads see staged changes. If
+ * any write fails, every collection touched so far is restored to the snapshot
+ * taken when it was first read. Use through runInTransaction rather than directly.
+ */
+export class UnitOfWork {
+  private readonly staged = new Map<string, StagedWrites>();
+  private committed = false;
+
+  constructor(readonly label: string) {}
+
+  async getJobs(): Promise<Job[]> {
+    return (await this.collection(jobsRepository)).working;
+  }
+
+  async getClients(): Promise<Client[]> {
+    return (await this.collection(clientsRepository)).working;
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    return (await this.getJobs()).find((job) => job.id === id) || null;
+  }
+
+  async getClient(id: string): Promise<Client | null> {
+    return (await this.getClients()).find((client) => client.id === id) || null;
+  }
+
+  putJob(job: Job): Promise<void> {
+    return this.put(jobsRepository, job);
+  }
+
+  updateJob(job: Job): Promise<void> {
+    return this.update(jobsRepository, job);
+  }
+
+  removeJob(id: string): Promise<Job> {
+    return this.remove(jobsRepository, id);
+  }
+
+  putClient(client: Client): Promise<void> {
+    return this.put(clientsRepository, client);
+  }
+
+  updateClient(client: Client): Promise<void> {
+    return this.update(clientsRepository, client);
+  }
+
+  removeClient(id: string): Promise<Client> {
+    return this.remove(clientsRepository, id);
+  }
+
+  async getTrash(): Promise<TrashEntry[]> {
+    return (await this.collection(trashRepository)).working;
+  }
+
+  putTrashEntry(entry: TrashEntry): Promise<void> {
+    return this.put(trashRepository, entry);
+  }
+
+  removeTrashEntry(id: string): Promise<TrashEntry> {
+    return this.remove(trashRepository, id);
+  }
+
+  async getSeries(): Promise<JobSeries[]> {
+    return (await this.collection(seriesRepository)).working;
+  }
+
+  putSeries(series: JobSeries): Promise<void> {
+    return this.put(seriesRepository, series);
+  }
+
+  removeSeries(id: string): Promise<JobSeries> {
+    return this.remove(seriesRepository, id);
+  }
+
+  // Whole collections, for writes that swap them out together such as imports
+  async getAll<T extends Entity>(repository: CollectionRepository<T>): Promise<T[]> {
+    return (await this.collection(repository)).working;
+  }
+
+  async replaceAll<T extends Entity>(repository: CollectionRepository<T>, items: T[]): Promise<void> {
+    const collection = await this.collection(repository);
+    collection.working = [...items];
+    collection.operations.push({ kind: 'replaceAll', items });
+  }
+
+  // Appends a payment to its job; re-adding the same payment id is a no-op
+  async addPayment(payment: Payment): Promise<Job> {
+    const job = await this.getJob(payment.jobId);
+    if (!job) {
+      throw new Error(`Job with ID ${payment.jobId} not found`);
+    }
+    if ((job.payments || []).some((existing) => existing.id === payment.id)) {
+      return job;
+    }
+    const updated = { ...job, payments: [...(job.payments || []), payment] };
+    await this.updateJob(updated);
+    return updated;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new Error(`Transaction "${this.label}" was already committed`);
+    }
+    this.committed = true;
+
+    const written: StagedWrites[] = [];
+    try {
+      for (const collection of this.staged.values()) {
+        if (!collection.pending) continue;
+        written.push(collection);
+        await collection.write();
+      }
+    } catch (error) {
+      await this.rollback(written, error as Error);
+      throw error;
+    }
+  }
+
+  private async rollback(written: StagedWrites[], cause: Error): Promise<void> {
+    logService.warn('TRANSACTION', `Rolling back "${this.label}"`, {
+      reason: cause.message,
+      collections: written.map((collection) => collection.key),
+    });
+    for (const collection of written) {
+      try {
+        await collection.restore();
+      } catch (restoreError) {
+        logService.logError('TRANSACTION', restoreError as Error, {
+          operation: 'rollback',
+          transaction: this.label,
+          collection: collection.key,
+        });
+      }
+    }
+  }
+
+  // Staged collections are keyed by repository key, so the entry for a key always holds that repository's type
+  private async collection<T extends Entity>(repository: CollectionRepository<T>): Promise<StagedCollection<T>> {
+    let collection = this.staged.get(repository.key) as StagedCollection<T> | undefined;
+    if (!collection) {
+      await settlePendingWrites(repository.key);
+      const snapshot = await repository.getAll();
+      collection = new StagedCollection(repository, snapshot, [...snapshot]);
+      this.staged.set(repository.key, collection);
+    }
+    return collection;
+  }
+
+  private async put<T extends Entity>(repository: CollectionRepository<T>, item: T): Promise<void> {
+    const collection = await this.collection(repository);
+    collection.working = [...collection.working.filter((existing) => existing.id !== item.id), item];
+    collection.operations.push({ kind: 'put', item });
+  }
+
+  private async update<T extends Entity>(repository: CollectionRepository<T>, item: T): Promise<void> {
+    const collection = await this.collection(repository);
+    if (!collection.working.some((existing) => existing.id === item.id)) {
+      throw new Error(`Record with ID ${item.id} not found in "${repository.key}"`);
+    }
+    collection.working = collection.working.map((existing) => (existing.id === item.id ? item : existing));
+    collection.operations.push({ kind: 'update', item });
+  }
+
+  private async remove<T extends Entity>(repository: CollectionRepository<T>, id: string): Promise<T> {
+    const collection = await this.collection(repository);
+    const removed = collection.working.find((existing) => existing.id === id);
+    if (!removed) {
+      throw new Error(`Record with ID ${id} not found in "${repository.key}"`);
+    }
+    collection.working = collection.working.filter((existing) => existing.id !== id);
+    collection.operations.push({ kind: 'remove', id });
+    return removed;
+  }
+}
+
+// Transactions run one at a time so snapshots never interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `work` against a fresh unit of work and commits it. Nothing is written
+ * if `work` throws; a failed commit restores the previous snapshot.
+ */
+export const runInTransaction = <T>(label: string, work: (uow: UnitOfWork) => Promise<T>): Promise<T> => {
+  const run = async () => {
+    const uow = new UnitOfWork(label);
+    const result = await work(uow);
+    await uow.commit();
+    logService.debug('TRANSACTION', `Committed "${label}"`);
+    return result;
+  };
+  const next = queue.then(run, run);
+  queue = next.catch(() => undefined);
+  return next;
+};
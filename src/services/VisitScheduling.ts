@@ -0,0 +1,125 @@
+import { Job, Visit } from '../types';
+
+export const VISIT_STATUSES: Visit['status'][] = ['Scheduled', 'Completed', 'Cancelled'];
+
+// The parts of a job the crew schedule needs, so a job still being edited can be checked too
+export type ScheduledJob = Pick<Job, 'id' | 'jobName' | 'status' | 'visits'>;
+
+export interface VisitBooking {
+  jobId: string;
+  jobName: string;
+  visit: Visit;
+}
+
+// A worker booked on two visits whose time windows overlap
+export interface CrewConflict {
+  worker: string;
+  date: string;
+  first: VisitBooking;
+  second: VisitBooking;
+}
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Names are typed by hand, so "marco " and "Marco" are the same worker
+const workerKey = (name: string) => name.trim().toLowerCase();
+
+export const normalizeWorkers = (workers: string[]) => {
+  const seen = new Set<string>();
+  return workers
+    .map((name) => name.trim())
+    .filter((name) => {
+      if (!name || seen.has(workerKey(name))) return false;
+      seen.add(workerKey(name));
+      return true;
+    });
+};
+
+export const sortVisits = (visits: Visit[]) =>
+  [...visits].sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+// Adds or replaces a visit, keeping the job's visits in date order
+export const putVisit = (job: Job, visit: Visit): Job => {
+  if (!dateRegex.test(visit.date)) {
+    throw new Error('A visit date must be YYYY-MM-DD');
+  }
+  if (!timeRegex.test(visit.startTime) || !timeRegex.test(visit.endTime)) {
+    throw new Error('Visit times must be HH:MM');
+  }
+  if (visit.endTime <= visit.startTime) {
+    throw new Error('A visit must end after it starts');
+  }
+  const others = (job.visits || []).filter((existing) => existing.id !== visit.id);
+  return { ...job, visits: sortVisits([...others, { ...visit, workers: normalizeWorkers(visit.workers) }]) };
+};
+
+export const deleteVisit = (job: Job, visitId: string): Job => {
+  if (!job.visits?.some((visit) => visit.id === visitId)) {
+    throw new Error(`Visit with ID ${visitId} not found on job ${job.id}`);
+  }
+  return { ...job, visits: job.visits.filter((visit) => visit.id !== visitId) };
+};
+
+const overlaps = (a: Visit, b: Visit) => a.date === b.date && a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Visits that still need their crew: not cancelled, on a job that is not cancelled
+const activeBookings = (jobs: ScheduledJob[]): VisitBooking[] =>
+  jobs
+    .filter((job) => job.status !== 'Cancelled')
+    .flatMap((job) =>
+      (job.visits || [])
+        .filter((visit) => visit.status !== 'Cancelled')
+        .map((visit) => ({ jobId: job.id, jobName: job.jobName, visit }))
+    );
+
+const sameVisit = (a: VisitBooking, b: VisitBooking) => a.jobId === b.jobId && a.visit.id === b.visit.id;
+
+const sharedWorkers = (a: Visit, b: Visit) => {
+  const other = new Set(b.workers.map(workerKey));
+  return a.workers.filter((name) => other.has(workerKey(name)));
+};
+
+// Every double booking across the given jobs, once per worker and pair of visits
+export const findCrewConflicts = (jobs: ScheduledJob[]): CrewConflict[] => {
+  const bookings = activeBookings(jobs);
+  const conflicts: CrewConflict[] = [];
+  bookings.forEach((first, index) => {
+    bookings.slice(index + 1).forEach((second) => {
+      if (!overlaps(first.visit, second.visit)) return;
+      sharedWorkers(first.visit, second.visit).forEach((worker) =>
+        conflicts.push({ worker, date: first.visit.date, first, second })
+      );
+    });
+  });
+  return conflicts;
+};
+
+// Bookings that a visit, new or edited, would double-book
+export const visitConflicts = (jobs: ScheduledJob[], jobId: string, visit: Visit): CrewConflict[] => {
+  const candidate: VisitBooking = {
+    jobId,
+    jobName: jobs.find((job) => job.id === jobId)?.jobName ?? '',
+    visit: { ...visit, workers: normalizeWorkers(visit.workers) },
+  };
+  if (candidate.visit.status === 'Cancelled') return [];
+  return activeBookings(jobs)
+    .filter((booking) => !sameVisit(booking, candidate) && overlaps(candidate.visit, booking.visit))
+    .flatMap((booking) =>
+      sharedWorkers(candidate.visit, booking.visit).map((worker) => ({
+        worker,
+        date: visit.date,
+        first: candidate,
+        second: booking,
+      }))
+    );
+};
+
+export const describeConflict = ({ worker, second }: CrewConflict) =>
+  `${worker} is also on "${second.jobName}" ${second.visit.startTime}–${second.visit.endTime}`;
+
+// Everyone assigned to a visit so far, for picking a crew
+export const knownWorkers = (jobs: ScheduledJob[]) => {
+  const names = normalizeWorkers(jobs.flatMap((job) => (job.visits || []).flatMap((visit) => visit.workers)));
+  return names.sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,22 @@
+import { createTransform } from 'redux-persist';
+import { decryptString, encryptString, isEncrypted } from '../services/EncryptionService';
+import { logService } from '../services/LoggingService';
+
+/**
+ * Encrypts each persisted slice as a whole. Slices saved before encryption
+ * was enabled come back as plain objects and are passed through; they are
+ * encrypted on the next write. A slice that cannot be decrypted fails
+ * rehydration, so the app starts from initial state instead of bad data.
+ */
+export const encryptTransform = createTransform(
+  (inboundState: unknown) => encryptString(JSON.stringify(inboundState)),
+  (outboundState: unknown, key) => {
+    if (typeof outboundState !== 'string') return outboundState;
+    try {
+      return JSON.parse(isEncrypted(outboundState) ? decryptString(outboundState) : outboundState);
+    } catch (error) {
+      logService.logError('ENCRYPTION', error as Error, { operation: 'rehydrate', slice: String(key) });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,165 @@
+import { EntityState, createEntityAdapter } from '@reduxjs/toolkit';
+import { ChecklistItem, Expense, Job, Payment } from '../types';
+
+/**
+ * Normalized form of the jobs slice. A job keeps its scalar fields plus the
+ * keys of its expenses, payments and checklist items, which live in their own
+ * tables and point back at the job through `jobId`. Storage still holds whole
+ * jobs; these helpers convert in both directions.
+ */
+export interface JobEntity extends Omit<Job, 'expenses' | 'payments' | 'toolsAndSupplies'> {
+  expenseIds: string[];
+  // Absent when the job has no payments/checklist list at all, as on Job
+  paymentIds?: string[];
+  checklistItemIds?: string[];
+}
+
+export interface ExpenseEntity extends Expense {
+  jobId: string;
+}
+
+export interface ChecklistItemEntity extends ChecklistItem {
+  jobId: string;
+}
+
+export interface JobTables {
+  jobs: EntityState<JobEntity, string>;
+  expenses: EntityState<ExpenseEntity, string>;
+  payments: EntityState<Payment, string>;
+  checklistItems: EntityState<ChecklistItemEntity, string>;
+}
+
+// Expense and checklist ids are only unique within a job (seeded jobs all
+// share `tool_0`...), so child tables are keyed by job and id together
+export const childKey = (jobId: string, id: string) => `${jobId}/${id}`;
+
+export const jobsAdapter = createEntityAdapter<JobEntity>();
+export const expensesAdapter = createEntityAdapter({
+  selectId: (expense: ExpenseEntity) => childKey(expense.jobId, expense.id),
+});
+export const paymentsAdapter = createEntityAdapter({
+  selectId: (payment: Payment) => childKey(payment.jobId, payment.id),
+});
+export const checklistItemsAdapter = createEntityAdapter({
+  selectId: (item: ChecklistItemEntity) => childKey(item.jobId, item.id),
+});
+
+export const initialJobTables: JobTables = {
+  jobs: jobsAdapter.getInitialState(),
+  expenses: expensesAdapter.getInitialState(),
+  payments: paymentsAdapter.getInitialState(),
+  checklistItems: checklistItemsAdapter.getInitialState(),
+};
+
+interface NormalizedJob {
+  job: JobEntity;
+  expenses: ExpenseEntity[];
+  payments: Payment[];
+  checklistItems: ChecklistItemEntity[];
+}
+
+export const normalizeJob = ({ expenses, payments, toolsAndSupplies, ...fields }: Job): NormalizedJob => {
+  const expenseEntities = expenses.map((expense) => ({ ...expense, jobId: fields.id }));
+  const checklistEntities = (toolsAndSupplies || []).map((item) => ({ ...item, jobId: fields.id }));
+  const job: JobEntity = { ...fields, expenseIds: expenseEntities.map(expensesAdapter.selectId) };
+  if (payments) job.paymentIds = payments.map(paymentsAdapter.selectId);
+  if (toolsAndSupplies) job.checklistItemIds = checklistEntities.map(checklistItemsAdapter.selectId);
+  return { job, expenses: expenseEntities, payments: payments || [], checklistItems: checklistEntities };
+};
+
+const withoutJobId = <T extends { jobId: string }>({ jobId, ...rest }: T): Omit<T, 'jobId'> => rest;
+
+// Child entities of a job in display order; missing keys are skipped
+const childrenOf = (tables: JobTables, job: JobEntity) => ({
+  expenses: job.expenseIds.map((id) => tables.expenses.entities[id]).filter(Boolean),
+  payments: job.paymentIds?.map((id) => tables.payments.entities[id]).filter(Boolean),
+  checklistItems: job.checklistItemIds?.map((id) => tables.checklistItems.entities[id]).filter(Boolean),
+});
+
+const assembleJob = (
+  { expenseIds, paymentIds, checklistItemIds, ...fields }: JobEntity,
+  children: ReturnType<typeof childrenOf>
+): Job => {
+  const job: Job = { ...fields, expenses: children.expenses.map(withoutJobId) };
+  if (children.payments) job.payments = children.payments;
+  if (children.checklistItems) job.toolsAndSupplies = children.checklistItems.map(withoutJobId);
+  return job;
+};
+
+export const denormalizeJob = (tables: JobTables, id: string): Job | null => {
+  const entity = tables.jobs.entities[id];
+  return entity ? assembleJob(entity, childrenOf(tables, entity)) : null;
+};
+
+export const denormalizeJobs = (tables: JobTables): Job[] =>
+  tables.jobs.ids.map((id) => denormalizeJob(tables, id)!);
+
+const sameItems = (a: unknown[] | undefined, b: unknown[] | undefined) =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((item, i) => item === b[i]));
+
+/**
+ * Like denormalizeJobs, but a job whose entity and children are unchanged since
+ * the previous call comes back as the same object, so an edit to one expense
+ * does not hand every row in a list a new job.
+ */
+export const createJobDenormalizer = () => {
+  let cache = new Map<string, { entity: JobEntity; children: ReturnType<typeof childrenOf>; job: Job }>();
+
+  return (tables: JobTables): Job[] => {
+    const next = new Map<string, { entity: JobEntity; children: ReturnType<typeof childrenOf>; job: Job }>();
+    const jobs = tables.jobs.ids.map((id) => {
+      const entity = tables.jobs.entities[id];
+      const children = childrenOf(tables, entity);
+      const cached = cache.get(id);
+      const reusable =
+        cached &&
+        cached.entity === entity &&
+        sameItems(cached.children.expenses, children.expenses) &&
+        sameItems(cached.children.payments, children.payments) &&
+        sameItems(cached.children.checklistItems, children.checklistItems);
+      const job = reusable ? cached.job : assembleJob(entity, children);
+      next.set(id, { entity, children, job });
+      return job;
+    });
+    cache = next;
+    return jobs;
+  };
+};
+
+const removeChildren = (tables: JobTables, job: JobEntity) => {
+  expensesAdapter.removeMany(tables.expenses, job.expenseIds);
+  paymentsAdapter.removeMany(tables.payments, job.paymentIds || []);
+  checklistItemsAdapter.removeMany(tables.checklistItems, job.checklistItemIds || []);
+};
+
+// The helpers below mutate an Immer draft of the tables
+
+// Inserts or replaces whole jobs, children included. A replaced job keeps its position.
+export const putJobs = (tables: JobTables, jobs: Job[]) => {
+  for (const job of jobs) {
+    const normalized = normalizeJob(job);
+    const existing = tables.jobs.entities[job.id];
+    if (existing) removeChildren(tables, existing);
+    jobsAdapter.setOne(tables.jobs, normalized.job);
+    expensesAdapter.setMany(tables.expenses, normalized.expenses);
+    paymentsAdapter.setMany(tables.payments, normalized.payments);
+    checklistItemsAdapter.setMany(tables.checklistItems, normalized.checklistItems);
+  }
+};
+
+export const removeJobs = (tables: JobTables, ids: string[]) => {
+  for (const id of ids) {
+    const existing = tables.jobs.entities[id];
+    if (!existing) continue;
+    removeChildren(tables, existing);
+    jobsAdapter.removeOne(tables.jobs, id);
+  }
+};
+
+export const replaceAllJobs = (tables: JobTables, jobs: Job[]) => {
+  jobsAdapter.removeAll(tables.jobs);
+  expensesAdapter.removeAll(tables.expenses);
+  paymentsAdapter.removeAll(tables.payments);
+  checklistItemsAdapter.removeAll(tables.checklistItems);
+  putJobs(tables, jobs);
+};
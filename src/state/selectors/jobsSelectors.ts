@@ -1,10 +1,56 @@
 import { createSelector } from '@reduxjs/toolkit';
 import { RootState } from '../store';
 import { Job } from '../../types';
+import { childKey, createJobDenormalizer } from '../jobEntities';
 
 export const selectJobsState = (state: RootState) => state.jobs;
 
-export const selectJobs = (state: RootState) => state.jobs.jobs;
+const selectJobTable = (state: RootState) => state.jobs.jobs;
+const selectExpenseTable = (state: RootState) => state.jobs.expenses;
+const selectPaymentTable = (state: RootState) => state.jobs.payments;
+const selectChecklistItemTable = (state: RootState) => state.jobs.checklistItems;
+
+const denormalizeAllJobs = createJobDenormalizer();
+
+// Every job in the slice as a Job object, trashed or not. Unchanged jobs keep
+// their object identity across updates (see createJobDenormalizer).
+export const selectAllJobs = createSelector(
+  [selectJobTable, selectExpenseTable, selectPaymentTable, selectChecklistItemTable],
+  (jobs, expenses, payments, checklistItems) => denormalizeAllJobs({ jobs, expenses, payments, checklistItems })
+);
+
+const selectTrashEntries = (state: RootState) => state.trash.entries;
+
+// Trashed records are removed from storage, but the slice can briefly lag behind
+// a trash action until fetchJobs resolves, so filter them here as well
+const selectTrashedIds = createSelector([selectTrashEntries], (entries) => ({
+  jobs: new Set(entries.filter((entry) => entry.type === 'job').map((entry) => entry.recordId)),
+  expenses: new Set(
+    entries
+      .filter((entry) => entry.type === 'expense')
+      .map((entry) => childKey(entry.jobId || '', entry.recordId))
+  ),
+}));
+
+export const selectJobs = createSelector([selectAllJobs, selectTrashedIds], (jobs, trashed) => {
+  if (trashed.jobs.size === 0 && trashed.expenses.size === 0) return jobs;
+  return jobs
+    .filter((job) => !trashed.jobs.has(job.id))
+    .map((job) =>
+      job.expenses.some((expense) => trashed.expenses.has(childKey(job.id, expense.id)))
+        ? { ...job, expenses: job.expenses.filter((expense) => !trashed.expenses.has(childKey(job.id, expense.id))) }
+        : job
+    );
+});
+
+export const selectTrashedJobs = createSelector([selectTrashEntries], (entries) =>
+  entries.filter((entry) => entry.type === 'job').map((entry) => entry.record as Job)
+);
+
+export const selectJobsIncludingTrashed = createSelector(
+  [selectJobs, selectTrashedJobs],
+  (jobs, trashedJobs) => [...jobs, ...trashedJobs]
+);
 
 export const selectJobsLoading = (state: RootState) => state.jobs.loading;
 
@@ -17,6 +63,14 @@ export const selectJobById = createSelector(
   (jobs, jobId) => jobs.find((job) => job.id === jobId)
 );
 
+export const selectJobEntityById = (state: RootState, jobId: string) => state.jobs.jobs.entities[jobId];
+
+export const selectExpenseById = (state: RootState, jobId: string, expenseId: string) =>
+  state.jobs.expenses.entities[childKey(jobId, expenseId)];
+
+export const selectPaymentById = (state: RootState, jobId: string, paymentId: string) =>
+  state.jobs.payments.entities[childKey(jobId, paymentId)];
+
 export const selectFilteredJobs = createSelector(
   [selectJobs, selectJobsFilter],
   (jobs, filter) => {
@@ -25,7 +79,8 @@ export const selectFilteredJobs = createSelector(
         return jobs.filter((job) => 
           job.status === 'Quoted' || 
           job.status === 'Accepted' || 
-          job.status === 'In-Progress'
+          job.status === 'In-Progress' ||
+          job.status === 'On-Hold'
         );
       case 'completed':
         return jobs.filter((job) => 
@@ -59,7 +114,8 @@ export const selectActiveJobsCount = createSelector(
   (jobs) => jobs.filter((job) => 
     job.status === 'Quoted' || 
     job.status === 'Accepted' || 
-    job.status === 'In-Progress'
+    job.status === 'In-Progress' ||
+    job.status === 'On-Hold'
   ).length
 );
 
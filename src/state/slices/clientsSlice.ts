@@ -1,18 +1,99 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { Client } from '../../types';
+import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { Client, LoadError } from '../../types';
+import {
+  getClients,
+  getClientById,
+  deleteClient as deleteClientStorage,
+  ClientDeletionPolicy,
+} from '../../services/ClientService';
+import { logService } from '../../services/LoggingService';
+import { applyChangesToList, recordChange } from '../../services/HistoryService';
+import { submitWrite } from '../../services/OutboxService';
+import { JobTables, denormalizeJobs } from '../jobEntities';
+import { buildHistoryEntry, recordHistory, redo, undo } from './historySlice';
 
 interface ClientsState {
   clients: Client[];
   loading: boolean;
   error: string | null;
+  loadError: LoadError | null;
 }
 
 const initialState: ClientsState = {
   clients: [],
   loading: false,
   error: null,
+  loadError: null,
 };
 
+type ClientsRootState = { clients: ClientsState; jobs: JobTables };
+
+export const fetchClients = createAsyncThunk(
+  'clients/fetchClients',
+  async () => {
+    const clients = await getClients();
+    logService.logUserAction('Fetched clients via Redux', { clientCount: clients.length });
+    return clients;
+  }
+);
+
+export const createClient = createAsyncThunk(
+  'clients/createClient',
+  async (client: Client, { dispatch }) => {
+    await submitWrite('clients', client.id, client);
+    logService.logUserAction('Created client via Redux', { clientId: client.id, clientName: client.fullName });
+    dispatch(recordHistory(buildHistoryEntry(`Added ${client.fullName}`, [recordChange('clients', null, client)])));
+    return client;
+  }
+);
+
+export const modifyClient = createAsyncThunk(
+  'clients/modifyClient',
+  async (client: Client, { dispatch, getState }) => {
+    const before = (getState() as ClientsRootState).clients.clients.find((c) => c.id === client.id);
+    // Unreadable storage falls back to the loaded copy; a missing client is an error
+    const stored = await getClientById(client.id).catch(() => before);
+    if (!stored) {
+      throw new Error(`Client with ID ${client.id} not found`);
+    }
+    await submitWrite('clients', client.id, client);
+    logService.logUserAction('Updated client via Redux', { clientId: client.id, clientName: client.fullName });
+    dispatch(recordHistory(buildHistoryEntry(`Edited ${client.fullName}`, [recordChange('clients', before, client)])));
+    return client;
+  }
+);
+
+export const removeClient = createAsyncThunk(
+  'clients/removeClient',
+  async ({ id, policy }: { id: string; policy?: ClientDeletionPolicy }, { dispatch, getState }) => {
+    const jobsBefore = denormalizeJobs((getState() as ClientsRootState).jobs);
+    const result = await deleteClientStorage(id, policy);
+    logService.logUserAction('Deleted client via Redux', { clientId: id, policy: policy?.mode ?? 'block' });
+    const jobChanges = jobsBefore
+      .filter((job) => result.removedJobIds.includes(job.id))
+      .map((job) => recordChange('jobs', job, null))
+      .concat(
+        result.reassignedJobs.map((job) =>
+          recordChange('jobs', jobsBefore.find((j) => j.id === job.id), job)
+        )
+      );
+    dispatch(
+      recordHistory(
+        buildHistoryEntry(
+          `Deleted ${result.client.fullName}`,
+          [recordChange('clients', result.client, null), ...jobChanges],
+          true
+        )
+      )
+    );
+    return {
+      id,
+      removedJobIds: result.removedJobIds,
+      reassignedJobs: result.reassignedJobs,
+    };
+  }
+);
+
 const clientsSlice = createSlice({
   name: 'clients',
   initialState,
@@ -42,6 +123,56 @@ const clientsSlice = createSlice({
       state.loading = false;
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchClients.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchClients.fulfilled, (state, action) => {
+        state.loading = false;
+        state.clients = action.payload;
+        state.error = null;
+        state.loadError = null;
+      })
+      // The clients already in state are kept
+      .addCase(fetchClients.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to fetch clients';
+        state.loadError = { collection: 'clients', message: state.error, failedAt: new Date().toISOString() };
+      })
+      .addCase(createClient.fulfilled, (state, action) => {
+        state.clients = state.clients.filter((client) => client.id !== action.payload.id);
+        state.clients.push(action.payload);
+        state.error = null;
+      })
+      .addCase(createClient.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to create client';
+      })
+      .addCase(modifyClient.fulfilled, (state, action) => {
+        const index = state.clients.findIndex((client) => client.id === action.payload.id);
+        if (index !== -1) {
+          state.clients[index] = action.payload;
+        }
+        state.error = null;
+      })
+      .addCase(modifyClient.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update client';
+      })
+      .addCase(removeClient.fulfilled, (state, action) => {
+        state.clients = state.clients.filter((client) => client.id !== action.payload.id);
+        state.error = null;
+      })
+      .addCase(removeClient.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to delete client';
+      })
+      .addCase(undo.fulfilled, (state, action) => {
+        state.clients = applyChangesToList(state.clients, action.payload.changes, 'clients', 'undo');
+      })
+      .addCase(redo.fulfilled, (state, action) => {
+        state.clients = applyChangesToList(state.clients, action.payload.changes, 'clients', 'redo');
+      });
+  },
 });
 
 export const {
@@ -53,4 +184,4 @@ export const {
   setError,
 } = clientsSlice.actions;
 
-export default clientsSlice.reducer;
\ No newline at end of file
+export default clientsSlice.reducer;
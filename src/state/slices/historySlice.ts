@@ -0,0 +1,105 @@
+import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  HistoryEntry,
+  RecordChange,
+  applyHistoryEntry,
+  compactHistory,
+} from '../../services/HistoryService';
+import { recordJobAudit } from '../../services/AuditService';
+import { Job } from '../../types';
+
+// Kept in memory only, so history lasts for the current session
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Entry the Undo snackbar is currently offering
+  undoPrompt: HistoryEntry | null;
+}
+
+const initialState: HistoryState = {
+  past: [],
+  future: [],
+  undoPrompt: null,
+};
+
+type HistoryRootState = { history: HistoryState };
+
+let nextEntryId = 0;
+
+export const buildHistoryEntry = (
+  label: string,
+  changes: RecordChange[],
+  showUndo = false
+): HistoryEntry => ({
+  id: `history_${Date.now()}_${nextEntryId++}`,
+  label,
+  recordedAt: new Date().toISOString(),
+  changes,
+  showUndo,
+});
+
+// Edits reverted or reapplied from history are audited like any other save
+const auditJobEdits = async (entry: HistoryEntry, direction: 'undo' | 'redo') => {
+  for (const change of entry.changes) {
+    if (change.collection !== 'jobs' || !change.before || !change.after) continue;
+    const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    await recordJobAudit(from as Job, to as Job, direction === 'undo' ? 'Undo' : 'Redo');
+  }
+};
+
+// Slices apply the returned entry to their own records (see applyChangesToList)
+export const undo = createAsyncThunk('history/undo', async (_: void, { getState }) => {
+  const { past } = (getState() as HistoryRootState).history;
+  const entry = past[past.length - 1];
+  if (!entry) {
+    throw new Error('Nothing to undo');
+  }
+  await applyHistoryEntry(entry, 'undo');
+  await auditJobEdits(entry, 'undo');
+  return entry;
+});
+
+export const redo = createAsyncThunk('history/redo', async (_: void, { getState }) => {
+  const { future } = (getState() as HistoryRootState).history;
+  const entry = future[future.length - 1];
+  if (!entry) {
+    throw new Error('Nothing to redo');
+  }
+  await applyHistoryEntry(entry, 'redo');
+  await auditJobEdits(entry, 'redo');
+  return entry;
+});
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {
+    recordHistory: (state, action: PayloadAction<HistoryEntry>) => {
+      const past = compactHistory(state.past, action.payload);
+      if (past === state.past) return;
+      state.past = past;
+      state.future = [];
+      const latest = past[past.length - 1];
+      state.undoPrompt = latest?.id === action.payload.id && latest.showUndo ? latest : null;
+    },
+    dismissUndoPrompt: (state) => {
+      state.undoPrompt = null;
+    },
+    clearHistory: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(undo.fulfilled, (state, action) => {
+        state.past = state.past.filter((entry) => entry.id !== action.payload.id);
+        state.future.push(action.payload);
+        state.undoPrompt = null;
+      })
+      .addCase(redo.fulfilled, (state, action) => {
+        state.future = state.future.filter((entry) => entry.id !== action.payload.id);
+        state.past.push(action.payload);
+      });
+  },
+});
+
+export const { recordHistory, dismissUndoPrompt, clearHistory } = historySlice.actions;
+export default historySlice.reducer;
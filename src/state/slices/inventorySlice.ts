@@ -0,0 +1,79 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { InventoryItem, Job } from '../../types';
+import {
+  deleteInventoryItem,
+  getInventory,
+  recordJobConsumption,
+  saveInventoryItem,
+} from '../../services/InventoryService';
+import { logService } from '../../services/LoggingService';
+
+interface InventoryState {
+  items: InventoryItem[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: InventoryState = {
+  items: [],
+  loading: false,
+  error: null,
+};
+
+const putItems = (state: InventoryState, items: InventoryItem[]) => {
+  const ids = new Set(items.map((item) => item.id));
+  state.items = [...state.items.filter((item) => !ids.has(item.id)), ...items].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+};
+
+export const fetchInventory = createAsyncThunk('inventory/fetchInventory', async () => getInventory());
+
+export const storeInventoryItem = createAsyncThunk('inventory/storeInventoryItem', async (item: InventoryItem) => {
+  const saved = await saveInventoryItem(item);
+  logService.logUserAction('Saved inventory item via Redux', { itemId: saved.id, name: saved.name });
+  return saved;
+});
+
+export const removeInventoryItem = createAsyncThunk('inventory/removeInventoryItem', async (id: string) => {
+  await deleteInventoryItem(id);
+  logService.logUserAction('Deleted inventory item via Redux', { itemId: id });
+  return id;
+});
+
+// Dispatched by the jobs slice when a job reaches Completed
+export const consumeJobSupplies = createAsyncThunk('inventory/consumeJobSupplies', async (job: Job) =>
+  recordJobConsumption(job)
+);
+
+const inventorySlice = createSlice({
+  name: 'inventory',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchInventory.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchInventory.fulfilled, (state, action) => {
+        state.loading = false;
+        state.items = action.payload;
+      })
+      .addCase(fetchInventory.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to load inventory';
+      })
+      .addCase(storeInventoryItem.fulfilled, (state, action) => {
+        putItems(state, [action.payload]);
+      })
+      .addCase(consumeJobSupplies.fulfilled, (state, action) => {
+        putItems(state, action.payload);
+      })
+      .addCase(removeInventoryItem.fulfilled, (state, action) => {
+        state.items = state.items.filter((item) => item.id !== action.payload);
+      });
+  },
+});
+
+export default inventorySlice.reducer;
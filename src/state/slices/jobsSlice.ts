@@ -1,22 +1,103 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
-import { Job } from '../../types';
-import { getJobs, getJobById, saveJob, updateJob as updateJobStorage, deleteJob as deleteJobStorage } from '../../services/StorageService';
+import { Expense, Job, JobTask, LoadError, Payment, QuoteRevision, Signature, TimeEntry, Visit } from '../../types';
+import {
+  getJobs,
+  getJobById,
+  recordPaymentChange,
+  removePayment as removePaymentStorage,
+  updatePayment as updatePaymentStorage,
+} from '../../services/StorageService';
 import { logService } from '../../services/LoggingService';
+import { HistoryDirection, RecordChange, recordChange } from '../../services/HistoryService';
+import { recordJobAudit } from '../../services/AuditService';
+import { submitWrite } from '../../services/OutboxService';
+import { TransitionEffect, transitionJob } from '../../services/JobLifecycle';
+import { acceptSignedQuote } from '../../services/QuoteAcceptanceService';
+import { withDerivedQuote } from '../../services/QuoteCalculator';
+import { deleteTimeEntry, putTimeEntry, startTimer, stopTimer } from '../../services/TimeTracking';
+import { deleteVisit, putVisit } from '../../services/VisitScheduling';
+import { deleteTask, putTask, toggleTask } from '../../services/JobTasks';
+import {
+  SnapshotResult,
+  assertQuoteEditable,
+  snapshotQuote,
+  withStoredRevisions,
+} from '../../services/QuoteRevisions';
+import {
+  JobTables,
+  childKey,
+  denormalizeJob,
+  expensesAdapter,
+  initialJobTables,
+  paymentsAdapter,
+  putJobs,
+  removeJobs,
+  replaceAllJobs,
+} from '../jobEntities';
+import { removeClient } from './clientsSlice';
+import { consumeJobSupplies } from './inventorySlice';
+import { buildHistoryEntry, recordHistory, redo, undo } from './historySlice';
 
-interface JobsState {
-  jobs: Job[];
+// Jobs, expenses, payments and checklist items are stored normalized (see
+// jobEntities.ts); read them back as Job objects through jobsSelectors
+export interface JobsState extends JobTables {
   loading: boolean;
   error: string | null;
+  loadError: LoadError | null;
   filter: 'all' | 'active' | 'completed';
 }
 
 const initialState: JobsState = {
-  jobs: [],
+  ...initialJobTables,
   loading: false,
   error: null,
+  loadError: null,
   filter: 'all',
 };
 
+// Current copy of a job, captured before a change so it can be undone
+const jobInState = (getState: () => unknown, id: string) => denormalizeJob((getState() as { jobs: JobsState }).jobs, id);
+
+// Stored copy of a job that is about to change. If storage cannot be read the
+// loaded copy is used and the write goes to the outbox; a job that is
+// genuinely missing is an error rather than being created.
+const requireStoredJob = async (getState: () => unknown, id: string): Promise<Job> => {
+  let stored: Job | null;
+  try {
+    stored = await getJobById(id);
+  } catch {
+    stored = jobInState(getState, id);
+  }
+  if (!stored) {
+    throw new Error(`Job with ID ${id} not found`);
+  }
+  return stored;
+};
+
+// Writes an edited job and records the change in its audit trail
+const saveJobEdit = async (stored: Job, job: Job, source: string) => {
+  await submitWrite('jobs', job.id, job);
+  await recordJobAudit(stored, job, source);
+};
+
+// Every path to Completed (a status change, an edit, a payment in full) takes the
+// job's supplies out of stock. A failure to update stock is logged by the
+// inventory service and does not undo the change.
+const consumeOnCompletion = async (dispatch: (action: unknown) => unknown, stored: Job | null, job: Job) => {
+  if (job.status === 'Completed' && stored?.status !== 'Completed') {
+    await dispatch(consumeJobSupplies(job));
+  }
+};
+
+const applyJobChanges = (state: JobsState, changes: RecordChange[], direction: HistoryDirection) => {
+  for (const change of changes) {
+    if (change.collection !== 'jobs') continue;
+    const target = (direction === 'undo' ? change.before : change.after) as Job | null;
+    if (target) putJobs(state, [target]);
+    else removeJobs(state, [change.id]);
+  }
+};
+
 export const fetchJobs = createAsyncThunk(
   'jobs/fetchJobs',
   async () => {
@@ -39,58 +120,272 @@ export const fetchJobById = createAsyncThunk(
 
 export const createJob = createAsyncThunk(
   'jobs/createJob',
-  async (job: Job) => {
-    await saveJob(job);
+  async (draft: Job, { dispatch }) => {
+    const job = withDerivedQuote(draft);
+    await submitWrite('jobs', job.id, job);
     logService.logUserAction('Created job via Redux', { jobId: job.id, jobName: job.jobName });
+    dispatch(recordHistory(buildHistoryEntry(`Added ${job.jobName}`, [recordChange('jobs', null, job)])));
     return job;
   }
 );
 
 export const modifyJob = createAsyncThunk(
   'jobs/modifyJob',
-  async (job: Job) => {
-    try {
-      await updateJobStorage(job);
-      logService.logUserAction('Updated job via Redux', { jobId: job.id, jobName: job.jobName });
-      return job;
-    } catch (error) {
-      // Fallback: if job was never persisted, save it
-      await saveJob(job);
-      logService.logUserAction('Upserted job via Redux', { jobId: job.id, jobName: job.jobName });
-      return job;
+  async ({ job: draft, source }: { job: Job; source: string }, { dispatch, getState }) => {
+    const before = jobInState(getState, draft.id);
+    const stored = await requireStoredJob(getState, draft.id);
+    const job = withStoredRevisions(stored, withDerivedQuote(draft));
+    assertQuoteEditable(stored, job);
+    // A status edited in a form still has to follow the job lifecycle
+    const saved =
+      job.status === stored.status ? job : transitionJob({ ...job, status: stored.status }, job.status, { source }).job;
+    await saveJobEdit(stored, saved, source);
+    await consumeOnCompletion(dispatch, stored, saved);
+    logService.logUserAction('Updated job via Redux', { jobId: job.id, jobName: job.jobName });
+    const statusChanged = before !== null && before.status !== saved.status;
+    dispatch(
+      recordHistory(
+        buildHistoryEntry(
+          statusChanged ? `Status changed to ${saved.status}` : `Edited ${saved.jobName}`,
+          [recordChange('jobs', before, saved)],
+          statusChanged
+        )
+      )
+    );
+    return saved;
+  }
+);
+
+// Resolves the updated job and the follow-ups the screen should offer (see
+// JobLifecycle). A refused transition rejects with the reason, for the caller to show.
+export const changeJobStatus = createAsyncThunk(
+  'jobs/changeJobStatus',
+  async (
+    { jobId, status, reason, source }: { jobId: string; status: Job['status']; reason?: string; source: string },
+    { dispatch, getState }
+  ): Promise<{ job: Job; effects: TransitionEffect[] }> => {
+    const before = jobInState(getState, jobId);
+    const stored = await requireStoredJob(getState, jobId);
+    const result = transitionJob(stored, status, { source, reason });
+    await saveJobEdit(stored, result.job, source);
+    await consumeOnCompletion(dispatch, stored, result.job);
+    logService.logUserAction('Changed job status via Redux', { jobId, from: stored.status, to: status });
+    dispatch(
+      recordHistory(
+        buildHistoryEntry(`Status changed to ${status}`, [recordChange('jobs', before, result.job)], true)
+      )
+    );
+    return result;
+  }
+);
+
+// Snapshots the working quote as a numbered revision, e.g. as it is sent to the
+// client. Revisions are permanent, so this is audited but not undoable.
+export const saveQuoteRevision = createAsyncThunk(
+  'jobs/saveQuoteRevision',
+  async (
+    { jobId, sentVia, source }: { jobId: string; sentVia?: QuoteRevision['sentVia']; source: string },
+    { getState }
+  ): Promise<SnapshotResult> => {
+    const stored = await requireStoredJob(getState, jobId);
+    const result = snapshotQuote(stored, new Date(), sentVia);
+    if (result.created) {
+      await saveJobEdit(stored, result.job, source);
+      logService.logUserAction('Saved quote revision', { jobId, revision: result.revision.number, sentVia });
     }
+    return result;
+  }
+);
+
+// Accepts the quote on the client's signature and attaches the signed PDF.
+// A signature cannot be taken back, so like revisions this is not undoable.
+export const acceptQuote = createAsyncThunk(
+  'jobs/acceptQuote',
+  async (
+    { jobId, signerName, signature, source }: { jobId: string; signerName: string; signature: Signature; source: string },
+    { getState }
+  ): Promise<{ job: Job; effects: TransitionEffect[] }> => {
+    const stored = await requireStoredJob(getState, jobId);
+    const result = await acceptSignedQuote(stored, { signerName, signature, source });
+    await saveJobEdit(stored, result.job, source);
+    logService.logUserAction('Quote accepted with signature', {
+      jobId,
+      revision: result.job.quoteAcceptance?.revision,
+    });
+    return result;
   }
 );
 
 export const removeJob = createAsyncThunk(
   'jobs/removeJob',
-  async (id: string) => {
-    await deleteJobStorage(id);
+  async (id: string, { dispatch, getState }) => {
+    const before = jobInState(getState, id);
+    await requireStoredJob(getState, id);
+    await submitWrite('jobs', id, null);
     logService.logUserAction('Deleted job via Redux', { jobId: id });
+    if (before) {
+      dispatch(recordHistory(buildHistoryEntry(`Deleted ${before.jobName}`, [recordChange('jobs', before, null)], true)));
+    }
     return id;
   }
 );
 
+export const recordPayment = createAsyncThunk(
+  'jobs/recordPayment',
+  async (payment: Payment, { dispatch, getState }) => {
+    const before = jobInState(getState, payment.jobId);
+    const { before: stored, after: job } = await recordPaymentChange(payment);
+    // A payment in full completes the job; that status change belongs in its audit trail
+    if (job.status !== stored.status) {
+      await recordJobAudit(stored, job, 'Payment');
+    }
+    await consumeOnCompletion(dispatch, stored, job);
+    logService.logUserAction('Recorded payment via Redux', { jobId: job.id, paymentId: payment.id });
+    dispatch(recordHistory(buildHistoryEntry('Recorded payment', [recordChange('jobs', before, job)])));
+    return job;
+  }
+);
+
+export const removePayment = createAsyncThunk(
+  'jobs/removePayment',
+  async ({ jobId, paymentId }: { jobId: string; paymentId: string }, { dispatch, getState }) => {
+    const before = jobInState(getState, jobId);
+    const job = await removePaymentStorage(jobId, paymentId);
+    logService.logUserAction('Removed payment via Redux', { jobId, paymentId });
+    dispatch(recordHistory(buildHistoryEntry('Payment removed', [recordChange('jobs', before, job)], true)));
+    return job;
+  }
+);
+
+export const addExpense = createAsyncThunk(
+  'jobs/addExpense',
+  async ({ jobId, expense, source }: { jobId: string; expense: Expense; source: string }, { dispatch, getState }) => {
+    const before = jobInState(getState, jobId);
+    const stored = await requireStoredJob(getState, jobId);
+    const job: Job = { ...stored, expenses: [...stored.expenses, expense] };
+    await saveJobEdit(stored, job, source);
+    logService.logUserAction('Added expense via Redux', { jobId, expenseId: expense.id });
+    dispatch(recordHistory(buildHistoryEntry(`Added expense to ${job.jobName}`, [recordChange('jobs', before, job)])));
+    return { jobId, expense };
+  }
+);
+
+export const updateExpense = createAsyncThunk(
+  'jobs/updateExpense',
+  async ({ jobId, expense, source }: { jobId: string; expense: Expense; source: string }, { dispatch, getState }) => {
+    const before = jobInState(getState, jobId);
+    const stored = await requireStoredJob(getState, jobId);
+    if (!stored.expenses.some((e) => e.id === expense.id)) {
+      throw new Error(`Expense with ID ${expense.id} not found on job ${jobId}`);
+    }
+    const job: Job = { ...stored, expenses: stored.expenses.map((e) => (e.id === expense.id ? expense : e)) };
+    await saveJobEdit(stored, job, source);
+    logService.logUserAction('Updated expense via Redux', { jobId, expenseId: expense.id });
+    dispatch(recordHistory(buildHistoryEntry(`Edited expense on ${job.jobName}`, [recordChange('jobs', before, job)])));
+    return { jobId, expense };
+  }
+);
+
+export const updatePayment = createAsyncThunk(
+  'jobs/updatePayment',
+  async (payment: Payment, { dispatch, getState }) => {
+    const before = jobInState(getState, payment.jobId);
+    const job = await updatePaymentStorage(payment);
+    logService.logUserAction('Updated payment via Redux', { jobId: payment.jobId, paymentId: payment.id });
+    dispatch(recordHistory(buildHistoryEntry('Payment updated', [recordChange('jobs', before, job)])));
+    return payment;
+  }
+);
+
+// Applies a change to part of the stored job (time entries, visits); undoable like expense edits
+const editStoredJob = async (
+  { jobId, source, label }: { jobId: string; source: string; label: string },
+  change: (job: Job) => Job,
+  { dispatch, getState }: { dispatch: (action: unknown) => unknown; getState: () => unknown }
+): Promise<Job> => {
+  const before = jobInState(getState, jobId);
+  const stored = await requireStoredJob(getState, jobId);
+  const job = change(stored);
+  await saveJobEdit(stored, job, source);
+  logService.logUserAction(`${label} via Redux`, { jobId });
+  dispatch(recordHistory(buildHistoryEntry(`${label} on ${job.jobName}`, [recordChange('jobs', before, job)])));
+  return job;
+};
+
+export const clockIn = createAsyncThunk(
+  'jobs/clockIn',
+  async ({ jobId, source }: { jobId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Clocked in' }, (job) => startTimer(job, new Date()), thunkApi)
+);
+
+export const clockOut = createAsyncThunk(
+  'jobs/clockOut',
+  async ({ jobId, source }: { jobId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Clocked out' }, (job) => stopTimer(job, new Date()), thunkApi)
+);
+
+// Adds or edits a time entry by hand
+export const saveTimeEntry = createAsyncThunk(
+  'jobs/saveTimeEntry',
+  async ({ jobId, entry, source }: { jobId: string; entry: TimeEntry; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Edited time' }, (job) => putTimeEntry(job, entry), thunkApi)
+);
+
+export const removeTimeEntry = createAsyncThunk(
+  'jobs/removeTimeEntry',
+  async ({ jobId, entryId, source }: { jobId: string; entryId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Removed time' }, (job) => deleteTimeEntry(job, entryId), thunkApi)
+);
+
+export const saveVisit = createAsyncThunk(
+  'jobs/saveVisit',
+  async ({ jobId, visit, source }: { jobId: string; visit: Visit; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Scheduled visit' }, (job) => putVisit(job, visit), thunkApi)
+);
+
+export const removeVisit = createAsyncThunk(
+  'jobs/removeVisit',
+  async ({ jobId, visitId, source }: { jobId: string; visitId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Removed visit' }, (job) => deleteVisit(job, visitId), thunkApi)
+);
+
+export const saveTask = createAsyncThunk(
+  'jobs/saveTask',
+  async ({ jobId, task, source }: { jobId: string; task: JobTask; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Edited task' }, (job) => putTask(job, task), thunkApi)
+);
+
+export const checkTask = createAsyncThunk(
+  'jobs/checkTask',
+  async ({ jobId, taskId, source }: { jobId: string; taskId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Checked off task' }, (job) => toggleTask(job, taskId), thunkApi)
+);
+
+export const removeTask = createAsyncThunk(
+  'jobs/removeTask',
+  async ({ jobId, taskId, source }: { jobId: string; taskId: string; source: string }, thunkApi) =>
+    editStoredJob({ jobId, source, label: 'Removed task' }, (job) => deleteTask(job, taskId), thunkApi)
+);
+
 const jobsSlice = createSlice({
   name: 'jobs',
   initialState,
   reducers: {
     setJobs: (state, action: PayloadAction<Job[]>) => {
-      state.jobs = action.payload;
+      replaceAllJobs(state, action.payload);
       state.loading = false;
       state.error = null;
     },
     addJob: (state, action: PayloadAction<Job>) => {
-      state.jobs.push(action.payload);
+      putJobs(state, [action.payload]);
     },
     updateJob: (state, action: PayloadAction<Job>) => {
-      const index = state.jobs.findIndex((job) => job.id === action.payload.id);
-      if (index !== -1) {
-        state.jobs[index] = action.payload;
+      if (state.jobs.entities[action.payload.id]) {
+        putJobs(state, [action.payload]);
       }
     },
     deleteJob: (state, action: PayloadAction<string>) => {
-      state.jobs = state.jobs.filter((job) => job.id !== action.payload);
+      removeJobs(state, [action.payload]);
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.loading = action.payload;
@@ -114,12 +409,15 @@ const jobsSlice = createSlice({
       })
       .addCase(fetchJobs.fulfilled, (state, action) => {
         state.loading = false;
-        state.jobs = action.payload;
+        replaceAllJobs(state, action.payload);
         state.error = null;
+        state.loadError = null;
       })
+      // The jobs already in state are kept
       .addCase(fetchJobs.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to fetch jobs';
+        state.loadError = { collection: 'jobs', message: state.error, failedAt: new Date().toISOString() };
       })
       .addCase(createJob.pending, (state) => {
         state.loading = true;
@@ -127,7 +425,7 @@ const jobsSlice = createSlice({
       })
       .addCase(createJob.fulfilled, (state, action) => {
         state.loading = false;
-        state.jobs.push(action.payload);
+        putJobs(state, [action.payload]);
         state.error = null;
       })
       .addCase(createJob.rejected, (state, action) => {
@@ -140,9 +438,8 @@ const jobsSlice = createSlice({
       })
       .addCase(modifyJob.fulfilled, (state, action) => {
         state.loading = false;
-        const index = state.jobs.findIndex((job) => job.id === action.payload.id);
-        if (index !== -1) {
-          state.jobs[index] = action.payload;
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
         }
         state.error = null;
       })
@@ -150,18 +447,141 @@ const jobsSlice = createSlice({
         state.loading = false;
         state.error = action.error.message || 'Failed to update job';
       })
+      .addCase(saveQuoteRevision.fulfilled, (state, action) => {
+        if (action.payload.created && state.jobs.entities[action.payload.job.id]) {
+          putJobs(state, [action.payload.job]);
+        }
+      })
+      .addCase(acceptQuote.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.job.id]) {
+          putJobs(state, [action.payload.job]);
+        }
+      })
+      .addCase(changeJobStatus.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.job.id]) {
+          putJobs(state, [action.payload.job]);
+        }
+        state.error = null;
+      })
       .addCase(removeJob.pending, (state) => {
         state.loading = true;
         state.error = null;
       })
       .addCase(removeJob.fulfilled, (state, action) => {
         state.loading = false;
-        state.jobs = state.jobs.filter((job) => job.id !== action.payload);
+        removeJobs(state, [action.payload]);
         state.error = null;
       })
       .addCase(removeJob.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to delete job';
+      })
+      // Only the expense/payment tables change, so other jobs keep their objects
+      .addCase(addExpense.fulfilled, (state, action) => {
+        const { jobId, expense } = action.payload;
+        const job = state.jobs.entities[jobId];
+        if (job) {
+          expensesAdapter.setOne(state.expenses, { ...expense, jobId });
+          job.expenseIds.push(childKey(jobId, expense.id));
+        }
+        state.error = null;
+      })
+      .addCase(addExpense.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to add expense';
+      })
+      .addCase(updateExpense.fulfilled, (state, action) => {
+        const { jobId, expense } = action.payload;
+        if (state.expenses.entities[childKey(jobId, expense.id)]) {
+          expensesAdapter.setOne(state.expenses, { ...expense, jobId });
+        }
+        state.error = null;
+      })
+      .addCase(updateExpense.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update expense';
+      })
+      .addCase(updatePayment.fulfilled, (state, action) => {
+        if (state.payments.entities[paymentsAdapter.selectId(action.payload)]) {
+          paymentsAdapter.setOne(state.payments, action.payload);
+        }
+        state.error = null;
+      })
+      .addCase(updatePayment.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update payment';
+      })
+      .addCase(recordPayment.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+        state.error = null;
+      })
+      .addCase(recordPayment.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to record payment';
+      })
+      .addCase(removePayment.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+        state.error = null;
+      })
+      .addCase(removePayment.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to remove payment';
+      })
+      .addCase(clockIn.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(clockOut.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(saveTimeEntry.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(removeTimeEntry.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(saveVisit.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(removeVisit.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(saveTask.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(checkTask.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(removeTask.fulfilled, (state, action) => {
+        if (state.jobs.entities[action.payload.id]) {
+          putJobs(state, [action.payload]);
+        }
+      })
+      .addCase(undo.fulfilled, (state, action) => {
+        applyJobChanges(state, action.payload.changes, 'undo');
+      })
+      .addCase(redo.fulfilled, (state, action) => {
+        applyJobChanges(state, action.payload.changes, 'redo');
+      })
+      // Keep jobs in line with the policy used when a client was deleted
+      .addCase(removeClient.fulfilled, (state, action) => {
+        const { removedJobIds, reassignedJobs } = action.payload;
+        removeJobs(state, removedJobIds);
+        putJobs(state, reassignedJobs.filter((job) => state.jobs.entities[job.id]));
       });
   },
 });
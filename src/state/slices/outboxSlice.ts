@@ -0,0 +1,42 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { OutboxEntry, flushOutbox } from '../../services/OutboxService';
+import { fetchJobs } from './jobsSlice';
+import { fetchClients } from './clientsSlice';
+
+interface OutboxState {
+  // Writes that failed and are waiting to be retried
+  pending: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+}
+
+const initialState: OutboxState = {
+  pending: 0,
+  lastError: null,
+  nextAttemptAt: null,
+};
+
+// Retries now, ignoring backoff, then reloads so the lists match storage
+export const retryPendingWrites = createAsyncThunk('outbox/retry', async (_: void, { dispatch }) => {
+  const remaining = await flushOutbox({ force: true });
+  dispatch(fetchJobs());
+  dispatch(fetchClients());
+  return remaining;
+});
+
+const outboxSlice = createSlice({
+  name: 'outbox',
+  initialState,
+  reducers: {
+    // Fed by subscribeToOutbox (see store.ts)
+    pendingWritesChanged: (state, action: PayloadAction<OutboxEntry[]>) => {
+      const [next] = action.payload;
+      state.pending = action.payload.length;
+      state.lastError = next?.lastError ?? null;
+      state.nextAttemptAt = next?.nextAttemptAt ?? null;
+    },
+  },
+});
+
+export const { pendingWritesChanged } = outboxSlice.actions;
+export default outboxSlice.reducer;
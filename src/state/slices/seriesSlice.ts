@@ -0,0 +1,107 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { JobSeries } from '../../types';
+import {
+  NewSeries,
+  SeriesChanges,
+  createSeries,
+  endSeries,
+  extendAllSeries,
+  getSeries,
+  reviseSeries,
+} from '../../services/JobSeriesService';
+import { logService } from '../../services/LoggingService';
+import { fetchJobs } from './jobsSlice';
+
+interface SeriesState {
+  series: JobSeries[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: SeriesState = {
+  series: [],
+  loading: false,
+  error: null,
+};
+
+export const fetchSeries = createAsyncThunk('series/fetchSeries', async () => getSeries());
+
+// Series thunks write the occurrence jobs too, so jobs are reloaded afterwards.
+// Generated and regenerated occurrences are not part of the undo history.
+export const startSeries = createAsyncThunk('series/startSeries', async (input: NewSeries, { dispatch }) => {
+  const plan = await createSeries(input);
+  logService.logUserAction('Started recurring series via Redux', {
+    seriesId: plan.series.id,
+    occurrences: plan.create.length,
+  });
+  dispatch(fetchJobs());
+  return plan;
+});
+
+export const updateSeries = createAsyncThunk(
+  'series/updateSeries',
+  async ({ seriesId, changes, source }: { seriesId: string; changes: SeriesChanges; source: string }, { dispatch }) => {
+    const plan = await reviseSeries(seriesId, changes, source);
+    logService.logUserAction('Edited recurring series via Redux', { seriesId });
+    dispatch(fetchJobs());
+    return plan;
+  }
+);
+
+export const stopSeries = createAsyncThunk(
+  'series/stopSeries',
+  async ({ series, source }: { series: JobSeries; source: string }, { dispatch }) => {
+    const plan = await endSeries(series, source);
+    logService.logUserAction('Stopped recurring series via Redux', { seriesId: series.id });
+    dispatch(fetchJobs());
+    return plan;
+  }
+);
+
+export const generateUpcomingOccurrences = createAsyncThunk(
+  'series/generateUpcoming',
+  async (_: void, { dispatch }) => {
+    const created = await extendAllSeries();
+    if (created.length > 0) dispatch(fetchJobs());
+    return await getSeries();
+  }
+);
+
+const putSeries = (state: SeriesState, series: JobSeries) => {
+  state.series = [...state.series.filter((existing) => existing.id !== series.id), series];
+};
+
+const seriesSlice = createSlice({
+  name: 'series',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSeries.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSeries.fulfilled, (state, action) => {
+        state.loading = false;
+        state.series = action.payload;
+      })
+      .addCase(fetchSeries.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to load recurring series';
+      })
+      .addCase(startSeries.fulfilled, (state, action) => {
+        putSeries(state, action.payload.series);
+      })
+      .addCase(updateSeries.fulfilled, (state, action) => {
+        putSeries(state, action.payload.series);
+      })
+      .addCase(stopSeries.fulfilled, (state, action) => {
+        putSeries(state, action.payload.series);
+      })
+      .addCase(generateUpcomingOccurrences.fulfilled, (state, action) => {
+        state.series = action.payload;
+      });
+  },
+});
+
+export default seriesSlice.reducer;
@@ -3,11 +3,16 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 export interface SettingsState {
   userEmail: string;
   smsOnly: boolean;
+  // Trashed records older than this are purged automatically
+  trashRetentionDays: number;
 }
 
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
 const initialState: SettingsState = {
   userEmail: '',
   smsOnly: false,
+  trashRetentionDays: 30,
 };
 
 const settingsSlice = createSlice({
@@ -20,11 +25,16 @@ const settingsSlice = createSlice({
     setSmsOnly: (state, action: PayloadAction<boolean>) => {
       state.smsOnly = action.payload;
     },
+    setTrashRetentionDays: (state, action: PayloadAction<number>) => {
+      state.trashRetentionDays = action.payload;
+    },
+    // Applies settings restored from a backup archive
+    restoreSettings: (state, action: PayloadAction<SettingsState>) => ({ ...state, ...action.payload }),
     resetSettings: () => initialState,
   },
 });
 
-export const { setUserEmail, setSmsOnly, resetSettings } = settingsSlice.actions;
+export const { setUserEmail, setSmsOnly, setTrashRetentionDays, restoreSettings, resetSettings } = settingsSlice.actions;
 export default settingsSlice.reducer;
 
 
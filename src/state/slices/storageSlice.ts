@@ -0,0 +1,57 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  StorageReport,
+  cleanUpOrphanedReceipts,
+  compressReceipts,
+  inspectStorage,
+} from '../../services/StorageInspector';
+
+interface StorageState {
+  report: StorageReport | null;
+  inspecting: boolean;
+  error: string | null;
+}
+
+const initialState: StorageState = {
+  report: null,
+  inspecting: false,
+  error: null,
+};
+
+export const inspectStorageUsage = createAsyncThunk('storage/inspect', async () => inspectStorage());
+
+// Both actions re-inspect afterwards so the Settings figures stay current
+export const deleteOrphanedReceipts = createAsyncThunk('storage/deleteOrphans', async (_: void, { dispatch }) => {
+  const result = await cleanUpOrphanedReceipts();
+  dispatch(inspectStorageUsage());
+  return result;
+});
+
+export const compressReceiptImages = createAsyncThunk('storage/compressReceipts', async (_: void, { dispatch }) => {
+  const result = await compressReceipts();
+  dispatch(inspectStorageUsage());
+  return result;
+});
+
+const storageSlice = createSlice({
+  name: 'storage',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(inspectStorageUsage.pending, (state) => {
+        state.inspecting = true;
+        state.error = null;
+      })
+      .addCase(inspectStorageUsage.fulfilled, (state, action) => {
+        state.inspecting = false;
+        state.report = action.payload;
+      })
+      .addCase(inspectStorageUsage.rejected, (state, action) => {
+        state.inspecting = false;
+        state.error = action.error.message || 'Failed to inspect storage';
+      });
+  },
+});
+
+export default storageSlice.reducer;
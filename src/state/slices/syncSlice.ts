@@ -0,0 +1,86 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Job } from '../../types';
+import {
+  ConflictChoice,
+  JobConflict,
+  getSyncStatus,
+  resolveJobConflict,
+  synchronize,
+} from '../../services/SyncService';
+import { fetchJobs } from './jobsSlice';
+import { fetchClients } from './clientsSlice';
+import { clearHistory } from './historySlice';
+
+interface SyncState {
+  // False when the build has no sync server (EXPO_PUBLIC_SYNC_URL)
+  configured: boolean;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  conflicts: JobConflict[];
+  error: string | null;
+}
+
+const initialState: SyncState = {
+  configured: false,
+  syncing: false,
+  lastSyncedAt: null,
+  conflicts: [],
+  error: null,
+};
+
+export const fetchSyncStatus = createAsyncThunk('sync/fetchStatus', async () => getSyncStatus());
+
+// Undo steps recorded before remote changes arrived could overwrite them, so history is cleared
+export const syncNow = createAsyncThunk('sync/syncNow', async (_: void, { dispatch }) => {
+  const result = await synchronize();
+  if (result.pulled > 0) {
+    dispatch(clearHistory());
+    dispatch(fetchJobs());
+    dispatch(fetchClients());
+  }
+  return result;
+});
+
+export const resolveSyncConflict = createAsyncThunk(
+  'sync/resolveConflict',
+  async (
+    { jobId, choices }: { jobId: string; choices: Partial<Record<keyof Job, ConflictChoice>> },
+    { dispatch }
+  ) => {
+    await resolveJobConflict(jobId, choices);
+    dispatch(fetchJobs());
+    return jobId;
+  }
+);
+
+const syncSlice = createSlice({
+  name: 'sync',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSyncStatus.fulfilled, (state, action) => {
+        state.configured = action.payload.configured;
+        state.lastSyncedAt = action.payload.lastSyncedAt;
+        state.conflicts = action.payload.conflicts;
+      })
+      .addCase(syncNow.pending, (state) => {
+        state.syncing = true;
+        state.error = null;
+      })
+      .addCase(syncNow.fulfilled, (state, action) => {
+        state.syncing = false;
+        state.lastSyncedAt = action.payload.syncedAt;
+        state.conflicts = action.payload.conflicts;
+      })
+      .addCase(syncNow.rejected, (state, action) => {
+        state.syncing = false;
+        state.error = action.error.message || 'Sync failed';
+      })
+      .addCase(resolveSyncConflict.fulfilled, (state, action) => {
+        state.conflicts = state.conflicts.filter((conflict) => conflict.jobId !== action.payload);
+      });
+  },
+});
+
+export default syncSlice.reducer;
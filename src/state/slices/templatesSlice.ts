@@ -0,0 +1,59 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { JobTemplate } from '../../types';
+import { deleteTemplate, getTemplates, saveTemplate } from '../../services/JobTemplates';
+import { logService } from '../../services/LoggingService';
+
+interface TemplatesState {
+  templates: JobTemplate[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: TemplatesState = {
+  templates: [],
+  loading: false,
+  error: null,
+};
+
+export const fetchTemplates = createAsyncThunk('templates/fetchTemplates', async () => getTemplates());
+
+export const storeTemplate = createAsyncThunk('templates/storeTemplate', async (template: JobTemplate) => {
+  await saveTemplate(template);
+  logService.logUserAction('Saved job template via Redux', { templateId: template.id, name: template.name });
+  return template;
+});
+
+export const removeTemplate = createAsyncThunk('templates/removeTemplate', async (id: string) => {
+  await deleteTemplate(id);
+  logService.logUserAction('Deleted job template via Redux', { templateId: id });
+  return id;
+});
+
+const templatesSlice = createSlice({
+  name: 'templates',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTemplates.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTemplates.fulfilled, (state, action) => {
+        state.loading = false;
+        state.templates = action.payload;
+      })
+      .addCase(fetchTemplates.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to load templates';
+      })
+      .addCase(storeTemplate.fulfilled, (state, action) => {
+        state.templates = [...state.templates.filter((template) => template.id !== action.payload.id), action.payload];
+      })
+      .addCase(removeTemplate.fulfilled, (state, action) => {
+        state.templates = state.templates.filter((template) => template.id !== action.payload);
+      });
+  },
+});
+
+export default templatesSlice.reducer;
@@ -0,0 +1,193 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Client, Job, TrashEntry } from '../../types';
+import {
+  getTrash,
+  trashJob,
+  trashClient,
+  trashExpense,
+  restoreFromTrash,
+  purgeFromTrash,
+  emptyTrash as emptyTrashStorage,
+  purgeExpiredTrash,
+  trashEntryId,
+} from '../../services/TrashService';
+import { ClientDeletionPolicy } from '../../services/ClientService';
+import { getJobs } from '../../services/StorageService';
+import { applyChangesToList, recordChange } from '../../services/HistoryService';
+import { logService } from '../../services/LoggingService';
+import { fetchJobs } from './jobsSlice';
+import { JobTables, denormalizeJob, denormalizeJobs } from '../jobEntities';
+import { fetchClients } from './clientsSlice';
+import { buildHistoryEntry, recordHistory, redo, undo } from './historySlice';
+
+interface TrashState {
+  entries: TrashEntry[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: TrashState = {
+  entries: [],
+  loading: false,
+  error: null,
+};
+
+type TrashRootState = { jobs: JobTables; clients: { clients: Client[] } };
+
+export const fetchTrash = createAsyncThunk('trash/fetchTrash', async () => getTrash());
+
+// Trash thunks touch several collections, so the affected slices are reloaded afterwards
+export const moveJobToTrash = createAsyncThunk('trash/moveJob', async (id: string, { dispatch, getState }) => {
+  const before = denormalizeJob((getState() as TrashRootState).jobs, id);
+  const entry = await trashJob(id);
+  logService.logUserAction('Moved job to trash via Redux', { jobId: id });
+  dispatch(
+    recordHistory(
+      buildHistoryEntry(
+        'Job moved to trash',
+        [recordChange('jobs', before ?? (entry.record as Job), null), recordChange('trash', null, entry)],
+        true
+      )
+    )
+  );
+  dispatch(fetchJobs());
+  return entry;
+});
+
+export const moveClientToTrash = createAsyncThunk(
+  'trash/moveClient',
+  async ({ id, policy }: { id: string; policy?: ClientDeletionPolicy }, { dispatch, getState }) => {
+    const jobsBefore = denormalizeJobs((getState() as TrashRootState).jobs).filter((job) => job.clientId === id);
+    const entry = await trashClient(id, policy);
+    logService.logUserAction('Moved client to trash via Redux', { clientId: id, policy: policy?.mode ?? 'block' });
+
+    const cascaded = entry.cascadedJobIds || [];
+    const [jobsAfter, trashAfter] = await Promise.all([getJobs(), getTrash()]);
+    const jobEntryIds = cascaded.map((jobId) => trashEntryId('job', jobId));
+    dispatch(
+      recordHistory(
+        buildHistoryEntry(
+          'Client moved to trash',
+          [
+            recordChange('clients', entry.record as Client, null),
+            ...jobsBefore.map((job) =>
+              recordChange('jobs', job, cascaded.includes(job.id) ? null : jobsAfter.find((j) => j.id === job.id))
+            ),
+            recordChange('trash', null, entry),
+            ...trashAfter
+              .filter((trashed) => jobEntryIds.includes(trashed.id))
+              .map((trashed) => recordChange('trash', null, trashed)),
+          ],
+          true
+        )
+      )
+    );
+    dispatch(fetchClients());
+    dispatch(fetchJobs());
+    dispatch(fetchTrash());
+    return entry;
+  }
+);
+
+export const moveExpenseToTrash = createAsyncThunk(
+  'trash/moveExpense',
+  async ({ jobId, expenseId }: { jobId: string; expenseId: string }, { dispatch, getState }) => {
+    const before = denormalizeJob((getState() as TrashRootState).jobs, jobId);
+    const entry = await trashExpense(jobId, expenseId);
+    logService.logUserAction('Moved expense to trash via Redux', { jobId, expenseId });
+    if (before) {
+      const after = { ...before, expenses: before.expenses.filter((expense) => expense.id !== expenseId) };
+      dispatch(
+        recordHistory(
+          buildHistoryEntry(
+            'Expense moved to trash',
+            [recordChange('jobs', before, after), recordChange('trash', null, entry)],
+            true
+          )
+        )
+      );
+    }
+    dispatch(fetchJobs());
+    return entry;
+  }
+);
+
+export const restoreTrashEntry = createAsyncThunk(
+  'trash/restore',
+  async (entryId: string, { dispatch }) => {
+    await restoreFromTrash(entryId);
+    dispatch(fetchClients());
+    dispatch(fetchJobs());
+    return await getTrash();
+  }
+);
+
+export const purgeTrashEntry = createAsyncThunk('trash/purge', async (entryId: string) => {
+  await purgeFromTrash(entryId);
+  return entryId;
+});
+
+export const emptyTrash = createAsyncThunk('trash/empty', async () => {
+  await emptyTrashStorage();
+});
+
+export const purgeExpiredTrashEntries = createAsyncThunk(
+  'trash/purgeExpired',
+  async (retentionDays: number) => {
+    await purgeExpiredTrash(retentionDays);
+    return await getTrash();
+  }
+);
+
+const trashSlice = createSlice({
+  name: 'trash',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTrash.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTrash.fulfilled, (state, action) => {
+        state.loading = false;
+        state.entries = action.payload;
+      })
+      .addCase(fetchTrash.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to load trash';
+      })
+      .addCase(moveJobToTrash.fulfilled, (state, action) => {
+        state.entries = state.entries.filter((entry) => entry.id !== action.payload.id);
+        state.entries.push(action.payload);
+      })
+      .addCase(moveExpenseToTrash.fulfilled, (state, action) => {
+        state.entries = state.entries.filter((entry) => entry.id !== action.payload.id);
+        state.entries.push(action.payload);
+      })
+      .addCase(restoreTrashEntry.fulfilled, (state, action) => {
+        state.entries = action.payload;
+        state.error = null;
+      })
+      .addCase(restoreTrashEntry.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to restore item';
+      })
+      .addCase(purgeTrashEntry.fulfilled, (state, action) => {
+        state.entries = state.entries.filter((entry) => entry.id !== action.payload);
+      })
+      .addCase(emptyTrash.fulfilled, (state) => {
+        state.entries = [];
+      })
+      .addCase(purgeExpiredTrashEntries.fulfilled, (state, action) => {
+        state.entries = action.payload;
+      })
+      .addCase(undo.fulfilled, (state, action) => {
+        state.entries = applyChangesToList(state.entries, action.payload.changes, 'trash', 'undo');
+      })
+      .addCase(redo.fulfilled, (state, action) => {
+        state.entries = applyChangesToList(state.entries, action.payload.changes, 'trash', 'redo');
+      });
+  },
+});
+
+export default trashSlice.reducer;
@@ -1,15 +1,67 @@
 import { configureStore, combineReducers } from '@reduxjs/toolkit';
-import { persistStore, persistReducer } from 'redux-persist';
+import { persistStore, persistReducer, createMigrate, PersistConfig, PersistedState, PersistorOptions } from 'redux-persist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import jobsSlice from './slices/jobsSlice';
+import jobsSlice, { fetchJobs } from './slices/jobsSlice';
 import budgetSlice from './slices/budgetSlice';
-import clientsSlice from './slices/clientsSlice';
+import clientsSlice, { fetchClients } from './slices/clientsSlice';
 import settingsSlice from './slices/settingsSlice';
+import trashSlice, { purgeExpiredTrashEntries } from './slices/trashSlice';
+import syncSlice, { fetchSyncStatus } from './slices/syncSlice';
+import outboxSlice, { pendingWritesChanged } from './slices/outboxSlice';
+import storageSlice, { inspectStorageUsage } from './slices/storageSlice';
+import historySlice from './slices/historySlice';
+import templatesSlice, { fetchTemplates } from './slices/templatesSlice';
+import seriesSlice, { generateUpcomingOccurrences } from './slices/seriesSlice';
+import inventorySlice, { fetchInventory } from './slices/inventorySlice';
+import {
+  migrateLegacyPersistedCollections,
+  registeredCollectionKeys,
+  retryLegacyMigration,
+} from '../services/Repository';
+import { initializeSQLiteStorage } from '../services/SQLiteStorageBackend';
+import { CURRENT_SCHEMA_VERSION, persistMigrations } from '../services/SchemaMigrations';
+import { logService } from '../services/LoggingService';
+import { initializeEncryption } from '../services/EncryptionService';
+import { migrateToEncryptedStorage } from '../services/EncryptionMigration';
+import { flushOutbox, subscribeToOutbox } from '../services/OutboxService';
+import { encryptTransform } from './encryptTransform';
 
-const persistConfig = {
+// Older builds persisted jobs and clients inside the root blob as well as in the
+// repository keys. Merge those copies into the repository and drop them here.
+// They cannot stay in the blob (only budget and settings are persisted), so a
+// failed merge is retried on the next launch from the repository's backup.
+const migrateLegacyState = async (state: PersistedState): Promise<PersistedState> => {
+  if (!state) return state;
+  const { jobs, clients, ...rest } = state as PersistedState & {
+    jobs?: { jobs?: unknown[] };
+    clients?: { clients?: unknown[] };
+  };
+
+  try {
+    if (jobs || clients) {
+      await migrateLegacyPersistedCollections(jobs?.jobs || [], clients?.clients || []);
+    } else {
+      await retryLegacyMigration();
+    }
+  } catch (error) {
+    logService.logError('STORAGE', error as Error, { operation: 'migrateLegacyState' });
+  }
+  return rest as PersistedState;
+};
+
+const runSchemaMigrations = createMigrate(persistMigrations, { debug: __DEV__ });
+
+const migrate = async (state: PersistedState, currentVersion: number): Promise<PersistedState> =>
+  runSchemaMigrations(await migrateLegacyState(state), currentVersion);
+
+const persistConfig: PersistConfig<ReturnType<typeof rootReducer>> = {
   key: 'root',
+  version: CURRENT_SCHEMA_VERSION,
   storage: AsyncStorage,
-  whitelist: ['jobs', 'budget', 'clients', 'settings'], // Persist jobs, budget, clients, and settings
+  // Jobs, clients and the trash live in the repository (see services/Repository.ts)
+  whitelist: ['budget', 'settings'],
+  transforms: [encryptTransform],
+  migrate,
 };
 
 const rootReducer = combineReducers({
@@ -17,6 +69,14 @@ const rootReducer = combineReducers({
   budget: budgetSlice,
   clients: clientsSlice,
   settings: settingsSlice,
+  trash: trashSlice,
+  history: historySlice,
+  sync: syncSlice,
+  outbox: outboxSlice,
+  storage: storageSlice,
+  templates: templatesSlice,
+  series: seriesSlice,
+  inventory: inventorySlice,
 });
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
@@ -31,7 +91,37 @@ export const store = configureStore({
     }),
 });
 
-export const persistor = persistStore(store);
+// Once rehydration (and migration) finishes, switch the repositories to SQLite
+// (falling back to AsyncStorage), encrypt any data stored before encryption,
+// retry writes left in the outbox, purge expired trash, generate upcoming
+// recurring jobs, load the repository-backed collections and sync status, and
+// check storage usage.
+// manualPersist is supported by redux-persist v6 but missing from its typings.
+const persistorOptions = { manualPersist: true } as PersistorOptions;
+
+export const persistor = persistStore(store, persistorOptions, () => {
+  initializeSQLiteStorage(registeredCollectionKeys)
+    .then(() => migrateToEncryptedStorage())
+    .then(() => flushOutbox())
+    .catch((error) => logService.logError('STORAGE', error as Error, { operation: 'startup' }))
+    .finally(() => {
+      store.dispatch(fetchJobs());
+      store.dispatch(fetchClients());
+      store.dispatch(fetchTemplates());
+      store.dispatch(fetchInventory());
+      store.dispatch(generateUpcomingOccurrences());
+      store.dispatch(purgeExpiredTrashEntries(store.getState().settings.trashRetentionDays));
+      store.dispatch(fetchSyncStatus());
+      store.dispatch(inspectStorageUsage());
+    });
+});
+
+subscribeToOutbox((pending) => store.dispatch(pendingWritesChanged(pending)));
+
+// Persisted state is decrypted on rehydrate, so the device key must be loaded first
+initializeEncryption()
+  .catch((error) => logService.logError('ENCRYPTION', error as Error, { operation: 'initializeEncryption' }))
+  .finally(() => persistor.persist());
 
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
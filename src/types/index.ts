@@ -13,15 +13,143 @@ export interface Job {
   description: string;
   clientId: string;
   clientName: string; // Keep for easy display
+  // The quoted total; derived from the line items when there are any (see services/QuoteCalculator.ts)
   quote: number;
+  lineItems?: QuoteLineItem[];
+  discount?: QuoteDiscount;
+  taxRate?: number; // Percent, applied to taxable items after the discount
+  // Snapshots of the quote as sent; the fields above are the working draft (see services/QuoteRevisions.ts)
+  quoteRevisions?: QuoteRevision[];
+  acceptedRevision?: number; // Set while the quote is locked to the revision the client accepted
+  quoteAcceptance?: QuoteAcceptance; // The client's signature on the accepted revision
   quoteDate: string;
   startDate: string;
   endDate: string;
-  status: 'Quoted' | 'Accepted' | 'In-Progress' | 'Completed' | 'Cancelled';
+  status: 'Quoted' | 'Accepted' | 'In-Progress' | 'On-Hold' | 'Completed' | 'Cancelled';
   expenses: Expense[];
   toolsAndSupplies?: ChecklistItem[];
+  tasks?: JobTask[]; // The work to do; required tasks gate completion (see services/JobTasks.ts)
   notes?: string;
   payments?: Payment[];
+  timeEntries?: TimeEntry[]; // Hours logged against the job (see services/TimeTracking.ts)
+  visits?: Visit[]; // Scheduled days on site with the crew assigned (see services/VisitScheduling.ts)
+  // Stamped by status transitions (see services/JobLifecycle.ts)
+  actualStartDate?: string;
+  actualEndDate?: string;
+  statusHistory?: StatusTransition[];
+  // Set on jobs generated by a recurring series (see services/JobSeriesService.ts)
+  seriesId?: string;
+  occurrenceDate?: string; // The date the series scheduled it for, kept if the job is moved
+  seriesOverride?: boolean; // Edited on its own, so changes to the series leave it alone
+}
+
+export type QuoteLineItemCategory = 'Labor' | 'Materials' | 'Equipment' | 'Other';
+
+export interface QuoteLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string; // e.g. hr, sq ft, each
+  unitPrice: number;
+  taxable: boolean;
+  category: QuoteLineItemCategory;
+}
+
+export interface QuoteDiscount {
+  type: 'percent' | 'amount';
+  value: number;
+}
+
+// An immutable, numbered copy of a job's quote
+export interface QuoteRevision {
+  number: number;
+  createdAt: string;
+  sentVia?: 'email' | 'sms';
+  quote: number;
+  lineItems?: QuoteLineItem[];
+  discount?: QuoteDiscount;
+  taxRate?: number;
+}
+
+// A signature drawn on the device: SVG path data in a width x height box
+export interface Signature {
+  width: number;
+  height: number;
+  paths: string[];
+}
+
+export interface QuoteAcceptance {
+  revision: number;
+  signerName: string;
+  signedAt: string;
+  signature: Signature;
+  pdfUri?: string; // The signed quote, rendered to a PDF in the documents directory
+}
+
+// What a template or a recurring series fills into each new job
+export interface JobTemplateDetails {
+  jobName: string;
+  description: string;
+  quote: number;
+  lineItems?: QuoteLineItem[];
+  discount?: QuoteDiscount;
+  taxRate?: number;
+  toolsAndSupplies: string[]; // Checklist text; each job gets its own unchecked items
+  tasks?: Pick<JobTask, 'text' | 'required'>[]; // Likewise, without assignees or due dates
+  notesTemplate?: string; // {client} and {date} are filled in per job
+}
+
+export interface JobTemplate extends JobTemplateDetails {
+  id: string;
+  name: string;
+  createdDate: string;
+}
+
+// Something the business keeps in stock. Tools are reused from job to job;
+// consumables are used up by the jobs they are linked to.
+export interface InventoryItem {
+  id: string;
+  name: string;
+  kind: 'tool' | 'consumable';
+  quantityOnHand: number;
+  unit?: string; // e.g. "rolls", "gal"
+  unitCost: number;
+  location?: string;
+  reorderThreshold: number; // Keep at least this many; below it the item goes on the shopping list
+  createdDate: string;
+  updatedDate?: string;
+  usage?: InventoryUsage[]; // Consumed by completed jobs, oldest first
+}
+
+export interface InventoryUsage {
+  jobId: string;
+  quantity: number;
+  date: string;
+}
+
+// A client's repeating booking. Its occurrences are generated as ordinary jobs
+// a few weeks ahead (see services/JobSeriesService.ts)
+export interface JobSeries {
+  id: string;
+  clientId: string;
+  clientName: string;
+  templateId?: string;
+  rule: string; // RFC 5545 RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO
+  startDate: string; // First occurrence, YYYY-MM-DD
+  durationDays: number; // From an occurrence's start date to its end date
+  details: JobTemplateDetails;
+  exdates?: string[]; // Occurrences that were deleted and must not come back
+  generatedThrough: string; // Last date jobs have been generated for
+  createdDate: string;
+}
+
+// One entry in a job's status log
+export interface StatusTransition {
+  from: Job['status'];
+  to: Job['status'];
+  at: string;
+  source: string;
+  reason?: string;
 }
 
 export interface Expense {
@@ -34,11 +162,43 @@ export interface Expense {
   receiptImageLocalUri?: string;
 }
 
+export type VisitStatus = 'Scheduled' | 'Completed' | 'Cancelled';
+
+// One day's work on a job; times are device-local "HH:MM"
+export interface Visit {
+  id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  workers: string[];
+  status: VisitStatus;
+  notes?: string;
+}
+
+// A clocked or manually entered work session; `end` is absent while the timer runs
+export interface TimeEntry {
+  id: string;
+  start: string; // ISO timestamp
+  end?: string;
+  notes?: string;
+  billable: boolean;
+}
+
 export interface ChecklistItem {
   id: string;
   text: string;
   completed: boolean;
   createdDate: string;
+  // Tools & Supplies entries can stand for stock in the inventory (see services/InventoryService.ts)
+  inventoryItemId?: string;
+  quantity?: number; // How many the job needs; 1 when not given
+}
+
+// A step of the work, as opposed to a tool or supply to bring
+export interface JobTask extends ChecklistItem {
+  required: boolean; // Must be checked off before the job can be Completed
+  assignee?: string;
+  dueDate?: string; // YYYY-MM-DD
 }
 
 export interface Payment {
@@ -52,6 +212,47 @@ export interface Payment {
   notes?: string;
 }
 
+export type TrashItemType = 'job' | 'client' | 'expense';
+
+// A soft-deleted record, kept until restored or purged
+export interface TrashEntry {
+  id: string; // `${type}:${recordId}`, or `expense:${jobId}:${recordId}`
+  type: TrashItemType;
+  recordId: string;
+  label: string;
+  deletedAt: string;
+  record: Job | Client | Expense;
+  // Expenses: the job they were removed from
+  jobId?: string;
+  // Clients: jobs trashed along with the client
+  cascadedJobIds?: string[];
+}
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditFieldChange {
+  field: keyof Job;
+  from: AuditValue;
+  to: AuditValue;
+}
+
+// Immutable record of the field-level changes made to a job in one save
+export interface AuditEntry {
+  id: string;
+  jobId: string;
+  timestamp: string;
+  source: string; // Screen or process that made the change
+  changes: AuditFieldChange[];
+}
+
+// A collection that could not be read from storage. The records loaded
+// before the failure stay in state, so a failed read never looks like an empty list.
+export interface LoadError {
+  collection: 'jobs' | 'clients';
+  message: string;
+  failedAt: string;
+}
+
 export interface PaymentRequest {
   jobId: string;
   amount: number;